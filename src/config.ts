@@ -5,6 +5,8 @@
  * This is the first file you should modify when cloning the template.
  */
 
+import { getEnvAsBoolean, getEnvAsNumber } from "./utils/env.js";
+
 export const CONFIG = {
   /**
    * Server name - used for identification and metrics file naming.
@@ -37,6 +39,52 @@ export const CONFIG = {
    * Default: 1MB (1024 * 1024 bytes)
    */
   metricsMaxSizeBytes: 1024 * 1024,
+
+  /**
+   * How long LottieFiles API responses are cached, in seconds.
+   * Set to 0 to disable the response cache.
+   *
+   * Can be overridden at runtime with: LOTTIE_CACHE_TTL_SECONDS
+   */
+  cacheTtlSeconds: 600,
+
+  /**
+   * Maximum number of cached API responses kept in memory.
+   * When exceeded, the least recently used responses are evicted.
+   *
+   * Can be overridden at runtime with: LOTTIE_CACHE_MAX_ENTRIES
+   */
+  cacheMaxEntries: 500,
+
+  /**
+   * Persist the response cache to ~/.mcp/lottie-cache.json so it survives restarts.
+   *
+   * Can be overridden at runtime with: LOTTIE_CACHE_PERSIST=true|false
+   */
+  cachePersist: false,
+
+  /**
+   * Timeout for a single LottieFiles API request, in milliseconds.
+   *
+   * Can be overridden at runtime with: LOTTIE_REQUEST_TIMEOUT_MS
+   */
+  requestTimeoutMs: 15000,
+
+  /**
+   * How many times a failed request (429, 5xx, network error, timeout) is retried
+   * with exponential backoff before giving up.
+   *
+   * Can be overridden at runtime with: LOTTIE_MAX_RETRIES
+   */
+  maxRetries: 3,
+
+  /**
+   * Maximum number of LottieFiles API requests in flight at once.
+   * Extra requests wait for a free slot instead of hammering the API.
+   *
+   * Can be overridden at runtime with: LOTTIE_MAX_CONCURRENT_REQUESTS
+   */
+  maxConcurrentRequests: 4,
 } as const;
 
 /**
@@ -52,3 +100,25 @@ export function isMetricsEnabled(): boolean {
   }
   return CONFIG.metricsEnabled;
 }
+
+/**
+ * Gets the response cache settings, considering environment variable overrides.
+ */
+export function getCacheConfig(): { ttlSeconds: number; maxEntries: number; persist: boolean } {
+  return {
+    ttlSeconds: getEnvAsNumber("LOTTIE_CACHE_TTL_SECONDS", CONFIG.cacheTtlSeconds),
+    maxEntries: getEnvAsNumber("LOTTIE_CACHE_MAX_ENTRIES", CONFIG.cacheMaxEntries),
+    persist: getEnvAsBoolean("LOTTIE_CACHE_PERSIST", CONFIG.cachePersist),
+  };
+}
+
+/**
+ * Gets the API request settings, considering environment variable overrides.
+ */
+export function getRequestConfig(): { timeoutMs: number; maxRetries: number; maxConcurrent: number } {
+  return {
+    timeoutMs: getEnvAsNumber("LOTTIE_REQUEST_TIMEOUT_MS", CONFIG.requestTimeoutMs),
+    maxRetries: getEnvAsNumber("LOTTIE_MAX_RETRIES", CONFIG.maxRetries),
+    maxConcurrent: getEnvAsNumber("LOTTIE_MAX_CONCURRENT_REQUESTS", CONFIG.maxConcurrentRequests),
+  };
+}
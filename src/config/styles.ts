@@ -44,6 +44,13 @@ export function setProjectRoot(path: string): void {
   log.debug("Project root set", { path });
 }
 
+/**
+ * Get the project root directory
+ */
+export function getProjectRoot(): string {
+  return projectRoot;
+}
+
 /**
  * Get project config path
  */
@@ -0,0 +1,14 @@
+/**
+ * Error class for integration code generation failures.
+ */
+
+/**
+ * Thrown when no code can be generated for the requested framework, source
+ * and options (e.g. a dotLottie file for a player that only reads JSON).
+ */
+export class IntegrationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "IntegrationError";
+  }
+}
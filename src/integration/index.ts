@@ -0,0 +1,16 @@
+/**
+ * Integration module public exports.
+ */
+
+export { IntegrationError } from "./errors.js";
+export {
+  FRAMEWORKS,
+  Framework,
+  AnimationSource,
+  IntegrationTarget,
+  PlaybackOptions,
+  IntegrationFile,
+  Integration,
+  componentNameFor,
+  generateIntegration,
+} from "./snippets.js";
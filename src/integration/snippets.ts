@@ -0,0 +1,899 @@
+/**
+ * Framework-specific player code: the install step and a ready-to-use
+ * component that plays a Lottie animation with the requested loop, autoplay,
+ * speed, segment and hover settings.
+ */
+
+import { IntegrationError } from "./errors.js";
+
+/**
+ * Frameworks code can be generated for.
+ */
+export const FRAMEWORKS = [
+  "html",
+  "react",
+  "react-dotlottie",
+  "vue",
+  "svelte",
+  "angular",
+  "react-native",
+  "flutter",
+  "swiftui",
+  "compose",
+] as const;
+
+export type Framework = (typeof FRAMEWORKS)[number];
+
+/**
+ * Where the animation is loaded from: LottieFiles download URLs, or a file
+ * in the project (path relative to the project root).
+ */
+export type AnimationSource =
+  | { kind: "remote"; jsonUrl: string | null; dotLottieUrl: string | null }
+  | { kind: "file"; path: string };
+
+/**
+ * The animation to generate code for.
+ */
+export interface IntegrationTarget {
+  /** Animation name, used to name the component */
+  name: string;
+
+  source: AnimationSource;
+
+  /** Canvas size, for players that need an explicit aspect ratio */
+  width?: number;
+  height?: number;
+}
+
+/**
+ * Playback settings for the generated code.
+ */
+export interface PlaybackOptions {
+  /** Repeat forever (default: true) */
+  loop?: boolean;
+
+  /** Start playing once loaded (default: true); ignored when `hover` is set */
+  autoplay?: boolean;
+
+  /** Speed multiplier (default: 1) */
+  speed?: number;
+
+  /** Play only this frame range */
+  segment?: { start: number; end: number };
+
+  /** Play while hovered and pause when the pointer leaves (while pressed on touch screens) */
+  hover?: boolean;
+
+  /** Component name (default: derived from the animation name) */
+  componentName?: string;
+}
+
+/**
+ * A file of generated code.
+ */
+export interface IntegrationFile {
+  /** Suggested file name */
+  path: string;
+
+  /** Code block language */
+  language: string;
+
+  code: string;
+}
+
+/**
+ * Generated code for one framework.
+ */
+export interface Integration {
+  framework: Framework;
+
+  /** Framework and player, e.g. "React (lottie-react)" */
+  label: string;
+
+  /** Packages the code depends on */
+  packages: string[];
+
+  /** Command or build file line that installs the packages, if any */
+  install: { language: string; code: string } | null;
+
+  files: IntegrationFile[];
+  notes: string[];
+}
+
+/**
+ * The animation location chosen for a player.
+ */
+type Location =
+  | { kind: "url"; url: string; dotLottie: boolean }
+  | { kind: "file"; path: string; dotLottie: boolean };
+
+/**
+ * Everything a framework generator needs; generators add to `notes`.
+ */
+interface Context {
+  component: string;
+  location: Location;
+  loop: boolean;
+  autoplay: boolean;
+  speed: number;
+  segment: [number, number] | null;
+  hover: boolean;
+  width?: number;
+  height?: number;
+  notes: string[];
+}
+
+interface FrameworkSpec {
+  label: string;
+  packages: string[];
+  install: Integration["install"];
+
+  /** Whether the player can load dotLottie (.lottie) files */
+  dotLottie: boolean;
+
+  generate: (context: Context) => IntegrationFile[];
+}
+
+const LOTTIE_PLAYER_SCRIPT =
+  '<script src="https://unpkg.com/@lottiefiles/lottie-player@latest/dist/lottie-player.js"></script>';
+
+const num = (value: number) => String(Math.round(value * 1000) / 1000);
+const quote = (value: string) => JSON.stringify(value);
+const kotlinQuote = (value: string) => JSON.stringify(value).replace(/\$/g, "\\$");
+const dartQuote = (value: string) => `'${value.replace(/\\/g, "\\\\").replace(/'/g, "\\'").replace(/\$/g, "\\$")}'`;
+const pascalCase = (name: string) =>
+  name
+    .split(/[^A-Za-z0-9]+/)
+    .filter((word) => word !== "")
+    .map((word) => word[0].toUpperCase() + (word === word.toUpperCase() ? word.slice(1).toLowerCase() : word.slice(1)))
+    .join("");
+const separated = (component: string, separator: string) =>
+  component.replace(/([a-z0-9])([A-Z])/g, `$1${separator}$2`).toLowerCase();
+const fileName = (path: string) => path.split("/").pop() ?? path;
+const stem = (path: string) => fileName(path).replace(/\.(json|lottie)$/i, "");
+
+/**
+ * Derives a component name such as "SuccessCheckAnimation" from an animation name.
+ */
+export function componentNameFor(name: string): string {
+  const pascal = pascalCase(name);
+  // Identifiers cannot start with a digit
+  const base = /^[A-Za-z]/.test(pascal) ? pascal : `Lottie${pascal}`;
+  return base.endsWith("Animation") ? base : `${base}Animation`;
+}
+
+/**
+ * URL a web app serves a project file at: files in public/ or static/ are
+ * served from the site root, and Angular serves src/assets/ at /assets/.
+ */
+function webUrl(context: Context): string {
+  const { location } = context;
+  if (location.kind === "url") {
+    return location.url;
+  }
+
+  const served = /^(?:public|static)\/(.+)$/.exec(location.path) ?? /^src\/(assets\/.+)$/.exec(location.path);
+  if (served) {
+    return `/${served[1]}`;
+  }
+
+  const url = `/${fileName(location.path)}`;
+  context.notes.push(`Serve ${location.path} at ${url} (e.g. from your public or static folder), or change the URL in the code`);
+  return url;
+}
+
+/**
+ * Module path for bundlers that import the file, relative to the project root.
+ */
+function importPath(context: Context, path: string): string {
+  context.notes.push("The import path is relative to the project root; adjust it to where you put the component");
+  return path.startsWith(".") ? path : `./${path}`;
+}
+
+/**
+ * Props or attributes of a self-closing element, one per line.
+ */
+function element(tag: string, props: string[], indent: string): string[] {
+  return [`${indent}<${tag}`, ...props.map((prop) => `${indent}  ${prop}`), `${indent}/>`];
+}
+
+function html(context: Context): IntegrationFile[] {
+  const { segment } = context;
+  const id = separated(context.component, "-");
+  const attributes = [`src="${webUrl(context)}"`, 'background="transparent"', `speed="${num(context.speed)}"`];
+  if (segment) {
+    attributes.unshift(`id="${id}"`);
+  }
+  if (context.loop) {
+    attributes.push("loop");
+  }
+  if (context.hover) {
+    attributes.push("hover");
+    context.notes.push("lottie-player rewinds the animation when the pointer leaves");
+  } else if (context.autoplay && !segment) {
+    attributes.push("autoplay");
+  }
+
+  const lines = [LOTTIE_PLAYER_SCRIPT, `<lottie-player ${attributes.join(" ")}></lottie-player>`];
+  if (segment) {
+    lines.push(
+      "<script>",
+      `  const player = document.getElementById("${id}");`,
+      '  player.addEventListener("ready", () => {',
+      "    const animation = player.getLottie();",
+      `    animation.setSegment(${num(segment[0])}, ${num(segment[1])});`,
+      context.autoplay && !context.hover ? "    animation.play();" : "    animation.goToAndStop(0, true);",
+      "  });",
+      "</script>"
+    );
+  }
+
+  return [{ path: `${id}.html`, language: "html", code: lines.join("\n") }];
+}
+
+function react(context: Context): IntegrationFile[] {
+  const { location, segment } = context;
+  const useRef = context.hover || context.speed !== 1;
+  const remote = location.kind === "url";
+  const hooks = [...(remote ? ["useEffect"] : []), ...(useRef ? ["useRef"] : []), ...(remote ? ["useState"] : [])];
+
+  const lines: string[] = [];
+  if (hooks.length > 0) {
+    lines.push(`import { ${hooks.join(", ")} } from "react";`);
+  }
+  lines.push(useRef ? 'import Lottie, { type LottieRefCurrentProps } from "lottie-react";' : 'import Lottie from "lottie-react";');
+  if (location.kind === "file") {
+    lines.push(`import animationData from ${quote(importPath(context, location.path))};`);
+  }
+  lines.push("", `export function ${context.component}() {`);
+  if (useRef) {
+    lines.push("  const lottieRef = useRef<LottieRefCurrentProps>(null);");
+  }
+  if (remote) {
+    lines.push(
+      "  const [animationData, setAnimationData] = useState<unknown>(null);",
+      "",
+      "  useEffect(() => {",
+      `    fetch(${quote(location.url)})`,
+      "      .then((response) => response.json())",
+      "      .then(setAnimationData);",
+      "  }, []);",
+      "",
+      "  if (!animationData) {",
+      "    return null;",
+      "  }"
+    );
+  }
+
+  const props: string[] = [];
+  if (useRef) {
+    props.push("lottieRef={lottieRef}");
+  }
+  props.push("animationData={animationData}");
+  props.push(context.loop ? "loop" : "loop={false}");
+  props.push(context.autoplay && !context.hover ? "autoplay" : "autoplay={false}");
+  if (segment) {
+    props.push(`initialSegment={[${num(segment[0])}, ${num(segment[1])}]}`);
+  }
+  if (context.speed !== 1) {
+    props.push(`onDOMLoaded={() => lottieRef.current?.setSpeed(${num(context.speed)})}`);
+  }
+  if (context.hover) {
+    props.push("onMouseEnter={() => lottieRef.current?.play()}", "onMouseLeave={() => lottieRef.current?.pause()}");
+  }
+
+  lines.push("", "  return (", ...element("Lottie", props, "    "), "  );", "}");
+  return [{ path: `${context.component}.tsx`, language: "tsx", code: lines.join("\n") }];
+}
+
+/**
+ * Props shared by the dotLottie web players (React, Vue and Svelte), in the
+ * attribute syntax of each framework.
+ */
+function dotLottieProps(context: Context, bind: (name: string, value: string) => string): string[] {
+  const props = [`src=${quote(webUrl(context))}`];
+  if (context.loop) {
+    props.push("loop");
+  }
+  if (context.autoplay && !context.hover) {
+    props.push("autoplay");
+  }
+  if (context.speed !== 1) {
+    props.push(bind("speed", num(context.speed)));
+  }
+  if (context.segment) {
+    props.push(bind("segment", `[${num(context.segment[0])}, ${num(context.segment[1])}]`));
+  }
+  return props;
+}
+
+function reactDotLottie(context: Context): IntegrationFile[] {
+  const props = dotLottieProps(context, (name, value) => `${name}={${value}}`);
+  const lines: string[] = [];
+  if (context.hover) {
+    lines.push('import { useState } from "react";', 'import { DotLottieReact, type DotLottie } from "@lottiefiles/dotlottie-react";');
+    props.push(
+      "dotLottieRefCallback={setDotLottie}",
+      "onMouseEnter={() => dotLottie?.play()}",
+      "onMouseLeave={() => dotLottie?.pause()}"
+    );
+  } else {
+    lines.push('import { DotLottieReact } from "@lottiefiles/dotlottie-react";');
+  }
+
+  lines.push("", `export function ${context.component}() {`);
+  if (context.hover) {
+    lines.push("  const [dotLottie, setDotLottie] = useState<DotLottie | null>(null);", "");
+  }
+  lines.push("  return (", ...element("DotLottieReact", props, "    "), "  );", "}");
+  return [{ path: `${context.component}.tsx`, language: "tsx", code: lines.join("\n") }];
+}
+
+function vue(context: Context): IntegrationFile[] {
+  const props = dotLottieProps(context, (name, value) => `:${name}="${value}"`);
+  const lines = ['<script setup lang="ts">'];
+  if (context.hover) {
+    lines.push(
+      'import { ref } from "vue";',
+      'import { DotLottieVue } from "@lottiefiles/dotlottie-vue";',
+      "",
+      "const player = ref<InstanceType<typeof DotLottieVue> | null>(null);",
+      "",
+      "function play() {",
+      "  player.value?.getDotLottieInstance()?.play();",
+      "}",
+      "",
+      "function pause() {",
+      "  player.value?.getDotLottieInstance()?.pause();",
+      "}"
+    );
+    props.unshift('ref="player"');
+    props.push('@mouseenter="play"', '@mouseleave="pause"');
+  } else {
+    lines.push('import { DotLottieVue } from "@lottiefiles/dotlottie-vue";');
+  }
+  lines.push("</script>", "", "<template>", ...element("DotLottieVue", props, "  "), "</template>");
+  return [{ path: `${context.component}.vue`, language: "vue", code: lines.join("\n") }];
+}
+
+function svelte(context: Context): IntegrationFile[] {
+  const props = dotLottieProps(context, (name, value) => `${name}={${value}}`);
+  const lines = ["<script lang=\"ts\">", '  import { DotLottieSvelte } from "@lottiefiles/dotlottie-svelte";'];
+  if (context.hover) {
+    lines.push(
+      '  import type { DotLottie } from "@lottiefiles/dotlottie-svelte";',
+      "",
+      "  let dotLottie = $state<DotLottie | null>(null);"
+    );
+    props.push("dotLottieRefCallback={(ref) => (dotLottie = ref)}");
+  }
+  lines.push("</script>", "");
+  if (context.hover) {
+    lines.push(
+      "<div",
+      '  role="presentation"',
+      "  onmouseenter={() => dotLottie?.play()}",
+      "  onmouseleave={() => dotLottie?.pause()}",
+      ">",
+      ...element("DotLottieSvelte", props, "  "),
+      "</div>"
+    );
+  } else {
+    lines.push(...element("DotLottieSvelte", props, ""));
+  }
+  context.notes.push("The component uses Svelte 5 syntax");
+  return [{ path: `${context.component}.svelte`, language: "svelte", code: lines.join("\n") }];
+}
+
+function angular(context: Context): IntegrationFile[] {
+  const { segment } = context;
+  const onCreated = context.hover || context.speed !== 1;
+  const selector = separated(context.component, "-");
+
+  const template = ['<ng-lottie [options]="options"'];
+  if (onCreated) {
+    template.push('(animationCreated)="onAnimationCreated($event)"');
+  }
+  if (context.hover) {
+    template.push('(mouseenter)="animation?.play()"', '(mouseleave)="animation?.pause()"');
+  }
+
+  const options = [`path: ${quote(webUrl(context))},`, `loop: ${context.loop},`, `autoplay: ${context.autoplay && !context.hover},`];
+  if (segment) {
+    options.push(`initialSegment: [${num(segment[0])}, ${num(segment[1])}],`);
+  }
+
+  const lines = [
+    'import { Component } from "@angular/core";',
+    'import { AnimationOptions, LottieComponent } from "ngx-lottie";',
+    ...(onCreated ? ['import type { AnimationItem } from "lottie-web";'] : []),
+    "",
+    "@Component({",
+    `  selector: "app-${selector}",`,
+    "  standalone: true,",
+    "  imports: [LottieComponent],",
+    `  template: \`${template.join(" ")} />\`,`,
+    "})",
+    `export class ${context.component}Component {`,
+    "  readonly options: AnimationOptions = {",
+    ...options.map((option) => `    ${option}`),
+    "  };",
+  ];
+  if (onCreated) {
+    lines.push(
+      "",
+      "  protected animation: AnimationItem | null = null;",
+      "",
+      "  onAnimationCreated(animation: AnimationItem): void {",
+      "    this.animation = animation;",
+      ...(context.speed !== 1 ? [`    animation.setSpeed(${num(context.speed)});`] : []),
+      "  }"
+    );
+  }
+  lines.push("}");
+
+  const config = [
+    'import { ApplicationConfig } from "@angular/core";',
+    'import { provideLottieOptions } from "ngx-lottie";',
+    "",
+    "export const appConfig: ApplicationConfig = {",
+    '  providers: [provideLottieOptions({ player: () => import("lottie-web") })],',
+    "};",
+  ];
+  context.notes.push("Add provideLottieOptions to the providers in your existing app.config.ts");
+
+  return [
+    { path: `${selector}.component.ts`, language: "typescript", code: lines.join("\n") },
+    { path: "app.config.ts", language: "typescript", code: config.join("\n") },
+  ];
+}
+
+function reactNative(context: Context): IntegrationFile[] {
+  const { location, segment } = context;
+  const playSegment = segment ? `${num(segment[0])}, ${num(segment[1])}` : "";
+  // LottieView has no segment prop: play the segment from an effect instead of autoPlay
+  const segmentEffect = segment !== null && context.autoplay && !context.hover;
+  const useRef = context.hover || segmentEffect;
+
+  let source: string;
+  if (location.kind === "url") {
+    source = `{{ uri: ${quote(location.url)} }}`;
+  } else {
+    source = `{require(${quote(importPath(context, location.path))})}`;
+    if (location.dotLottie) {
+      context.notes.push('Add "lottie" to resolver.assetExts in metro.config.js so Metro bundles .lottie files');
+    }
+  }
+
+  let aspectRatio = "1";
+  if (context.width && context.height) {
+    aspectRatio = num(context.width / context.height);
+  } else {
+    context.notes.push("Set aspectRatio to the animation's width divided by its height");
+  }
+
+  const props: string[] = [];
+  if (useRef) {
+    props.push("ref={animationRef}");
+  }
+  props.push(`source=${source}`);
+  if (context.autoplay && !context.hover && !segmentEffect) {
+    props.push("autoPlay");
+  }
+  // LottieView loops unless told otherwise
+  props.push(context.loop ? "loop" : "loop={false}");
+  if (context.speed !== 1) {
+    props.push(`speed={${num(context.speed)}}`);
+  }
+  props.push(`style={{ width: "100%", aspectRatio: ${aspectRatio} }}`);
+
+  const hooks = [...(segmentEffect ? ["useEffect"] : []), ...(useRef ? ["useRef"] : [])];
+  const lines: string[] = [];
+  if (hooks.length > 0) {
+    lines.push(`import { ${hooks.join(", ")} } from "react";`);
+  }
+  if (context.hover) {
+    lines.push('import { Pressable } from "react-native";');
+  }
+  lines.push('import LottieView from "lottie-react-native";', "", `export function ${context.component}() {`);
+  if (useRef) {
+    lines.push("  const animationRef = useRef<LottieView>(null);", "");
+  }
+  if (segmentEffect) {
+    lines.push("  useEffect(() => {", `    animationRef.current?.play(${playSegment});`, "  }, []);", "");
+  }
+
+  if (context.hover) {
+    lines.push(
+      "  return (",
+      "    <Pressable",
+      `      onPressIn={() => animationRef.current?.play(${playSegment})}`,
+      "      onPressOut={() => animationRef.current?.pause()}",
+      "    >",
+      ...element("LottieView", props, "      "),
+      "    </Pressable>",
+      "  );",
+      "}"
+    );
+    context.notes.push("Touch screens have no hover, so the animation plays while it is pressed");
+  } else {
+    lines.push("  return (", ...element("LottieView", props, "    "), "  );", "}");
+  }
+
+  context.notes.push("Run `npx pod-install` after installing so iOS links the native module");
+  return [{ path: `${context.component}.tsx`, language: "tsx", code: lines.join("\n") }];
+}
+
+function flutter(context: Context): IntegrationFile[] {
+  const { location, segment } = context;
+  const name = context.component;
+  const canPlay = context.autoplay || context.hover;
+
+  let widget: [string, string];
+  if (location.kind === "url") {
+    widget = ["Lottie.network", dartQuote(location.url)];
+  } else {
+    widget = ["Lottie.asset", dartQuote(location.path)];
+    context.notes.push(`List ${location.path} under flutter: assets: in pubspec.yaml`);
+  }
+
+  const duration = context.speed === 1 ? "composition.duration" : `composition.duration * (1 / ${num(context.speed)})`;
+  const onLoaded = ["  void _onLoaded(LottieComposition composition) {"];
+  if (segment) {
+    onLoaded.push(
+      "    final frames = composition.endFrame - composition.startFrame;",
+      `    _start = (${num(segment[0])} - composition.startFrame) / frames;`,
+      `    _end = (${num(segment[1])} - composition.startFrame) / frames;`,
+      "    _controller",
+      `      ..duration = ${duration}`,
+      "      ..value = _start;"
+    );
+  } else {
+    onLoaded.push(`    _controller.duration = ${duration};`);
+  }
+  if (context.autoplay && !context.hover) {
+    onLoaded.push("    _play();");
+  }
+  onLoaded.push("  }");
+
+  let play: string[];
+  if (context.loop) {
+    play = segment
+      ? ["    _controller.repeat(min: _start, max: _end, period: _controller.duration! * (_end - _start));"]
+      : ["    _controller.repeat();"];
+  } else {
+    play = segment
+      ? ["    if (_controller.value >= _end) {", "      _controller.value = _start;", "    }", "    _controller.animateTo(_end);"]
+      : ["    _controller.forward(from: _controller.isCompleted ? 0 : null);"];
+  }
+
+  const lottie = [`${widget[0]}(`, `  ${widget[1]},`, "  controller: _controller,", "  onLoaded: _onLoaded,"];
+  const build = context.hover
+    ? [
+        "    return MouseRegion(",
+        "      onEnter: (_) => _play(),",
+        "      onExit: (_) => _controller.stop(),",
+        `      child: ${lottie[0]}`,
+        ...lottie.slice(1).map((line) => `      ${line}`),
+        "      ),",
+        "    );",
+      ]
+    : [`    return ${lottie[0]}`, ...lottie.slice(1).map((line) => `    ${line}`), "    );"];
+
+  const lines = [
+    "import 'package:flutter/material.dart';",
+    "import 'package:lottie/lottie.dart';",
+    "",
+    `class ${name} extends StatefulWidget {`,
+    `  const ${name}({super.key});`,
+    "",
+    "  @override",
+    `  State<${name}> createState() => _${name}State();`,
+    "}",
+    "",
+    `class _${name}State extends State<${name}> with SingleTickerProviderStateMixin {`,
+    "  late final AnimationController _controller = AnimationController(vsync: this);",
+    ...(segment ? ["  double _start = 0;", "  double _end = 1;"] : []),
+    "",
+    "  @override",
+    "  void dispose() {",
+    "    _controller.dispose();",
+    "    super.dispose();",
+    "  }",
+    "",
+    ...onLoaded,
+    ...(canPlay ? ["", "  void _play() {", ...play, "  }"] : []),
+    "",
+    "  @override",
+    "  Widget build(BuildContext context) {",
+    ...build,
+    "  }",
+    "}",
+  ];
+
+  if (context.hover) {
+    context.notes.push("MouseRegion only reacts to a mouse (web and desktop); wrap the widget in a GestureDetector to play on touch");
+  }
+  if (!canPlay) {
+    context.notes.push("Start playback with _controller.forward() or _controller.repeat()");
+  }
+  return [{ path: `${separated(name, "_")}.dart`, language: "dart", code: lines.join("\n") }];
+}
+
+function swiftui(context: Context): IntegrationFile[] {
+  const { location, segment } = context;
+
+  let view: string;
+  if (location.kind === "url") {
+    view = location.dotLottie
+      ? `LottieView { try await DotLottieFile.loadedFrom(url: URL(string: ${quote(location.url)})!) }`
+      : `LottieView { await LottieAnimation.loadedFrom(url: URL(string: ${quote(location.url)})!) }`;
+  } else {
+    view = location.dotLottie
+      ? `LottieView { try await DotLottieFile.named(${quote(stem(location.path))}) }`
+      : `LottieView(animation: .named(${quote(stem(location.path))}))`;
+    context.notes.push(`Add ${fileName(location.path)} to the app target so it is copied into the bundle`);
+  }
+
+  const loopMode = context.loop ? ".loop" : ".playOnce";
+  const playing = segment
+    ? `.playing(.fromFrame(${num(segment[0])}, toFrame: ${num(segment[1])}, loopMode: ${loopMode}))`
+    : `.playing(.toProgress(1, loopMode: ${loopMode}))`;
+  const paused = segment ? `.paused(at: .frame(${num(segment[0])}))` : ".paused(at: .progress(0))";
+
+  let mode: string;
+  if (context.hover) {
+    mode = `isHovering ? ${playing} : .paused(at: .currentFrame)`;
+  } else {
+    mode = context.autoplay ? playing : paused;
+  }
+
+  const modifiers = [`.playbackMode(${mode})`];
+  if (context.speed !== 1) {
+    modifiers.push(`.animationSpeed(${num(context.speed)})`);
+  }
+  if (context.hover) {
+    modifiers.push(".onHover { isHovering = $0 }");
+    context.notes.push("onHover reacts to a pointer (iPad, Mac); on iPhone set isHovering from a gesture instead");
+  }
+
+  const lines = ["import Lottie", "import SwiftUI", "", `struct ${context.component}: View {`];
+  if (context.hover) {
+    lines.push("    @State private var isHovering = false", "");
+  }
+  lines.push(
+    "    var body: some View {",
+    `        ${view}`,
+    ...modifiers.map((modifier) => `            ${modifier}`),
+    "    }",
+    "}"
+  );
+  return [{ path: `${context.component}.swift`, language: "swift", code: lines.join("\n") }];
+}
+
+function compose(context: Context): IntegrationFile[] {
+  const { location, segment } = context;
+
+  let spec: string;
+  if (location.kind === "url") {
+    spec = `LottieCompositionSpec.Url(${kotlinQuote(location.url)})`;
+  } else {
+    const inAssets = /(?:^|\/)assets\/(.+)$/.exec(location.path);
+    spec = `LottieCompositionSpec.Asset(${kotlinQuote(inAssets ? inAssets[1] : fileName(location.path))})`;
+    if (!inAssets) {
+      context.notes.push(`Copy ${location.path} to app/src/main/assets/`);
+    }
+  }
+
+  const args = ["composition"];
+  if (context.hover) {
+    args.push("isPlaying = isHovered", "restartOnPlay = false");
+  } else if (!context.autoplay) {
+    args.push("isPlaying = false");
+  }
+  if (context.loop) {
+    args.push("iterations = LottieConstants.IterateForever");
+  }
+  if (context.speed !== 1) {
+    args.push(`speed = ${num(context.speed)}f`);
+  }
+  if (segment) {
+    args.push(`clipSpec = LottieClipSpec.Frame(min = ${Math.round(segment[0])}, max = ${Math.round(segment[1])})`);
+  }
+
+  const imports = [
+    ...(context.hover
+      ? [
+          "androidx.compose.foundation.hoverable",
+          "androidx.compose.foundation.interaction.MutableInteractionSource",
+          "androidx.compose.foundation.interaction.collectIsHoveredAsState",
+        ]
+      : []),
+    "androidx.compose.runtime.Composable",
+    "androidx.compose.runtime.getValue",
+    ...(context.hover ? ["androidx.compose.runtime.remember"] : []),
+    "androidx.compose.ui.Modifier",
+    "com.airbnb.lottie.compose.LottieAnimation",
+    ...(segment ? ["com.airbnb.lottie.compose.LottieClipSpec"] : []),
+    "com.airbnb.lottie.compose.LottieCompositionSpec",
+    ...(context.loop ? ["com.airbnb.lottie.compose.LottieConstants"] : []),
+    "com.airbnb.lottie.compose.animateLottieCompositionAsState",
+    "com.airbnb.lottie.compose.rememberLottieComposition",
+  ];
+
+  const lines = [
+    ...imports.map((name) => `import ${name}`),
+    "",
+    "@Composable",
+    `fun ${context.component}(modifier: Modifier = Modifier) {`,
+    `    val composition by rememberLottieComposition(${spec})`,
+  ];
+  if (context.hover) {
+    lines.push(
+      "    val interactionSource = remember { MutableInteractionSource() }",
+      "    val isHovered by interactionSource.collectIsHoveredAsState()"
+    );
+    context.notes.push("Hover needs a mouse or stylus; drive isPlaying from a press interaction to play on touch");
+  }
+  lines.push(
+    "    val progress by animateLottieCompositionAsState(",
+    ...args.map((arg) => `        ${arg},`),
+    "    )",
+    "",
+    "    LottieAnimation(",
+    "        composition = composition,",
+    "        progress = { progress },",
+    `        modifier = ${context.hover ? "modifier.hoverable(interactionSource)" : "modifier"},`,
+    "    )",
+    "}"
+  );
+  return [{ path: `${context.component}.kt`, language: "kotlin", code: lines.join("\n") }];
+}
+
+const SPECS: Record<Framework, FrameworkSpec> = {
+  html: {
+    label: "HTML (lottie-player)",
+    packages: ["@lottiefiles/lottie-player"],
+    install: null,
+    dotLottie: false,
+    generate: html,
+  },
+  react: {
+    label: "React (lottie-react)",
+    packages: ["lottie-react"],
+    install: { language: "sh", code: "npm install lottie-react" },
+    dotLottie: false,
+    generate: react,
+  },
+  "react-dotlottie": {
+    label: "React (dotlottie-react)",
+    packages: ["@lottiefiles/dotlottie-react"],
+    install: { language: "sh", code: "npm install @lottiefiles/dotlottie-react" },
+    dotLottie: true,
+    generate: reactDotLottie,
+  },
+  vue: {
+    label: "Vue (dotlottie-vue)",
+    packages: ["@lottiefiles/dotlottie-vue"],
+    install: { language: "sh", code: "npm install @lottiefiles/dotlottie-vue" },
+    dotLottie: true,
+    generate: vue,
+  },
+  svelte: {
+    label: "Svelte (dotlottie-svelte)",
+    packages: ["@lottiefiles/dotlottie-svelte"],
+    install: { language: "sh", code: "npm install @lottiefiles/dotlottie-svelte" },
+    dotLottie: true,
+    generate: svelte,
+  },
+  angular: {
+    label: "Angular (ngx-lottie)",
+    packages: ["ngx-lottie", "lottie-web"],
+    install: { language: "sh", code: "npm install ngx-lottie lottie-web" },
+    dotLottie: false,
+    generate: angular,
+  },
+  "react-native": {
+    label: "React Native (lottie-react-native)",
+    packages: ["lottie-react-native"],
+    install: { language: "sh", code: "npm install lottie-react-native" },
+    dotLottie: true,
+    generate: reactNative,
+  },
+  flutter: {
+    label: "Flutter (lottie)",
+    packages: ["lottie"],
+    install: { language: "sh", code: "flutter pub add lottie" },
+    dotLottie: false,
+    generate: flutter,
+  },
+  swiftui: {
+    label: "SwiftUI (lottie-ios)",
+    packages: ["lottie-ios"],
+    install: { language: "swift", code: '.package(url: "https://github.com/airbnb/lottie-spm.git", from: "4.4.0")' },
+    dotLottie: true,
+    generate: swiftui,
+  },
+  compose: {
+    label: "Jetpack Compose (lottie-compose)",
+    packages: ["com.airbnb.android:lottie-compose"],
+    install: { language: "kotlin", code: 'implementation("com.airbnb.android:lottie-compose:6.4.0")' },
+    dotLottie: true,
+    generate: compose,
+  },
+};
+
+/**
+ * Picks the file a player loads: the dotLottie download when the player
+ * supports it (it is smaller), the JSON otherwise.
+ */
+function locate(framework: Framework, source: AnimationSource): Location {
+  const spec = SPECS[framework];
+
+  if (source.kind === "file") {
+    const dotLottie = /\.lottie$/i.test(source.path);
+    if (dotLottie && !spec.dotLottie) {
+      throw new IntegrationError(
+        `${spec.label} cannot play dotLottie files; extract the JSON with unpack_dotlottie and use that file`
+      );
+    }
+    return { kind: "file", path: source.path, dotLottie };
+  }
+
+  if (spec.dotLottie && source.dotLottieUrl) {
+    return { kind: "url", url: source.dotLottieUrl, dotLottie: true };
+  }
+  if (source.jsonUrl) {
+    return { kind: "url", url: source.jsonUrl, dotLottie: false };
+  }
+  throw new IntegrationError(
+    source.dotLottieUrl
+      ? `The animation is only available as dotLottie, which ${spec.label} cannot play`
+      : "The animation has no download URL"
+  );
+}
+
+/**
+ * Generates the install step and player code for an animation.
+ *
+ * @throws IntegrationError if the player cannot load the animation or the options are invalid
+ */
+export function generateIntegration(
+  framework: Framework,
+  target: IntegrationTarget,
+  options: PlaybackOptions = {}
+): Integration {
+  const spec = SPECS[framework];
+  const speed = options.speed ?? 1;
+  if (!(speed > 0)) {
+    throw new IntegrationError(`Speed must be greater than 0 (got ${speed})`);
+  }
+  const { segment } = options;
+  if (segment && !(segment.start >= 0 && segment.end > segment.start)) {
+    throw new IntegrationError(`Invalid segment ${segment.start}-${segment.end}: the end frame must be after the start frame`);
+  }
+
+  const context: Context = {
+    component: options.componentName ?? componentNameFor(target.name),
+    location: locate(framework, target.source),
+    loop: options.loop ?? true,
+    autoplay: options.autoplay ?? true,
+    speed,
+    segment: segment ? [segment.start, segment.end] : null,
+    hover: options.hover ?? false,
+    width: target.width,
+    height: target.height,
+    notes: [],
+  };
+  const files = spec.generate(context);
+
+  return {
+    framework,
+    label: spec.label,
+    packages: spec.packages,
+    install: spec.install,
+    files,
+    notes: [...new Set(context.notes)],
+  };
+}
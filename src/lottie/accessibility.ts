@@ -0,0 +1,365 @@
+/**
+ * Photosensitivity analysis (WCAG 2.3.1 Three Flashes or Below Threshold).
+ *
+ * Every frame is sampled onto a coarse grid and each cell's relative
+ * luminance is tracked over time. A transition is a change of at least 0.1
+ * between a local maximum and minimum where the darker state is below 0.8;
+ * two opposing transitions make a flash. Content fails when more than three
+ * flashes happen within one second over at least a quarter of the canvas
+ * (WCAG measures area against the viewer's field of vision; the canvas is
+ * used as a stand-in, which is conservative for small animations).
+ */
+
+import { Rgb, relativeLuminance } from "./color.js";
+import { walkObjects } from "./document.js";
+import { contentCoverage, sampleFrame, sampleGrid } from "./raster.js";
+import { LottieDocument } from "./types.js";
+
+/**
+ * Analysis settings.
+ */
+export interface AccessibilityOptions {
+  /** Color behind the animation (default: white) */
+  background?: Rgb;
+
+  /** Fraction of the canvas (0-1) above which flashing fails (default: 0.25) */
+  areaThreshold?: number;
+
+  /** Cells along the longer side of the sampling grid (default: 48) */
+  resolution?: number;
+}
+
+/**
+ * A period with more than three flashes per second somewhere on the canvas.
+ */
+export interface FlashRange {
+  /** First and last frame of the period */
+  start: number;
+  end: number;
+  startSeconds: number;
+  endSeconds: number;
+
+  /** Most flashes (pairs of opposing transitions) counted within one second */
+  flashesPerSecond: number;
+
+  /** Largest fraction of the canvas (0-1) flashing at once */
+  area: number;
+
+  /** Whether saturated red is involved */
+  red: boolean;
+
+  /** Whether the flashing area reaches the threshold (fails WCAG 2.3.1) */
+  fails: boolean;
+}
+
+/**
+ * An abrupt, high-contrast luminance change over a large part of the canvas.
+ */
+export interface ContrastChange {
+  start: number;
+  end: number;
+  startSeconds: number;
+  endSeconds: number;
+
+  /** Largest fraction of the canvas (0-1) changing at once */
+  area: number;
+
+  /** Largest luminance change (0-1) */
+  change: number;
+}
+
+/**
+ * A frame suggested as a static replacement for reduced-motion users.
+ */
+export interface ReducedMotionFrame {
+  frame: number;
+  seconds: number;
+  reason: string;
+}
+
+/**
+ * Result of a photosensitivity analysis.
+ */
+export interface AccessibilityReport {
+  /** False if any flashing fails WCAG 2.3.1 */
+  passes: boolean;
+  framesAnalyzed: number;
+  flashes: FlashRange[];
+  contrastChanges: ContrastChange[];
+  reducedMotion: ReducedMotionFrame;
+  warnings: string[];
+}
+
+const DEFAULT_AREA_THRESHOLD = 0.25;
+
+/** Minimum luminance change that counts as a transition. */
+const TRANSITION_STEP = 0.1;
+
+/** A transition only counts if its darker state is below this luminance. */
+const DARK_LIMIT = 0.8;
+
+/** More than three flashes (six transitions) in one second fails. */
+const MAX_TRANSITIONS_PER_SECOND = 6;
+
+/** Luminance change treated as high contrast when it happens within CONTRAST_SECONDS. */
+const CONTRAST_CHANGE = 0.5;
+const CONTRAST_SECONDS = 0.1;
+
+/** Share of the red channel at which a color counts as saturated red. */
+const SATURATED_RED = 0.8;
+
+/** Longest timeline analyzed, in frames. */
+const MAX_FRAMES = 3600;
+
+/**
+ * Luminance transitions of one cell, as frame indices.
+ */
+interface CellTransitions {
+  all: number[];
+  red: number[];
+}
+
+/**
+ * Finds the transitions in a luminance series: swings of at least
+ * TRANSITION_STEP between alternating extremes whose darker side is below DARK_LIMIT.
+ */
+function findTransitions(luminance: (i: number) => number, red: (i: number) => boolean, count: number): CellTransitions {
+  const result: CellTransitions = { all: [], red: [] };
+  const record = (from: number, to: number) => {
+    if (Math.min(luminance(from), luminance(to)) < DARK_LIMIT) {
+      result.all.push(to);
+      if (red(from) || red(to)) result.red.push(to);
+    }
+  };
+
+  // Until the first swing, track the lowest and highest points seen
+  let low = 0;
+  let high = 0;
+  let last = 0;
+  let candidate = 0;
+  let direction = 0;
+  for (let i = 1; i < count; i++) {
+    const value = luminance(i);
+    if (direction === 0) {
+      if (value < luminance(low)) low = i;
+      if (value > luminance(high)) high = i;
+      if (value - luminance(low) >= TRANSITION_STEP) {
+        [last, candidate, direction] = [low, i, 1];
+      } else if (luminance(high) - value >= TRANSITION_STEP) {
+        [last, candidate, direction] = [high, i, -1];
+      }
+    } else if ((value - luminance(candidate)) * direction > 0) {
+      candidate = i;
+    } else if ((luminance(candidate) - value) * direction >= TRANSITION_STEP) {
+      record(last, candidate);
+      [last, candidate, direction] = [candidate, i, -direction];
+    }
+  }
+  if (direction !== 0 && Math.abs(luminance(candidate) - luminance(last)) >= TRANSITION_STEP) {
+    record(last, candidate);
+  }
+  return result;
+}
+
+/**
+ * Counts, for each window start, the items of a sorted list within [start, start + length).
+ */
+function windowCounts(items: number[], windows: number, length: number): number[] {
+  const counts = new Array<number>(windows).fill(0);
+  let from = 0;
+  let to = 0;
+  for (let start = 0; start < windows; start++) {
+    while (from < items.length && items[from] < start) from++;
+    while (to < items.length && items[to] < start + length) to++;
+    counts[start] = to - from;
+  }
+  return counts;
+}
+
+const round = (value: number, places = 2) => Math.round(value * 10 ** places) / 10 ** places;
+
+/**
+ * Checks an animation for flashing that can trigger seizures and suggests a
+ * static frame to show when users prefer reduced motion.
+ *
+ * Expressions are ignored; properties take their keyframed values.
+ */
+export function analyzeAccessibility(doc: LottieDocument, options: AccessibilityOptions = {}): AccessibilityReport {
+  const threshold = options.areaThreshold ?? DEFAULT_AREA_THRESHOLD;
+  const background = options.background ?? [1, 1, 1];
+  const { columns, rows } = sampleGrid(doc, options.resolution);
+  const cells = columns * rows;
+  const warnings = new Set<string>();
+
+  const first = Math.ceil(doc.ip);
+  const total = Math.max(1, Math.ceil(doc.op) - first);
+  const count = Math.min(total, MAX_FRAMES);
+  if (count < total) {
+    warnings.add(`Only the first ${MAX_FRAMES} frames were analyzed`);
+  }
+  let hasExpressions = false;
+  walkObjects(doc, (obj) => {
+    if (typeof obj.x === "string" && "k" in obj) hasExpressions = true;
+  });
+  if (hasExpressions) {
+    warnings.add("Expressions are not evaluated; properties take their keyframed values");
+  }
+
+  // Sample every frame: luminance, saturated red and content coverage per cell
+  const luminance = new Float32Array(count * cells);
+  const red = new Uint8Array(count * cells);
+  const coverage = new Float32Array(count);
+  for (let i = 0; i < count; i++) {
+    const sampled = sampleFrame(doc, first + i, { resolution: options.resolution, background });
+    sampled.warnings.forEach((warning) => warnings.add(warning));
+    for (let c = 0; c < cells; c++) {
+      const rgb = Array.from(sampled.pixels.subarray(c * 3, c * 3 + 3)) as Rgb;
+      luminance[i * cells + c] = relativeLuminance(rgb);
+      const sum = rgb[0] + rgb[1] + rgb[2];
+      red[i * cells + c] = sum > 0 && rgb[0] / sum >= SATURATED_RED ? 1 : 0;
+    }
+    coverage[i] = contentCoverage(sampled);
+  }
+  const frameAt = (i: number) => first + i;
+  const secondsAt = (i: number) => round((first + i - doc.ip) / doc.fr);
+
+  // Count transitions per cell in every one-second window
+  const second = Math.max(1, Math.round(doc.fr));
+  const windows = Math.max(1, count - second + 1);
+  const flashingCells = new Array<number>(windows).fill(0);
+  const redCells = new Array<number>(windows).fill(0);
+  const mostTransitions = new Array<number>(windows).fill(0);
+  for (let c = 0; c < cells; c++) {
+    const transitions = findTransitions((i) => luminance[i * cells + c], (i) => red[i * cells + c] === 1, count);
+    if (transitions.all.length <= MAX_TRANSITIONS_PER_SECOND) continue;
+    const all = windowCounts(transitions.all, windows, second);
+    const reds = windowCounts(transitions.red, windows, second);
+    for (let s = 0; s < windows; s++) {
+      if (all[s] > MAX_TRANSITIONS_PER_SECOND) {
+        flashingCells[s]++;
+        mostTransitions[s] = Math.max(mostTransitions[s], all[s]);
+      }
+      if (reds[s] > MAX_TRANSITIONS_PER_SECOND) redCells[s]++;
+    }
+  }
+
+  const flashes: FlashRange[] = [];
+  for (let s = 0; s < windows; s++) {
+    if (flashingCells[s] === 0) continue;
+    const end = Math.min(s + second, count) - 1;
+    const area = flashingCells[s] / cells;
+    const stats = {
+      flashesPerSecond: mostTransitions[s] / 2,
+      area,
+      red: redCells[s] > 0,
+      fails: area >= threshold || redCells[s] / cells >= threshold,
+    };
+    const previous = flashes[flashes.length - 1];
+    if (previous && previous.end >= frameAt(s) - 1) {
+      previous.end = frameAt(end);
+      previous.endSeconds = secondsAt(end);
+      previous.flashesPerSecond = Math.max(previous.flashesPerSecond, stats.flashesPerSecond);
+      previous.area = Math.max(previous.area, area);
+      previous.red ||= stats.red;
+      previous.fails ||= stats.fails;
+    } else {
+      flashes.push({ start: frameAt(s), end: frameAt(end), startSeconds: secondsAt(s), endSeconds: secondsAt(end), ...stats });
+    }
+  }
+
+  // Abrupt large changes: compare each frame with the one CONTRAST_SECONDS earlier
+  const gap = Math.max(1, Math.round(doc.fr * CONTRAST_SECONDS));
+  const contrastChanges: ContrastChange[] = [];
+  for (let i = gap; i < count; i++) {
+    let changed = 0;
+    let change = 0;
+    for (let c = 0; c < cells; c++) {
+      const delta = Math.abs(luminance[i * cells + c] - luminance[(i - gap) * cells + c]);
+      if (delta >= CONTRAST_CHANGE) {
+        changed++;
+        change = Math.max(change, delta);
+      }
+    }
+    const area = changed / cells;
+    if (area < threshold) continue;
+
+    const previous = contrastChanges[contrastChanges.length - 1];
+    if (previous && previous.end >= frameAt(i - gap)) {
+      previous.end = frameAt(i);
+      previous.endSeconds = secondsAt(i);
+      previous.area = Math.max(previous.area, area);
+      previous.change = Math.max(previous.change, change);
+    } else {
+      contrastChanges.push({
+        start: frameAt(i - gap),
+        end: frameAt(i),
+        startSeconds: secondsAt(i - gap),
+        endSeconds: secondsAt(i),
+        area,
+        change,
+      });
+    }
+  }
+
+  return {
+    passes: flashes.every((range) => !range.fails),
+    framesAnalyzed: count,
+    flashes: flashes.map((range) => ({ ...range, area: round(range.area) })),
+    contrastChanges: contrastChanges.map((range) => ({ ...range, area: round(range.area), change: round(range.change) })),
+    reducedMotion: reducedMotionFrame(luminance, coverage, cells, flashes.map((r) => [r.start - first, r.end - first]), frameAt, secondsAt),
+    warnings: [...warnings],
+  };
+}
+
+/**
+ * Picks a static frame: outside any flashing, showing close to the most
+ * content, and with the least motion around it (later frames win ties, since
+ * animations usually settle at the end).
+ */
+function reducedMotionFrame(
+  luminance: Float32Array,
+  coverage: Float32Array,
+  cells: number,
+  flashing: number[][],
+  frameAt: (i: number) => number,
+  secondsAt: (i: number) => number
+): ReducedMotionFrame {
+  const count = coverage.length;
+  let candidates = Array.from({ length: count }, (_, i) => i).filter(
+    (i) => !flashing.some(([start, end]) => i >= start && i <= end)
+  );
+  const avoidsFlashing = candidates.length > 0;
+  if (!avoidsFlashing) {
+    candidates = Array.from({ length: count }, (_, i) => i);
+  }
+
+  const most = Math.max(...candidates.map((i) => coverage[i]));
+  const motion = (i: number) => {
+    let sum = 0;
+    for (const j of [i - 1, i + 1]) {
+      if (j < 0 || j >= count) continue;
+      for (let c = 0; c < cells; c++) {
+        sum += Math.abs(luminance[i * cells + c] - luminance[j * cells + c]);
+      }
+    }
+    return sum;
+  };
+
+  let best = candidates[candidates.length - 1];
+  let bestMotion = Infinity;
+  for (const i of candidates) {
+    if (coverage[i] < most * 0.9) continue;
+    const value = motion(i);
+    if (value <= bestMotion) {
+      best = i;
+      bestMotion = value;
+    }
+  }
+
+  const reason = [
+    `shows ${Math.round(coverage[best] * 100)}% of the canvas with content`,
+    "has the least motion among the fullest frames",
+    avoidsFlashing ? (flashing.length > 0 ? "is outside every flashing period" : null) : "every frame is within a flashing period, so review it",
+  ].filter(Boolean);
+  return { frame: frameAt(best), seconds: secondsAt(best), reason: reason.join(", ") };
+}
@@ -0,0 +1,209 @@
+/**
+ * Visible content bounds computed from layer and shape geometry.
+ *
+ * Bounds are conservative: masks and mattes are ignored, and curves are
+ * bounded by their control points.
+ */
+
+import {
+  Matrix,
+  IDENTITY,
+  applyMatrix,
+  isLayerActive,
+  layerMatrix,
+  layerOpacity,
+  layerTime,
+  matrixScale,
+  numberAt,
+  precompContent,
+} from "./evaluate.js";
+import { walkShapeGroup } from "./paths.js";
+import { LottieAsset, LottieDocument, LottieLayer, LottieProperty, LottieShape } from "./types.js";
+
+/**
+ * An axis-aligned rectangle.
+ */
+export interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Content bounds and anything that made them less exact.
+ */
+export interface ContentBounds {
+  /** Union of the content over the sampled frames, clipped to the canvas; null if nothing is visible */
+  bounds: Box | null;
+
+  /** Frames sampled */
+  frames: number;
+  warnings: string[];
+}
+
+/**
+ * Default number of frames sampled across the timeline.
+ */
+const DEFAULT_SAMPLES = 120;
+
+/**
+ * Running min/max accumulator.
+ */
+class Extent {
+  minX = Infinity;
+  minY = Infinity;
+  maxX = -Infinity;
+  maxY = -Infinity;
+
+  addPoint(x: number, y: number, pad = 0): void {
+    this.minX = Math.min(this.minX, x - pad);
+    this.minY = Math.min(this.minY, y - pad);
+    this.maxX = Math.max(this.maxX, x + pad);
+    this.maxY = Math.max(this.maxY, y + pad);
+  }
+
+  /** Adds the corners of a rectangle after transforming them */
+  addRect(m: Matrix, x0: number, y0: number, x1: number, y1: number, pad = 0): void {
+    for (const [x, y] of [[x0, y0], [x1, y0], [x0, y1], [x1, y1]]) {
+      const [tx, ty] = applyMatrix(m, x, y);
+      this.addPoint(tx, ty, pad);
+    }
+  }
+
+  addExtent(other: Extent, m: Matrix): void {
+    if (!other.isEmpty()) {
+      this.addRect(m, other.minX, other.minY, other.maxX, other.maxY);
+    }
+  }
+
+  clip(width: number, height: number): void {
+    this.minX = Math.max(this.minX, 0);
+    this.minY = Math.max(this.minY, 0);
+    this.maxX = Math.min(this.maxX, width);
+    this.maxY = Math.min(this.maxY, height);
+  }
+
+  isEmpty(): boolean {
+    return !(this.maxX > this.minX && this.maxY > this.minY);
+  }
+}
+
+/**
+ * Adds the filled and stroked geometry of a shape list to `extent`, in layer coordinates.
+ */
+function addShapes(shapes: LottieShape[], time: number, extent: Extent, warnings: Set<string>): void {
+  walkShapeGroup(shapes, time, IDENTITY, 1, {
+    style: (shape, paths, matrix) => {
+      const pad = shape.ty === "st" || shape.ty === "gs"
+        ? (numberAt(shape.w as LottieProperty | undefined, time, 0) / 2) * matrixScale(matrix)
+        : 0;
+      // Control points bound the curve (convex hull property)
+      for (const path of paths) {
+        for (const [x, y] of [...path.vertices, ...path.inTangents, ...path.outTangents]) {
+          extent.addPoint(x, y, pad);
+        }
+      }
+      return null;
+    },
+    item: (shape) => {
+      if (shape.ty === "rp") {
+        warnings.add("Repeaters are not expanded; their copies may extend past the computed bounds");
+      }
+    },
+  });
+}
+
+/**
+ * Adds the visible content of a composition at a frame to `extent`, in composition coordinates.
+ */
+function addComposition(
+  layers: LottieLayer[],
+  frame: number,
+  assets: Map<string, LottieAsset>,
+  frameRate: number,
+  extent: Extent,
+  warnings: Set<string>,
+  depth: number
+): { unbounded: boolean } {
+  let unbounded = false;
+
+  for (const layer of layers) {
+    if (layer.hd === true || layer.td === 1 || !isLayerActive(layer, frame) || layerOpacity(layer, frame) <= 0) {
+      continue;
+    }
+
+    const matrix = layerMatrix(layer, layers, frame);
+    const time = layerTime(layer, frame);
+    const local = new Extent();
+
+    switch (layer.ty) {
+      case 0: {
+        const precomp = precompContent(layer, time, assets, frameRate, depth);
+        if (!precomp) break;
+        const inner = addComposition(precomp.layers, precomp.frame, assets, frameRate, local, warnings, depth + 1);
+        if (inner.unbounded) {
+          local.addPoint(0, 0);
+          local.addPoint(layer.w ?? 0, layer.h ?? 0);
+        }
+        // Precomp layers clip to their size
+        local.clip(layer.w ?? Infinity, layer.h ?? Infinity);
+        break;
+      }
+      case 1:
+        local.addPoint(0, 0);
+        local.addPoint(layer.sw ?? 0, layer.sh ?? 0);
+        break;
+      case 2: {
+        const asset = layer.refId !== undefined ? assets.get(layer.refId) : undefined;
+        local.addPoint(0, 0);
+        local.addPoint(asset?.w ?? 0, asset?.h ?? 0);
+        break;
+      }
+      case 4:
+        addShapes(layer.shapes ?? [], time, local, warnings);
+        break;
+      case 5:
+        warnings.add("Text layers have no geometry to measure, so the whole canvas is treated as used while they are visible");
+        unbounded = true;
+        break;
+    }
+
+    extent.addExtent(local, matrix);
+  }
+
+  return { unbounded };
+}
+
+/**
+ * Computes the bounds of everything visible over the timeline by sampling frames.
+ *
+ * @param samples - Maximum number of frames to sample (default: 120)
+ */
+export function contentBounds(doc: LottieDocument, samples = DEFAULT_SAMPLES): ContentBounds {
+  const assets = new Map((doc.assets ?? []).map((asset) => [asset.id, asset]));
+  const warnings = new Set<string>();
+  const extent = new Extent();
+
+  const span = Math.max(doc.op - doc.ip, 0);
+  const count = Math.max(1, Math.min(Math.ceil(span), samples));
+  let frames = 0;
+  for (let n = 0; n < count; n++) {
+    const frame = doc.ip + (span * n) / count;
+    const { unbounded } = addComposition(doc.layers, frame, assets, doc.fr, extent, warnings, 0);
+    if (unbounded) {
+      extent.addPoint(0, 0);
+      extent.addPoint(doc.w, doc.h);
+    }
+    frames++;
+  }
+
+  extent.clip(doc.w, doc.h);
+  return {
+    bounds: extent.isEmpty()
+      ? null
+      : { x: extent.minX, y: extent.minY, width: extent.maxX - extent.minX, height: extent.maxY - extent.minY },
+    frames,
+    warnings: [...warnings],
+  };
+}
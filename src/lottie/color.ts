@@ -0,0 +1,85 @@
+/**
+ * Color conversions and distances.
+ *
+ * Lottie stores colors as RGB(A) arrays of 0-1 floats; solid layers use hex.
+ */
+
+/**
+ * An RGB color with 0-1 channels.
+ */
+export type Rgb = [number, number, number];
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+/**
+ * Formats a 0-1 RGB color as "#rrggbb".
+ */
+export function rgbToHex([r, g, b]: Rgb): string {
+  const channel = (value: number) => Math.round(clamp01(value) * 255).toString(16).padStart(2, "0");
+  return `#${channel(r)}${channel(g)}${channel(b)}`;
+}
+
+/**
+ * Parses "#rgb" or "#rrggbb" (the "#" is optional). Returns null if invalid.
+ */
+export function hexToRgb(hex: string): Rgb | null {
+  let value = hex.trim().replace(/^#/, "");
+  if (/^[0-9a-f]{3}$/i.test(value)) {
+    value = value.split("").map((c) => c + c).join("");
+  }
+  if (!/^[0-9a-f]{6}$/i.test(value)) {
+    return null;
+  }
+  return [
+    parseInt(value.slice(0, 2), 16) / 255,
+    parseInt(value.slice(2, 4), 16) / 255,
+    parseInt(value.slice(4, 6), 16) / 255,
+  ];
+}
+
+/**
+ * Reads a Lottie color array ([r, g, b] or [r, g, b, a], 0-1). Returns null if invalid.
+ *
+ * Some exporters write 0-255 channels; those are scaled down.
+ */
+export function readLottieColor(value: unknown): Rgb | null {
+  if (!Array.isArray(value) || value.length < 3 || !value.slice(0, 3).every((c) => typeof c === "number")) {
+    return null;
+  }
+  const rgb = value.slice(0, 3) as Rgb;
+  return rgb.some((c) => c > 1) ? (rgb.map((c) => c / 255) as Rgb) : rgb;
+}
+
+/**
+ * Converts sRGB to CIE Lab (D65).
+ */
+export function rgbToLab([r, g, b]: Rgb): [number, number, number] {
+  const linear = (c: number) => (c <= 0.04045 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4);
+  const [lr, lg, lb] = [linear(r), linear(g), linear(b)];
+
+  const x = (lr * 0.4124 + lg * 0.3576 + lb * 0.1805) / 0.95047;
+  const y = lr * 0.2126 + lg * 0.7152 + lb * 0.0722;
+  const z = (lr * 0.0193 + lg * 0.1192 + lb * 0.9505) / 1.08883;
+
+  const f = (t: number) => (t > 216 / 24389 ? Math.cbrt(t) : (24389 / 27 * t + 16) / 116);
+  const [fx, fy, fz] = [f(x), f(y), f(z)];
+  return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)];
+}
+
+/**
+ * Perceptual distance between two colors (CIE76 delta E).
+ * About 2.3 is just noticeable; above 10 colors read as clearly different.
+ */
+export function colorDistance(a: Rgb, b: Rgb): number {
+  const [l1, a1, b1] = rgbToLab(a);
+  const [l2, a2, b2] = rgbToLab(b);
+  return Math.hypot(l1 - l2, a1 - a2, b1 - b2);
+}
+
+/**
+ * Relative luminance (WCAG definition), 0 for black to 1 for white.
+ */
+export function relativeLuminance([r, g, b]: Rgb): number {
+  const linear = (c: number) => (c <= 0.03928 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4);
+  return 0.2126 * linear(r) + 0.7152 * linear(g) + 0.0722 * linear(b);
+}
@@ -0,0 +1,344 @@
+/**
+ * Runtime compatibility checks for Lottie documents.
+ *
+ * Players implement different subsets of the After Effects feature set.
+ * FEATURE_MATRIX records what each native player does with a feature;
+ * keep it in step with the players' supported-features documentation
+ * (last reviewed against lottie-web 5.12, lottie-ios 4.5 and
+ * lottie-android 6.6).
+ */
+
+import { allLayers, isPrecomp, walkObjects, walkShapes } from "./document.js";
+import { LottieDocument } from "./types.js";
+
+/**
+ * Runtimes a document can be checked against.
+ */
+export const RUNTIMES = ["web", "ios", "android", "react-native"] as const;
+
+export type Runtime = (typeof RUNTIMES)[number];
+
+/**
+ * Player library behind each runtime.
+ */
+export const RUNTIME_PLAYERS: Record<Runtime, string> = {
+  web: "lottie-web",
+  ios: "lottie-ios",
+  android: "lottie-android",
+  "react-native": "lottie-react-native",
+};
+
+/**
+ * How well a runtime handles a feature, from best to worst.
+ */
+export const SUPPORT_LEVELS = ["supported", "partial", "unsupported"] as const;
+
+export type SupportLevel = (typeof SUPPORT_LEVELS)[number];
+
+/**
+ * Support for a feature in one runtime.
+ */
+export interface FeatureSupport {
+  level: SupportLevel;
+  /** What breaks or what to do about it */
+  note: string | null;
+}
+
+/**
+ * A matrix row. React Native is derived from iOS and Android, since
+ * lottie-react-native wraps those players.
+ */
+export interface FeatureDefinition {
+  id: string;
+  name: string;
+  support: Record<Exclude<Runtime, "react-native">, FeatureSupport>;
+}
+
+function supported(note: string | null = null): FeatureSupport {
+  return { level: "supported", note };
+}
+
+function partial(note: string): FeatureSupport {
+  return { level: "partial", note };
+}
+
+function unsupported(note: string): FeatureSupport {
+  return { level: "unsupported", note };
+}
+
+/**
+ * Features whose support differs between players, in report order.
+ */
+export const FEATURE_MATRIX: FeatureDefinition[] = [
+  {
+    id: "expressions",
+    name: "Expressions",
+    support: {
+      web: partial("Evaluated by the full build only (not lottie_light); some After Effects functions are missing"),
+      ios: unsupported("Ignored; properties keep their keyframed values"),
+      android: unsupported("Ignored; properties keep their keyframed values"),
+    },
+  },
+  {
+    id: "alpha-mattes",
+    name: "Alpha track mattes",
+    support: { web: supported(), ios: supported(), android: supported() },
+  },
+  {
+    id: "luma-mattes",
+    name: "Luma track mattes",
+    support: {
+      web: partial("Rendered by the SVG renderer; the canvas renderer treats them as alpha mattes"),
+      ios: supported(),
+      android: supported(),
+    },
+  },
+  {
+    id: "merge-paths",
+    name: "Merge paths",
+    support: {
+      web: unsupported("Ignored; the paths are drawn unmerged"),
+      ios: partial("Main Thread rendering engine only; the Core Animation engine ignores them"),
+      android: partial("Off by default; enable the merge paths feature flag on the animation view"),
+    },
+  },
+  {
+    id: "text-layers",
+    name: "Text layers",
+    support: {
+      web: partial("Fonts must be loaded by the page unless glyphs are embedded"),
+      ios: partial("Fonts must be bundled with the app or supplied by a text provider"),
+      android: partial("Fonts must be bundled in assets/fonts or supplied by a font delegate"),
+    },
+  },
+  {
+    id: "3d-layers",
+    name: "3D layers",
+    support: {
+      web: partial("Rendered in 3D by the HTML renderer only; SVG and canvas flatten them"),
+      ios: unsupported("Flattened to 2D; rotation in X and Y is ignored"),
+      android: unsupported("Flattened to 2D; rotation in X and Y is ignored"),
+    },
+  },
+  {
+    id: "shadow-blur-effects",
+    name: "Drop shadow and blur effects",
+    support: {
+      web: partial("Drop shadow only, and only in the SVG renderer"),
+      ios: partial("Drop shadow only"),
+      android: supported(),
+    },
+  },
+  {
+    id: "effects",
+    name: "Other layer effects",
+    support: {
+      web: partial("Fill, stroke, tint, tritone and levels in the SVG renderer; others are ignored"),
+      ios: unsupported("Ignored"),
+      android: unsupported("Ignored"),
+    },
+  },
+  {
+    id: "blend-modes",
+    name: "Blend modes",
+    support: {
+      web: supported(),
+      ios: partial("Core Animation rendering engine only"),
+      android: partial("Most modes need Android 10 (API 29) or later"),
+    },
+  },
+  {
+    id: "mask-modes",
+    name: "Lighten, darken and difference masks",
+    support: {
+      web: unsupported("Ignored"),
+      ios: unsupported("Ignored"),
+      android: unsupported("Ignored"),
+    },
+  },
+  {
+    id: "external-images",
+    name: "External images",
+    support: {
+      web: partial("Image files must be served next to the JSON (or set assetsPath)"),
+      ios: partial("Image files must be bundled or supplied by an image provider"),
+      android: partial("Image files must be in an assets folder or supplied by an image delegate"),
+    },
+  },
+];
+
+/**
+ * Where a feature is used in a document and how each runtime handles it.
+ */
+export interface FeatureUsage {
+  id: string;
+  name: string;
+  count: number;
+  /** JSON pointers to the first uses */
+  pointers: string[];
+  support: Record<Runtime, FeatureSupport>;
+}
+
+/**
+ * A feature that does not fully work in a runtime.
+ */
+export interface CompatibilityIssue {
+  feature: string;
+  name: string;
+  level: SupportLevel;
+  note: string | null;
+  /** JSON pointer to the first use */
+  pointer: string;
+}
+
+/**
+ * Verdict for one runtime: the worst support level among the features used.
+ */
+export interface RuntimeCompatibility {
+  runtime: Runtime;
+  player: string;
+  status: SupportLevel;
+  issues: CompatibilityIssue[];
+}
+
+/**
+ * Result of checking a document against a set of runtimes.
+ */
+export interface CompatibilityReport {
+  features: FeatureUsage[];
+  runtimes: RuntimeCompatibility[];
+}
+
+const MAX_POINTERS = 10;
+
+/** Effect types (`ef[].ty`) drawn by the shadow/blur row; 20+ are visual effects, lower ones expression controls. */
+const SHADOW_BLUR_EFFECTS = new Set([25, 29]);
+const FIRST_VISUAL_EFFECT = 20;
+
+const UNCOMMON_MASK_MODES = new Set(["l", "d", "f"]);
+
+function worst(a: SupportLevel, b: SupportLevel): SupportLevel {
+  return SUPPORT_LEVELS.indexOf(a) > SUPPORT_LEVELS.indexOf(b) ? a : b;
+}
+
+/**
+ * Derives React Native support from its iOS and Android players.
+ */
+function reactNativeSupport(support: FeatureDefinition["support"]): FeatureSupport {
+  const level = worst(support.ios.level, support.android.level);
+  const notes = [
+    support.ios.level !== "supported" ? `iOS: ${support.ios.note}` : null,
+    support.android.level !== "supported" ? `Android: ${support.android.note}` : null,
+  ].filter((note): note is string => note !== null);
+  return { level, note: notes.length > 0 ? notes.join(" ") : null };
+}
+
+/**
+ * Finds the JSON pointers of every matrix feature used in a document.
+ */
+function detectFeatures(doc: LottieDocument): Map<string, string[]> {
+  const found = new Map<string, string[]>();
+  const add = (id: string, pointer: string) => {
+    const pointers = found.get(id) ?? [];
+    pointers.push(pointer);
+    found.set(id, pointers);
+  };
+
+  for (const { layer, pointer } of allLayers(doc)) {
+    walkObjects(layer, (obj, objPointer) => {
+      if (typeof obj.x === "string" && "k" in obj) {
+        add("expressions", pointer + objPointer);
+      }
+    });
+
+    if (layer.tt === 1 || layer.tt === 2) {
+      add("alpha-mattes", `${pointer}/tt`);
+    } else if (layer.tt === 3 || layer.tt === 4) {
+      add("luma-mattes", `${pointer}/tt`);
+    }
+
+    walkShapes(layer.shapes, (shape, shapePointer) => {
+      if (shape.ty === "mm") {
+        add("merge-paths", pointer + shapePointer);
+      }
+    });
+
+    if (layer.ty === 5) {
+      add("text-layers", pointer);
+    }
+    if (layer.ddd === 1) {
+      add("3d-layers", `${pointer}/ddd`);
+    }
+
+    (layer.ef ?? []).forEach((effect, i) => {
+      const type = typeof effect.ty === "number" ? effect.ty : -1;
+      if (effect.en === 0 || type < FIRST_VISUAL_EFFECT) {
+        return;
+      }
+      add(SHADOW_BLUR_EFFECTS.has(type) ? "shadow-blur-effects" : "effects", `${pointer}/ef/${i}`);
+    });
+
+    if (layer.bm !== undefined && layer.bm !== 0) {
+      add("blend-modes", `${pointer}/bm`);
+    }
+
+    (layer.masksProperties ?? []).forEach((mask, i) => {
+      if (UNCOMMON_MASK_MODES.has(mask.mode ?? "a")) {
+        add("mask-modes", `${pointer}/masksProperties/${i}/mode`);
+      }
+    });
+  }
+
+  (doc.assets ?? []).forEach((asset, i) => {
+    if (!isPrecomp(asset) && typeof asset.p === "string" && asset.e !== 1 && !asset.p.startsWith("data:")) {
+      add("external-images", `/assets/${i}`);
+    }
+  });
+
+  return found;
+}
+
+/**
+ * Checks which features of a document each runtime supports.
+ *
+ * Only features listed in FEATURE_MATRIX are reported; everything else
+ * is assumed to work everywhere.
+ */
+export function checkCompatibility(
+  doc: LottieDocument,
+  runtimes: readonly Runtime[] = RUNTIMES
+): CompatibilityReport {
+  const found = detectFeatures(doc);
+
+  const features: FeatureUsage[] = FEATURE_MATRIX.filter((feature) => found.has(feature.id)).map((feature) => {
+    const pointers = found.get(feature.id) ?? [];
+    return {
+      id: feature.id,
+      name: feature.name,
+      count: pointers.length,
+      pointers: pointers.slice(0, MAX_POINTERS),
+      support: { ...feature.support, "react-native": reactNativeSupport(feature.support) },
+    };
+  });
+
+  return {
+    features,
+    runtimes: runtimes.map((runtime) => {
+      const issues: CompatibilityIssue[] = features
+        .filter((feature) => feature.support[runtime].level !== "supported")
+        .map((feature) => ({
+          feature: feature.id,
+          name: feature.name,
+          level: feature.support[runtime].level,
+          note: feature.support[runtime].note,
+          pointer: feature.pointers[0],
+        }));
+      return {
+        runtime,
+        player: RUNTIME_PLAYERS[runtime],
+        status: issues.reduce<SupportLevel>((status, issue) => worst(status, issue.level), "supported"),
+        issues,
+      };
+    }),
+  };
+}
@@ -0,0 +1,186 @@
+/**
+ * Parsing and traversal helpers for Lottie documents.
+ */
+
+import { LottieFormatError } from "./errors.js";
+import { LottieAsset, LottieDocument, LottieLayer, LottieShape, LottieTransform } from "./types.js";
+
+/**
+ * Checks that a value is a finite number.
+ */
+export function isNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+/**
+ * Parses JSON text.
+ *
+ * @throws LottieFormatError if the text is not valid JSON
+ */
+export function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    throw new LottieFormatError(`Not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Parses Lottie JSON text (or an already-parsed value) into a document.
+ *
+ * Only the structure needed to work with the document is checked here;
+ * use validate_animation for a full report.
+ *
+ * @throws LottieFormatError if the input is not a Lottie document
+ */
+export function parseLottie(input: string | unknown): LottieDocument {
+  const value = typeof input === "string" ? parseJson(input) : input;
+
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new LottieFormatError("Lottie document must be a JSON object");
+  }
+
+  const doc = value as Record<string, unknown>;
+  for (const key of ["fr", "ip", "op", "w", "h"]) {
+    if (!isNumber(doc[key])) {
+      throw new LottieFormatError(`Missing or non-numeric "${key}"`, `/${key}`);
+    }
+  }
+  if (!Array.isArray(doc.layers)) {
+    throw new LottieFormatError('Missing "layers" array', "/layers");
+  }
+  if (doc.assets !== undefined && !Array.isArray(doc.assets)) {
+    throw new LottieFormatError('"assets" must be an array', "/assets");
+  }
+
+  return doc as LottieDocument;
+}
+
+/**
+ * Whether an asset is a precomposition.
+ */
+export function isPrecomp(asset: LottieAsset): asset is LottieAsset & { layers: LottieLayer[] } {
+  return Array.isArray(asset.layers);
+}
+
+/**
+ * Whether a shape item is a group transform (`tr`).
+ */
+export function isTransform(shape: LottieShape): shape is LottieShape & LottieTransform {
+  return shape.ty === "tr";
+}
+
+/**
+ * A layer together with where it lives in the document.
+ */
+export interface LayerLocation {
+  layer: LottieLayer;
+
+  /** "root" or the precomp asset ID */
+  composition: string;
+
+  /** JSON pointer to the layer */
+  pointer: string;
+}
+
+/**
+ * Lists every layer in the root composition and all precomps.
+ */
+export function allLayers(doc: LottieDocument): LayerLocation[] {
+  const result: LayerLocation[] = doc.layers.map((layer, i) => ({
+    layer,
+    composition: "root",
+    pointer: `/layers/${i}`,
+  }));
+
+  (doc.assets ?? []).forEach((asset, a) => {
+    if (isPrecomp(asset)) {
+      asset.layers.forEach((layer, i) => {
+        result.push({ layer, composition: asset.id, pointer: `/assets/${a}/layers/${i}` });
+      });
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Calls `visit` for every shape item in a list, descending into groups.
+ */
+export function walkShapes(
+  shapes: LottieShape[] | undefined,
+  visit: (shape: LottieShape, pointer: string) => void,
+  pointer = "/shapes"
+): void {
+  (shapes ?? []).forEach((shape, i) => {
+    const shapePointer = `${pointer}/${i}`;
+    visit(shape, shapePointer);
+    if (shape.ty === "gr" && Array.isArray(shape.it)) {
+      walkShapes(shape.it, visit, `${shapePointer}/it`);
+    }
+  });
+}
+
+/**
+ * Escapes a key for use in a JSON pointer.
+ */
+export function escapePointer(key: string | number): string {
+  return String(key).replace(/~/g, "~0").replace(/\//g, "~1");
+}
+
+/**
+ * Calls `visit` for every object nested in a value (including the value itself).
+ */
+export function walkObjects(
+  value: unknown,
+  visit: (obj: Record<string, unknown>, pointer: string) => void,
+  pointer = ""
+): void {
+  if (Array.isArray(value)) {
+    value.forEach((item, i) => walkObjects(item, visit, `${pointer}/${i}`));
+  } else if (typeof value === "object" && value !== null) {
+    const obj = value as Record<string, unknown>;
+    visit(obj, pointer);
+    for (const [key, child] of Object.entries(obj)) {
+      if (typeof child === "object" && child !== null) {
+        walkObjects(child, visit, `${pointer}/${escapePointer(key)}`);
+      }
+    }
+  }
+}
+
+/**
+ * Resolves a JSON pointer to its parent container and final key.
+ * Returns null if any segment along the way is missing.
+ */
+export function resolvePointer(
+  root: unknown,
+  pointer: string
+): { parent: Record<string, unknown> | unknown[]; key: string } | null {
+  if (!pointer.startsWith("/")) {
+    return null;
+  }
+  const segments = pointer
+    .slice(1)
+    .split("/")
+    .map((s) => s.replace(/~1/g, "/").replace(/~0/g, "~"));
+
+  let current: unknown = root;
+  for (const segment of segments.slice(0, -1)) {
+    if (typeof current !== "object" || current === null) {
+      return null;
+    }
+    current = (current as Record<string, unknown>)[segment];
+  }
+  if (typeof current !== "object" || current === null) {
+    return null;
+  }
+  return { parent: current as Record<string, unknown> | unknown[], key: segments[segments.length - 1] };
+}
+
+/**
+ * Deep-copies a document so it can be modified without touching the original.
+ */
+export function cloneLottie<T>(doc: T): T {
+  return structuredClone(doc);
+}
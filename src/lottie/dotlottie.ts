@@ -0,0 +1,369 @@
+/**
+ * Reading and writing dotLottie (.lottie) archives.
+ *
+ * A dotLottie file is a ZIP archive with a manifest.json, one JSON file per
+ * animation and the image assets they reference. Version 1 archives use
+ * `animations/` and `images/`; version 2 archives use `a/` and `i/`.
+ */
+
+import { CONFIG } from "../config.js";
+import { cloneLottie, parseLottie } from "./document.js";
+import { LottieFormatError } from "./errors.js";
+import { LottieDocument } from "./types.js";
+import { readZip, writeZip, ZipEntry } from "./zip.js";
+
+/**
+ * Playback settings for one animation in the manifest.
+ */
+export interface DotLottieManifestAnimation {
+  id: string;
+  speed?: number;
+  loop?: boolean | number;
+  autoplay?: boolean;
+  direction?: 1 | -1;
+  playMode?: "normal" | "bounce";
+  [key: string]: unknown;
+}
+
+/**
+ * The archive's manifest.json.
+ */
+export interface DotLottieManifest {
+  version?: string;
+  generator?: string;
+  author?: string;
+  activeAnimationId?: string;
+  animations: DotLottieManifestAnimation[];
+  [key: string]: unknown;
+}
+
+/**
+ * An animation read from an archive.
+ */
+export interface DotLottieAnimation {
+  id: string;
+  document: LottieDocument;
+  manifest: DotLottieManifestAnimation;
+
+  /** Size of the animation JSON inside the archive in bytes */
+  bytes: number;
+
+  /** Image assets referenced by the animation but missing from the archive */
+  missingImages: string[];
+}
+
+/**
+ * Any other file stored in an archive.
+ */
+export interface DotLottieFile {
+  /** Path inside the archive */
+  path: string;
+  data: Uint8Array;
+}
+
+/**
+ * Contents of an unpacked archive.
+ */
+export interface DotLottieArchive {
+  /** Archive layout version */
+  version: 1 | 2;
+  manifest: DotLottieManifest;
+  animations: DotLottieAnimation[];
+  images: DotLottieFile[];
+
+  /** Files that are neither the manifest, animations nor images (themes, state machines, ...) */
+  otherFiles: DotLottieFile[];
+}
+
+/**
+ * An animation to pack into an archive.
+ */
+export interface DotLottiePackInput {
+  id: string;
+  document: LottieDocument;
+  speed?: number;
+  loop?: boolean;
+  autoplay?: boolean;
+}
+
+/**
+ * Archive-wide settings for packing.
+ */
+export interface DotLottiePackOptions {
+  /** Archive layout version (default: 1, the most widely supported) */
+  version?: 1 | 2;
+  author?: string;
+  activeAnimationId?: string;
+}
+
+/**
+ * Result of packing an archive.
+ */
+export interface PackedDotLottie {
+  data: Uint8Array;
+  manifest: DotLottieManifest;
+
+  /** Image files extracted from embedded data URIs, by path inside the archive */
+  images: Array<{ path: string; bytes: number }>;
+}
+
+/**
+ * Valid animation ids (they become file names inside the archive).
+ */
+export const DOTLOTTIE_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+const LAYOUTS = {
+  1: { animations: "animations/", images: "images/" },
+  2: { animations: "a/", images: "i/" },
+} as const;
+
+const IMAGE_TYPES: Record<string, string> = {
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  webp: "image/webp",
+  gif: "image/gif",
+  svg: "image/svg+xml",
+};
+
+/**
+ * Returns the file extension (without the dot) of a path, lowercased.
+ */
+function extension(path: string): string {
+  const match = /\.([A-Za-z0-9]+)$/.exec(path);
+  return match ? match[1].toLowerCase() : "";
+}
+
+/**
+ * Reads and parses the manifest.
+ */
+function parseManifest(entry: ZipEntry | undefined): DotLottieManifest {
+  if (!entry) {
+    throw new LottieFormatError("dotLottie archive has no manifest.json");
+  }
+
+  let manifest: unknown;
+  try {
+    manifest = JSON.parse(new TextDecoder().decode(entry.data));
+  } catch (error) {
+    throw new LottieFormatError(`manifest.json is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  if (typeof manifest !== "object" || manifest === null || !Array.isArray((manifest as DotLottieManifest).animations)) {
+    throw new LottieFormatError("manifest.json must have an `animations` array", "/animations");
+  }
+  (manifest as DotLottieManifest).animations.forEach((animation, index) => {
+    if (typeof animation?.id !== "string" || !animation.id) {
+      throw new LottieFormatError("Manifest animation is missing its `id`", `/animations/${index}/id`);
+    }
+    // Ids become file names when animations are extracted
+    if (!DOTLOTTIE_ID_PATTERN.test(animation.id)) {
+      throw new LottieFormatError(`Invalid animation id "${animation.id}": use letters, digits, '-' and '_'`, `/animations/${index}/id`);
+    }
+  });
+  return manifest as DotLottieManifest;
+}
+
+/**
+ * Replaces image references that point into the archive with data URIs.
+ *
+ * @returns The referenced image names that were not found
+ */
+function embedImages(document: LottieDocument, images: Map<string, Uint8Array>): string[] {
+  const missing: string[] = [];
+  for (const asset of document.assets ?? []) {
+    if (typeof asset.p !== "string" || asset.e === 1 || asset.p.startsWith("data:") || asset.layers) {
+      continue;
+    }
+    const data = images.get(asset.p);
+    if (!data) {
+      missing.push(asset.p);
+      continue;
+    }
+    const type = IMAGE_TYPES[extension(asset.p)] ?? "application/octet-stream";
+    asset.u = "";
+    asset.p = `data:${type};base64,${Buffer.from(data).toString("base64")}`;
+    asset.e = 1;
+  }
+  return missing;
+}
+
+/**
+ * Unpacks a dotLottie archive, parsing every animation listed in the manifest.
+ * Images referenced by an animation are embedded into it as data URIs.
+ *
+ * @throws LottieFormatError if the archive, manifest or an animation is invalid
+ */
+export function unpackDotLottie(data: Uint8Array): DotLottieArchive {
+  const entries = new Map(readZip(data).map((entry) => [entry.name.replace(/^\/+/, ""), entry]));
+  const manifest = parseManifest(entries.get("manifest.json"));
+
+  const version = (typeof manifest.version === "string" && manifest.version.startsWith("2")) || [...entries.keys()].some((name) => name.startsWith("a/")) ? 2 : 1;
+  const layout = LAYOUTS[version];
+
+  const images: DotLottieFile[] = [];
+  const otherFiles: DotLottieFile[] = [];
+  const imagesByName = new Map<string, Uint8Array>();
+  for (const [name, entry] of entries) {
+    if (name === "manifest.json" || name.startsWith(layout.animations)) {
+      continue;
+    }
+    if (name.startsWith(layout.images)) {
+      images.push({ path: name, data: entry.data });
+      imagesByName.set(name.slice(layout.images.length), entry.data);
+    } else {
+      otherFiles.push({ path: name, data: entry.data });
+    }
+  }
+
+  const animations = manifest.animations.map((entry, index): DotLottieAnimation => {
+    const file = entries.get(`${layout.animations}${entry.id}.json`);
+    if (!file) {
+      throw new LottieFormatError(`Animation "${entry.id}" is listed in the manifest but ${layout.animations}${entry.id}.json is missing`, `/animations/${index}`);
+    }
+
+    let document: LottieDocument;
+    try {
+      document = parseLottie(new TextDecoder().decode(file.data));
+    } catch (error) {
+      if (error instanceof LottieFormatError) {
+        throw new LottieFormatError(`Animation "${entry.id}": ${error.message}`);
+      }
+      throw error;
+    }
+
+    return {
+      id: entry.id,
+      document,
+      manifest: entry,
+      bytes: file.data.byteLength,
+      missingImages: embedImages(document, imagesByName),
+    };
+  });
+
+  return { version, manifest, animations, images, otherFiles };
+}
+
+/**
+ * Picks an animation from an archive: the requested id, else the manifest's
+ * active animation, else the first one.
+ *
+ * @throws LottieFormatError if the id is not in the archive or it has no animations
+ */
+export function selectDotLottieAnimation(archive: DotLottieArchive, id?: string): DotLottieAnimation {
+  if (id !== undefined) {
+    const found = archive.animations.find((animation) => animation.id === id);
+    if (!found) {
+      throw new LottieFormatError(
+        `Animation "${id}" is not in the archive. Available: ${archive.animations.map((a) => a.id).join(", ") || "none"}`
+      );
+    }
+    return found;
+  }
+
+  const active = archive.animations.find((animation) => animation.id === archive.manifest.activeAnimationId);
+  if (active || archive.animations.length > 0) {
+    return active ?? archive.animations[0];
+  }
+  throw new LottieFormatError("dotLottie archive contains no animations");
+}
+
+/**
+ * Packs animations into a dotLottie archive with a generated manifest.
+ * Embedded (data URI) images are moved into the archive's image folder.
+ * Version 2 manifests only list ids; speed, loop and autoplay are written for version 1.
+ *
+ * @throws LottieFormatError for invalid or duplicate ids and malformed image data URIs
+ */
+export function packDotLottie(animations: DotLottiePackInput[], options: DotLottiePackOptions = {}): PackedDotLottie {
+  const version = options.version ?? 1;
+  const layout = LAYOUTS[version];
+
+  if (animations.length === 0) {
+    throw new LottieFormatError("Provide at least one animation to pack");
+  }
+  const ids = new Set<string>();
+  for (const animation of animations) {
+    if (!DOTLOTTIE_ID_PATTERN.test(animation.id)) {
+      throw new LottieFormatError(`Invalid animation id "${animation.id}": use letters, digits, '-' and '_'`);
+    }
+    if (ids.has(animation.id)) {
+      throw new LottieFormatError(`Duplicate animation id "${animation.id}"`);
+    }
+    ids.add(animation.id);
+  }
+  if (options.activeAnimationId !== undefined && !ids.has(options.activeAnimationId)) {
+    throw new LottieFormatError(`Active animation "${options.activeAnimationId}" is not one of the packed animations`);
+  }
+
+  const images = new Map<string, Buffer>();
+  const animationEntries: ZipEntry[] = [];
+
+  for (const animation of animations) {
+    const document = cloneLottie(animation.document);
+
+    for (const [index, asset] of (document.assets ?? []).entries()) {
+      const match = typeof asset.p === "string" ? /^data:([^;,]+)(;base64)?,(.*)$/s.exec(asset.p) : null;
+      if (!match) {
+        continue;
+      }
+      const id = typeof asset.id === "string" ? asset.id : `image_${index}`;
+      let data: Buffer;
+      try {
+        data = match[2] ? Buffer.from(match[3], "base64") : Buffer.from(decodeURIComponent(match[3]), "utf-8");
+      } catch {
+        throw new LottieFormatError(`Animation "${animation.id}": image "${id}" has an invalid data URI`, `/assets/${index}/p`);
+      }
+      const ext = Object.keys(IMAGE_TYPES).find((key) => IMAGE_TYPES[key] === match[1]) ?? "bin";
+
+      // Asset ids are only unique per animation; prefix on a clash with different content
+      let name = `${id.replace(/[^A-Za-z0-9_-]/g, "_")}.${ext}`;
+      const existing = images.get(name);
+      if (existing && !existing.equals(data)) {
+        name = `${animation.id}_${name}`;
+      }
+      images.set(name, data);
+
+      asset.u = `/${layout.images}`;
+      asset.p = name;
+      asset.e = 0;
+    }
+
+    animationEntries.push({
+      name: `${layout.animations}${animation.id}.json`,
+      data: new TextEncoder().encode(JSON.stringify(document)),
+    });
+  }
+
+  const manifest: DotLottieManifest = {
+    version: String(version),
+    generator: `${CONFIG.serverName} ${CONFIG.serverVersion}`,
+    ...(options.author ? { author: options.author } : {}),
+    animations: animations.map((animation) =>
+      version === 1
+        ? {
+            id: animation.id,
+            speed: animation.speed ?? 1,
+            loop: animation.loop ?? true,
+            autoplay: animation.autoplay ?? true,
+            direction: 1,
+            playMode: "normal",
+          }
+        : { id: animation.id }
+    ),
+    activeAnimationId: options.activeAnimationId ?? animations[0].id,
+  };
+
+  const imageEntries = [...images].map(([name, data]) => ({ name: `${layout.images}${name}`, data }));
+  const data = writeZip([
+    { name: "manifest.json", data: new TextEncoder().encode(JSON.stringify(manifest, null, 2)) },
+    ...animationEntries,
+    ...imageEntries,
+  ]);
+
+  return {
+    data,
+    manifest,
+    images: imageEntries.map((entry) => ({ path: entry.name, bytes: entry.data.byteLength })),
+  };
+}
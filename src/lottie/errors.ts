@@ -0,0 +1,61 @@
+/**
+ * Error classes for loading and processing Lottie documents.
+ */
+
+/**
+ * Base class for Lottie document errors.
+ */
+export class LottieError extends Error {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = "LottieError";
+  }
+}
+
+/**
+ * Thrown when a document cannot be fetched or read.
+ */
+export class LottieSourceError extends LottieError {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = "LottieSourceError";
+  }
+}
+
+/**
+ * Thrown when a local path is unsafe (outside the project root) or already taken.
+ */
+export class LottiePathError extends LottieError {
+  constructor(
+    message: string,
+    public readonly path: string
+  ) {
+    super(message);
+    this.name = "LottiePathError";
+  }
+}
+
+/**
+ * Thrown when a document is not valid Lottie JSON.
+ *
+ * `pointer` is a JSON pointer (RFC 6901) to the offending value, if known.
+ */
+export class LottieFormatError extends LottieError {
+  constructor(
+    message: string,
+    public readonly pointer: string = ""
+  ) {
+    super(pointer ? `${message} (at ${pointer})` : message);
+    this.name = "LottieFormatError";
+  }
+}
+
+/**
+ * Thrown when an edit cannot be applied to a document (e.g. an empty trim range).
+ */
+export class LottieEditError extends LottieError {
+  constructor(message: string) {
+    super(message);
+    this.name = "LottieEditError";
+  }
+}
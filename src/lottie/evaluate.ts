@@ -0,0 +1,333 @@
+/**
+ * Evaluation of animated properties and transforms at a given frame.
+ */
+
+import { isPrecomp } from "./document.js";
+import { LottieAsset, LottieKeyframe, LottieLayer, LottieProperty, LottieTransform } from "./types.js";
+
+/**
+ * 2D affine matrix [a, b, c, d, e, f]: x' = a·x + c·y + e, y' = b·x + d·y + f.
+ */
+export type Matrix = [number, number, number, number, number, number];
+
+/**
+ * A bezier path as stored in shape data: vertices with tangents relative to them.
+ */
+export interface BezierPath {
+  c?: boolean;
+  v: number[][];
+  i: number[][];
+  o: number[][];
+}
+
+export const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+
+/**
+ * Returns a × b (apply b first, then a).
+ */
+export function multiply(a: Matrix, b: Matrix): Matrix {
+  return [
+    a[0] * b[0] + a[2] * b[1],
+    a[1] * b[0] + a[3] * b[1],
+    a[0] * b[2] + a[2] * b[3],
+    a[1] * b[2] + a[3] * b[3],
+    a[0] * b[4] + a[2] * b[5] + a[4],
+    a[1] * b[4] + a[3] * b[5] + a[5],
+  ];
+}
+
+/**
+ * Transforms a point.
+ */
+export function applyMatrix(m: Matrix, x: number, y: number): [number, number] {
+  return [m[0] * x + m[2] * y + m[4], m[1] * x + m[3] * y + m[5]];
+}
+
+/**
+ * Approximate linear scale of a matrix (for stroke widths).
+ */
+export function matrixScale(m: Matrix): number {
+  return Math.sqrt(Math.abs(m[0] * m[3] - m[1] * m[2]));
+}
+
+/**
+ * Y of a CSS-style cubic bezier easing curve at progress x.
+ */
+export function cubicBezierEase(x1: number, y1: number, x2: number, y2: number, x: number): number {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+  if (x1 === y1 && x2 === y2) return x;
+
+  const sample = (p1: number, p2: number, u: number) => 3 * (1 - u) * (1 - u) * u * p1 + 3 * (1 - u) * u * u * p2 + u * u * u;
+
+  // Bisection is robust for any handles; 30 steps is far below pixel precision
+  let low = 0;
+  let high = 1;
+  let u = x;
+  for (let i = 0; i < 30; i++) {
+    u = (low + high) / 2;
+    if (sample(x1, x2, u) < x) low = u;
+    else high = u;
+  }
+  return sample(y1, y2, u);
+}
+
+/**
+ * Reads component `index` of an easing handle coordinate (which may be per-dimension).
+ */
+function handleComponent(value: number | number[] | undefined, index: number, fallback: number): number {
+  if (Array.isArray(value)) {
+    return value[Math.min(index, value.length - 1)] ?? fallback;
+  }
+  return value ?? fallback;
+}
+
+/**
+ * Interpolates between two values of the same shape (numbers, number arrays or
+ * bezier paths). `progress` gives the eased progress per dimension.
+ */
+function lerpValue(from: unknown, to: unknown, progress: (dimension: number) => number): unknown {
+  if (typeof from === "number" && typeof to === "number") {
+    return from + (to - from) * progress(0);
+  }
+  if (Array.isArray(from) && Array.isArray(to)) {
+    if (from.every((item) => typeof item === "number")) {
+      return from.map((v: number, i) => (typeof to[i] === "number" ? v + (to[i] - v) * progress(i) : v));
+    }
+    return from.map((item, i) => (i < to.length ? lerpValue(item, to[i], () => progress(0)) : item));
+  }
+  if (typeof from === "object" && from !== null && typeof to === "object" && to !== null) {
+    const result: Record<string, unknown> = { ...(from as Record<string, unknown>) };
+    for (const key of ["v", "i", "o"]) {
+      if (key in result && key in to) {
+        result[key] = lerpValue(result[key], (to as Record<string, unknown>)[key], progress);
+      }
+    }
+    return result;
+  }
+  return from;
+}
+
+/**
+ * Evaluates a keyframe list at a frame (in the property owner's time).
+ */
+export function keyframesValue(keyframes: LottieKeyframe[], frame: number): unknown {
+  const first = keyframes[0];
+  if (frame <= first.t || keyframes.length === 1) {
+    return first.s;
+  }
+
+  for (let k = 0; k < keyframes.length - 1; k++) {
+    const start = keyframes[k];
+    const end = keyframes[k + 1];
+    if (frame >= end.t) {
+      continue;
+    }
+
+    const from = start.s;
+    const to = start.e ?? end.s ?? from;
+    if (start.h === 1 || end.t === start.t) {
+      return from;
+    }
+
+    const x = (frame - start.t) / (end.t - start.t);
+    const progress = (index: number) =>
+      cubicBezierEase(
+        handleComponent(start.o?.x, index, 0),
+        handleComponent(start.o?.y, index, 0),
+        handleComponent(start.i?.x, index, 1),
+        handleComponent(start.i?.y, index, 1),
+        x
+      );
+
+    // Spatial (motion path) tangents for positions
+    const tangentOut = start.to as number[] | undefined;
+    const tangentIn = start.ti as number[] | undefined;
+    if (
+      Array.isArray(from) && Array.isArray(to) && tangentOut && tangentIn &&
+      (tangentOut.some((v) => v !== 0) || tangentIn.some((v) => v !== 0))
+    ) {
+      const u = progress(0);
+      return (from as number[]).map((p0, d) => {
+        const p3 = (to as number[])[d] ?? p0;
+        const p1 = p0 + (tangentOut[d] ?? 0);
+        const p2 = p3 + (tangentIn[d] ?? 0);
+        return (1 - u) ** 3 * p0 + 3 * (1 - u) ** 2 * u * p1 + 3 * (1 - u) * u * u * p2 + u ** 3 * p3;
+      });
+    }
+
+    return lerpValue(from, to, progress);
+  }
+
+  const last = keyframes[keyframes.length - 1];
+  return last.s ?? keyframes[keyframes.length - 2].e;
+}
+
+/**
+ * Whether a property is keyframed.
+ */
+export function isAnimated(prop: LottieProperty | undefined): boolean {
+  return (
+    prop !== undefined &&
+    Array.isArray(prop.k) &&
+    prop.k.length > 0 &&
+    typeof prop.k[0] === "object" &&
+    prop.k[0] !== null &&
+    typeof (prop.k[0] as LottieKeyframe).t === "number"
+  );
+}
+
+/**
+ * Evaluates a property at a frame. Expressions are ignored.
+ */
+export function propertyValue(prop: LottieProperty | undefined, frame: number): unknown {
+  if (prop === undefined) {
+    return undefined;
+  }
+  if (isAnimated(prop)) {
+    return keyframesValue(prop.k as LottieKeyframe[], frame);
+  }
+  return prop.k;
+}
+
+/**
+ * Evaluates a property as a number (the first component of arrays).
+ */
+export function numberAt(prop: LottieProperty | undefined, frame: number, fallback: number): number {
+  const value = propertyValue(prop, frame);
+  if (typeof value === "number") return value;
+  if (Array.isArray(value) && typeof value[0] === "number") return value[0];
+  return fallback;
+}
+
+/**
+ * Evaluates a property as a number array, padding missing components from the fallback.
+ */
+export function vectorAt(prop: LottieProperty | undefined, frame: number, fallback: number[]): number[] {
+  const value = propertyValue(prop, frame);
+  if (typeof value === "number") return [value, ...fallback.slice(1)];
+  if (Array.isArray(value)) return fallback.map((f, i) => (typeof value[i] === "number" ? value[i] : f));
+  return fallback;
+}
+
+/**
+ * Evaluates a shape path property (keyframe values wrap the path in an array).
+ */
+export function pathAt(prop: LottieProperty | undefined, frame: number): BezierPath | null {
+  let value = propertyValue(prop, frame);
+  if (Array.isArray(value)) {
+    value = value[0];
+  }
+  if (typeof value === "object" && value !== null && Array.isArray((value as BezierPath).v)) {
+    const path = value as BezierPath;
+    return { c: path.c, v: path.v, i: path.i ?? [], o: path.o ?? [] };
+  }
+  return null;
+}
+
+/**
+ * Builds the matrix of a layer or group transform: translate(p) · rotate(r) · skew · scale(s) · translate(-a).
+ */
+export function transformMatrix(ks: LottieTransform | undefined, frame: number): Matrix {
+  if (!ks) {
+    return IDENTITY;
+  }
+
+  const anchor = vectorAt(ks.a, frame, [0, 0]);
+  let position: number[];
+  const p = ks.p as (LottieProperty & { s?: boolean; x?: LottieProperty; y?: LottieProperty }) | undefined;
+  if (p && p.s === true) {
+    position = [numberAt(p.x, frame, 0), numberAt(p.y, frame, 0)];
+  } else {
+    position = vectorAt(p, frame, [0, 0]);
+  }
+  const scale = vectorAt(ks.s, frame, [100, 100]).map((v) => v / 100);
+  const rotation = (numberAt(ks.r ?? (ks.rz as LottieProperty | undefined), frame, 0) * Math.PI) / 180;
+  const skew = (numberAt(ks.sk as LottieProperty | undefined, frame, 0) * Math.PI) / 180;
+  const skewAxis = (numberAt(ks.sa as LottieProperty | undefined, frame, 0) * Math.PI) / 180;
+
+  let m: Matrix = [1, 0, 0, 1, -anchor[0], -anchor[1]];
+  m = multiply([scale[0], 0, 0, scale[1], 0, 0], m);
+  if (skew !== 0) {
+    // Skew along the skew axis: rotate to the axis, shear, rotate back
+    const cos = Math.cos(skewAxis);
+    const sin = Math.sin(skewAxis);
+    m = multiply([cos, -sin, sin, cos, 0, 0], m);
+    m = multiply([1, 0, -Math.tan(skew), 1, 0, 0], m);
+    m = multiply([cos, sin, -sin, cos, 0, 0], m);
+  }
+  if (rotation !== 0) {
+    const cos = Math.cos(rotation);
+    const sin = Math.sin(rotation);
+    m = multiply([cos, sin, -sin, cos, 0, 0], m);
+  }
+  return multiply([1, 0, 0, 1, position[0], position[1]], m);
+}
+
+/**
+ * Converts a composition frame to a layer's local time (for its keyframes).
+ */
+export function layerTime(layer: LottieLayer, frame: number): number {
+  return (frame - (layer.st ?? 0)) / (layer.sr ?? 1);
+}
+
+/**
+ * Whether a layer is within its in/out range at a composition frame.
+ */
+export function isLayerActive(layer: LottieLayer, frame: number): boolean {
+  return frame >= layer.ip && frame < layer.op;
+}
+
+/**
+ * Builds a layer's matrix including its parent chain, in composition coordinates.
+ *
+ * @param layers - The layers of the layer's composition (to resolve `parent`)
+ */
+export function layerMatrix(layer: LottieLayer, layers: LottieLayer[], frame: number): Matrix {
+  let matrix = transformMatrix(layer.ks, layerTime(layer, frame));
+  const seen = new Set<LottieLayer>([layer]);
+  let current = layer;
+  while (current.parent !== undefined) {
+    const parent = layers.find((l) => l.ind === current.parent);
+    if (!parent || seen.has(parent)) {
+      break;
+    }
+    seen.add(parent);
+    matrix = multiply(transformMatrix(parent.ks, layerTime(parent, frame)), matrix);
+    current = parent;
+  }
+  return matrix;
+}
+
+/**
+ * Layer opacity (0-1) at a composition frame, without parents (opacity is not inherited).
+ */
+export function layerOpacity(layer: LottieLayer, frame: number): number {
+  return numberAt(layer.ks?.o, layerTime(layer, frame), 100) / 100;
+}
+
+/**
+ * Maximum precomp nesting depth (guards against reference cycles).
+ */
+const MAX_PRECOMP_DEPTH = 10;
+
+/**
+ * The layers a precomp layer shows, and the frame of their composition to show.
+ *
+ * @param time - The precomp layer's local time (see layerTime)
+ * @param depth - Nesting depth of the precomp layer's composition (0 for the root)
+ * @returns null if the asset is missing or not a precomp, or nesting is too deep
+ */
+export function precompContent(
+  layer: LottieLayer,
+  time: number,
+  assets: Map<string, LottieAsset>,
+  frameRate: number,
+  depth: number
+): { layers: LottieLayer[]; frame: number } | null {
+  const asset = layer.refId !== undefined ? assets.get(layer.refId) : undefined;
+  if (!asset || !isPrecomp(asset) || depth >= MAX_PRECOMP_DEPTH) {
+    return null;
+  }
+  return { layers: asset.layers, frame: layer.tm ? numberAt(layer.tm, time, 0) * frameRate : time };
+}
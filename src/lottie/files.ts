@@ -0,0 +1,127 @@
+/**
+ * Reading and writing Lottie files inside the project root.
+ *
+ * Every path is resolved against the project root (see setProjectRoot) and
+ * must stay inside it, including through symlinks.
+ */
+
+import { open, readFile, mkdir, stat, realpath } from "fs/promises";
+import { dirname, isAbsolute, relative, resolve, sep } from "path";
+import { getProjectRoot } from "../config/styles.js";
+import { LottiePathError, LottieSourceError } from "./errors.js";
+
+/**
+ * Whether `child` is `parent` or inside it.
+ */
+function isInside(parent: string, child: string): boolean {
+  const rel = relative(parent, child);
+  return rel === "" || (!rel.startsWith(`..${sep}`) && rel !== ".." && !isAbsolute(rel));
+}
+
+/**
+ * Resolves the real path of the deepest existing ancestor of a path,
+ * re-appending the parts that do not exist yet.
+ */
+async function realpathOfExisting(path: string): Promise<string> {
+  let existing = path;
+  const missing: string[] = [];
+  for (;;) {
+    try {
+      return resolve(await realpath(existing), ...missing);
+    } catch {
+      const parent = dirname(existing);
+      if (parent === existing) {
+        return path;
+      }
+      missing.unshift(relative(parent, existing));
+      existing = parent;
+    }
+  }
+}
+
+/**
+ * Resolves a user-supplied path against the project root.
+ *
+ * @throws LottiePathError if the path points outside the project root
+ */
+export async function resolveProjectPath(path: string): Promise<string> {
+  const root = resolve(getProjectRoot());
+  const fullPath = resolve(root, path);
+
+  if (!isInside(root, fullPath)) {
+    throw new LottiePathError(`Path "${path}" is outside the project root (${root})`, path);
+  }
+
+  // Catch symlinks that lead out of the project
+  const realRoot = await realpathOfExisting(root);
+  if (!isInside(realRoot, await realpathOfExisting(fullPath))) {
+    throw new LottiePathError(`Path "${path}" resolves outside the project root through a symlink`, path);
+  }
+
+  return fullPath;
+}
+
+/**
+ * Reads a file inside the project root, enforcing a size limit.
+ *
+ * @throws LottiePathError if the path is outside the project root
+ * @throws LottieSourceError if the file is missing, not a file, or too large
+ */
+export async function readLocalFile(path: string, maxBytes: number): Promise<Buffer> {
+  const fullPath = await resolveProjectPath(path);
+
+  let size: number;
+  try {
+    const info = await stat(fullPath);
+    if (!info.isFile()) {
+      throw new LottieSourceError(`Not a file: ${path}`);
+    }
+    size = info.size;
+  } catch (error) {
+    if (error instanceof LottieSourceError) {
+      throw error;
+    }
+    throw new LottieSourceError(`Cannot read ${path}: file not found`, { cause: error });
+  }
+
+  if (size > maxBytes) {
+    throw new LottieSourceError(`File is too large (${(size / 1024 / 1024).toFixed(1)}MB, limit ${maxBytes / 1024 / 1024}MB)`);
+  }
+  return readFile(fullPath);
+}
+
+/**
+ * Writes a file inside the project root, creating parent directories.
+ *
+ * @returns The absolute path written
+ * @throws LottiePathError if the path is outside the project root, or exists and `overwrite` is not set
+ */
+export async function writeLocalFile(
+  path: string,
+  data: string | Uint8Array,
+  options: { overwrite?: boolean } = {}
+): Promise<string> {
+  const fullPath = await resolveProjectPath(path);
+  await mkdir(dirname(fullPath), { recursive: true });
+
+  let handle;
+  try {
+    // "wx" fails if the file exists, so the check and the write cannot race
+    handle = await open(fullPath, options.overwrite ? "w" : "wx");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "EEXIST") {
+      throw new LottiePathError(`${path} already exists. Pass overwrite: true to replace it`, path);
+    }
+    if ((error as NodeJS.ErrnoException).code === "EISDIR") {
+      throw new LottiePathError(`${path} is a directory`, path);
+    }
+    throw error;
+  }
+
+  try {
+    await handle.writeFile(data);
+  } finally {
+    await handle.close();
+  }
+  return fullPath;
+}
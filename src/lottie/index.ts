@@ -0,0 +1,206 @@
+/**
+ * Lottie document module public exports.
+ */
+
+export {
+  LottieError,
+  LottieSourceError,
+  LottiePathError,
+  LottieFormatError,
+  LottieEditError,
+} from "./errors.js";
+export {
+  parseJson,
+  parseLottie,
+  isPrecomp,
+  isTransform,
+  allLayers,
+  walkShapes,
+  walkObjects,
+  escapePointer,
+  resolvePointer,
+  cloneLottie,
+  LayerLocation,
+} from "./document.js";
+export { resolveProjectPath, readLocalFile, writeLocalFile } from "./files.js";
+export {
+  TRUSTED_DOMAINS,
+  MAX_DOCUMENT_BYTES,
+  isTrustedUrl,
+  fetchTrusted,
+  loadLottie,
+  loadLottieJson,
+  LottieSource,
+  LoadedLottie,
+  LoadedLottieJson,
+} from "./source.js";
+export { readZip, writeZip, isZip, crc32, MAX_UNZIPPED_BYTES, ZipEntry } from "./zip.js";
+export {
+  unpackDotLottie,
+  packDotLottie,
+  selectDotLottieAnimation,
+  DOTLOTTIE_ID_PATTERN,
+  DotLottieArchive,
+  DotLottieAnimation,
+  DotLottieFile,
+  DotLottieManifest,
+  DotLottieManifestAnimation,
+  DotLottiePackInput,
+  DotLottiePackOptions,
+  PackedDotLottie,
+} from "./dotlottie.js";
+export {
+  inspectLottie,
+  InspectionReport,
+  LayerInfo,
+  PrecompInfo,
+  ImageInfo,
+  FontInfo,
+  MarkerInfo,
+  ExpressionInfo,
+  ComplexityInfo,
+} from "./inspect.js";
+export {
+  Rgb,
+  rgbToHex,
+  hexToRgb,
+  readLottieColor,
+  rgbToLab,
+  colorDistance,
+  relativeLuminance,
+} from "./color.js";
+export {
+  collectColors,
+  extractPalette,
+  ColorUsage,
+  ColorUsageKind,
+  PaletteColor,
+  PaletteOptions,
+} from "./palette.js";
+export {
+  recolorLottie,
+  colorMapMapper,
+  nearestPaletteMapper,
+  ColorMapper,
+  ColorChange,
+  RecolorResult,
+} from "./recolor.js";
+export {
+  optimizeLottie,
+  OptimizeOptions,
+  OptimizeResult,
+  OptimizeStats,
+  RemovedLayer,
+} from "./optimize.js";
+export {
+  editTiming,
+  listSegments,
+  TimingEdits,
+  TimingResult,
+  TimelineSegment,
+} from "./timing.js";
+export {
+  IDENTITY,
+  multiply,
+  applyMatrix,
+  matrixScale,
+  cubicBezierEase,
+  keyframesValue,
+  isAnimated,
+  propertyValue,
+  numberAt,
+  vectorAt,
+  pathAt,
+  transformMatrix,
+  layerTime,
+  isLayerActive,
+  layerMatrix,
+  layerOpacity,
+  precompContent,
+  Matrix,
+  BezierPath,
+} from "./evaluate.js";
+export { contentBounds, Box, ContentBounds } from "./bounds.js";
+export {
+  resizeLottie,
+  RESIZE_MODES,
+  ALIGNMENTS,
+  ResizeMode,
+  Alignment,
+  ResizeOptions,
+  ResizeResult,
+} from "./resize.js";
+export {
+  shapePath,
+  bezierPath,
+  transformPath,
+  trimPaths,
+  walkShapeGroup,
+  flattenPath,
+  pathData,
+  Path,
+  ShapeGroupVisitor,
+} from "./paths.js";
+export { renderFrame, RenderOptions, RenderedFrame } from "./render.js";
+export {
+  renderStoryboard,
+  evenFrames,
+  markerFrames,
+  Storyboard,
+  StoryboardFrame,
+  StoryboardOptions,
+} from "./storyboard.js";
+export {
+  validateLottie,
+  Diagnostic,
+  DiagnosticSeverity,
+  ValidationReport,
+} from "./validate.js";
+export {
+  checkCompatibility,
+  FEATURE_MATRIX,
+  RUNTIMES,
+  RUNTIME_PLAYERS,
+  SUPPORT_LEVELS,
+  Runtime,
+  SupportLevel,
+  FeatureSupport,
+  FeatureDefinition,
+  FeatureUsage,
+  CompatibilityIssue,
+  RuntimeCompatibility,
+  CompatibilityReport,
+} from "./compatibility.js";
+export { sampleFrame, sampleGrid, contentCoverage, SampleOptions, SampledFrame } from "./raster.js";
+export {
+  analyzeAccessibility,
+  AccessibilityOptions,
+  AccessibilityReport,
+  FlashRange,
+  ContrastChange,
+  ReducedMotionFrame,
+} from "./accessibility.js";
+export {
+  createPoster,
+  pickPosterFrame,
+  POSTER_STRATEGIES,
+  PosterStrategy,
+  PosterOptions,
+  PosterFrame,
+  Poster,
+} from "./poster.js";
+export {
+  LottieDocument,
+  LottieLayer,
+  LottieAsset,
+  LottieShape,
+  LottieMask,
+  LottieMarker,
+  LottieFont,
+  LottieProperty,
+  LottieKeyframe,
+  LottieTransform,
+  LAYER_TYPES,
+  SHAPE_TYPES,
+  MATTE_MODES,
+} from "./types.js";
@@ -0,0 +1,416 @@
+/**
+ * Structural inspection of Lottie documents.
+ */
+
+import { allLayers, isPrecomp, walkObjects, walkShapes } from "./document.js";
+import { LAYER_TYPES, LottieDocument, LottieLayer, MATTE_MODES } from "./types.js";
+
+/**
+ * Summary of one layer.
+ */
+export interface LayerInfo {
+  /** "root" or the precomp asset ID */
+  composition: string;
+  /** JSON pointer to the layer */
+  pointer: string;
+  /** Layer index (`ind`), referenced by children */
+  index: number | null;
+  name: string;
+  type: string;
+  /** Parent layer index */
+  parent: number | null;
+  /** Parenting depth (0 for layers without a parent) */
+  depth: number;
+  inPoint: number;
+  outPoint: number;
+  hidden: boolean;
+  is3d: boolean;
+  /** Referenced asset (precomp and image layers) */
+  refId: string | null;
+  masks: number;
+  /** Track matte mode this layer uses, if any */
+  matte: string | null;
+  /** Whether this layer is a track matte for another layer */
+  isMatte: boolean;
+  effects: number;
+  shapes: number;
+  expressions: number;
+}
+
+/**
+ * Summary of a precomposition.
+ */
+export interface PrecompInfo {
+  id: string;
+  name: string | null;
+  layers: number;
+  /** Number of precomp layers that reference it */
+  references: number;
+}
+
+/**
+ * Summary of an image asset.
+ */
+export interface ImageInfo {
+  id: string;
+  width: number | null;
+  height: number | null;
+  embedded: boolean;
+  /** File path for external images */
+  path: string | null;
+  /** Approximate decoded size of embedded data, in bytes */
+  bytes: number | null;
+}
+
+/**
+ * Summary of a font.
+ */
+export interface FontInfo {
+  name: string;
+  family: string | null;
+  style: string | null;
+  origin: string;
+}
+
+/**
+ * Summary of a marker.
+ */
+export interface MarkerInfo {
+  name: string;
+  frame: number;
+  durationFrames: number;
+  timeSeconds: number;
+}
+
+/**
+ * Location of an expression.
+ */
+export interface ExpressionInfo {
+  pointer: string;
+  layer: string;
+  composition: string;
+}
+
+/**
+ * Estimated rendering complexity.
+ */
+export interface ComplexityInfo {
+  /** 0-100, higher is heavier to render */
+  score: number;
+  rating: "low" | "moderate" | "high" | "very high";
+  /** Weighted contribution of each factor to the raw score */
+  factors: Record<string, number>;
+}
+
+/**
+ * Full inspection report.
+ */
+export interface InspectionReport {
+  version: string | null;
+  name: string | null;
+  width: number;
+  height: number;
+  frameRate: number;
+  inPoint: number;
+  outPoint: number;
+  totalFrames: number;
+  durationSeconds: number;
+  is3d: boolean;
+  layers: LayerInfo[];
+  precomps: PrecompInfo[];
+  images: ImageInfo[];
+  fonts: FontInfo[];
+  markers: MarkerInfo[];
+  masks: { total: number; byMode: Record<string, number> };
+  mattes: { total: number; byMode: Record<string, number> };
+  expressions: { total: number; locations: ExpressionInfo[] };
+  shapes: number;
+  effects: number;
+  animatedProperties: number;
+  keyframes: number;
+  complexity: ComplexityInfo;
+}
+
+/**
+ * Weight of each factor in the raw complexity score.
+ */
+const COMPLEXITY_WEIGHTS = {
+  layers: 1,
+  shapes: 0.25,
+  masks: 3,
+  mattes: 4,
+  expressions: 5,
+  effects: 3,
+  images: 2,
+  textLayers: 3,
+  layers3d: 3,
+  repeaters: 4,
+  keyframes: 0.05,
+  precompInstances: 1,
+};
+
+/**
+ * Raw score at which the 0-100 complexity score reaches about 63.
+ */
+const COMPLEXITY_SCALE = 150;
+
+const MASK_MODES: Record<string, string> = {
+  a: "add",
+  s: "subtract",
+  i: "intersect",
+  l: "lighten",
+  d: "darken",
+  f: "difference",
+  n: "none",
+};
+
+const FONT_ORIGINS: Record<number, string> = {
+  0: "local",
+  1: "css-url",
+  2: "script-url",
+  3: "font-url",
+};
+
+/**
+ * Counts shape items (excluding group transforms) and repeaters in a layer.
+ */
+function countShapes(layer: LottieLayer): { shapes: number; repeaters: number } {
+  let shapes = 0;
+  let repeaters = 0;
+  walkShapes(layer.shapes, (shape) => {
+    if (shape.ty !== "tr") {
+      shapes++;
+    }
+    if (shape.ty === "rp") {
+      repeaters++;
+    }
+  });
+  return { shapes, repeaters };
+}
+
+/**
+ * Orders layers so that children follow their parents, and computes depths.
+ */
+function orderByParent(layers: LayerInfo[]): LayerInfo[] {
+  const byIndex = new Map<number, LayerInfo>();
+  for (const layer of layers) {
+    if (layer.index !== null) {
+      byIndex.set(layer.index, layer);
+    }
+  }
+
+  const children = new Map<LayerInfo, LayerInfo[]>();
+  const roots: LayerInfo[] = [];
+  for (const layer of layers) {
+    const parent = layer.parent !== null ? byIndex.get(layer.parent) : undefined;
+    if (parent && parent !== layer) {
+      children.set(parent, [...(children.get(parent) ?? []), layer]);
+    } else {
+      roots.push(layer);
+    }
+  }
+
+  const ordered: LayerInfo[] = [];
+  const visited = new Set<LayerInfo>();
+  const visit = (layer: LayerInfo, depth: number) => {
+    if (visited.has(layer)) {
+      return;
+    }
+    visited.add(layer);
+    ordered.push({ ...layer, depth });
+    for (const child of children.get(layer) ?? []) {
+      visit(child, depth + 1);
+    }
+  };
+  roots.forEach((layer) => visit(layer, 0));
+  // Layers caught in a parenting cycle have no root; list them flat
+  layers.forEach((layer) => visit(layer, 0));
+
+  return ordered;
+}
+
+/**
+ * Approximates the decoded size of a base64 data URI.
+ */
+function dataUriBytes(uri: string): number {
+  const comma = uri.indexOf(",");
+  const data = comma === -1 ? uri : uri.slice(comma + 1);
+  const padding = data.endsWith("==") ? 2 : data.endsWith("=") ? 1 : 0;
+  return Math.floor((data.length * 3) / 4) - padding;
+}
+
+/**
+ * Inspects a Lottie document.
+ */
+export function inspectLottie(doc: LottieDocument): InspectionReport {
+  const masksByMode: Record<string, number> = {};
+  const mattesByMode: Record<string, number> = {};
+  const expressionLocations: ExpressionInfo[] = [];
+  const layerInfos = new Map<string, LayerInfo[]>();
+  let shapes = 0;
+  let repeaters = 0;
+  let effects = 0;
+  let animatedProperties = 0;
+  let keyframes = 0;
+  let textLayers = 0;
+  let layers3d = 0;
+  const references = new Map<string, number>();
+
+  for (const { layer, composition, pointer } of allLayers(doc)) {
+    const name = layer.nm ?? `Layer ${layer.ind ?? "?"}`;
+
+    let expressions = 0;
+    walkObjects(layer, (obj, objPointer) => {
+      if (typeof obj.x === "string" && "k" in obj) {
+        expressions++;
+        expressionLocations.push({ pointer: pointer + objPointer, layer: name, composition });
+      }
+      if (obj.a === 1 && Array.isArray(obj.k)) {
+        animatedProperties++;
+        keyframes += obj.k.length;
+      }
+    });
+
+    const masks = layer.masksProperties ?? [];
+    for (const mask of masks) {
+      const mode = MASK_MODES[mask.mode ?? "a"] ?? mask.mode ?? "add";
+      masksByMode[mode] = (masksByMode[mode] ?? 0) + 1;
+    }
+
+    const matte = layer.tt !== undefined ? MATTE_MODES[layer.tt] ?? `mode-${layer.tt}` : null;
+    if (matte) {
+      mattesByMode[matte] = (mattesByMode[matte] ?? 0) + 1;
+    }
+
+    const counts = countShapes(layer);
+    shapes += counts.shapes;
+    repeaters += counts.repeaters;
+    effects += layer.ef?.length ?? 0;
+    if (layer.ty === 5) {
+      textLayers++;
+    }
+    if (layer.ddd === 1) {
+      layers3d++;
+    }
+    if (layer.ty === 0 && layer.refId) {
+      references.set(layer.refId, (references.get(layer.refId) ?? 0) + 1);
+    }
+
+    const info: LayerInfo = {
+      composition,
+      pointer,
+      index: typeof layer.ind === "number" ? layer.ind : null,
+      name,
+      type: LAYER_TYPES[layer.ty] ?? `unknown (${layer.ty})`,
+      parent: typeof layer.parent === "number" ? layer.parent : null,
+      depth: 0,
+      inPoint: layer.ip,
+      outPoint: layer.op,
+      hidden: layer.hd === true,
+      is3d: layer.ddd === 1,
+      refId: layer.refId ?? null,
+      masks: masks.length,
+      matte,
+      isMatte: layer.td === 1,
+      effects: layer.ef?.length ?? 0,
+      shapes: counts.shapes,
+      expressions,
+    };
+    layerInfos.set(composition, [...(layerInfos.get(composition) ?? []), info]);
+  }
+
+  const layers = [...layerInfos.values()].flatMap(orderByParent);
+
+  const assets = doc.assets ?? [];
+  const precomps: PrecompInfo[] = assets.filter(isPrecomp).map((asset) => ({
+    id: asset.id,
+    name: asset.nm ?? null,
+    layers: asset.layers.length,
+    references: references.get(asset.id) ?? 0,
+  }));
+
+  const images: ImageInfo[] = assets
+    .filter((asset) => !isPrecomp(asset) && typeof asset.p === "string")
+    .map((asset) => {
+      const embedded = asset.e === 1 || (asset.p ?? "").startsWith("data:");
+      return {
+        id: asset.id,
+        width: typeof asset.w === "number" ? asset.w : null,
+        height: typeof asset.h === "number" ? asset.h : null,
+        embedded,
+        path: embedded ? null : `${asset.u ?? ""}${asset.p}`,
+        bytes: embedded ? dataUriBytes(asset.p ?? "") : null,
+      };
+    });
+
+  const fonts: FontInfo[] = (doc.fonts?.list ?? []).map((font) => ({
+    name: font.fName,
+    family: font.fFamily ?? null,
+    style: font.fStyle ?? null,
+    origin: FONT_ORIGINS[font.origin ?? 0] ?? "unknown",
+  }));
+
+  const markers: MarkerInfo[] = (doc.markers ?? []).map((marker) => ({
+    name: marker.cm,
+    frame: marker.tm,
+    durationFrames: marker.dr ?? 0,
+    timeSeconds: doc.fr > 0 ? Math.round((marker.tm / doc.fr) * 1000) / 1000 : 0,
+  }));
+
+  const maskTotal = Object.values(masksByMode).reduce((a, b) => a + b, 0);
+  const matteTotal = Object.values(mattesByMode).reduce((a, b) => a + b, 0);
+  const precompInstances = [...references.values()].reduce((a, b) => a + b, 0);
+
+  const counts: Record<keyof typeof COMPLEXITY_WEIGHTS, number> = {
+    layers: layers.length,
+    shapes,
+    masks: maskTotal,
+    mattes: matteTotal,
+    expressions: expressionLocations.length,
+    effects,
+    images: images.length,
+    textLayers,
+    layers3d,
+    repeaters,
+    keyframes,
+    precompInstances,
+  };
+  const factors: Record<string, number> = {};
+  let raw = 0;
+  for (const [factor, weight] of Object.entries(COMPLEXITY_WEIGHTS)) {
+    const contribution = counts[factor as keyof typeof COMPLEXITY_WEIGHTS] * weight;
+    if (contribution > 0) {
+      factors[factor] = Math.round(contribution * 100) / 100;
+      raw += contribution;
+    }
+  }
+  const score = Math.round(100 * (1 - Math.exp(-raw / COMPLEXITY_SCALE)));
+  const rating = score < 25 ? "low" : score < 50 ? "moderate" : score < 75 ? "high" : "very high";
+
+  const totalFrames = doc.op - doc.ip;
+  return {
+    version: doc.v ?? null,
+    name: doc.nm ?? null,
+    width: doc.w,
+    height: doc.h,
+    frameRate: doc.fr,
+    inPoint: doc.ip,
+    outPoint: doc.op,
+    totalFrames,
+    durationSeconds: doc.fr > 0 ? Math.round((totalFrames / doc.fr) * 1000) / 1000 : 0,
+    is3d: doc.ddd === 1 || layers3d > 0,
+    layers,
+    precomps,
+    images,
+    fonts,
+    markers,
+    masks: { total: maskTotal, byMode: masksByMode },
+    mattes: { total: matteTotal, byMode: mattesByMode },
+    expressions: { total: expressionLocations.length, locations: expressionLocations },
+    shapes,
+    effects,
+    animatedProperties,
+    keyframes,
+    complexity: { score, rating, factors },
+  };
+}
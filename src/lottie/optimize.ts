@@ -0,0 +1,345 @@
+/**
+ * Size optimization of Lottie documents.
+ */
+
+import { cloneLottie, isPrecomp, walkObjects } from "./document.js";
+import { LottieDocument, LottieKeyframe, LottieLayer, LottieShape } from "./types.js";
+
+/**
+ * Which optimizations to apply. Everything except `stripNames` is on by default.
+ */
+export interface OptimizeOptions {
+  /** Decimal places kept for numbers (default: 3, null to keep full precision) */
+  precision?: number | null;
+
+  /** Remove hidden layers and shapes, out-of-range layers and unused null layers */
+  removeUnusedLayers?: boolean;
+
+  /** Remove precomps and images no layer references */
+  removeUnusedAssets?: boolean;
+
+  /** Remove editor metadata (`meta` and match names) */
+  stripMetadata?: boolean;
+
+  /** Remove layer, shape and property names (`nm`) */
+  stripNames?: boolean;
+
+  /** Replace keyframed properties whose keyframes all hold the same value with a static value */
+  collapseStaticKeyframes?: boolean;
+}
+
+/**
+ * A removed layer.
+ */
+export interface RemovedLayer {
+  name: string;
+  /** "root" or the precomp asset ID */
+  composition: string;
+  reason: "hidden" | "out-of-range" | "unused-null";
+}
+
+/**
+ * What an optimization changed.
+ */
+export interface OptimizeStats {
+  removedLayers: RemovedLayer[];
+  removedShapes: number;
+  removedAssets: string[];
+  collapsedProperties: number;
+  roundedValues: number;
+  strippedFields: number;
+
+  /**
+   * Why names or match names were kept despite being requested for removal
+   * (expressions can refer to them), or null
+   */
+  keptNamesReason: string | null;
+}
+
+/**
+ * Optimized document and what changed.
+ */
+export interface OptimizeResult {
+  document: LottieDocument;
+  stats: OptimizeStats;
+}
+
+/**
+ * Collects the source of every expression in the document.
+ */
+function collectExpressions(doc: LottieDocument): string[] {
+  const expressions: string[] = [];
+  walkObjects(doc, (obj) => {
+    if (typeof obj.x === "string" && "k" in obj) {
+      expressions.push(obj.x);
+    }
+  });
+  return expressions;
+}
+
+/**
+ * Removes layers that never render anything from one composition's layer list.
+ * Layers used as a parent, as a matte or by name in an expression are kept.
+ */
+function removeLayers(
+  layers: LottieLayer[],
+  composition: string,
+  range: { ip: number; op: number } | null,
+  expressions: string[],
+  removed: RemovedLayer[]
+): LottieLayer[] {
+  let remaining = layers;
+
+  // Removing a child can leave its hidden or null parent unused, so repeat until stable
+  for (;;) {
+    const referenced = new Set<number>();
+    for (const layer of remaining) {
+      if (layer.parent !== undefined) referenced.add(layer.parent);
+      if (layer.tp !== undefined) referenced.add(layer.tp);
+    }
+
+    const reasonFor = (layer: LottieLayer): RemovedLayer["reason"] | null => {
+      if (layer.td === 1 || (layer.ind !== undefined && referenced.has(layer.ind))) {
+        return null;
+      }
+      if (layer.nm && expressions.some((expression) => expression.includes(layer.nm as string))) {
+        return null;
+      }
+      if (layer.hd === true) {
+        return "hidden";
+      }
+      if (range && (layer.op <= range.ip || layer.ip >= range.op)) {
+        return "out-of-range";
+      }
+      if (layer.ty === 3) {
+        return "unused-null";
+      }
+      return null;
+    };
+
+    const next = remaining.filter((layer) => {
+      const reason = reasonFor(layer);
+      if (reason) {
+        removed.push({ name: layer.nm ?? "(unnamed)", composition, reason });
+      }
+      return reason === null;
+    });
+    if (next.length === remaining.length) {
+      return next;
+    }
+    remaining = next;
+  }
+}
+
+/**
+ * Removes hidden shape items (recursively into groups).
+ *
+ * @returns Number of shapes removed
+ */
+function removeHiddenShapes(shapes: LottieShape[]): { shapes: LottieShape[]; removed: number } {
+  let removed = 0;
+  const kept = shapes.filter((shape) => {
+    if (shape.hd === true && shape.ty !== "tr") {
+      removed++;
+      return false;
+    }
+    if (shape.ty === "gr" && Array.isArray(shape.it)) {
+      const inner = removeHiddenShapes(shape.it);
+      shape.it = inner.shapes;
+      removed += inner.removed;
+    }
+    return true;
+  });
+  return { shapes: kept, removed };
+}
+
+/**
+ * Removes assets not reachable from the root composition.
+ *
+ * @returns IDs of removed assets
+ */
+function removeUnusedAssets(doc: LottieDocument): string[] {
+  const assets = doc.assets ?? [];
+  const byId = new Map(assets.map((asset) => [asset.id, asset]));
+  const used = new Set<string>();
+
+  const visit = (layers: LottieLayer[]) => {
+    for (const layer of layers) {
+      if (layer.refId === undefined || used.has(layer.refId)) {
+        continue;
+      }
+      used.add(layer.refId);
+      const asset = byId.get(layer.refId);
+      if (asset && isPrecomp(asset)) {
+        visit(asset.layers);
+      }
+    }
+  };
+  visit(doc.layers);
+
+  doc.assets = assets.filter((asset) => used.has(asset.id));
+  return assets.filter((asset) => !used.has(asset.id)).map((asset) => asset.id);
+}
+
+/**
+ * Rounds every number nested in a value in place.
+ *
+ * @returns Number of values changed
+ */
+function roundNumbers(value: unknown, factor: number): number {
+  if (typeof value !== "object" || value === null) {
+    return 0;
+  }
+
+  let changed = 0;
+  const container = value as Record<string, unknown>;
+  for (const key of Object.keys(container)) {
+    const child = container[key];
+    if (typeof child === "number") {
+      const rounded = Math.round(child * factor) / factor || 0;
+      if (rounded !== child) {
+        container[key] = rounded;
+        changed++;
+      }
+    } else {
+      changed += roundNumbers(child, factor);
+    }
+  }
+  return changed;
+}
+
+/**
+ * Whether a spatial tangent is absent or zero.
+ */
+function isZeroTangent(tangent: unknown): boolean {
+  return tangent === undefined || (Array.isArray(tangent) && tangent.every((v) => v === 0));
+}
+
+/**
+ * Replaces keyframed properties that hold one value throughout with static values.
+ * Properties with expressions are left alone, since expressions can read keyframes.
+ *
+ * @returns Number of properties collapsed
+ */
+function collapseStaticKeyframes(doc: LottieDocument): number {
+  let collapsed = 0;
+  walkObjects(doc, (obj) => {
+    if (obj.a !== 1 || typeof obj.x === "string" || !Array.isArray(obj.k) || obj.k.length === 0) {
+      return;
+    }
+    const keyframes = obj.k as LottieKeyframe[];
+    if (!keyframes.every((kf) => typeof kf === "object" && kf !== null && typeof kf.t === "number")) {
+      return;
+    }
+
+    const value = keyframes[0].s;
+    if (!Array.isArray(value)) {
+      return;
+    }
+    const json = JSON.stringify(value);
+    const isStatic = keyframes.every(
+      (kf) =>
+        (kf.s === undefined || JSON.stringify(kf.s) === json) &&
+        (kf.e === undefined || JSON.stringify(kf.e) === json) &&
+        isZeroTangent(kf.ti) &&
+        isZeroTangent(kf.to)
+    );
+    if (!isStatic) {
+      return;
+    }
+
+    // Keyframe values are always arrays; static single values (opacity, paths) are not
+    obj.a = 0;
+    obj.k = value.length === 1 ? value[0] : value;
+    collapsed++;
+  });
+  return collapsed;
+}
+
+/**
+ * Deletes a key from every object in the document except the root.
+ *
+ * @returns Number of fields removed
+ */
+function stripKey(doc: LottieDocument, key: string): number {
+  let stripped = 0;
+  walkObjects(doc, (obj, pointer) => {
+    if (pointer !== "" && key in obj) {
+      delete obj[key];
+      stripped++;
+    }
+  });
+  return stripped;
+}
+
+/**
+ * Returns an optimized copy of a document.
+ */
+export function optimizeLottie(doc: LottieDocument, options: OptimizeOptions = {}): OptimizeResult {
+  const {
+    precision = 3,
+    removeUnusedLayers = true,
+    removeUnusedAssets: removeAssets = true,
+    stripMetadata = true,
+    stripNames = false,
+    collapseStaticKeyframes: collapse = true,
+  } = options;
+
+  const result = cloneLottie(doc);
+  const expressions = collectExpressions(result);
+  const stats: OptimizeStats = {
+    removedLayers: [],
+    removedShapes: 0,
+    removedAssets: [],
+    collapsedProperties: 0,
+    roundedValues: 0,
+    strippedFields: 0,
+    keptNamesReason: null,
+  };
+
+  if (removeUnusedLayers) {
+    result.layers = removeLayers(result.layers, "root", { ip: result.ip, op: result.op }, expressions, stats.removedLayers);
+    for (const asset of result.assets ?? []) {
+      if (isPrecomp(asset)) {
+        // Precomp layer times are relative to the precomp layer, so no range check here
+        asset.layers = removeLayers(asset.layers, asset.id, null, expressions, stats.removedLayers);
+      }
+    }
+
+    const layers = [...result.layers, ...(result.assets ?? []).flatMap((asset) => asset.layers ?? [])];
+    for (const layer of layers) {
+      if (layer.shapes) {
+        const { shapes, removed } = removeHiddenShapes(layer.shapes);
+        layer.shapes = shapes;
+        stats.removedShapes += removed;
+      }
+    }
+  }
+
+  if (removeAssets) {
+    stats.removedAssets = removeUnusedAssets(result);
+  }
+
+  if (stripMetadata || stripNames) {
+    if (stripMetadata && "meta" in result) {
+      delete result.meta;
+      stats.strippedFields++;
+    }
+    if (expressions.length > 0) {
+      stats.keptNamesReason = "the animation has expressions, which can refer to layers and properties by name";
+    } else {
+      if (stripMetadata) stats.strippedFields += stripKey(result, "mn");
+      if (stripNames) stats.strippedFields += stripKey(result, "nm");
+    }
+  }
+
+  if (precision !== null) {
+    stats.roundedValues = roundNumbers(result, 10 ** precision);
+  }
+
+  if (collapse) {
+    stats.collapsedProperties = collapseStaticKeyframes(result);
+  }
+
+  return { document: result, stats };
+}
@@ -0,0 +1,290 @@
+/**
+ * Color usage collection and palette extraction.
+ */
+
+import { allLayers, walkShapes } from "./document.js";
+import { Rgb, colorDistance, hexToRgb, readLottieColor, rgbToHex } from "./color.js";
+import { LottieDocument, LottieLayer, LottieProperty } from "./types.js";
+
+/**
+ * Where a color is used.
+ */
+export type ColorUsageKind = "fill" | "stroke" | "gradient-fill" | "gradient-stroke" | "solid" | "text-fill" | "text-stroke";
+
+/**
+ * One use of a color in the document.
+ */
+export interface ColorUsage {
+  color: Rgb;
+  kind: ColorUsageKind;
+  /** Layer name */
+  layer: string;
+  /** "root" or the precomp asset ID */
+  composition: string;
+  /** JSON pointer to the color value (keyframe or gradient stop for animated or gradient colors) */
+  pointer: string;
+  /** Share of the property this value represents (1 for static colors, 1/n per keyframe or stop) */
+  weight: number;
+  animated: boolean;
+}
+
+/**
+ * Calls `visit` for each color value of a color property, with its pointer.
+ */
+function forEachPropertyColor(
+  prop: LottieProperty | undefined,
+  pointer: string,
+  visit: (color: Rgb, pointer: string, weight: number, animated: boolean) => void
+): void {
+  if (!prop || prop.k === undefined) {
+    return;
+  }
+
+  if (prop.a === 1 && Array.isArray(prop.k)) {
+    const keyframes = prop.k as Array<{ s?: unknown; e?: unknown }>;
+    const values: Array<[Rgb, string]> = [];
+    keyframes.forEach((kf, i) => {
+      const start = readLottieColor(kf?.s);
+      if (start) {
+        values.push([start, `${pointer}/k/${i}/s`]);
+      }
+      const end = readLottieColor(kf?.e);
+      if (end) {
+        values.push([end, `${pointer}/k/${i}/e`]);
+      }
+    });
+    values.forEach(([color, p]) => visit(color, p, 1 / values.length, true));
+    return;
+  }
+
+  const color = readLottieColor(prop.k);
+  if (color) {
+    visit(color, `${pointer}/k`, 1, false);
+  }
+}
+
+/**
+ * Reads the color stops of a gradient value array ([offset, r, g, b] * count, then opacity stops).
+ */
+function gradientStops(values: unknown, count: number): Array<{ color: Rgb; index: number }> {
+  if (!Array.isArray(values)) {
+    return [];
+  }
+  const stops: Array<{ color: Rgb; index: number }> = [];
+  for (let i = 0; i < count && i * 4 + 3 < values.length; i++) {
+    const color = readLottieColor(values.slice(i * 4 + 1, i * 4 + 4));
+    if (color) {
+      stops.push({ color, index: i * 4 + 1 });
+    }
+  }
+  return stops;
+}
+
+/**
+ * Calls `visit` for each color stop of a gradient (`g: { p, k }`).
+ */
+function forEachGradientColor(
+  gradient: { p?: number; k?: LottieProperty } | undefined,
+  pointer: string,
+  visit: (color: Rgb, pointer: string, weight: number, animated: boolean) => void
+): void {
+  const prop = gradient?.k;
+  const count = gradient?.p ?? 0;
+  if (!prop || count <= 0) {
+    return;
+  }
+
+  if (prop.a === 1 && Array.isArray(prop.k)) {
+    const keyframes = prop.k as Array<{ s?: unknown }>;
+    const values: Array<[Rgb, string]> = [];
+    keyframes.forEach((kf, i) => {
+      for (const stop of gradientStops(kf?.s, count)) {
+        values.push([stop.color, `${pointer}/k/k/${i}/s/${stop.index}`]);
+      }
+    });
+    values.forEach(([color, p]) => visit(color, p, 1 / values.length, true));
+    return;
+  }
+
+  const stops = gradientStops(prop.k, count);
+  stops.forEach((stop) => visit(stop.color, `${pointer}/k/k/${stop.index}`, 1 / stops.length, false));
+}
+
+/**
+ * Collects color usages from one layer.
+ */
+function layerColors(layer: LottieLayer, composition: string, layerPointer: string): ColorUsage[] {
+  const usages: ColorUsage[] = [];
+  const name = layer.nm ?? `Layer ${layer.ind ?? "?"}`;
+  const add = (kind: ColorUsageKind) => (color: Rgb, pointer: string, weight: number, animated: boolean) => {
+    usages.push({ color, kind, layer: name, composition, pointer: layerPointer + pointer, weight, animated });
+  };
+
+  if (layer.ty === 1 && typeof layer.sc === "string") {
+    const color = hexToRgb(layer.sc);
+    if (color) {
+      add("solid")(color, "/sc", 1, false);
+    }
+  }
+
+  walkShapes(layer.shapes, (shape, pointer) => {
+    if (shape.hd === true) {
+      return;
+    }
+    switch (shape.ty) {
+      case "fl":
+        forEachPropertyColor(shape.c as LottieProperty, `${pointer}/c`, add("fill"));
+        break;
+      case "st":
+        forEachPropertyColor(shape.c as LottieProperty, `${pointer}/c`, add("stroke"));
+        break;
+      case "gf":
+        forEachGradientColor(shape.g as { p?: number; k?: LottieProperty }, `${pointer}/g`, add("gradient-fill"));
+        break;
+      case "gs":
+        forEachGradientColor(shape.g as { p?: number; k?: LottieProperty }, `${pointer}/g`, add("gradient-stroke"));
+        break;
+    }
+  });
+
+  // Text document keyframes: t.d.k[i].s.fc / .sc
+  const textKeyframes = (layer.t as { d?: { k?: Array<{ s?: Record<string, unknown> }> } } | undefined)?.d?.k;
+  if (layer.ty === 5 && Array.isArray(textKeyframes)) {
+    textKeyframes.forEach((kf, i) => {
+      const weight = 1 / textKeyframes.length;
+      const animated = textKeyframes.length > 1;
+      const fill = readLottieColor(kf?.s?.fc);
+      if (fill) {
+        add("text-fill")(fill, `/t/d/k/${i}/s/fc`, weight, animated);
+      }
+      const stroke = readLottieColor(kf?.s?.sc);
+      if (stroke) {
+        add("text-stroke")(stroke, `/t/d/k/${i}/s/sc`, weight, animated);
+      }
+    });
+  }
+
+  return usages;
+}
+
+/**
+ * Collects every color usage in the document (fills, strokes, gradients,
+ * solid layers and text, including animated keyframes). Hidden shapes are skipped.
+ */
+export function collectColors(doc: LottieDocument): ColorUsage[] {
+  return allLayers(doc).flatMap(({ layer, composition, pointer }) => layerColors(layer, composition, pointer));
+}
+
+/**
+ * A color in the extracted palette.
+ */
+export interface PaletteColor {
+  /** Representative color (the most used member) */
+  hex: string;
+  /** Share of total color usage, 0-1 */
+  weight: number;
+  /** Distinct colors merged into this entry, most used first */
+  members: string[];
+  /** Number of usages */
+  usages: number;
+  /** Layers using this color, with how they use it */
+  layers: Array<{ name: string; composition: string; kinds: ColorUsageKind[] }>;
+  /** Whether any usage is animated */
+  animated: boolean;
+}
+
+/**
+ * Options for palette extraction.
+ */
+export interface PaletteOptions {
+  /** Colors closer than this (CIE76 delta E) are merged. Default 8 */
+  threshold?: number;
+  /** Maximum palette size; the closest entries are merged beyond it. Default 12 */
+  maxColors?: number;
+}
+
+interface Cluster {
+  usages: ColorUsage[];
+  weight: number;
+  /** Weighted mean, used for distances */
+  center: Rgb;
+}
+
+function weightedCenter(usages: ColorUsage[]): Rgb {
+  const total = usages.reduce((sum, u) => sum + u.weight, 0) || 1;
+  return [0, 1, 2].map((i) => usages.reduce((sum, u) => sum + u.color[i] * u.weight, 0) / total) as Rgb;
+}
+
+function makeCluster(usages: ColorUsage[]): Cluster {
+  return { usages, weight: usages.reduce((sum, u) => sum + u.weight, 0), center: weightedCenter(usages) };
+}
+
+/**
+ * Clusters color usages into a palette, sorted by weight.
+ */
+export function extractPalette(usages: ColorUsage[], options: PaletteOptions = {}): PaletteColor[] {
+  const threshold = options.threshold ?? 8;
+  const maxColors = Math.max(1, options.maxColors ?? 12);
+
+  // Group identical colors first, heaviest first, so clusters grow from dominant colors
+  const byHex = new Map<string, ColorUsage[]>();
+  for (const usage of usages) {
+    const hex = rgbToHex(usage.color);
+    byHex.set(hex, [...(byHex.get(hex) ?? []), usage]);
+  }
+  const groups = [...byHex.values()].map(makeCluster).sort((a, b) => b.weight - a.weight);
+
+  let clusters: Cluster[] = [];
+  for (const group of groups) {
+    const target = clusters.find((c) => colorDistance(c.center, group.center) < threshold);
+    if (target) {
+      clusters[clusters.indexOf(target)] = makeCluster([...target.usages, ...group.usages]);
+    } else {
+      clusters.push(group);
+    }
+  }
+
+  while (clusters.length > maxColors) {
+    let best = { i: 0, j: 1, distance: Infinity };
+    for (let i = 0; i < clusters.length; i++) {
+      for (let j = i + 1; j < clusters.length; j++) {
+        const distance = colorDistance(clusters[i].center, clusters[j].center);
+        if (distance < best.distance) {
+          best = { i, j, distance };
+        }
+      }
+    }
+    const merged = makeCluster([...clusters[best.i].usages, ...clusters[best.j].usages]);
+    clusters = clusters.filter((_, index) => index !== best.i && index !== best.j);
+    clusters.push(merged);
+  }
+
+  const total = usages.reduce((sum, u) => sum + u.weight, 0) || 1;
+  return clusters
+    .sort((a, b) => b.weight - a.weight)
+    .map((cluster) => {
+      const memberWeights = new Map<string, number>();
+      const layers = new Map<string, { name: string; composition: string; kinds: ColorUsageKind[] }>();
+      for (const usage of cluster.usages) {
+        const hex = rgbToHex(usage.color);
+        memberWeights.set(hex, (memberWeights.get(hex) ?? 0) + usage.weight);
+
+        const key = `${usage.composition}\u0000${usage.layer}`;
+        const entry = layers.get(key) ?? { name: usage.layer, composition: usage.composition, kinds: [] };
+        if (!entry.kinds.includes(usage.kind)) {
+          entry.kinds.push(usage.kind);
+        }
+        layers.set(key, entry);
+      }
+      const members = [...memberWeights.entries()].sort((a, b) => b[1] - a[1]).map(([hex]) => hex);
+
+      return {
+        hex: members[0],
+        weight: Math.round((cluster.weight / total) * 1000) / 1000,
+        members,
+        usages: cluster.usages.length,
+        layers: [...layers.values()],
+        animated: cluster.usages.some((u) => u.animated),
+      };
+    });
+}
@@ -0,0 +1,411 @@
+/**
+ * Bezier path geometry for rendering: building paths from shape items,
+ * transforming them, trimming them, walking shape groups and formatting
+ * paths as SVG path data.
+ */
+
+import { isTransform } from "./document.js";
+import { Matrix, applyMatrix, multiply, numberAt, pathAt, transformMatrix, vectorAt } from "./evaluate.js";
+import { LottieProperty, LottieShape } from "./types.js";
+
+/**
+ * A cubic bezier path with absolute coordinates: `inTangents[k]` and
+ * `outTangents[k]` are the control points before and after `vertices[k]`.
+ */
+export interface Path {
+  closed: boolean;
+  vertices: number[][];
+  inTangents: number[][];
+  outTangents: number[][];
+}
+
+/**
+ * Control point distance for approximating a quarter circle with a cubic bezier.
+ */
+const KAPPA = 0.5522847498;
+
+/**
+ * Builds a path from points joined by straight lines.
+ */
+function polygon(points: number[][], closed = true): Path {
+  return { closed, vertices: points, inTangents: points, outTangents: points };
+}
+
+/**
+ * Path of a rectangle shape (`rc`), with rounded corners if `r` is set.
+ */
+function rectPath(shape: LottieShape, time: number): Path {
+  const [cx, cy] = vectorAt(shape.p as LottieProperty | undefined, time, [0, 0]);
+  const [w, h] = vectorAt(shape.s as LottieProperty | undefined, time, [0, 0]);
+  const radius = Math.min(numberAt(shape.r as LottieProperty | undefined, time, 0), w / 2, h / 2);
+  const [x0, y0, x1, y1] = [cx - w / 2, cy - h / 2, cx + w / 2, cy + h / 2];
+
+  if (radius <= 0) {
+    return polygon([[x1, y0], [x1, y1], [x0, y1], [x0, y0]]);
+  }
+
+  // Clockwise from the top-right corner, two vertices per corner
+  const c = radius * (1 - KAPPA);
+  return {
+    closed: true,
+    vertices: [
+      [x1, y0 + radius], [x1, y1 - radius], [x1 - radius, y1], [x0 + radius, y1],
+      [x0, y1 - radius], [x0, y0 + radius], [x0 + radius, y0], [x1 - radius, y0],
+    ],
+    inTangents: [
+      [x1, y0 + c], [x1, y1 - radius], [x1 - c, y1], [x0 + radius, y1],
+      [x0, y1 - c], [x0, y0 + radius], [x0 + c, y0], [x1 - radius, y0],
+    ],
+    outTangents: [
+      [x1, y0 + radius], [x1, y1 - c], [x1 - radius, y1], [x0 + c, y1],
+      [x0, y1 - radius], [x0, y0 + c], [x0 + radius, y0], [x1 - c, y0],
+    ],
+  };
+}
+
+/**
+ * Path of an ellipse shape (`el`), starting at the top and going clockwise.
+ */
+function ellipsePath(shape: LottieShape, time: number): Path {
+  const [cx, cy] = vectorAt(shape.p as LottieProperty | undefined, time, [0, 0]);
+  const [w, h] = vectorAt(shape.s as LottieProperty | undefined, time, [0, 0]);
+  const [rx, ry] = [w / 2, h / 2];
+  const [kx, ky] = [rx * KAPPA, ry * KAPPA];
+  return {
+    closed: true,
+    vertices: [[cx, cy - ry], [cx + rx, cy], [cx, cy + ry], [cx - rx, cy]],
+    inTangents: [[cx - kx, cy - ry], [cx + rx, cy - ky], [cx + kx, cy + ry], [cx - rx, cy + ky]],
+    outTangents: [[cx + kx, cy - ry], [cx + rx, cy + ky], [cx - kx, cy + ry], [cx - rx, cy - ky]],
+  };
+}
+
+/**
+ * Path of a star or polygon shape (`sr`). Point roundness is ignored.
+ */
+function starPath(shape: LottieShape, time: number): Path {
+  const [cx, cy] = vectorAt(shape.p as LottieProperty | undefined, time, [0, 0]);
+  const points = Math.max(Math.round(numberAt(shape.pt as LottieProperty | undefined, time, 5)), 3);
+  const rotation = (numberAt(shape.r as LottieProperty | undefined, time, 0) * Math.PI) / 180;
+  const outer = numberAt(shape.or as LottieProperty | undefined, time, 0);
+  const inner = numberAt(shape.ir as LottieProperty | undefined, time, 0);
+  const isStar = shape.sy !== 2;
+
+  const count = isStar ? points * 2 : points;
+  const vertices: number[][] = [];
+  for (let k = 0; k < count; k++) {
+    const radius = isStar && k % 2 === 1 ? inner : outer;
+    // The first point is straight up
+    const angle = rotation + (k * 2 * Math.PI) / count - Math.PI / 2;
+    vertices.push([cx + radius * Math.cos(angle), cy + radius * Math.sin(angle)]);
+  }
+  return polygon(vertices);
+}
+
+/**
+ * Path of a free-form path shape (`sh`); stored tangents are relative to their vertex.
+ */
+function freePath(shape: LottieShape, time: number): Path | null {
+  const path = pathAt(shape.ks as LottieProperty | undefined, time);
+  if (!path || path.v.length === 0) {
+    return null;
+  }
+  const absolute = (tangents: number[][]) =>
+    path.v.map((vertex, k) => [vertex[0] + (tangents[k]?.[0] ?? 0), vertex[1] + (tangents[k]?.[1] ?? 0)]);
+  return { closed: path.c === true, vertices: path.v, inTangents: absolute(path.i), outTangents: absolute(path.o) };
+}
+
+/**
+ * Builds the path of a geometry shape item (rc, el, sr, sh), or null for other items.
+ */
+export function shapePath(shape: LottieShape, time: number): Path | null {
+  switch (shape.ty) {
+    case "rc":
+      return rectPath(shape, time);
+    case "el":
+      return ellipsePath(shape, time);
+    case "sr":
+      return starPath(shape, time);
+    case "sh":
+      return freePath(shape, time);
+    default:
+      return null;
+  }
+}
+
+/**
+ * Builds a path from mask or shape path data (relative tangents).
+ */
+export function bezierPath(prop: LottieProperty | undefined, time: number): Path | null {
+  return freePath({ ty: "sh", ks: prop }, time);
+}
+
+/**
+ * Transforms every point of a path.
+ */
+export function transformPath(path: Path, m: Matrix): Path {
+  const apply = (points: number[][]) => points.map(([x, y]) => applyMatrix(m, x, y));
+  return {
+    closed: path.closed,
+    vertices: apply(path.vertices),
+    inTangents: apply(path.inTangents),
+    outTangents: apply(path.outTangents),
+  };
+}
+
+/**
+ * A cubic segment as four points.
+ */
+type Segment = [number[], number[], number[], number[]];
+
+/**
+ * Segments of a path, including the closing one.
+ */
+function segments(path: Path): Segment[] {
+  const result: Segment[] = [];
+  const count = path.vertices.length;
+  const last = path.closed ? count : count - 1;
+  for (let k = 0; k < last; k++) {
+    const next = (k + 1) % count;
+    result.push([path.vertices[k], path.outTangents[k], path.inTangents[next], path.vertices[next]]);
+  }
+  return result;
+}
+
+/**
+ * Point on a cubic segment at parameter t.
+ */
+function pointAt([p0, p1, p2, p3]: Segment, t: number): number[] {
+  const u = 1 - t;
+  return [0, 1].map((d) => u * u * u * p0[d] + 3 * u * u * t * p1[d] + 3 * u * t * t * p2[d] + t * t * t * p3[d]);
+}
+
+/**
+ * Approximate segment length, from a polyline through samples.
+ */
+function segmentLength(segment: Segment): number {
+  let length = 0;
+  let previous = segment[0];
+  for (let n = 1; n <= 16; n++) {
+    const point = pointAt(segment, n / 16);
+    length += Math.hypot(point[0] - previous[0], point[1] - previous[1]);
+    previous = point;
+  }
+  return length;
+}
+
+/**
+ * Part of a cubic segment between parameters t0 and t1 (de Casteljau subdivision).
+ */
+function subSegment(segment: Segment, t0: number, t1: number): Segment {
+  const split = ([p0, p1, p2, p3]: Segment, t: number): [Segment, Segment] => {
+    const lerp = (a: number[], b: number[]) => [a[0] + (b[0] - a[0]) * t, a[1] + (b[1] - a[1]) * t];
+    const p01 = lerp(p0, p1);
+    const p12 = lerp(p1, p2);
+    const p23 = lerp(p2, p3);
+    const p012 = lerp(p01, p12);
+    const p123 = lerp(p12, p23);
+    const mid = lerp(p012, p123);
+    return [[p0, p01, p012, mid], [mid, p123, p23, p3]];
+  };
+  const tail = t0 > 0 ? split(segment, t0)[1] : segment;
+  return t1 < 1 ? split(tail, (t1 - t0) / (1 - t0))[0] : tail;
+}
+
+/**
+ * Builds an open path from consecutive segments.
+ */
+function pathFromSegments(parts: Segment[]): Path {
+  const vertices = [parts[0][0], ...parts.map((s) => s[3])];
+  return {
+    closed: false,
+    vertices,
+    inTangents: [parts[0][0], ...parts.map((s) => s[2])],
+    outTangents: [...parts.map((s) => s[1]), parts[parts.length - 1][3]],
+  };
+}
+
+/**
+ * Keeps the part of a path between two fractions of its length (0-1).
+ */
+function slicePath(path: Path, from: number, to: number): Path | null {
+  const parts = segments(path);
+  const lengths = parts.map(segmentLength);
+  const total = lengths.reduce((sum, length) => sum + length, 0);
+  if (total === 0 || to <= from) {
+    return null;
+  }
+
+  const start = from * total;
+  const end = to * total;
+  const kept: Segment[] = [];
+  let offset = 0;
+  parts.forEach((segment, k) => {
+    const length = lengths[k];
+    const segStart = offset;
+    offset += length;
+    if (length === 0 || offset <= start || segStart >= end) {
+      return;
+    }
+    // Length is close enough to linear in t for trimming
+    const t0 = Math.max(0, (start - segStart) / length);
+    const t1 = Math.min(1, (end - segStart) / length);
+    kept.push(subSegment(segment, t0, t1));
+  });
+  return kept.length > 0 ? pathFromSegments(kept) : null;
+}
+
+/**
+ * Applies a trim paths modifier to each path on its own.
+ *
+ * @param start - Start, 0-100 (percent of the length)
+ * @param end - End, 0-100
+ * @param offset - Offset in degrees (360 = the whole length)
+ */
+export function trimPaths(paths: Path[], start: number, end: number, offset: number): Path[] {
+  let from = Math.min(start, end) / 100 + offset / 360;
+  let to = Math.max(start, end) / 100 + offset / 360;
+  if (to - from >= 1) {
+    return paths;
+  }
+  if (to - from <= 0) {
+    return [];
+  }
+  const shift = Math.floor(from);
+  from -= shift;
+  to -= shift;
+
+  const result: Path[] = [];
+  for (const path of paths) {
+    // A range past the end wraps around to the start of closed paths
+    const pieces = to > 1 ? [slicePath(path, from, 1), path.closed ? slicePath(path, 0, to - 1) : null] : [slicePath(path, from, to)];
+    for (const piece of pieces) {
+      if (piece) result.push(piece);
+    }
+  }
+  return result;
+}
+
+/**
+ * Turns the styles of shape groups into output (SVG elements, paints, ...).
+ */
+export interface ShapeGroupVisitor<T> {
+  /**
+   * Output for a fill or stroke item applied to the paths before it.
+   *
+   * @param matrix - Transform from the item's group to the walk's coordinates
+   * @param opacity - Combined opacity of the enclosing groups (0-1)
+   */
+  style(shape: LottieShape, paths: Path[], matrix: Matrix, opacity: number): T | null;
+
+  /** Called for every visible item, e.g. to warn about unsupported ones */
+  item?(shape: LottieShape): void;
+}
+
+/**
+ * Walks a shape group. Styles and modifiers apply to the geometry listed
+ * before them, including nested groups; earlier items are drawn on top.
+ *
+ * @param parentMatrix - Transform from the enclosing group to the walk's coordinates
+ * @returns Geometry of the group (for styles in enclosing groups) and the
+ * output of its styles in paint order
+ */
+export function walkShapeGroup<T>(
+  items: LottieShape[],
+  time: number,
+  parentMatrix: Matrix,
+  parentOpacity: number,
+  visitor: ShapeGroupVisitor<T>
+): { paths: Path[]; drawn: T[] } {
+  const visible = items.filter((item) => item.hd !== true);
+  const transform = visible.find(isTransform);
+  const matrix = transform ? multiply(parentMatrix, transformMatrix(transform, time)) : parentMatrix;
+  const opacity = parentOpacity * (transform ? numberAt(transform.o, time, 100) / 100 : 1);
+
+  let paths: Path[] = [];
+  const drawn: T[][] = [];
+  for (const item of visible) {
+    visitor.item?.(item);
+    switch (item.ty) {
+      case "gr": {
+        const group = walkShapeGroup(item.it ?? [], time, matrix, opacity, visitor);
+        paths.push(...group.paths);
+        drawn.push(group.drawn);
+        break;
+      }
+      case "rc":
+      case "el":
+      case "sr":
+      case "sh": {
+        const path = shapePath(item, time);
+        if (path) paths.push(transformPath(path, matrix));
+        break;
+      }
+      case "tm":
+        paths = trimPaths(
+          paths,
+          numberAt(item.s as LottieProperty | undefined, time, 0),
+          numberAt(item.e as LottieProperty | undefined, time, 100),
+          numberAt(item.o as LottieProperty | undefined, time, 0)
+        );
+        break;
+      case "fl":
+      case "st":
+      case "gf":
+      case "gs": {
+        const output = visitor.style(item, paths, matrix, opacity);
+        if (output !== null) drawn.push([output]);
+        break;
+      }
+    }
+  }
+
+  return { paths, drawn: drawn.reverse().flat() };
+}
+
+/**
+ * Approximates a path with straight lines: a polyline through the vertices
+ * and `steps` points along each curved segment.
+ */
+export function flattenPath(path: Path, steps = 8): number[][] {
+  if (path.vertices.length === 0) {
+    return [];
+  }
+  const points = [path.vertices[0]];
+  for (const segment of segments(path)) {
+    const [p0, c1, c2, p] = segment;
+    const straight = c1[0] === p0[0] && c1[1] === p0[1] && c2[0] === p[0] && c2[1] === p[1];
+    if (!straight) {
+      for (let n = 1; n < steps; n++) {
+        points.push(pointAt(segment, n / steps));
+      }
+    }
+    points.push(p);
+  }
+  return points;
+}
+
+/**
+ * Formats a number for SVG output.
+ */
+export function formatNumber(value: number): string {
+  return String(Math.round(value * 1000) / 1000 || 0);
+}
+
+/**
+ * Formats paths as SVG path data.
+ */
+export function pathData(paths: Path[]): string {
+  const point = (p: number[]) => `${formatNumber(p[0])},${formatNumber(p[1])}`;
+  return paths
+    .filter((path) => path.vertices.length > 0)
+    .map((path) => {
+      const parts = [`M${point(path.vertices[0])}`];
+      for (const [p0, c1, c2, p] of segments(path)) {
+        const straight = c1[0] === p0[0] && c1[1] === p0[1] && c2[0] === p[0] && c2[1] === p[1];
+        parts.push(straight ? `L${point(p)}` : `C${point(c1)} ${point(c2)} ${point(p)}`);
+      }
+      if (path.closed) parts.push("Z");
+      return parts.join("");
+    })
+    .join("");
+}
@@ -0,0 +1,144 @@
+/**
+ * Static poster frames: a still version of an animation for users who
+ * prefer reduced motion, as a single-frame Lottie document and an SVG.
+ */
+
+import { LottieEditError } from "./errors.js";
+import { contentCoverage, sampleFrame } from "./raster.js";
+import { renderFrame } from "./render.js";
+import { editTiming } from "./timing.js";
+import { LottieDocument } from "./types.js";
+
+/**
+ * How the poster frame is chosen: the frame showing the most content, the
+ * last frame, or the start of a named marker.
+ */
+export const POSTER_STRATEGIES = ["content", "last", "marker"] as const;
+
+export type PosterStrategy = (typeof POSTER_STRATEGIES)[number];
+
+/**
+ * Poster settings.
+ */
+export interface PosterOptions {
+  /** How to choose the frame (default: "content"); ignored when `frame` is set */
+  strategy?: PosterStrategy;
+
+  /** Marker name, for the "marker" strategy */
+  marker?: string;
+
+  /** Use this frame instead of choosing one */
+  frame?: number;
+
+  /** SVG background color as hex (default: transparent) */
+  background?: string;
+}
+
+/**
+ * A chosen frame and why it was chosen.
+ */
+export interface PosterFrame {
+  frame: number;
+  reason: string;
+}
+
+/**
+ * A poster frame in both output formats.
+ */
+export interface Poster extends PosterFrame {
+  seconds: number;
+
+  /** Single-frame Lottie document showing the frame */
+  document: LottieDocument;
+  svg: string;
+  width: number;
+  height: number;
+  warnings: string[];
+}
+
+/**
+ * Most frames sampled by the "content" strategy.
+ */
+const MAX_SAMPLES = 300;
+
+/**
+ * Sampling grid resolution for the "content" strategy.
+ */
+const SAMPLE_RESOLUTION = 32;
+
+/**
+ * Picks the frame to use as a poster.
+ *
+ * @throws LottieEditError if the frame is outside the timeline or the marker does not exist
+ */
+export function pickPosterFrame(doc: LottieDocument, options: PosterOptions = {}): PosterFrame {
+  const last = Math.max(Math.ceil(doc.op) - 1, doc.ip);
+
+  if (options.frame !== undefined) {
+    if (options.frame < doc.ip || options.frame >= doc.op) {
+      throw new LottieEditError(`Frame ${options.frame} is outside the timeline (${doc.ip}-${doc.op})`);
+    }
+    return { frame: options.frame, reason: "requested frame" };
+  }
+
+  switch (options.strategy ?? "content") {
+    case "last":
+      return { frame: last, reason: "last frame" };
+
+    case "marker": {
+      const markers = doc.markers ?? [];
+      if (markers.length === 0) {
+        throw new LottieEditError("The animation has no markers");
+      }
+      const name = options.marker ?? "";
+      const marker = markers.find((m) => m.cm === name) ?? markers.find((m) => m.cm.toLowerCase() === name.toLowerCase());
+      if (!marker) {
+        throw new LottieEditError(`No marker named "${name}" (available: ${markers.map((m) => `"${m.cm}"`).join(", ")})`);
+      }
+      return { frame: Math.min(Math.max(marker.tm, doc.ip), last), reason: `start of marker "${marker.cm}"` };
+    }
+
+    case "content": {
+      const first = Math.ceil(doc.ip);
+      const count = Math.max(1, last - first + 1);
+      const step = Math.max(1, Math.ceil(count / MAX_SAMPLES));
+      let best = first;
+      let most = -1;
+      for (let frame = first; frame <= last; frame += step) {
+        const coverage = contentCoverage(sampleFrame(doc, frame, { resolution: SAMPLE_RESOLUTION }));
+        // Later frames win ties, since animations usually settle at the end
+        if (coverage >= most) {
+          best = frame;
+          most = coverage;
+        }
+      }
+      return { frame: best, reason: `most visible content (${Math.round(Math.max(most, 0) * 100)}% of the canvas)` };
+    }
+  }
+}
+
+/**
+ * Builds a poster: picks a frame, cuts the timeline down to that single
+ * frame and renders it as an SVG.
+ *
+ * @throws LottieEditError if the frame is outside the timeline or the marker does not exist
+ */
+export function createPoster(doc: LottieDocument, options: PosterOptions = {}): Poster {
+  const { frame, reason } = pickPosterFrame(doc, options);
+
+  const { document, warnings } = editTiming(doc, { trim: { start: frame, end: Math.min(frame + 1, doc.op) } });
+  delete document.markers;
+
+  const rendered = renderFrame(doc, frame, { background: options.background });
+
+  return {
+    frame,
+    reason,
+    seconds: Math.round(((frame - doc.ip) / doc.fr) * 100) / 100,
+    document,
+    svg: rendered.svg,
+    width: rendered.width,
+    height: rendered.height,
+    warnings: [...new Set([...warnings, ...rendered.warnings])],
+  };
+}
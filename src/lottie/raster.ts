@@ -0,0 +1,348 @@
+/**
+ * Coarse color sampling of frames for analysis.
+ *
+ * Frames are rasterized onto a small grid by testing each cell's center
+ * against fills and strokes. That is enough to measure how much of the
+ * canvas changes and by how much, without a full renderer. Masks, track
+ * mattes, effects and text are not drawn; each gap is reported as a warning.
+ */
+
+import { Rgb, hexToRgb, readLottieColor } from "./color.js";
+import {
+  Matrix,
+  IDENTITY,
+  isLayerActive,
+  layerMatrix,
+  layerOpacity,
+  layerTime,
+  matrixScale,
+  multiply,
+  numberAt,
+  precompContent,
+  propertyValue,
+} from "./evaluate.js";
+import { Path, flattenPath, transformPath, walkShapeGroup } from "./paths.js";
+import { LottieAsset, LottieDocument, LottieLayer, LottieProperty, LottieShape } from "./types.js";
+
+/**
+ * Sampling settings.
+ */
+export interface SampleOptions {
+  /** Cells along the longer side of the canvas (default: 48) */
+  resolution?: number;
+
+  /** Color behind the animation (default: white) */
+  background?: Rgb;
+}
+
+/**
+ * A frame sampled onto a grid of cells.
+ */
+export interface SampledFrame {
+  columns: number;
+  rows: number;
+
+  /** Cell colors row by row, as r, g, b triples (0-1) */
+  pixels: Float32Array;
+
+  /** How opaquely content covers each cell (0 shows only the background, 1 hides it) */
+  coverage: Float32Array;
+  warnings: string[];
+}
+
+/**
+ * Solid paint applied to some geometry, in composition coordinates.
+ */
+interface Paint {
+  polygons: number[][][];
+  color: Rgb;
+  alpha: number;
+  /** Half the stroke width for strokes; fills use null */
+  halfWidth: number | null;
+  evenOdd: boolean;
+}
+
+interface SampleContext {
+  doc: LottieDocument;
+  assets: Map<string, LottieAsset>;
+  columns: number;
+  rows: number;
+  pixels: Float32Array;
+  coverage: Float32Array;
+  warnings: Set<string>;
+}
+
+const DEFAULT_RESOLUTION = 48;
+
+/**
+ * Images are not decoded; they are treated as a mid-grey rectangle.
+ */
+const IMAGE_COLOR: Rgb = [0.5, 0.5, 0.5];
+
+/**
+ * Average color of a gradient's color stops.
+ */
+function gradientColor(shape: LottieShape, time: number): Rgb {
+  const data = shape.g as { p?: number; k?: LottieProperty } | undefined;
+  const values = propertyValue(data?.k, time);
+  const count = data?.p ?? 0;
+  if (!Array.isArray(values) || count <= 0) {
+    return [0, 0, 0];
+  }
+  const sum: Rgb = [0, 0, 0];
+  let stops = 0;
+  for (let k = 0; k < count && k * 4 + 3 < values.length; k++) {
+    for (let c = 0; c < 3; c++) sum[c] += Number(values[k * 4 + 1 + c]) || 0;
+    stops++;
+  }
+  return stops > 0 ? (sum.map((c) => c / stops) as Rgb) : [0, 0, 0];
+}
+
+/**
+ * Builds a paint for a fill or stroke item applied to the paths before it.
+ */
+function stylePaint(shape: LottieShape, paths: Path[], time: number, matrix: Matrix, opacity: number): Paint | null {
+  const alpha = (numberAt(shape.o as LottieProperty | undefined, time, 100) / 100) * opacity;
+  if (paths.length === 0 || alpha <= 0) {
+    return null;
+  }
+  const isGradient = shape.ty === "gf" || shape.ty === "gs";
+  const color = isGradient
+    ? gradientColor(shape, time)
+    : readLottieColor(propertyValue(shape.c as LottieProperty | undefined, time)) ?? [0, 0, 0];
+
+  let halfWidth: number | null = null;
+  if (shape.ty === "st" || shape.ty === "gs") {
+    halfWidth = (numberAt(shape.w as LottieProperty | undefined, time, 0) * matrixScale(matrix)) / 2;
+    if (halfWidth <= 0) {
+      return null;
+    }
+  }
+
+  return { polygons: paths.map((path) => flattenPath(path)), color, alpha, halfWidth, evenOdd: shape.r === 2 };
+}
+
+/**
+ * Whether a point is inside a set of closed polygons.
+ */
+function isInside(polygons: number[][][], x: number, y: number, evenOdd: boolean): boolean {
+  let winding = 0;
+  let crossings = 0;
+  for (const polygon of polygons) {
+    for (let k = 0; k < polygon.length; k++) {
+      const [x0, y0] = polygon[k];
+      const [x1, y1] = polygon[(k + 1) % polygon.length];
+      if ((y0 <= y) !== (y1 <= y)) {
+        const crossX = x0 + ((y - y0) * (x1 - x0)) / (y1 - y0);
+        if (crossX > x) {
+          crossings++;
+          winding += y1 > y0 ? 1 : -1;
+        }
+      }
+    }
+  }
+  return evenOdd ? crossings % 2 === 1 : winding !== 0;
+}
+
+/**
+ * Whether a point is within `distance` of the outline of any polyline.
+ */
+function isNearOutline(polygons: number[][][], x: number, y: number, distance: number): boolean {
+  for (const polygon of polygons) {
+    for (let k = 0; k + 1 < polygon.length; k++) {
+      const [x0, y0] = polygon[k];
+      const [x1, y1] = polygon[k + 1];
+      const dx = x1 - x0;
+      const dy = y1 - y0;
+      const length = dx * dx + dy * dy;
+      const t = length > 0 ? Math.min(1, Math.max(0, ((x - x0) * dx + (y - y0) * dy) / length)) : 0;
+      if (Math.hypot(x - (x0 + t * dx), y - (y0 + t * dy)) <= distance) {
+        return true;
+      }
+    }
+  }
+  return false;
+}
+
+/**
+ * Blends a paint over the cells whose centers it covers.
+ */
+function applyPaint(paint: Paint, ctx: SampleContext): void {
+  const pad = paint.halfWidth ?? 0;
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  for (const polygon of paint.polygons) {
+    for (const [x, y] of polygon) {
+      minX = Math.min(minX, x - pad);
+      minY = Math.min(minY, y - pad);
+      maxX = Math.max(maxX, x + pad);
+      maxY = Math.max(maxY, y + pad);
+    }
+  }
+
+  const cellWidth = ctx.doc.w / ctx.columns;
+  const cellHeight = ctx.doc.h / ctx.rows;
+  const firstColumn = Math.max(0, Math.floor(minX / cellWidth - 0.5));
+  const lastColumn = Math.min(ctx.columns - 1, Math.ceil(maxX / cellWidth - 0.5));
+  const firstRow = Math.max(0, Math.floor(minY / cellHeight - 0.5));
+  const lastRow = Math.min(ctx.rows - 1, Math.ceil(maxY / cellHeight - 0.5));
+
+  for (let row = firstRow; row <= lastRow; row++) {
+    const y = (row + 0.5) * cellHeight;
+    for (let column = firstColumn; column <= lastColumn; column++) {
+      const x = (column + 0.5) * cellWidth;
+      const covered = paint.halfWidth === null
+        ? isInside(paint.polygons, x, y, paint.evenOdd)
+        : isNearOutline(paint.polygons, x, y, paint.halfWidth);
+      if (!covered) continue;
+
+      const cell = row * ctx.columns + column;
+      for (let c = 0; c < 3; c++) {
+        ctx.pixels[cell * 3 + c] = ctx.pixels[cell * 3 + c] * (1 - paint.alpha) + paint.color[c] * paint.alpha;
+      }
+      ctx.coverage[cell] += (1 - ctx.coverage[cell]) * paint.alpha;
+    }
+  }
+}
+
+/**
+ * Paint of a rectangle from (0, 0) to (width, height) in layer coordinates.
+ */
+function rectPaint(width: number, height: number, matrix: Matrix, color: Rgb, alpha: number): Paint {
+  const path = transformPath(
+    { closed: true, vertices: [[0, 0], [width, 0], [width, height], [0, height]], inTangents: [], outTangents: [] },
+    matrix
+  );
+  return { polygons: [path.vertices], color, alpha, halfWidth: null, evenOdd: false };
+}
+
+/**
+ * Samples one layer, including its children for precomps.
+ */
+function sampleLayer(
+  layer: LottieLayer,
+  layers: LottieLayer[],
+  frame: number,
+  parentMatrix: Matrix,
+  parentOpacity: number,
+  ctx: SampleContext,
+  depth: number
+): void {
+  if (layer.hd === true || layer.td === 1 || !isLayerActive(layer, frame)) {
+    return;
+  }
+  const opacity = parentOpacity * layerOpacity(layer, frame);
+  if (opacity <= 0) {
+    return;
+  }
+
+  if ((layer.masksProperties ?? []).length > 0 || layer.tt) {
+    ctx.warnings.add("Masks and track mattes are ignored, so masked layers are sampled at their full size");
+  }
+  if (layer.ef && layer.ef.length > 0) {
+    ctx.warnings.add("Layer effects are not sampled");
+  }
+
+  const matrix = multiply(parentMatrix, layerMatrix(layer, layers, frame));
+  const time = layerTime(layer, frame);
+  switch (layer.ty) {
+    case 0: {
+      const precomp = precompContent(layer, time, ctx.assets, ctx.doc.fr, depth);
+      if (!precomp) break;
+      sampleComposition(precomp.layers, precomp.frame, matrix, opacity, ctx, depth + 1);
+      break;
+    }
+    case 1:
+      applyPaint(rectPaint(layer.sw ?? 0, layer.sh ?? 0, matrix, hexToRgb(layer.sc ?? "") ?? [0, 0, 0], opacity), ctx);
+      break;
+    case 2: {
+      const asset = layer.refId !== undefined ? ctx.assets.get(layer.refId) : undefined;
+      ctx.warnings.add("Images are not decoded; they are sampled as mid-grey rectangles");
+      applyPaint(rectPaint(asset?.w ?? 0, asset?.h ?? 0, matrix, IMAGE_COLOR, opacity), ctx);
+      break;
+    }
+    case 4: {
+      // Paints come back to front (earlier items are on top)
+      const { drawn } = walkShapeGroup(layer.shapes ?? [], time, matrix, opacity, {
+        style: (shape, paths, groupMatrix, groupOpacity) => stylePaint(shape, paths, time, groupMatrix, groupOpacity),
+        item: (shape) => {
+          if (shape.ty === "rp") ctx.warnings.add("Repeaters are not expanded; only the original copy is sampled");
+        },
+      });
+      for (const paint of drawn) {
+        applyPaint(paint, ctx);
+      }
+      break;
+    }
+    case 5:
+      ctx.warnings.add("Text layers are not sampled");
+      break;
+  }
+}
+
+/**
+ * Samples a composition's layers back to front (the first layer is on top).
+ */
+function sampleComposition(
+  layers: LottieLayer[],
+  frame: number,
+  matrix: Matrix,
+  opacity: number,
+  ctx: SampleContext,
+  depth: number
+): void {
+  for (let k = layers.length - 1; k >= 0; k--) {
+    sampleLayer(layers[k], layers, frame, matrix, opacity, ctx, depth);
+  }
+}
+
+/**
+ * Grid size for a document: `resolution` cells along the longer side.
+ */
+export function sampleGrid(doc: LottieDocument, resolution = DEFAULT_RESOLUTION): { columns: number; rows: number } {
+  const longer = Math.max(doc.w, doc.h, 1);
+  return {
+    columns: Math.max(1, Math.round((resolution * doc.w) / longer)),
+    rows: Math.max(1, Math.round((resolution * doc.h) / longer)),
+  };
+}
+
+/**
+ * Samples the colors of a frame of the root composition onto a grid.
+ *
+ * Expressions are ignored; properties take their keyframed values.
+ */
+export function sampleFrame(doc: LottieDocument, frame: number, options: SampleOptions = {}): SampledFrame {
+  const { columns, rows } = sampleGrid(doc, options.resolution);
+  const background = options.background ?? [1, 1, 1];
+  const pixels = new Float32Array(columns * rows * 3);
+  for (let k = 0; k < pixels.length; k++) {
+    pixels[k] = background[k % 3];
+  }
+
+  const ctx: SampleContext = {
+    doc,
+    assets: new Map((doc.assets ?? []).map((asset) => [asset.id, asset])),
+    columns,
+    rows,
+    pixels,
+    coverage: new Float32Array(columns * rows),
+    warnings: new Set(),
+  };
+  sampleComposition(doc.layers, frame, IDENTITY, 1, ctx, 0);
+
+  return { columns, rows, pixels, coverage: ctx.coverage, warnings: [...ctx.warnings] };
+}
+
+/**
+ * Share of the canvas (0-1) covered by content in a sampled frame.
+ */
+export function contentCoverage(frame: SampledFrame): number {
+  let sum = 0;
+  for (const value of frame.coverage) {
+    sum += value;
+  }
+  return frame.coverage.length > 0 ? sum / frame.coverage.length : 0;
+}
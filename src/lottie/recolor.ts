@@ -0,0 +1,142 @@
+/**
+ * Recoloring of Lottie documents.
+ */
+
+import { cloneLottie, resolvePointer } from "./document.js";
+import { Rgb, colorDistance, hexToRgb, rgbToHex } from "./color.js";
+import { LottieFormatError } from "./errors.js";
+import { ColorUsage, collectColors } from "./palette.js";
+import { LottieDocument } from "./types.js";
+
+/**
+ * Decides the new color for an existing one, or null to leave it unchanged.
+ */
+export type ColorMapper = (color: Rgb) => Rgb | null;
+
+/**
+ * One rewritten color value.
+ */
+export interface ColorChange {
+  pointer: string;
+  layer: string;
+  kind: ColorUsage["kind"];
+  from: string;
+  to: string;
+}
+
+/**
+ * Result of recoloring a document.
+ */
+export interface RecolorResult {
+  /** The recolored copy (the input is not modified) */
+  document: LottieDocument;
+  changes: ColorChange[];
+}
+
+/**
+ * Parses a hex color or throws a LottieFormatError naming the input.
+ */
+function requireHex(hex: string, label: string): Rgb {
+  const rgb = hexToRgb(hex);
+  if (!rgb) {
+    throw new LottieFormatError(`Invalid ${label} color "${hex}" (expected #rrggbb or #rgb)`);
+  }
+  return rgb;
+}
+
+/**
+ * Builds a mapper from an explicit old-to-new color map.
+ *
+ * @param tolerance - Colors within this delta E of a key also match (0 = exact hex match)
+ */
+export function colorMapMapper(map: Record<string, string>, tolerance = 0): ColorMapper {
+  const entries = Object.entries(map).map(([from, to]) => ({
+    from: requireHex(from, "source"),
+    to: requireHex(to, "target"),
+  }));
+
+  return (color) => {
+    let best: { to: Rgb; distance: number } | null = null;
+    for (const entry of entries) {
+      const distance = rgbToHex(entry.from) === rgbToHex(color) ? 0 : colorDistance(entry.from, color);
+      if (distance <= tolerance && (!best || distance < best.distance)) {
+        best = { to: entry.to, distance };
+      }
+    }
+    return best?.to ?? null;
+  };
+}
+
+/**
+ * Builds a mapper that replaces every color with the nearest palette color.
+ */
+export function nearestPaletteMapper(palette: string[]): ColorMapper {
+  const targets = palette.map((hex) => requireHex(hex, "palette"));
+  if (targets.length === 0) {
+    throw new LottieFormatError("Palette must contain at least one color");
+  }
+
+  return (color) =>
+    targets.reduce((best, target) => (colorDistance(target, color) < colorDistance(best, color) ? target : best));
+}
+
+/**
+ * Writes a color back at a usage's pointer, keeping alpha and the 0-1 / 0-255 scale.
+ */
+function writeColor(doc: LottieDocument, usage: ColorUsage, color: Rgb): boolean {
+  const location = resolvePointer(doc, usage.pointer);
+  if (!location) {
+    return false;
+  }
+  const container = location.parent as Record<string, unknown>;
+  const current = container[location.key];
+
+  if (usage.kind === "solid") {
+    container[location.key] = rgbToHex(color);
+    return true;
+  }
+
+  if (usage.kind === "gradient-fill" || usage.kind === "gradient-stroke") {
+    // The pointer addresses the red channel of a stop in a flat array
+    const values = location.parent as number[];
+    const index = Number(location.key);
+    const scale = values.slice(index, index + 3).some((c) => c > 1) ? 255 : 1;
+    values[index] = color[0] * scale;
+    values[index + 1] = color[1] * scale;
+    values[index + 2] = color[2] * scale;
+    return true;
+  }
+
+  if (Array.isArray(current)) {
+    const scale = current.slice(0, 3).some((c) => typeof c === "number" && c > 1) ? 255 : 1;
+    container[location.key] = [color[0] * scale, color[1] * scale, color[2] * scale, ...current.slice(3)];
+    return true;
+  }
+
+  return false;
+}
+
+/**
+ * Rewrites fill, stroke, gradient, solid and text colors (static and keyframed).
+ */
+export function recolorLottie(doc: LottieDocument, mapper: ColorMapper): RecolorResult {
+  const document = cloneLottie(doc);
+  const changes: ColorChange[] = [];
+
+  for (const usage of collectColors(document)) {
+    const next = mapper(usage.color);
+    if (!next) {
+      continue;
+    }
+    const from = rgbToHex(usage.color);
+    const to = rgbToHex(next);
+    if (from === to) {
+      continue;
+    }
+    if (writeColor(document, usage, next)) {
+      changes.push({ pointer: usage.pointer, layer: usage.layer, kind: usage.kind, from, to });
+    }
+  }
+
+  return { document, changes };
+}
@@ -0,0 +1,471 @@
+/**
+ * Static SVG rendering of a single frame.
+ *
+ * Covers shape layers (rectangles, ellipses, stars, paths, fills, strokes,
+ * gradients and trim paths), solids, images, precomps, masks, track mattes
+ * and basic text. Expressions, effects and the remaining shape modifiers are
+ * not evaluated; each gap is reported as a warning instead.
+ */
+
+import { readLottieColor, rgbToHex } from "./color.js";
+import { walkObjects } from "./document.js";
+import {
+  Matrix,
+  IDENTITY,
+  isLayerActive,
+  layerMatrix,
+  layerOpacity,
+  layerTime,
+  matrixScale,
+  numberAt,
+  precompContent,
+  propertyValue,
+  vectorAt,
+} from "./evaluate.js";
+import { Path, bezierPath, formatNumber, pathData, walkShapeGroup } from "./paths.js";
+import { LottieAsset, LottieDocument, LottieLayer, LottieProperty, LottieShape } from "./types.js";
+
+/**
+ * Rendering settings.
+ */
+export interface RenderOptions {
+  /** Background color (hex); transparent if not set */
+  background?: string;
+
+  /** Output width in pixels (default: the composition width); the height keeps the aspect ratio */
+  width?: number;
+
+  /** Prefix for element IDs, to combine several frames in one document */
+  idPrefix?: string;
+}
+
+/**
+ * A rendered frame.
+ */
+export interface RenderedFrame {
+  svg: string;
+  width: number;
+  height: number;
+
+  /** Features that were skipped or approximated */
+  warnings: string[];
+}
+
+/**
+ * State shared while rendering one frame.
+ */
+interface RenderContext {
+  doc: LottieDocument;
+  assets: Map<string, LottieAsset>;
+  defs: string[];
+  idPrefix: string;
+  nextId: number;
+  warnings: Set<string>;
+}
+
+/**
+ * Half the size of the region masks cover (masks clip to their region).
+ */
+const MASK_EXTENT = 100000;
+
+/**
+ * CSS blend modes by Lottie `bm` value.
+ */
+const BLEND_MODES = [
+  "normal", "multiply", "screen", "overlay", "darken", "lighten", "color-dodge", "color-burn",
+  "hard-light", "soft-light", "difference", "exclusion", "hue", "saturation", "color", "luminosity",
+];
+
+/**
+ * Names of shape modifiers that are not rendered.
+ */
+const UNSUPPORTED_SHAPES: Record<string, string> = {
+  rd: "Round corners",
+  pb: "Pucker/bloat",
+  tw: "Twist",
+  zz: "Zig zag",
+  op: "Offset path",
+  mm: "Merge paths",
+  rp: "Repeater",
+};
+
+/**
+ * Escapes text for XML content and attribute values.
+ */
+export function escapeXml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+/**
+ * Returns a document-unique element ID.
+ */
+function uniqueId(ctx: RenderContext, prefix: string): string {
+  return `${ctx.idPrefix}${prefix}_${ctx.nextId++}`;
+}
+
+/**
+ * Formats a matrix as an SVG transform attribute (empty for the identity).
+ */
+function transformAttribute(m: Matrix): string {
+  if (m.every((value, k) => value === IDENTITY[k])) {
+    return "";
+  }
+  return ` transform="matrix(${m.map(formatNumber).join(" ")})"`;
+}
+
+/**
+ * Formats an opacity attribute (empty when fully opaque).
+ */
+function opacityAttribute(name: string, opacity: number): string {
+  return opacity < 1 ? ` ${name}="${formatNumber(Math.max(opacity, 0))}"` : "";
+}
+
+/**
+ * Reads a color property as a hex color.
+ */
+function colorAt(prop: LottieProperty | undefined, time: number): string {
+  const rgb = readLottieColor(propertyValue(prop, time));
+  return rgb ? rgbToHex(rgb) : "#000000";
+}
+
+/**
+ * Builds gradient stops from Lottie gradient data: `count` color stops
+ * [offset, r, g, b], optionally followed by opacity stops [offset, alpha].
+ */
+function gradientStops(values: number[], count: number): string {
+  const alphas: number[][] = [];
+  for (let k = count * 4; k + 1 < values.length; k += 2) {
+    alphas.push([values[k], values[k + 1]]);
+  }
+
+  const alphaAt = (offset: number) => {
+    if (alphas.length === 0) return 1;
+    if (offset <= alphas[0][0]) return alphas[0][1];
+    for (let k = 1; k < alphas.length; k++) {
+      const [o1, a1] = alphas[k];
+      if (offset <= o1) {
+        const [o0, a0] = alphas[k - 1];
+        return o1 === o0 ? a1 : a0 + ((a1 - a0) * (offset - o0)) / (o1 - o0);
+      }
+    }
+    return alphas[alphas.length - 1][1];
+  };
+
+  const stops: string[] = [];
+  for (let k = 0; k < count && k * 4 + 3 < values.length; k++) {
+    const [offset, r, g, b] = values.slice(k * 4, k * 4 + 4);
+    stops.push(
+      `<stop offset="${formatNumber(offset)}" stop-color="${rgbToHex([r, g, b])}"${opacityAttribute("stop-opacity", alphaAt(offset))}/>`
+    );
+  }
+  return stops.join("");
+}
+
+/**
+ * Adds a gradient definition for a gradient fill or stroke and returns its ID.
+ *
+ * @param matrix - Transform from the gradient's group to layer coordinates
+ */
+function gradientDef(shape: LottieShape, time: number, matrix: Matrix, ctx: RenderContext): string {
+  const id = uniqueId(ctx, "gradient");
+  const [sx, sy] = vectorAt(shape.s as LottieProperty | undefined, time, [0, 0]);
+  const [ex, ey] = vectorAt(shape.e as LottieProperty | undefined, time, [0, 0]);
+  const data = shape.g as { p?: number; k?: LottieProperty } | undefined;
+  const values = propertyValue(data?.k, time);
+  const stops = gradientStops(Array.isArray(values) ? (values as number[]) : [], data?.p ?? 0);
+  const transform = transformAttribute(matrix).replace(" transform=", " gradientTransform=");
+
+  if (shape.t === 2) {
+    const radius = Math.hypot(ex - sx, ey - sy);
+    ctx.defs.push(
+      `<radialGradient id="${id}" gradientUnits="userSpaceOnUse"${transform} cx="${formatNumber(sx)}" cy="${formatNumber(sy)}" r="${formatNumber(radius)}">${stops}</radialGradient>`
+    );
+  } else {
+    ctx.defs.push(
+      `<linearGradient id="${id}" gradientUnits="userSpaceOnUse"${transform} x1="${formatNumber(sx)}" y1="${formatNumber(sy)}" x2="${formatNumber(ex)}" y2="${formatNumber(ey)}">${stops}</linearGradient>`
+    );
+  }
+  return id;
+}
+
+/**
+ * Renders a fill or stroke item applied to the paths before it.
+ *
+ * @param matrix - Transform from the item's group to layer coordinates
+ * @param opacity - Combined opacity of the enclosing groups (0-1)
+ */
+function styleElement(
+  shape: LottieShape,
+  paths: Path[],
+  time: number,
+  matrix: Matrix,
+  opacity: number,
+  ctx: RenderContext
+): string | null {
+  const d = pathData(paths);
+  if (!d) {
+    return null;
+  }
+
+  const alpha = (numberAt(shape.o as LottieProperty | undefined, time, 100) / 100) * opacity;
+  const isFill = shape.ty === "fl" || shape.ty === "gf";
+  const paint = shape.ty === "gf" || shape.ty === "gs"
+    ? `url(#${gradientDef(shape, time, matrix, ctx)})`
+    : colorAt(shape.c as LottieProperty | undefined, time);
+
+  if (isFill) {
+    const rule = shape.r === 2 ? ' fill-rule="evenodd"' : "";
+    return `<path d="${d}" fill="${paint}"${opacityAttribute("fill-opacity", alpha)}${rule}/>`;
+  }
+
+  const width = numberAt(shape.w as LottieProperty | undefined, time, 0) * matrixScale(matrix);
+  if (width <= 0) {
+    return null;
+  }
+  const caps = ["butt", "butt", "round", "square"];
+  const joins = ["miter", "miter", "round", "bevel"];
+  let attributes = ` stroke-width="${formatNumber(width)}"`;
+  attributes += ` stroke-linecap="${caps[shape.lc as number] ?? "butt"}" stroke-linejoin="${joins[shape.lj as number] ?? "miter"}"`;
+  if (typeof shape.ml === "number") {
+    attributes += ` stroke-miterlimit="${formatNumber(shape.ml)}"`;
+  }
+
+  const dashes = (shape.d as Array<{ n?: string; v?: LottieProperty }> | undefined) ?? [];
+  const lengths = dashes
+    .filter((dash) => dash.n === "d" || dash.n === "g")
+    .map((dash) => numberAt(dash.v, time, 0) * matrixScale(matrix));
+  if (lengths.length > 0 && lengths.some((length) => length > 0)) {
+    attributes += ` stroke-dasharray="${lengths.map(formatNumber).join(" ")}"`;
+    const offset = dashes.find((dash) => dash.n === "o");
+    if (offset) {
+      attributes += ` stroke-dashoffset="${formatNumber(numberAt(offset.v, time, 0) * matrixScale(matrix))}"`;
+    }
+  }
+
+  return `<path d="${d}" fill="none" stroke="${paint}"${opacityAttribute("stroke-opacity", alpha)}${attributes}/>`;
+}
+
+/**
+ * Renders a shape group (see walkShapeGroup) as SVG elements in paint order.
+ */
+function renderShapeGroup(items: LottieShape[], time: number, ctx: RenderContext): string[] {
+  return walkShapeGroup(items, time, IDENTITY, 1, {
+    style: (shape, paths, matrix, opacity) => styleElement(shape, paths, time, matrix, opacity, ctx),
+    item: (shape) => {
+      if (shape.ty === "tm" && shape.m === 2) {
+        ctx.warnings.add("Trim paths set to trim multiple shapes individually are trimmed simultaneously");
+      } else if (UNSUPPORTED_SHAPES[shape.ty]) {
+        ctx.warnings.add(`${UNSUPPORTED_SHAPES[shape.ty]} modifiers are not rendered`);
+      }
+    },
+  }).drawn;
+}
+
+/**
+ * Renders a text layer with SVG text (first style only, no text animators).
+ */
+function renderText(layer: LottieLayer, time: number, ctx: RenderContext): string | null {
+  ctx.warnings.add("Text is drawn with SVG text: fonts, tracking and text animators may differ");
+
+  const keyframes = ((layer.t?.d as { k?: Array<{ t?: number; s?: Record<string, unknown> }> } | undefined)?.k) ?? [];
+  const current = [...keyframes].reverse().find((kf) => (kf.t ?? 0) <= time) ?? keyframes[0];
+  const style = current?.s;
+  if (!style || typeof style.t !== "string") {
+    return null;
+  }
+
+  const size = typeof style.s === "number" ? style.s : 12;
+  const lineHeight = typeof style.lh === "number" ? style.lh : size * 1.2;
+  const font = ctx.doc.fonts?.list?.find((f) => f.fName === style.f);
+  const family = font?.fFamily ?? (typeof style.f === "string" ? style.f : "sans-serif");
+  const rgb = readLottieColor(style.fc);
+  const anchor = ["start", "end", "middle"][style.j as number] ?? "start";
+
+  const lines = style.t
+    .split(/\r\n|\r|\n|\u0003/)
+    .map((line, k) => `<tspan x="0" y="${formatNumber(k * lineHeight)}">${escapeXml(line)}</tspan>`)
+    .join("");
+  return `<text font-family="${escapeXml(family)}" font-size="${formatNumber(size)}" fill="${rgb ? rgbToHex(rgb) : "#000000"}" text-anchor="${anchor}">${lines}</text>`;
+}
+
+/**
+ * Wraps layer content in its masks (in layer coordinates).
+ */
+function applyMasks(layer: LottieLayer, time: number, content: string, ctx: RenderContext): string {
+  const masks = (layer.masksProperties ?? []).filter((mask) => mask.mode !== "n");
+  if (masks.length === 0) {
+    return content;
+  }
+
+  const outside = `M${-MASK_EXTENT},${-MASK_EXTENT}H${MASK_EXTENT}V${MASK_EXTENT}H${-MASK_EXTENT}Z`;
+  // Masks start from nothing visible unless the first one removes from everything
+  const parts = masks[0].mode === "a" ? [] : [`<path d="${outside}" fill="#ffffff"/>`];
+  for (const mask of masks) {
+    const path = bezierPath(mask.pt, time);
+    if (!path) continue;
+    if (mask.mode !== "a" && mask.mode !== "s") {
+      ctx.warnings.add(`Mask mode "${mask.mode}" is rendered as an add mask`);
+    }
+    if (numberAt(mask.x as LottieProperty | undefined, time, 0) !== 0) {
+      ctx.warnings.add("Mask expansion is not rendered");
+    }
+
+    const d = mask.inv === true ? outside + pathData([path]) : pathData([path]);
+    const color = mask.mode === "s" ? "#000000" : "#ffffff";
+    const opacity = numberAt(mask.o, time, 100) / 100;
+    parts.push(`<path d="${d}" fill="${color}"${opacityAttribute("fill-opacity", opacity)}${mask.inv === true ? ' fill-rule="evenodd"' : ""}/>`);
+  }
+
+  const id = uniqueId(ctx, "mask");
+  ctx.defs.push(
+    `<mask id="${id}" maskUnits="userSpaceOnUse" x="${-MASK_EXTENT}" y="${-MASK_EXTENT}" width="${2 * MASK_EXTENT}" height="${2 * MASK_EXTENT}">${parts.join("")}</mask>`
+  );
+  return `<g mask="url(#${id})">${content}</g>`;
+}
+
+/**
+ * Renders one layer in composition coordinates, or returns null if it draws nothing.
+ */
+function renderLayer(layer: LottieLayer, layers: LottieLayer[], frame: number, ctx: RenderContext, depth: number): string | null {
+  if (layer.hd === true || !isLayerActive(layer, frame)) {
+    return null;
+  }
+  const opacity = layerOpacity(layer, frame);
+  if (opacity <= 0) {
+    return null;
+  }
+
+  const time = layerTime(layer, frame);
+  let content: string | null = null;
+  switch (layer.ty) {
+    case 0: {
+      const precomp = precompContent(layer, time, ctx.assets, ctx.doc.fr, depth);
+      if (!precomp) break;
+      const inner = renderComposition(precomp.layers, precomp.frame, ctx, depth + 1);
+      if (!inner) break;
+      const clipId = uniqueId(ctx, "clip");
+      ctx.defs.push(`<clipPath id="${clipId}"><rect width="${formatNumber(layer.w ?? 0)}" height="${formatNumber(layer.h ?? 0)}"/></clipPath>`);
+      content = `<g clip-path="url(#${clipId})">${inner}</g>`;
+      break;
+    }
+    case 1:
+      content = `<rect width="${formatNumber(layer.sw ?? 0)}" height="${formatNumber(layer.sh ?? 0)}" fill="${escapeXml(layer.sc ?? "#000000")}"/>`;
+      break;
+    case 2: {
+      const asset = layer.refId !== undefined ? ctx.assets.get(layer.refId) : undefined;
+      if (!asset?.p) break;
+      const href = asset.e === 1 || asset.p.startsWith("data:") ? asset.p : `${asset.u ?? ""}${asset.p}`;
+      if (!/^(data:|https?:)/.test(href)) {
+        ctx.warnings.add("Images stored as separate files are not rendered; embed them to include them");
+        break;
+      }
+      content = `<image href="${escapeXml(href)}" width="${formatNumber(asset.w ?? 0)}" height="${formatNumber(asset.h ?? 0)}" preserveAspectRatio="none"/>`;
+      break;
+    }
+    case 4: {
+      const elements = renderShapeGroup(layer.shapes ?? [], time, ctx);
+      content = elements.length > 0 ? elements.join("") : null;
+      break;
+    }
+    case 5:
+      content = renderText(layer, time, ctx);
+      break;
+  }
+  if (!content) {
+    return null;
+  }
+
+  if (layer.ef && layer.ef.length > 0) {
+    ctx.warnings.add("Layer effects are not rendered");
+  }
+  if (layer.ddd === 1) {
+    ctx.warnings.add("3D layers are rendered without perspective");
+  }
+
+  content = applyMasks(layer, time, content, ctx);
+  const blend = layer.bm ? BLEND_MODES[layer.bm] : undefined;
+  const style = blend && blend !== "normal" ? ` style="mix-blend-mode:${blend}"` : "";
+  return `<g${transformAttribute(layerMatrix(layer, layers, frame))}${opacityAttribute("opacity", opacity)}${style}>${content}</g>`;
+}
+
+/**
+ * Renders a composition's layers in paint order (the first layer is on top).
+ */
+function renderComposition(layers: LottieLayer[], frame: number, ctx: RenderContext, depth: number): string {
+  const elements: string[] = [];
+  for (let k = layers.length - 1; k >= 0; k--) {
+    const layer = layers[k];
+    // Matte layers only show through the layer they matte
+    if (layer.td === 1) {
+      continue;
+    }
+
+    let element = renderLayer(layer, layers, frame, ctx, depth);
+    if (!element) {
+      continue;
+    }
+
+    if (layer.tt) {
+      const matte = layer.tp !== undefined
+        ? layers.find((l) => l.ind === layer.tp)
+        : layers[k - 1]?.td === 1 ? layers[k - 1] : undefined;
+      if (layer.tt === 2 || layer.tt === 4) {
+        ctx.warnings.add("Inverted track mattes are not rendered; the layers are drawn without them");
+      } else if (matte) {
+        const matteElement = renderLayer(matte, layers, frame, ctx, depth);
+        if (!matteElement) {
+          continue;
+        }
+        const id = uniqueId(ctx, "matte");
+        const type = layer.tt === 3 ? "luminance" : "alpha";
+        ctx.defs.push(
+          `<mask id="${id}" mask-type="${type}" style="mask-type:${type}" maskUnits="userSpaceOnUse" x="${-MASK_EXTENT}" y="${-MASK_EXTENT}" width="${2 * MASK_EXTENT}" height="${2 * MASK_EXTENT}">${matteElement}</mask>`
+        );
+        element = `<g mask="url(#${id})">${element}</g>`;
+      }
+    }
+    elements.push(element);
+  }
+  return elements.join("");
+}
+
+/**
+ * Renders a frame of the root composition as a standalone SVG document.
+ *
+ * @param frame - Frame on the root timeline (layers outside their in/out range are not drawn)
+ */
+export function renderFrame(doc: LottieDocument, frame: number, options: RenderOptions = {}): RenderedFrame {
+  const ctx: RenderContext = {
+    doc,
+    assets: new Map((doc.assets ?? []).map((asset) => [asset.id, asset])),
+    defs: [],
+    idPrefix: options.idPrefix ?? "",
+    nextId: 1,
+    warnings: new Set(),
+  };
+
+  let hasExpressions = false;
+  walkObjects(doc, (obj) => {
+    if (typeof obj.x === "string" && "k" in obj) hasExpressions = true;
+  });
+  if (hasExpressions) {
+    ctx.warnings.add("Expressions are not evaluated; properties show their keyframed values");
+  }
+
+  const body = renderComposition(doc.layers, frame, ctx, 0);
+  const width = options.width ?? doc.w;
+  const height = Math.round((width * doc.h) / doc.w);
+
+  const parts = [
+    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${formatNumber(doc.w)} ${formatNumber(doc.h)}" width="${width}" height="${height}">`,
+  ];
+  if (ctx.defs.length > 0) {
+    parts.push(`<defs>${ctx.defs.join("")}</defs>`);
+  }
+  if (options.background) {
+    parts.push(`<rect width="${formatNumber(doc.w)}" height="${formatNumber(doc.h)}" fill="${escapeXml(options.background)}"/>`);
+  }
+  parts.push(body, "</svg>");
+
+  return { svg: parts.join(""), width, height, warnings: [...ctx.warnings] };
+}
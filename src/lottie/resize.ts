@@ -0,0 +1,163 @@
+/**
+ * Changing the composition size.
+ *
+ * The original root layers are moved into a precomp that is placed, scaled
+ * and cropped by a single transformed layer, so parenting, mattes and 3D
+ * layers keep working unchanged.
+ */
+
+import { Box } from "./bounds.js";
+import { cloneLottie } from "./document.js";
+import { LottieEditError } from "./errors.js";
+import { LottieDocument, LottieLayer } from "./types.js";
+
+/**
+ * How the source region is placed in the new canvas:
+ * - fit: scale to fit inside (letterboxed)
+ * - fill: scale to cover the canvas (overflow is cropped)
+ * - crop: keep the scale and crop or pad
+ */
+export const RESIZE_MODES = ["fit", "fill", "crop"] as const;
+export type ResizeMode = (typeof RESIZE_MODES)[number];
+
+/**
+ * Where the source region sits in the new canvas when it does not fill it exactly.
+ */
+export const ALIGNMENTS = [
+  "center",
+  "top",
+  "bottom",
+  "left",
+  "right",
+  "top-left",
+  "top-right",
+  "bottom-left",
+  "bottom-right",
+] as const;
+export type Alignment = (typeof ALIGNMENTS)[number];
+
+/**
+ * Resize settings.
+ */
+export interface ResizeOptions {
+  /** New canvas width; derived from the region's aspect ratio if only height is given */
+  width?: number;
+
+  /** New canvas height; derived from the region's aspect ratio if only width is given */
+  height?: number;
+
+  /** Default: fit */
+  mode?: ResizeMode;
+
+  /** Default: center */
+  align?: Alignment;
+
+  /** Part of the original canvas to show (default: all of it) */
+  region?: Box;
+}
+
+/**
+ * Resized document and the placement used.
+ */
+export interface ResizeResult {
+  document: LottieDocument;
+  region: Box;
+
+  /** Uniform scale applied to the region */
+  scale: number;
+
+  /** Where the region's top-left corner lands in the new canvas */
+  offset: [number, number];
+}
+
+/**
+ * Horizontal and vertical alignment factors (0 = start, 0.5 = center, 1 = end).
+ */
+function alignmentFactors(align: Alignment): [number, number] {
+  const x = align.includes("left") ? 0 : align.includes("right") ? 1 : 0.5;
+  const y = align.startsWith("top") ? 0 : align.startsWith("bottom") ? 1 : 0.5;
+  return [x, y];
+}
+
+/**
+ * Returns an ID not used by any asset.
+ */
+function uniqueAssetId(doc: LottieDocument, base: string): string {
+  const ids = new Set((doc.assets ?? []).map((asset) => asset.id));
+  let id = base;
+  for (let n = 2; ids.has(id); n++) {
+    id = `${base}_${n}`;
+  }
+  return id;
+}
+
+/**
+ * Rounds to 3 decimals to keep generated transforms readable.
+ */
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000 || 0;
+}
+
+/**
+ * Returns a copy of the document with a new canvas size, showing `region` of
+ * the original canvas placed according to `mode` and `align`.
+ *
+ * @throws LottieEditError for non-positive sizes or an empty region
+ */
+export function resizeLottie(doc: LottieDocument, options: ResizeOptions = {}): ResizeResult {
+  const mode = options.mode ?? "fit";
+  const [alignX, alignY] = alignmentFactors(options.align ?? "center");
+  const region = options.region ?? { x: 0, y: 0, width: doc.w, height: doc.h };
+
+  if (!(region.width > 0 && region.height > 0)) {
+    throw new LottieEditError("The region to show is empty");
+  }
+  for (const [name, value] of [["width", options.width], ["height", options.height]] as const) {
+    if (value !== undefined && !(value > 0)) {
+      throw new LottieEditError(`Canvas ${name} must be positive (got ${value})`);
+    }
+  }
+
+  const aspect = region.width / region.height;
+  const width = options.width ?? (options.height !== undefined ? Math.round(options.height * aspect) : Math.round(region.width));
+  const height = options.height ?? (options.width !== undefined ? Math.round(options.width / aspect) : Math.round(region.height));
+
+  const scaleX = width / region.width;
+  const scaleY = height / region.height;
+  const scale = mode === "fit" ? Math.min(scaleX, scaleY) : mode === "fill" ? Math.max(scaleX, scaleY) : 1;
+  const offset: [number, number] = [
+    round((width - region.width * scale) * alignX),
+    round((height - region.height * scale) * alignY),
+  ];
+
+  const result = cloneLottie(doc);
+  const assetId = uniqueAssetId(result, "original_canvas");
+  result.assets = [...(result.assets ?? []), { id: assetId, nm: "Original canvas", layers: result.layers }];
+
+  const wrapper: LottieLayer = {
+    ddd: 0,
+    ind: 1,
+    ty: 0,
+    nm: "Original canvas",
+    refId: assetId,
+    ks: {
+      o: { a: 0, k: 100 },
+      r: { a: 0, k: 0 },
+      p: { a: 0, k: [offset[0], offset[1], 0] },
+      a: { a: 0, k: [round(region.x), round(region.y), 0] },
+      s: { a: 0, k: [round(scale * 100), round(scale * 100), 100] },
+    },
+    ao: 0,
+    w: doc.w,
+    h: doc.h,
+    ip: doc.ip,
+    op: doc.op,
+    st: 0,
+    bm: 0,
+  };
+  result.layers = [wrapper];
+  result.w = width;
+  result.h = height;
+
+  return { document: result, region, scale, offset };
+}
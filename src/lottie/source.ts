@@ -0,0 +1,193 @@
+/**
+ * Loading Lottie documents from trusted URLs, local files or inline JSON.
+ */
+
+import { createLogger } from "../utils/logger.js";
+import { parseJson, parseLottie } from "./document.js";
+import { selectDotLottieAnimation, unpackDotLottie } from "./dotlottie.js";
+import { LottieSourceError } from "./errors.js";
+import { readLocalFile } from "./files.js";
+import { LottieDocument } from "./types.js";
+import { isZip } from "./zip.js";
+
+const log = createLogger("lottie-source");
+
+/**
+ * Hosts that animation files may be downloaded from.
+ */
+export const TRUSTED_DOMAINS = [
+  "lottie.host",
+  "assets.lottiefiles.com",
+  "assets-v2.lottiefiles.com",
+  "assets1.lottiefiles.com",
+  "assets2.lottiefiles.com",
+  "assets3.lottiefiles.com",
+  "assets4.lottiefiles.com",
+  "assets5.lottiefiles.com",
+  "assets6.lottiefiles.com",
+  "assets7.lottiefiles.com",
+  "assets8.lottiefiles.com",
+  "assets9.lottiefiles.com",
+  "assets10.lottiefiles.com",
+];
+
+/**
+ * Largest document that will be downloaded for processing.
+ */
+export const MAX_DOCUMENT_BYTES = 20 * 1024 * 1024; // 20MB
+
+/**
+ * Download timeout.
+ */
+const FETCH_TIMEOUT_MS = 15000;
+
+/**
+ * Whether a URL points at a trusted LottieFiles host. Invalid URLs are untrusted.
+ */
+export function isTrustedUrl(url: string): boolean {
+  try {
+    const { hostname, protocol } = new URL(url);
+    return (
+      (protocol === "https:" || protocol === "http:") &&
+      TRUSTED_DOMAINS.some((domain) => hostname === domain || hostname.endsWith(`.${domain}`))
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Where to load a document from: a trusted URL, a local file or inline JSON text.
+ * URLs and files may be Lottie JSON or dotLottie archives.
+ */
+export interface LottieSource {
+  url?: string;
+  path?: string;
+  json?: string;
+
+  /** Animation to load from a dotLottie archive (default: the active or first one) */
+  animationId?: string;
+}
+
+/**
+ * A loaded document.
+ */
+export interface LoadedLottie {
+  document: LottieDocument;
+
+  /** Human-readable description of the source */
+  source: string;
+
+  /** Size of the loaded JSON text or dotLottie archive in bytes */
+  bytes: number;
+}
+
+/**
+ * Loaded JSON that has not been checked to be a Lottie document (see loadLottieJson).
+ */
+export interface LoadedLottieJson {
+  value: unknown;
+  source: string;
+  bytes: number;
+}
+
+/**
+ * Parses downloaded or read bytes as JSON or a dotLottie archive.
+ */
+function parseBody(body: Uint8Array, source: string, animationId: string | undefined): LoadedLottieJson {
+  if (isZip(body)) {
+    const animation = selectDotLottieAnimation(unpackDotLottie(body), animationId);
+    return { value: animation.document, source: `${source} (animation "${animation.id}")`, bytes: body.byteLength };
+  }
+  if (animationId !== undefined) {
+    throw new LottieSourceError("`animation_id` only applies to dotLottie (.lottie) files");
+  }
+  return { value: parseJson(new TextDecoder().decode(body)), source, bytes: body.byteLength };
+}
+
+/**
+ * Downloads a file from a trusted URL.
+ *
+ * @throws LottieSourceError for untrusted URLs, HTTP errors, timeouts and oversized files
+ */
+export async function fetchTrusted(url: string, maxBytes = MAX_DOCUMENT_BYTES): Promise<Uint8Array> {
+  if (!isTrustedUrl(url)) {
+    throw new LottieSourceError(
+      `For security, only URLs from LottieFiles CDN are supported. Trusted domains: ${TRUSTED_DOMAINS.slice(0, 3).join(", ")}...`
+    );
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      headers: { "User-Agent": "LottieAnimationSearch-MCP/1.0" },
+      signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+    });
+  } catch (error) {
+    throw new LottieSourceError(`Download failed: ${error instanceof Error ? error.message : String(error)}`, { cause: error });
+  }
+
+  if (!response.ok) {
+    throw new LottieSourceError(`Download failed: HTTP ${response.status}`);
+  }
+
+  const declared = Number(response.headers.get("content-length"));
+  if (declared > maxBytes) {
+    throw new LottieSourceError(`File is too large (${(declared / 1024 / 1024).toFixed(1)}MB, limit ${maxBytes / 1024 / 1024}MB)`);
+  }
+
+  const body = new Uint8Array(await response.arrayBuffer());
+  if (body.byteLength > maxBytes) {
+    throw new LottieSourceError(`File is too large (${(body.byteLength / 1024 / 1024).toFixed(1)}MB, limit ${maxBytes / 1024 / 1024}MB)`);
+  }
+
+  log.debug("Downloaded file", { url, bytes: body.byteLength });
+  return body;
+}
+
+/**
+ * Loads JSON from a source without checking that it is a Lottie document
+ * (for validation, which reports problems instead of failing on them).
+ * Animations in dotLottie archives are still parsed as documents.
+ *
+ * @throws LottieSourceError if the source is missing or cannot be read
+ * @throws LottieFormatError if the content is not valid JSON or a valid archive
+ */
+export async function loadLottieJson(source: LottieSource): Promise<LoadedLottieJson> {
+  const given = [source.url, source.path, source.json].filter((value) => value !== undefined).length;
+  if (given > 1) {
+    throw new LottieSourceError("Provide only one of `url`, `path` or `json`");
+  }
+
+  if (source.json !== undefined) {
+    if (source.animationId !== undefined) {
+      throw new LottieSourceError("`animation_id` only applies to dotLottie (.lottie) files");
+    }
+    return {
+      value: parseJson(source.json),
+      source: "inline JSON",
+      bytes: Buffer.byteLength(source.json, "utf-8"),
+    };
+  }
+
+  if (source.url) {
+    return parseBody(await fetchTrusted(source.url), source.url, source.animationId);
+  }
+
+  if (source.path) {
+    return parseBody(await readLocalFile(source.path, MAX_DOCUMENT_BYTES), source.path, source.animationId);
+  }
+
+  throw new LottieSourceError("Provide a `url`, `path` or `json` to load the animation from");
+}
+
+/**
+ * Loads and parses a Lottie document.
+ *
+ * @throws LottieSourceError if the source is missing or cannot be read
+ * @throws LottieFormatError if the content is not a Lottie document
+ */
+export async function loadLottie(source: LottieSource): Promise<LoadedLottie> {
+  const { value, source: description, bytes } = await loadLottieJson(source);
+  return { document: parseLottie(value), source: description, bytes };
+}
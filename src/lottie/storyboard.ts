@@ -0,0 +1,126 @@
+/**
+ * Storyboards: several frames of an animation rendered side by side in one SVG grid.
+ */
+
+import { LottieEditError } from "./errors.js";
+import { formatNumber } from "./paths.js";
+import { escapeXml, renderFrame } from "./render.js";
+import { listSegments } from "./timing.js";
+import { LottieDocument } from "./types.js";
+
+/**
+ * A frame to show in a storyboard.
+ */
+export interface StoryboardFrame {
+  frame: number;
+
+  /** Shown next to the frame number and time (e.g. a marker name) */
+  label?: string;
+}
+
+/**
+ * Storyboard layout settings.
+ */
+export interface StoryboardOptions {
+  /** Number of columns (default: enough for a roughly square grid) */
+  columns?: number;
+
+  /** Width of each frame in pixels (default: 240) */
+  cellWidth?: number;
+
+  /** Background of each frame (hex, default: white) */
+  background?: string;
+}
+
+/**
+ * A rendered storyboard.
+ */
+export interface Storyboard {
+  svg: string;
+  width: number;
+  height: number;
+  columns: number;
+  rows: number;
+  frames: StoryboardFrame[];
+
+  /** Features that were skipped or approximated in any frame */
+  warnings: string[];
+}
+
+/**
+ * Space between and around cells.
+ */
+const GAP = 16;
+
+/**
+ * Height of the caption under each frame.
+ */
+const CAPTION_HEIGHT = 20;
+
+/**
+ * Returns `count` frames spread evenly from the first to the last frame of the timeline.
+ */
+export function evenFrames(doc: LottieDocument, count: number): StoryboardFrame[] {
+  const last = Math.max(doc.op - 1, doc.ip);
+  const frames = new Set<number>();
+  for (let n = 0; n < count; n++) {
+    frames.add(Math.round(count === 1 ? doc.ip : doc.ip + ((last - doc.ip) * n) / (count - 1)));
+  }
+  return [...frames].map((frame) => ({ frame }));
+}
+
+/**
+ * Returns the start frame of each marker, labelled with its name.
+ *
+ * @throws LottieEditError if the document has no markers
+ */
+export function markerFrames(doc: LottieDocument): StoryboardFrame[] {
+  const segments = listSegments(doc);
+  if (segments.length === 0) {
+    throw new LottieEditError("The animation has no markers");
+  }
+  return segments.map((segment) => ({ frame: segment.start, label: segment.name }));
+}
+
+/**
+ * Renders frames into a grid, each captioned with its frame number and time.
+ */
+export function renderStoryboard(doc: LottieDocument, frames: StoryboardFrame[], options: StoryboardOptions = {}): Storyboard {
+  const cellWidth = options.cellWidth ?? 240;
+  const cellHeight = Math.round((cellWidth * doc.h) / doc.w);
+  const columns = Math.min(options.columns ?? Math.ceil(Math.sqrt(frames.length)), Math.max(frames.length, 1));
+  const rows = Math.ceil(frames.length / columns);
+  const width = GAP + columns * (cellWidth + GAP);
+  const height = GAP + rows * (cellHeight + CAPTION_HEIGHT + GAP);
+  const warnings = new Set<string>();
+
+  const cells = frames.map(({ frame, label }, n) => {
+    const x = GAP + (n % columns) * (cellWidth + GAP);
+    const y = GAP + Math.floor(n / columns) * (cellHeight + CAPTION_HEIGHT + GAP);
+    const rendered = renderFrame(doc, frame, {
+      width: cellWidth,
+      background: options.background ?? "#ffffff",
+      idPrefix: `f${n + 1}_`,
+    });
+    rendered.warnings.forEach((warning) => warnings.add(warning));
+
+    const seconds = ((frame - doc.ip) / doc.fr).toFixed(2);
+    const caption = `Frame ${formatNumber(frame)} · ${seconds}s${label ? ` · ${label}` : ""}`;
+    return [
+      `<g transform="translate(${x} ${y})">`,
+      rendered.svg,
+      `<rect width="${cellWidth}" height="${cellHeight}" fill="none" stroke="#d0d0d0"/>`,
+      `<text x="0" y="${cellHeight + 14}" font-family="sans-serif" font-size="12" fill="#333333">${escapeXml(caption)}</text>`,
+      "</g>",
+    ].join("");
+  });
+
+  const svg = [
+    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${width} ${height}" width="${width}" height="${height}">`,
+    `<rect width="${width}" height="${height}" fill="#f4f4f4"/>`,
+    ...cells,
+    "</svg>",
+  ].join("");
+
+  return { svg, width, height, columns, rows, frames, warnings: [...warnings] };
+}
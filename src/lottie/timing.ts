@@ -0,0 +1,323 @@
+/**
+ * Timeline edits: trimming, speed changes, reversing and markers.
+ *
+ * All times are in frames. Layer keyframes are in layer time (composition
+ * time minus the layer's `st`, divided by its `sr`), so moving a layer only
+ * needs its `ip`, `op` and `st` adjusted.
+ */
+
+import { cloneLottie, isPrecomp, walkObjects } from "./document.js";
+import { LottieEditError } from "./errors.js";
+import { LottieDocument, LottieKeyframe, LottieLayer, LottieMarker } from "./types.js";
+
+/**
+ * A named segment of the timeline.
+ */
+export interface TimelineSegment {
+  name: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Edits applied by editTiming, in this order: trim, speed, reverse, markers.
+ */
+export interface TimingEdits {
+  /** Keep only this frame range; it becomes the new start of the timeline */
+  trim?: { start: number; end: number };
+
+  /** Playback speed factor (2 = twice as fast); keyframes are retimed, `fr` is kept */
+  speed?: number;
+
+  /** Play the timeline backwards */
+  reverse?: boolean;
+
+  /** Markers to add (replacing markers with the same name), in frames of the edited timeline */
+  markers?: TimelineSegment[];
+}
+
+/**
+ * Edited document and anything the edit could not handle exactly.
+ */
+export interface TimingResult {
+  document: LottieDocument;
+  warnings: string[];
+}
+
+/**
+ * Calls `visit` for every keyframe list in a value: animated properties and
+ * text document keyframes (which have no `a` flag).
+ */
+function walkKeyframes(
+  value: unknown,
+  visit: (owner: Record<string, unknown>, keyframes: LottieKeyframe[]) => void
+): void {
+  walkObjects(value, (obj) => {
+    const k = obj.k;
+    if (
+      Array.isArray(k) &&
+      k.length > 0 &&
+      k.every((kf) => typeof kf === "object" && kf !== null && !Array.isArray(kf) && typeof kf.t === "number")
+    ) {
+      visit(obj, k as LottieKeyframe[]);
+    }
+  });
+}
+
+/**
+ * Returns the segments described by the document's markers.
+ */
+export function listSegments(doc: LottieDocument): TimelineSegment[] {
+  return (doc.markers ?? []).map((marker) => ({
+    name: marker.cm,
+    start: marker.tm,
+    end: marker.tm + (marker.dr ?? 0),
+  }));
+}
+
+/**
+ * Layer indices that other layers depend on (as parent or matte).
+ */
+function referencedIndices(layers: LottieLayer[]): Set<number> {
+  const referenced = new Set<number>();
+  for (const layer of layers) {
+    if (layer.parent !== undefined) referenced.add(layer.parent);
+    if (layer.tp !== undefined) referenced.add(layer.tp);
+  }
+  return referenced;
+}
+
+/**
+ * Trims the root timeline to [start, end) and shifts it to start at frame 0.
+ */
+function trim(doc: LottieDocument, start: number, end: number): void {
+  if (!(end > start)) {
+    throw new LottieEditError(`Trim end (${end}) must be after start (${start})`);
+  }
+  if (start < doc.ip || end > doc.op) {
+    throw new LottieEditError(`Trim range ${start}-${end} is outside the timeline (${doc.ip}-${doc.op})`);
+  }
+
+  const referenced = referencedIndices(doc.layers);
+  doc.layers = doc.layers.filter((layer, i) => {
+    const outside = layer.op <= start || layer.ip >= end;
+    // Parents and mattes are kept even when not visible themselves
+    const needed = (layer.ind !== undefined && referenced.has(layer.ind)) ||
+      (layer.td === 1 && doc.layers[i + 1] !== undefined && !(doc.layers[i + 1].op <= start || doc.layers[i + 1].ip >= end));
+    return !outside || needed;
+  });
+
+  for (const layer of doc.layers) {
+    layer.ip = Math.min(Math.max(layer.ip, start), end) - start;
+    layer.op = Math.min(Math.max(layer.op, start), end) - start;
+    layer.st = (layer.st ?? 0) - start;
+  }
+
+  doc.markers = (doc.markers ?? [])
+    .filter((marker) => {
+      const markerEnd = marker.tm + (marker.dr ?? 0);
+      // Keep markers inside the range and ranges overlapping it, not ranges that only touch it
+      return marker.tm < end && (markerEnd > start || marker.tm >= start);
+    })
+    .map((marker) => {
+      const markerStart = Math.max(marker.tm, start);
+      const markerEnd = Math.min(marker.tm + (marker.dr ?? 0), end);
+      return { ...marker, tm: markerStart - start, dr: markerEnd - markerStart };
+    });
+
+  doc.ip = 0;
+  doc.op = end - start;
+}
+
+/**
+ * Scales every time in the document by `factor` (0.5 = twice as fast).
+ */
+function scaleTime(doc: LottieDocument, factor: number): void {
+  const scaleLayers = (layers: LottieLayer[]) => {
+    for (const layer of layers) {
+      layer.ip *= factor;
+      layer.op *= factor;
+      layer.st = (layer.st ?? 0) * factor;
+
+      // Time remapping values are seconds of the (also rescaled) precomp
+      if (layer.tm) {
+        walkKeyframes(layer.tm, (_, keyframes) => {
+          for (const kf of keyframes) {
+            if (Array.isArray(kf.s)) kf.s = kf.s.map((v: number) => v * factor);
+            if (Array.isArray(kf.e)) kf.e = kf.e.map((v: number) => v * factor);
+          }
+        });
+        if (typeof layer.tm.k === "number") {
+          layer.tm.k *= factor;
+        }
+      }
+    }
+    walkKeyframes(layers, (_, keyframes) => {
+      for (const kf of keyframes) {
+        kf.t *= factor;
+      }
+    });
+  };
+
+  scaleLayers(doc.layers);
+  for (const asset of doc.assets ?? []) {
+    if (isPrecomp(asset)) {
+      scaleLayers(asset.layers);
+    }
+  }
+
+  doc.ip *= factor;
+  doc.op *= factor;
+  doc.markers = (doc.markers ?? []).map((marker) => ({ ...marker, tm: marker.tm * factor, dr: (marker.dr ?? 0) * factor }));
+}
+
+/**
+ * Reverses easing handles: the curve is mirrored, so x and y become 1 - value.
+ */
+function flipEasing(handle: LottieKeyframe["i"]): LottieKeyframe["i"] {
+  if (!handle) {
+    return handle;
+  }
+  const flip = (v: number | number[]) => (Array.isArray(v) ? v.map((n) => 1 - n) : 1 - v);
+  return { x: flip(handle.x), y: flip(handle.y) };
+}
+
+/**
+ * Reverses a keyframe list around `pivot` (new time = pivot - old time).
+ *
+ * @param holdAll - Treat every segment as a hold (text document keyframes)
+ */
+function reverseKeyframes(keyframes: LottieKeyframe[], pivot: number, holdAll: boolean): LottieKeyframe[] {
+  // Legacy exports store the end value in `e` and omit `s` on the last keyframe
+  const valueAt = (k: number) => keyframes[k].s ?? keyframes[k - 1]?.e;
+  const isHold = (segment: LottieKeyframe) => holdAll || segment.h === 1;
+  const last = keyframes.length - 1;
+
+  const reversed: LottieKeyframe[] = [];
+  // A held final segment switches value at its end, which becomes the new start:
+  // add a keyframe before it so the new beginning shows the old final value
+  if (last > 0 && isHold(keyframes[last - 1])) {
+    reversed.push({ t: pivot - keyframes[last].t - 1, s: valueAt(last), ...(holdAll ? {} : { h: 1 as const }) });
+  }
+
+  for (let k = last; k >= 0; k--) {
+    const kf: LottieKeyframe = { t: pivot - keyframes[k].t };
+    const segment = k > 0 ? keyframes[k - 1] : undefined;
+
+    if (!segment) {
+      kf.s = valueAt(0);
+    } else if (isHold(segment)) {
+      kf.s = valueAt(k - 1);
+      if (!holdAll) kf.h = 1;
+    } else {
+      kf.s = valueAt(k);
+      if (segment.e !== undefined) kf.e = valueAt(k - 1);
+      if (segment.i) kf.o = flipEasing(segment.i);
+      if (segment.o) kf.i = flipEasing(segment.o);
+      // Spatial tangents swap ends
+      if (segment.ti) kf.to = segment.ti;
+      if (segment.to) kf.ti = segment.to;
+    }
+    reversed.push(kf);
+  }
+  return reversed;
+}
+
+/**
+ * Mirrors the root timeline so it plays backwards. Precomp contents are left
+ * untouched; precomp layers get a reversed time remap instead.
+ */
+function reverse(doc: LottieDocument): void {
+  const total = doc.ip + doc.op;
+
+  for (const layer of doc.layers) {
+    const stretch = layer.sr ?? 1;
+    const pivot = (total - (layer.st ?? 0)) / stretch;
+    const hadTimeRemap = layer.tm !== undefined;
+
+    walkKeyframes(layer, (owner, keyframes) => {
+      owner.k = reverseKeyframes(keyframes, pivot, owner.a === undefined);
+    });
+
+    const ip = total - layer.op;
+    const op = total - layer.ip;
+    layer.ip = ip;
+    layer.op = op;
+    layer.st = 0;
+
+    if (layer.ty === 0 && !hadTimeRemap) {
+      // Precomp time in seconds for new layer times ip and op (linear)
+      layer.tm = {
+        a: 1,
+        k: [
+          { t: ip / stretch, s: [(pivot - ip / stretch) / doc.fr], o: { x: [0], y: [0] }, i: { x: [1], y: [1] } },
+          { t: op / stretch, s: [(pivot - op / stretch) / doc.fr] },
+        ],
+      };
+    }
+  }
+
+  doc.markers = (doc.markers ?? [])
+    .map((marker) => ({ ...marker, tm: total - marker.tm - (marker.dr ?? 0) }))
+    .sort((a, b) => a.tm - b.tm);
+}
+
+/**
+ * Adds markers, replacing existing markers with the same name.
+ */
+function addMarkers(doc: LottieDocument, segments: TimelineSegment[]): void {
+  for (const segment of segments) {
+    if (!(segment.end >= segment.start)) {
+      throw new LottieEditError(`Marker "${segment.name}" ends (${segment.end}) before it starts (${segment.start})`);
+    }
+    if (segment.start < doc.ip || segment.end > doc.op) {
+      throw new LottieEditError(`Marker "${segment.name}" (${segment.start}-${segment.end}) is outside the timeline (${doc.ip}-${doc.op})`);
+    }
+  }
+
+  const names = new Set(segments.map((segment) => segment.name));
+  const markers: LottieMarker[] = (doc.markers ?? []).filter((marker) => !names.has(marker.cm));
+  for (const segment of segments) {
+    markers.push({ tm: segment.start, cm: segment.name, dr: segment.end - segment.start });
+  }
+  doc.markers = markers.sort((a, b) => a.tm - b.tm);
+}
+
+/**
+ * Applies timeline edits to a copy of the document.
+ *
+ * @throws LottieEditError if a range is empty or outside the timeline, or the speed is not positive
+ */
+export function editTiming(doc: LottieDocument, edits: TimingEdits): TimingResult {
+  const result = cloneLottie(doc);
+  const warnings: string[] = [];
+
+  let hasExpressions = false;
+  walkObjects(result, (obj) => {
+    if (typeof obj.x === "string" && "k" in obj) hasExpressions = true;
+  });
+  if (hasExpressions) {
+    warnings.push("The animation has expressions; expressions that depend on time or keyframes are not adjusted");
+  }
+
+  if (edits.trim) {
+    trim(result, edits.trim.start, edits.trim.end);
+  }
+
+  if (edits.speed !== undefined && edits.speed !== 1) {
+    if (!(edits.speed > 0)) {
+      throw new LottieEditError(`Speed must be positive (got ${edits.speed})`);
+    }
+    scaleTime(result, 1 / edits.speed);
+  }
+
+  if (edits.reverse) {
+    reverse(result);
+  }
+
+  if (edits.markers && edits.markers.length > 0) {
+    addMarkers(result, edits.markers);
+  }
+
+  return { document: result, warnings };
+}
@@ -0,0 +1,252 @@
+/**
+ * Typed model of the Lottie (Bodymovin) JSON format.
+ *
+ * Only the fields the tools read or write are typed; everything else is kept
+ * as-is so documents round-trip without losing data.
+ */
+
+/**
+ * A property value, either static (`a: 0`) or keyframed (`a: 1`).
+ * `x` holds an After Effects expression when one is attached.
+ */
+export interface LottieProperty<T = unknown> {
+  a?: 0 | 1;
+  k: T | LottieKeyframe<T>[];
+  x?: string;
+  ix?: number;
+  [key: string]: unknown;
+}
+
+/**
+ * A single keyframe of an animated property.
+ */
+export interface LottieKeyframe<T = unknown> {
+  /** Time (frame number) */
+  t: number;
+  /** Start value */
+  s?: T;
+  /** End value (legacy exports) */
+  e?: T;
+  /** Hold keyframe */
+  h?: 0 | 1;
+  /** Easing in/out tangents */
+  i?: { x: number | number[]; y: number | number[] };
+  o?: { x: number | number[]; y: number | number[] };
+  [key: string]: unknown;
+}
+
+/**
+ * Layer transform.
+ */
+export interface LottieTransform {
+  /** Anchor point */
+  a?: LottieProperty;
+  /** Position */
+  p?: LottieProperty;
+  /** Scale (percent) */
+  s?: LottieProperty;
+  /** Rotation (degrees) */
+  r?: LottieProperty;
+  /** Opacity (0-100) */
+  o?: LottieProperty;
+  [key: string]: unknown;
+}
+
+/**
+ * Layer type codes.
+ */
+export const LAYER_TYPES: Record<number, string> = {
+  0: "precomp",
+  1: "solid",
+  2: "image",
+  3: "null",
+  4: "shape",
+  5: "text",
+  6: "audio",
+  7: "video-placeholder",
+  8: "image-sequence",
+  9: "video",
+  10: "image-placeholder",
+  11: "guide",
+  12: "adjustment",
+  13: "camera",
+  14: "light",
+  15: "data",
+};
+
+/**
+ * Shape item type codes (`ty` of shapes).
+ */
+export const SHAPE_TYPES: Record<string, string> = {
+  gr: "group",
+  rc: "rectangle",
+  el: "ellipse",
+  sr: "polystar",
+  sh: "path",
+  fl: "fill",
+  st: "stroke",
+  gf: "gradient-fill",
+  gs: "gradient-stroke",
+  no: "no-style",
+  tr: "transform",
+  tm: "trim-paths",
+  rd: "round-corners",
+  pb: "pucker-bloat",
+  tw: "twist",
+  zz: "zig-zag",
+  op: "offset-path",
+  mm: "merge-paths",
+  rp: "repeater",
+};
+
+/**
+ * Track matte modes (`tt`).
+ */
+export const MATTE_MODES: Record<number, string> = {
+  1: "alpha",
+  2: "alpha-inverted",
+  3: "luma",
+  4: "luma-inverted",
+};
+
+/**
+ * A mask applied to a layer.
+ */
+export interface LottieMask {
+  /** Mode: a (add), s (subtract), i (intersect), l (lighten), d (darken), f (difference), n (none) */
+  mode?: string;
+  nm?: string;
+  pt?: LottieProperty;
+  o?: LottieProperty;
+  inv?: boolean;
+  [key: string]: unknown;
+}
+
+/**
+ * A shape item inside a shape layer or group (`ty` is a two-letter code).
+ */
+export interface LottieShape {
+  ty: string;
+  nm?: string;
+  hd?: boolean;
+  /** Group contents */
+  it?: LottieShape[];
+  [key: string]: unknown;
+}
+
+/**
+ * A layer.
+ */
+export interface LottieLayer {
+  ty: number;
+  nm?: string;
+  /** Layer index, referenced by `parent` */
+  ind?: number;
+  parent?: number;
+  /** In and out points (frames) */
+  ip: number;
+  op: number;
+  /** Start time offset */
+  st?: number;
+  /** Time stretch */
+  sr?: number;
+  ks?: LottieTransform;
+  ddd?: 0 | 1;
+  hd?: boolean;
+  /** Asset reference (precomp and image layers) */
+  refId?: string;
+  /** Precomp size */
+  w?: number;
+  h?: number;
+  /** Time remapping */
+  tm?: LottieProperty;
+  hasMask?: boolean;
+  masksProperties?: LottieMask[];
+  /** Track matte mode used by this layer */
+  tt?: number;
+  /** Whether this layer is a track matte for the next layer */
+  td?: number;
+  /** Matte parent index (newer exports) */
+  tp?: number;
+  /** Effects */
+  ef?: Array<Record<string, unknown>>;
+  /** Shape layer contents */
+  shapes?: LottieShape[];
+  /** Solid layer color and size */
+  sc?: string;
+  sw?: number;
+  sh?: number;
+  /** Text layer data */
+  t?: Record<string, unknown>;
+  /** Blend mode */
+  bm?: number;
+  [key: string]: unknown;
+}
+
+/**
+ * An asset: either a precomposition (has `layers`) or an image.
+ */
+export interface LottieAsset {
+  id: string;
+  nm?: string;
+  /** Precomp layers */
+  layers?: LottieLayer[];
+  /** Image size */
+  w?: number;
+  h?: number;
+  /** Image directory and file name, or a data URI when embedded */
+  u?: string;
+  p?: string;
+  /** 1 if `p` is an embedded data URI */
+  e?: 0 | 1;
+  [key: string]: unknown;
+}
+
+/**
+ * A marker.
+ */
+export interface LottieMarker {
+  /** Time (frame) */
+  tm: number;
+  /** Comment (name) */
+  cm: string;
+  /** Duration (frames) */
+  dr: number;
+  [key: string]: unknown;
+}
+
+/**
+ * A font declaration.
+ */
+export interface LottieFont {
+  fName: string;
+  fFamily?: string;
+  fStyle?: string;
+  fPath?: string;
+  origin?: number;
+  [key: string]: unknown;
+}
+
+/**
+ * A complete Lottie document.
+ */
+export interface LottieDocument {
+  /** Bodymovin version */
+  v?: string;
+  nm?: string;
+  /** Frame rate */
+  fr: number;
+  /** In and out points (frames) */
+  ip: number;
+  op: number;
+  /** Canvas size */
+  w: number;
+  h: number;
+  ddd?: 0 | 1;
+  assets?: LottieAsset[];
+  layers: LottieLayer[];
+  markers?: LottieMarker[];
+  fonts?: { list?: LottieFont[] };
+  chars?: Array<Record<string, unknown>>;
+  [key: string]: unknown;
+}
@@ -0,0 +1,512 @@
+/**
+ * Validation of Lottie documents against the structure players expect.
+ *
+ * Errors are problems that make players fail or render incorrectly; warnings
+ * are suspicious values that usually still play.
+ */
+
+import { escapePointer, isNumber } from "./document.js";
+import { LAYER_TYPES, MATTE_MODES, SHAPE_TYPES } from "./types.js";
+
+/**
+ * How serious a problem is.
+ */
+export type DiagnosticSeverity = "error" | "warning";
+
+/**
+ * A problem found in a document.
+ */
+export interface Diagnostic {
+  severity: DiagnosticSeverity;
+
+  /** JSON pointer to the offending value ("" for the root) */
+  pointer: string;
+  message: string;
+}
+
+/**
+ * Validation result.
+ */
+export interface ValidationReport {
+  /** True if there are no errors (warnings are allowed) */
+  valid: boolean;
+  errors: number;
+  warnings: number;
+  diagnostics: Diagnostic[];
+}
+
+/**
+ * JSON object as read from the document.
+ */
+type JsonObject = Record<string, unknown>;
+
+/**
+ * Collects diagnostics while walking a document.
+ */
+class Validator {
+  readonly diagnostics: Diagnostic[] = [];
+
+  error(pointer: string, message: string): void {
+    this.diagnostics.push({ severity: "error", pointer, message });
+  }
+
+  warning(pointer: string, message: string): void {
+    this.diagnostics.push({ severity: "warning", pointer, message });
+  }
+}
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Appends a key or index to a JSON pointer.
+ */
+function child(pointer: string, key: string | number): string {
+  return `${pointer}/${escapePointer(key)}`;
+}
+
+/**
+ * Reports a missing or non-numeric required field.
+ */
+function requireNumber(v: Validator, obj: JsonObject, key: string, pointer: string, what: string): boolean {
+  if (obj[key] === undefined) {
+    v.error(child(pointer, key), `${what} is missing "${key}"`);
+    return false;
+  }
+  if (!isNumber(obj[key])) {
+    v.error(child(pointer, key), `${what} "${key}" must be a number`);
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Checks an animatable property: a static value, or a keyframe list with
+ * ascending times, values and easing handles.
+ */
+function validateProperty(v: Validator, prop: JsonObject, pointer: string): void {
+  if (!("k" in prop)) {
+    v.error(pointer, 'Property is missing its value "k"');
+    return;
+  }
+  if (prop.a !== 1) {
+    return;
+  }
+
+  const keyframes = prop.k;
+  if (!Array.isArray(keyframes) || keyframes.length === 0 || !keyframes.every(isObject)) {
+    v.error(child(pointer, "k"), 'Animated property ("a": 1) must have a non-empty keyframe array');
+    return;
+  }
+
+  let previousTime = -Infinity;
+  keyframes.forEach((kf, n) => {
+    const kfPointer = child(child(pointer, "k"), n);
+    const isLast = n === keyframes.length - 1;
+
+    if (!isNumber(kf.t)) {
+      v.error(child(kfPointer, "t"), "Keyframe is missing its time \"t\"");
+    } else {
+      if (kf.t < previousTime) {
+        v.error(child(kfPointer, "t"), `Keyframe time ${kf.t} is before the previous keyframe (${previousTime})`);
+      }
+      previousTime = kf.t;
+    }
+
+    // Legacy exports omit the value of the last keyframe and use the previous `e`
+    const previous = n > 0 ? keyframes[n - 1] : undefined;
+    if (kf.s === undefined && !(isLast && previous?.e !== undefined)) {
+      v.error(child(kfPointer, "s"), "Keyframe is missing its value \"s\"");
+    }
+
+    if (!isLast && kf.h !== 1 && (!isObject(kf.i) || !isObject(kf.o))) {
+      v.error(kfPointer, "Keyframe is missing easing handles \"i\" and \"o\" (required unless it is a hold keyframe or the last one)");
+    }
+  });
+}
+
+/**
+ * Checks every animatable property (objects with an `a` flag) nested in a value.
+ */
+function validateProperties(v: Validator, value: unknown, pointer: string): void {
+  if (Array.isArray(value)) {
+    value.forEach((item, n) => validateProperties(v, item, child(pointer, n)));
+    return;
+  }
+  if (!isObject(value)) {
+    return;
+  }
+  if (value.a === 0 || value.a === 1) {
+    validateProperty(v, value, pointer);
+    return;
+  }
+  for (const [key, item] of Object.entries(value)) {
+    validateProperties(v, item, child(pointer, key));
+  }
+}
+
+/**
+ * Checks shape items, recursing into groups.
+ */
+function validateShapes(v: Validator, shapes: unknown, pointer: string): void {
+  if (!Array.isArray(shapes)) {
+    v.error(pointer, "Shape list must be an array");
+    return;
+  }
+
+  shapes.forEach((shape, n) => {
+    const shapePointer = child(pointer, n);
+    if (!isObject(shape)) {
+      v.error(shapePointer, "Shape item must be an object");
+      return;
+    }
+    if (typeof shape.ty !== "string") {
+      v.error(child(shapePointer, "ty"), "Shape item is missing its type \"ty\"");
+      return;
+    }
+    if (!(shape.ty in SHAPE_TYPES)) {
+      v.warning(child(shapePointer, "ty"), `Unknown shape type "${shape.ty}"; players will skip it`);
+    }
+
+    for (const [key, value] of Object.entries(shape)) {
+      if (key !== "it") validateProperties(v, value, child(shapePointer, key));
+    }
+
+    if (shape.ty === "gr") {
+      validateShapes(v, shape.it, child(shapePointer, "it"));
+    }
+    if (shape.ty === "sh" && !isObject(shape.ks)) {
+      v.error(child(shapePointer, "ks"), "Path shape is missing its path data \"ks\"");
+    }
+    if ((shape.ty === "gf" || shape.ty === "gs") && !(isObject(shape.g) && isNumber(shape.g.p) && isObject(shape.g.k))) {
+      v.error(child(shapePointer, "g"), "Gradient is missing its color stops \"g\" (with \"p\" and \"k\")");
+    }
+  });
+}
+
+/**
+ * Assets by ID, split by kind.
+ */
+interface AssetIndex {
+  /** Position of each precomp in the asset list */
+  precomps: Map<string, number>;
+  images: Set<string>;
+}
+
+/**
+ * Checks the layers of one composition.
+ *
+ * @param pointer - Pointer to the layer array
+ */
+function validateLayers(
+  v: Validator,
+  layers: unknown[],
+  pointer: string,
+  assets: AssetIndex,
+  fonts: Set<string> | null
+): void {
+  const indices = new Map<number, number>();
+  layers.forEach((layer, n) => {
+    if (isObject(layer) && isNumber(layer.ind)) {
+      if (indices.has(layer.ind)) {
+        v.error(child(child(pointer, n), "ind"), `Layer index ${layer.ind} is also used by layer ${indices.get(layer.ind)}`);
+      } else {
+        indices.set(layer.ind, n);
+      }
+    }
+  });
+
+  layers.forEach((layer, n) => {
+    const layerPointer = child(pointer, n);
+    if (!isObject(layer)) {
+      v.error(layerPointer, "Layer must be an object");
+      return;
+    }
+    const name = typeof layer.nm === "string" ? `Layer "${layer.nm}"` : `Layer ${n}`;
+
+    if (!isNumber(layer.ty)) {
+      v.error(child(layerPointer, "ty"), `${name} is missing its type "ty"`);
+      return;
+    }
+    if (!(layer.ty in LAYER_TYPES)) {
+      v.warning(child(layerPointer, "ty"), `${name} has unknown type ${layer.ty}; players will skip it`);
+    }
+
+    const hasRange = [
+      requireNumber(v, layer, "ip", layerPointer, name),
+      requireNumber(v, layer, "op", layerPointer, name),
+    ].every(Boolean);
+    if (hasRange && (layer.op as number) <= (layer.ip as number)) {
+      v.warning(child(layerPointer, "op"), `${name} ends (${layer.op}) before it starts (${layer.ip}), so it is never visible`);
+    }
+    if (layer.st !== undefined && !isNumber(layer.st)) {
+      v.error(child(layerPointer, "st"), `${name} "st" must be a number`);
+    }
+    if (!isObject(layer.ks)) {
+      v.error(child(layerPointer, "ks"), `${name} is missing its transform "ks"`);
+    } else {
+      validateProperties(v, layer.ks, child(layerPointer, "ks"));
+    }
+
+    if (layer.parent !== undefined) {
+      if (!isNumber(layer.parent) || !indices.has(layer.parent)) {
+        v.error(child(layerPointer, "parent"), `${name} has parent ${JSON.stringify(layer.parent)}, but no layer in this composition has that index`);
+      } else if (layer.parent === layer.ind) {
+        v.error(child(layerPointer, "parent"), `${name} is its own parent`);
+      }
+    }
+
+    if (layer.tt !== undefined) {
+      if (!isNumber(layer.tt) || !(layer.tt in MATTE_MODES)) {
+        v.error(child(layerPointer, "tt"), `${name} has unknown track matte mode ${JSON.stringify(layer.tt)}`);
+      } else if (layer.tp === undefined && !(isObject(layers[n - 1]) && (layers[n - 1] as JsonObject).td === 1)) {
+        v.error(child(layerPointer, "tt"), `${name} uses a track matte, but the layer above it is not a matte layer ("td": 1)`);
+      }
+    }
+    if (layer.tp !== undefined && (!isNumber(layer.tp) || !indices.has(layer.tp))) {
+      v.error(child(layerPointer, "tp"), `${name} has matte layer ${JSON.stringify(layer.tp)}, but no layer in this composition has that index`);
+    }
+
+    if (layer.masksProperties !== undefined) {
+      if (!Array.isArray(layer.masksProperties)) {
+        v.error(child(layerPointer, "masksProperties"), `${name} masks must be an array`);
+      } else {
+        layer.masksProperties.forEach((mask, m) => {
+          const maskPointer = child(child(layerPointer, "masksProperties"), m);
+          if (!isObject(mask) || !isObject(mask.pt)) {
+            v.error(maskPointer, "Mask is missing its path \"pt\"");
+          } else {
+            validateProperties(v, mask, maskPointer);
+          }
+        });
+      }
+    }
+    if (layer.tm !== undefined) {
+      validateProperties(v, layer.tm, child(layerPointer, "tm"));
+    }
+
+    switch (layer.ty) {
+      case 0:
+        if (typeof layer.refId !== "string") {
+          v.error(child(layerPointer, "refId"), `${name} is a precomp layer without "refId"`);
+        } else if (!assets.precomps.has(layer.refId)) {
+          v.error(child(layerPointer, "refId"), assets.images.has(layer.refId)
+            ? `${name} is a precomp layer but "${layer.refId}" is an image asset`
+            : `${name} references missing precomp asset "${layer.refId}"`);
+        }
+        if (!isNumber(layer.w) || !isNumber(layer.h)) {
+          v.warning(layerPointer, `${name} is a precomp layer without "w" and "h"; some players will not draw it`);
+        }
+        break;
+      case 1:
+        if (typeof layer.sc !== "string") v.error(child(layerPointer, "sc"), `${name} is a solid layer without color "sc"`);
+        if (!isNumber(layer.sw) || !isNumber(layer.sh)) v.error(layerPointer, `${name} is a solid layer without size "sw" and "sh"`);
+        break;
+      case 2:
+        if (typeof layer.refId !== "string") {
+          v.error(child(layerPointer, "refId"), `${name} is an image layer without "refId"`);
+        } else if (!assets.images.has(layer.refId)) {
+          v.error(child(layerPointer, "refId"), `${name} references missing image asset "${layer.refId}"`);
+        }
+        break;
+      case 4:
+        validateShapes(v, layer.shapes, child(layerPointer, "shapes"));
+        break;
+      case 5: {
+        const data = isObject(layer.t) ? layer.t : undefined;
+        if (!data || !isObject(data.d) || !Array.isArray(data.d.k)) {
+          v.error(child(layerPointer, "t"), `${name} is a text layer without text data "t.d.k"`);
+          break;
+        }
+        data.d.k.forEach((kf, k) => {
+          const style = isObject(kf) && isObject(kf.s) ? kf.s : undefined;
+          const stylePointer = child(child(child(child(child(layerPointer, "t"), "d"), "k"), k), "s");
+          if (!style || typeof style.t !== "string") {
+            v.error(stylePointer, `${name} text keyframe is missing its text "t"`);
+          } else if (fonts !== null && typeof style.f === "string" && !fonts.has(style.f)) {
+            v.error(child(stylePointer, "f"), `${name} uses font "${style.f}", which is not in the font list`);
+          }
+        });
+        if (fonts === null) {
+          v.warning(child(layerPointer, "t"), `${name} is a text layer, but the document has no font list ("fonts")`);
+        }
+        break;
+      }
+    }
+  });
+
+  // Parent chains must end
+  layers.forEach((layer, n) => {
+    if (!isObject(layer) || !isNumber(layer.parent) || layer.parent === layer.ind) return;
+    const seen = new Set<number>([n]);
+    let current: JsonObject | undefined = layer;
+    while (current && isNumber(current.parent)) {
+      const next = indices.get(current.parent);
+      if (next === undefined) return;
+      if (seen.has(next)) {
+        if (next === n) v.error(child(child(pointer, n), "parent"), "Parenting cycle: the layer is its own ancestor");
+        return;
+      }
+      seen.add(next);
+      current = isObject(layers[next]) ? (layers[next] as JsonObject) : undefined;
+    }
+  });
+}
+
+/**
+ * Checks an image asset and warns about images that are not embedded.
+ */
+function validateImage(v: Validator, asset: JsonObject, pointer: string): void {
+  const label = `Image asset "${asset.id}"`;
+  if (typeof asset.p !== "string" || asset.p === "") {
+    v.error(child(pointer, "p"), `${label} has no file name or data "p"`);
+    return;
+  }
+  if (asset.e === 1 || asset.p.startsWith("data:")) {
+    if (!/^data:[\w/+.-]+;base64,[A-Za-z0-9+/=\s]+$/.test(asset.p)) {
+      v.error(child(pointer, "p"), `${label} is marked as embedded but "p" is not a base64 data URI`);
+    }
+  } else {
+    v.warning(child(pointer, "p"), `${label} refers to the external file "${String(asset.u ?? "")}${asset.p}", which must be shipped alongside the JSON`);
+  }
+  if (!isNumber(asset.w) || !isNumber(asset.h)) {
+    v.warning(pointer, `${label} has no size "w" and "h"`);
+  }
+}
+
+/**
+ * Reports precomps that (directly or indirectly) contain themselves.
+ */
+function findPrecompCycles(v: Validator, assets: unknown[]): void {
+  const refs = new Map<string, { target: string; pointer: string }[]>();
+  assets.forEach((asset, n) => {
+    if (!isObject(asset) || typeof asset.id !== "string" || !Array.isArray(asset.layers)) return;
+    const list: { target: string; pointer: string }[] = [];
+    asset.layers.forEach((layer, k) => {
+      if (isObject(layer) && layer.ty === 0 && typeof layer.refId === "string") {
+        list.push({ target: layer.refId, pointer: `/assets/${n}/layers/${k}/refId` });
+      }
+    });
+    refs.set(asset.id, list);
+  });
+
+  const state = new Map<string, "visiting" | "done">();
+  const visit = (id: string) => {
+    state.set(id, "visiting");
+    for (const { target, pointer } of refs.get(id) ?? []) {
+      if (state.get(target) === "visiting") {
+        v.error(pointer, `Precomp "${id}" contains "${target}", which contains it again (a cycle players cannot render)`);
+      } else if (!state.has(target) && refs.has(target)) {
+        visit(target);
+      }
+    }
+    state.set(id, "done");
+  };
+  for (const id of refs.keys()) {
+    if (!state.has(id)) visit(id);
+  }
+}
+
+/**
+ * Validates a parsed JSON value as a Lottie document.
+ */
+export function validateLottie(value: unknown): ValidationReport {
+  const v = new Validator();
+
+  if (!isObject(value)) {
+    v.error("", "Lottie document must be a JSON object");
+    return report(v);
+  }
+
+  if (typeof value.v !== "string") {
+    v.warning("/v", 'Missing format version "v"; some players use it to pick parsing rules');
+  }
+  for (const key of ["fr", "ip", "op", "w", "h"]) {
+    requireNumber(v, value, key, "", "Document");
+  }
+  if (isNumber(value.fr) && value.fr <= 0) v.error("/fr", "Frame rate must be positive");
+  if (isNumber(value.w) && value.w <= 0) v.error("/w", "Width must be positive");
+  if (isNumber(value.h) && value.h <= 0) v.error("/h", "Height must be positive");
+  if (isNumber(value.ip) && isNumber(value.op) && value.op <= value.ip) {
+    v.error("/op", `Out point (${value.op}) must be after the in point (${value.ip})`);
+  }
+
+  let fonts: Set<string> | null = null;
+  if (value.fonts !== undefined) {
+    const list = isObject(value.fonts) ? value.fonts.list : undefined;
+    if (!Array.isArray(list)) {
+      v.error("/fonts/list", 'Font list "fonts.list" must be an array');
+    } else {
+      fonts = new Set(list.filter(isObject).map((font) => String(font.fName)));
+    }
+  }
+
+  const assets: AssetIndex = { precomps: new Map(), images: new Set() };
+  const assetList = value.assets === undefined ? [] : value.assets;
+  if (!Array.isArray(assetList)) {
+    v.error("/assets", '"assets" must be an array');
+  } else {
+    assetList.forEach((asset, n) => {
+      const pointer = `/assets/${n}`;
+      if (!isObject(asset) || typeof asset.id !== "string") {
+        v.error(pointer, 'Asset must be an object with a string "id"');
+        return;
+      }
+      if (assets.precomps.has(asset.id) || assets.images.has(asset.id)) {
+        v.error(child(pointer, "id"), `Asset ID "${asset.id}" is used more than once`);
+        return;
+      }
+      if (asset.layers !== undefined) {
+        if (!Array.isArray(asset.layers)) {
+          v.error(child(pointer, "layers"), `Precomp "${asset.id}" layers must be an array`);
+          return;
+        }
+        assets.precomps.set(asset.id, n);
+      } else {
+        assets.images.add(asset.id);
+        validateImage(v, asset, pointer);
+      }
+    });
+
+    for (const n of assets.precomps.values()) {
+      validateLayers(v, (assetList[n] as JsonObject).layers as unknown[], `/assets/${n}/layers`, assets, fonts);
+    }
+    findPrecompCycles(v, assetList);
+  }
+
+  if (!Array.isArray(value.layers)) {
+    v.error("/layers", 'Missing "layers" array');
+  } else {
+    if (value.layers.length === 0) {
+      v.warning("/layers", "The animation has no layers");
+    }
+    validateLayers(v, value.layers, "/layers", assets, fonts);
+  }
+
+  if (value.markers !== undefined) {
+    if (!Array.isArray(value.markers)) {
+      v.error("/markers", '"markers" must be an array');
+    } else {
+      value.markers.forEach((marker, n) => {
+        const pointer = `/markers/${n}`;
+        if (!isObject(marker) || !isNumber(marker.tm)) {
+          v.error(pointer, 'Marker is missing its time "tm"');
+        } else if (typeof marker.cm !== "string") {
+          v.warning(child(pointer, "cm"), 'Marker has no name "cm", so it cannot be played by name');
+        }
+      });
+    }
+  }
+
+  return report(v);
+}
+
+/**
+ * Summarizes collected diagnostics, errors first.
+ */
+function report(v: Validator): ValidationReport {
+  const diagnostics = [...v.diagnostics].sort((a, b) => (a.severity === b.severity ? 0 : a.severity === "error" ? -1 : 1));
+  const errors = diagnostics.filter((d) => d.severity === "error").length;
+  return { valid: errors === 0, errors, warnings: diagnostics.length - errors, diagnostics };
+}
@@ -0,0 +1,216 @@
+/**
+ * Minimal ZIP archive reader and writer (stored and deflated entries).
+ *
+ * Enough for dotLottie files; ZIP64, encryption and multi-disk archives are
+ * not supported.
+ */
+
+import { deflateRawSync, inflateRawSync } from "zlib";
+import { LottieFormatError } from "./errors.js";
+
+/**
+ * A file inside an archive.
+ */
+export interface ZipEntry {
+  /** Path inside the archive, using "/" separators */
+  name: string;
+  data: Uint8Array;
+}
+
+const LOCAL_HEADER = 0x04034b50;
+const CENTRAL_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+const FLAG_UTF8 = 0x0800;
+
+/**
+ * Largest total uncompressed size accepted when reading (guards against ZIP bombs).
+ */
+export const MAX_UNZIPPED_BYTES = 200 * 1024 * 1024; // 200MB
+
+let crcTable: Uint32Array | null = null;
+
+/**
+ * Computes the CRC-32 of a buffer.
+ */
+export function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Whether the bytes start with a ZIP local file header.
+ */
+export function isZip(data: Uint8Array): boolean {
+  return data.length >= 4 && data[0] === 0x50 && data[1] === 0x4b && data[2] === 0x03 && data[3] === 0x04;
+}
+
+/**
+ * Reads all file entries of an archive (directories are skipped).
+ *
+ * @throws LottieFormatError if the archive is malformed or unsupported
+ */
+export function readZip(data: Uint8Array): ZipEntry[] {
+  const buffer = Buffer.from(data.buffer, data.byteOffset, data.byteLength);
+
+  // The end of central directory record is at most 22 + 65535 (comment) bytes from the end
+  let eocd = -1;
+  for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 22 - 0xffff); i--) {
+    if (buffer.readUInt32LE(i) === END_OF_CENTRAL_DIRECTORY) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) {
+    throw new LottieFormatError("Not a ZIP archive (end of central directory not found)");
+  }
+
+  const count = buffer.readUInt16LE(eocd + 10);
+  let offset = buffer.readUInt32LE(eocd + 16);
+  if (offset === 0xffffffff || count === 0xffff) {
+    throw new LottieFormatError("ZIP64 archives are not supported");
+  }
+
+  const entries: ZipEntry[] = [];
+  let totalSize = 0;
+  for (let i = 0; i < count; i++) {
+    if (offset + 46 > buffer.length || buffer.readUInt32LE(offset) !== CENTRAL_HEADER) {
+      throw new LottieFormatError("Corrupt ZIP central directory");
+    }
+    const flags = buffer.readUInt16LE(offset + 8);
+    const method = buffer.readUInt16LE(offset + 10);
+    const crc = buffer.readUInt32LE(offset + 16);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const size = buffer.readUInt32LE(offset + 24);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localOffset = buffer.readUInt32LE(offset + 42);
+    const name = buffer.toString(flags & FLAG_UTF8 ? "utf-8" : "latin1", offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith("/")) {
+      continue;
+    }
+    if (flags & 0x1) {
+      throw new LottieFormatError(`Encrypted ZIP entries are not supported (${name})`);
+    }
+
+    totalSize += size;
+    if (totalSize > MAX_UNZIPPED_BYTES) {
+      throw new LottieFormatError(`Archive expands to more than ${MAX_UNZIPPED_BYTES / 1024 / 1024}MB`);
+    }
+
+    if (localOffset + 30 > buffer.length || buffer.readUInt32LE(localOffset) !== LOCAL_HEADER) {
+      throw new LottieFormatError(`Corrupt ZIP local header for ${name}`);
+    }
+    const dataStart = localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+    const compressed = buffer.subarray(dataStart, dataStart + compressedSize);
+
+    let content: Uint8Array;
+    if (method === METHOD_STORED) {
+      content = new Uint8Array(compressed);
+    } else if (method === METHOD_DEFLATE) {
+      try {
+        content = new Uint8Array(inflateRawSync(compressed, { maxOutputLength: Math.max(size, 1) }));
+      } catch (error) {
+        throw new LottieFormatError(`Cannot decompress ${name}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    } else {
+      throw new LottieFormatError(`Unsupported ZIP compression method ${method} (${name})`);
+    }
+
+    if (content.length !== size || crc32(content) !== crc) {
+      throw new LottieFormatError(`Checksum mismatch for ${name}`);
+    }
+    entries.push({ name, data: content });
+  }
+
+  return entries;
+}
+
+/**
+ * Converts a date to MS-DOS time and date fields.
+ */
+function dosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.max(1980, date.getFullYear());
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+/**
+ * Builds an archive. Entries are deflated unless that would not make them smaller.
+ */
+export function writeZip(entries: ZipEntry[], modified: Date = new Date()): Uint8Array {
+  const { time, date } = dosDateTime(modified);
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, "utf-8");
+    const deflated = deflateRawSync(entry.data);
+    const stored = deflated.length >= entry.data.length;
+    const body = stored ? Buffer.from(entry.data) : deflated;
+    const crc = crc32(entry.data);
+    const method = stored ? METHOD_STORED : METHOD_DEFLATE;
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(LOCAL_HEADER, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(FLAG_UTF8, 6);
+    local.writeUInt16LE(method, 8);
+    local.writeUInt16LE(time, 10);
+    local.writeUInt16LE(date, 12);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(body.length, 18);
+    local.writeUInt32LE(entry.data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    local.writeUInt16LE(0, 28);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(CENTRAL_HEADER, 0);
+    central.writeUInt16LE(20, 4);
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(FLAG_UTF8, 8);
+    central.writeUInt16LE(method, 10);
+    central.writeUInt16LE(time, 12);
+    central.writeUInt16LE(date, 14);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(body.length, 20);
+    central.writeUInt32LE(entry.data.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+
+    localParts.push(local, name, body);
+    centralParts.push(central, name);
+    offset += local.length + name.length + body.length;
+  }
+
+  const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(centralSize, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return new Uint8Array(Buffer.concat([...localParts, ...centralParts, end]));
+}
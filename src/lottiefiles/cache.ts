@@ -0,0 +1,234 @@
+/**
+ * ResponseCache - LRU cache with TTL for LottieFiles API responses.
+ *
+ * Features:
+ * - Keyed on GraphQL query + variables
+ * - In-memory LRU eviction once maxEntries is exceeded
+ * - Optional on-disk persistence (~/.mcp/lottie-cache.json by default)
+ * - Async write queue and fail-silent disk errors, like the metrics collector
+ */
+
+import { createHash } from "crypto";
+import { homedir } from "os";
+import { join, dirname } from "path";
+import { mkdir, readFile, writeFile, rm } from "fs/promises";
+import { createLogger } from "../utils/logger.js";
+
+const log = createLogger("lottiefiles-cache");
+
+/**
+ * Default on-disk cache path, next to the global styles config.
+ */
+export const DEFAULT_CACHE_FILE_PATH = join(homedir(), ".mcp", "lottie-cache.json");
+
+/**
+ * Options for constructing a ResponseCache.
+ */
+export interface ResponseCacheOptions {
+  /** Time-to-live for each entry in milliseconds (0 disables caching) */
+  ttlMs: number;
+
+  /** Maximum number of entries kept in memory */
+  maxEntries: number;
+
+  /** Path of the on-disk store, or null to keep the cache in memory only */
+  filePath?: string | null;
+}
+
+/**
+ * A single cached response.
+ */
+interface CacheEntry {
+  /** Epoch milliseconds after which the entry is stale */
+  expiresAt: number;
+
+  /** Cached GraphQL data */
+  data: unknown;
+}
+
+/**
+ * On-disk cache file structure.
+ */
+interface CacheFile {
+  version: 1;
+  entries: Record<string, CacheEntry>;
+}
+
+export class ResponseCache {
+  private entries = new Map<string, CacheEntry>();
+  private ttlMs: number;
+  private maxEntries: number;
+  private filePath: string | null;
+  private loadPromise: Promise<void> | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(options: ResponseCacheOptions) {
+    this.ttlMs = options.ttlMs;
+    this.maxEntries = options.maxEntries;
+    this.filePath = options.filePath ?? null;
+  }
+
+  /**
+   * Builds a cache key from a GraphQL query and its variables.
+   */
+  static key(query: string, variables: Record<string, unknown>): string {
+    return createHash("sha256")
+      .update(JSON.stringify({ query, variables }))
+      .digest("hex");
+  }
+
+  /**
+   * Whether the cache stores anything at all.
+   */
+  get enabled(): boolean {
+    return this.ttlMs > 0 && this.maxEntries > 0;
+  }
+
+  /**
+   * Number of entries currently held in memory (including stale ones).
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Returns the cached data for a key, or undefined on a miss or stale entry.
+   * A hit marks the entry as most recently used.
+   */
+  async get<T>(key: string): Promise<T | undefined> {
+    if (!this.enabled) {
+      return undefined;
+    }
+    await this.ensureLoaded();
+
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+
+    // Re-insert to move the entry to the most recently used position
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.data as T;
+  }
+
+  /**
+   * Stores data under a key, evicting the least recently used entries if needed.
+   */
+  async set(key: string, data: unknown): Promise<void> {
+    if (!this.enabled) {
+      return;
+    }
+    await this.ensureLoaded();
+
+    this.entries.delete(key);
+    this.entries.set(key, { expiresAt: Date.now() + this.ttlMs, data });
+    this.evict();
+    this.schedulePersist();
+  }
+
+  /**
+   * Removes all entries from memory and disk.
+   *
+   * @returns The number of entries that were removed
+   */
+  async clear(): Promise<number> {
+    await this.ensureLoaded();
+    const removed = this.entries.size;
+    this.entries.clear();
+
+    if (this.filePath) {
+      const filePath = this.filePath;
+      this.writeQueue = this.writeQueue
+        .then(() => rm(filePath, { force: true }))
+        .catch((error) => {
+          log.error("Failed to delete cache file", { filePath, error: String(error) });
+        });
+      await this.writeQueue;
+    }
+
+    log.info("Cache cleared", { removed });
+    return removed;
+  }
+
+  /**
+   * Waits for pending disk writes to finish.
+   */
+  async flush(): Promise<void> {
+    await this.writeQueue;
+  }
+
+  /**
+   * Loads persisted entries from disk once, dropping any that have expired.
+   */
+  private ensureLoaded(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = this.loadFromDisk();
+    }
+    return this.loadPromise;
+  }
+
+  private async loadFromDisk(): Promise<void> {
+    if (!this.filePath) {
+      return;
+    }
+
+    try {
+      const content = await readFile(this.filePath, "utf-8");
+      const parsed = JSON.parse(content) as CacheFile;
+      if (parsed.version !== 1 || typeof parsed.entries !== "object" || parsed.entries === null) {
+        log.warn("Cache file has unexpected format, ignoring", { filePath: this.filePath });
+        return;
+      }
+
+      const now = Date.now();
+      for (const [key, entry] of Object.entries(parsed.entries)) {
+        if (entry && typeof entry.expiresAt === "number" && entry.expiresAt > now) {
+          this.entries.set(key, entry);
+        }
+      }
+      this.evict();
+      log.debug("Cache loaded from disk", { entries: this.entries.size });
+    } catch {
+      // File doesn't exist yet or is unreadable - start empty
+    }
+  }
+
+  /**
+   * Drops least recently used entries beyond maxEntries.
+   */
+  private evict(): void {
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) {
+        break;
+      }
+      this.entries.delete(oldest);
+    }
+  }
+
+  /**
+   * Queues an async write of the current entries (non-blocking).
+   */
+  private schedulePersist(): void {
+    if (!this.filePath) {
+      return;
+    }
+    const filePath = this.filePath;
+
+    this.writeQueue = this.writeQueue
+      .then(async () => {
+        const file: CacheFile = { version: 1, entries: Object.fromEntries(this.entries) };
+        await mkdir(dirname(filePath), { recursive: true });
+        await writeFile(filePath, JSON.stringify(file), "utf-8");
+      })
+      .catch((error) => {
+        log.error("Failed to persist cache", { filePath, error: String(error) });
+      });
+  }
+}
@@ -0,0 +1,487 @@
+/**
+ * LottieFilesClient - Typed client for the LottieFiles GraphQL API.
+ *
+ * Features:
+ * - One normalized LottieAnimation type for every query
+ * - Consistent error classes for HTTP, GraphQL and network failures
+ * - Injectable fetch implementation for testing
+ * - Optional response cache keyed on query + variables
+ * - Retries with exponential backoff and jitter, honoring Retry-After
+ * - Per-client concurrency limit and per-request timeouts
+ */
+
+import { createLogger } from "../utils/logger.js";
+import { getCacheConfig, getRequestConfig } from "../config.js";
+import { DEFAULT_CACHE_FILE_PATH, ResponseCache } from "./cache.js";
+import { ConcurrencyLimiter } from "./limiter.js";
+import { parseAnimationRef } from "./ref.js";
+import {
+  LottieFilesError,
+  LottieFilesGraphQLError,
+  LottieFilesHttpError,
+  LottieFilesNetworkError,
+  LottieFilesTimeoutError,
+} from "./errors.js";
+import { ANIMATION_BY_ID_QUERY, FEATURED_QUERY, SEARCH_QUERY } from "./queries.js";
+import {
+  AnimationLookup,
+  AnimationPage,
+  GraphQLResponse,
+  LottieAnimation,
+  PageParams,
+  QueryResult,
+} from "./types.js";
+
+const log = createLogger("lottiefiles");
+
+/**
+ * LottieFiles GraphQL API endpoint (public, no auth required)
+ */
+export const LOTTIEFILES_API = "https://graphql.lottiefiles.com/2022-08";
+
+/**
+ * User agent sent with every request
+ */
+const USER_AGENT = "LottieAnimationSearch-MCP/1.0";
+
+/**
+ * HTTP statuses worth retrying (rate limiting and transient server errors)
+ */
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+
+/**
+ * Fetch function signature accepted by the client.
+ */
+export type FetchFn = (input: string, init?: RequestInit) => Promise<Response>;
+
+/**
+ * Options for constructing a LottieFilesClient.
+ */
+export interface LottieFilesClientOptions {
+  /** GraphQL endpoint (defaults to LOTTIEFILES_API) */
+  endpoint?: string;
+
+  /** Fetch implementation (defaults to global fetch) */
+  fetch?: FetchFn;
+
+  /** Response cache (defaults to no caching) */
+  cache?: ResponseCache | null;
+
+  /** Timeout for a single request attempt in milliseconds (0 disables it, default: 15000) */
+  timeoutMs?: number;
+
+  /** Retries after a 429, 5xx, network error or timeout (default: 3) */
+  maxRetries?: number;
+
+  /** Base delay for exponential backoff in milliseconds (default: 300) */
+  retryBaseDelayMs?: number;
+
+  /** Upper bound for a single backoff delay, including Retry-After (default: 10000) */
+  retryMaxDelayMs?: number;
+
+  /** Maximum number of requests in flight at once (default: 4) */
+  maxConcurrent?: number;
+}
+
+/**
+ * Raw connection shape shared by the search and featured queries.
+ */
+interface AnimationConnection {
+  totalCount: number;
+  pageInfo?: { hasNextPage: boolean; endCursor: string | null } | null;
+  edges: Array<{ cursor: string; node: LottieAnimation }>;
+}
+
+/**
+ * Parses a Retry-After header (delay in seconds or an HTTP date) into milliseconds.
+ */
+export function parseRetryAfter(value: string | null, now: number = Date.now()): number | null {
+  if (!value) {
+    return null;
+  }
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - now);
+  }
+
+  return null;
+}
+
+/**
+ * Whether a failed request should be retried.
+ */
+function isRetryable(error: unknown): boolean {
+  if (error instanceof LottieFilesHttpError) {
+    return RETRYABLE_STATUSES.has(error.status);
+  }
+  // Network failures and timeouts are transient; bad JSON bodies are not
+  return error instanceof LottieFilesNetworkError && !(error.cause instanceof SyntaxError);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Converts a raw API node into the normalized animation type.
+ * The API returns numeric IDs and may omit counters, so coerce them here.
+ */
+function normalizeAnimation(node: LottieAnimation): LottieAnimation {
+  return {
+    id: String(node.id),
+    slug: node.slug ?? "",
+    name: node.name ?? "",
+    description: node.description ?? null,
+    likesCount: node.likesCount ?? 0,
+    downloads: node.downloads ?? 0,
+    gifUrl: node.gifUrl ?? null,
+    lottieUrl: node.lottieUrl ?? null,
+    jsonUrl: node.jsonUrl ?? null,
+    createdAt: node.createdAt ?? "",
+    createdBy: node.createdBy
+      ? { username: node.createdBy.username, avatarUrl: node.createdBy.avatarUrl ?? null }
+      : null,
+  };
+}
+
+/**
+ * Converts a raw connection into an AnimationPage.
+ * Falls back to the last edge cursor when the API omits pageInfo.
+ */
+function toPage(connection: AnimationConnection, first: number, cached: boolean): AnimationPage {
+  const lastCursor = connection.edges[connection.edges.length - 1]?.cursor ?? null;
+  const hasNextPage = connection.pageInfo
+    ? connection.pageInfo.hasNextPage
+    : connection.edges.length >= first;
+
+  return {
+    totalCount: connection.totalCount,
+    animations: connection.edges.map((edge) => normalizeAnimation(edge.node)),
+    cursors: connection.edges.map((edge) => edge.cursor),
+    nextCursor: hasNextPage ? connection.pageInfo?.endCursor ?? lastCursor : null,
+    hasNextPage,
+    cached,
+  };
+}
+
+export class LottieFilesClient {
+  private endpoint: string;
+  private fetchFn: FetchFn;
+  private cache: ResponseCache | null;
+  private timeoutMs: number;
+  private maxRetries: number;
+  private retryBaseDelayMs: number;
+  private retryMaxDelayMs: number;
+  private limiter: ConcurrencyLimiter;
+
+  constructor(options: LottieFilesClientOptions = {}) {
+    this.endpoint = options.endpoint ?? LOTTIEFILES_API;
+    // Resolve global fetch lazily so tests can stub it after construction
+    this.fetchFn = options.fetch ?? ((input, init) => fetch(input, init));
+    this.cache = options.cache ?? null;
+    this.timeoutMs = options.timeoutMs ?? 15000;
+    this.maxRetries = Math.max(0, options.maxRetries ?? 3);
+    this.retryBaseDelayMs = options.retryBaseDelayMs ?? 300;
+    this.retryMaxDelayMs = options.retryMaxDelayMs ?? 10000;
+    this.limiter = new ConcurrencyLimiter(options.maxConcurrent ?? 4);
+  }
+
+  /**
+   * Executes a GraphQL query, serving it from the response cache when possible.
+   * Only successful responses are cached.
+   */
+  async request<T>(query: string, variables: Record<string, unknown>): Promise<QueryResult<T>> {
+    const key = this.cache ? ResponseCache.key(query, variables) : null;
+
+    if (this.cache && key) {
+      const hit = await this.cache.get<T>(key);
+      if (hit !== undefined) {
+        log.debug("Cache hit", { variables });
+        return { data: hit, cached: true };
+      }
+    }
+
+    const data = await this.execute<T>(query, variables);
+
+    if (this.cache && key) {
+      await this.cache.set(key, data);
+    }
+
+    return { data, cached: false };
+  }
+
+  /**
+   * Removes all cached responses.
+   *
+   * @returns The number of entries that were removed (0 if caching is off)
+   */
+  async clearCache(): Promise<number> {
+    return this.cache ? this.cache.clear() : 0;
+  }
+
+  /**
+   * Sends a GraphQL query to the API, retrying transient failures.
+   *
+   * Each attempt holds a concurrency slot only while it is in flight, so
+   * requests waiting out a backoff don't block other callers.
+   */
+  private async execute<T>(query: string, variables: Record<string, unknown>): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.limiter.run(() => this.attempt<T>(query, variables));
+      } catch (error) {
+        if (attempt >= this.maxRetries || !isRetryable(error)) {
+          throw error;
+        }
+
+        const delay = this.getRetryDelay(attempt, error);
+        if (delay === null) {
+          throw error;
+        }
+
+        log.warn("Retrying request", {
+          attempt: attempt + 1,
+          maxRetries: this.maxRetries,
+          delayMs: delay,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        await sleep(delay);
+      }
+    }
+  }
+
+  /**
+   * Computes the delay before the next retry.
+   * Uses Retry-After when the server sent one, otherwise exponential backoff
+   * with jitter. Returns null when Retry-After asks for a longer wait than
+   * retryMaxDelayMs, since retrying earlier would only be rejected again.
+   */
+  private getRetryDelay(attempt: number, error: unknown): number | null {
+    if (error instanceof LottieFilesHttpError && error.retryAfterMs !== null) {
+      return error.retryAfterMs <= this.retryMaxDelayMs ? error.retryAfterMs : null;
+    }
+
+    const exponential = Math.min(this.retryMaxDelayMs, this.retryBaseDelayMs * 2 ** attempt);
+    // Equal jitter: half fixed, half random, so parallel callers spread out
+    return Math.round(exponential / 2 + Math.random() * (exponential / 2));
+  }
+
+  /**
+   * Sends a single GraphQL request and returns its data.
+   *
+   * @throws LottieFilesTimeoutError if the request exceeds timeoutMs
+   * @throws LottieFilesNetworkError if the request fails or the body is unreadable
+   * @throws LottieFilesHttpError if the API responds with a non-2xx status
+   * @throws LottieFilesGraphQLError if the response contains GraphQL errors
+   */
+  private async attempt<T>(query: string, variables: Record<string, unknown>): Promise<T> {
+    const controller = new AbortController();
+    const timer = this.timeoutMs > 0
+      ? setTimeout(() => controller.abort(), this.timeoutMs)
+      : null;
+
+    let result: GraphQLResponse<T>;
+    try {
+      let response: Response;
+      try {
+        response = await this.fetchFn(this.endpoint, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            "User-Agent": USER_AGENT,
+          },
+          body: JSON.stringify({ query, variables }),
+          signal: controller.signal,
+        });
+      } catch (error) {
+        throw this.toNetworkError(error, controller.signal);
+      }
+
+      if (!response.ok) {
+        log.error("API request failed", { status: response.status });
+        throw new LottieFilesHttpError(
+          response.status,
+          parseRetryAfter(response.headers.get("retry-after"))
+        );
+      }
+
+      try {
+        result = (await response.json()) as GraphQLResponse<T>;
+      } catch (error) {
+        if (controller.signal.aborted) {
+          throw this.toNetworkError(error, controller.signal);
+        }
+        log.error("Invalid API response", { error });
+        throw new LottieFilesNetworkError("Invalid JSON in API response", error);
+      }
+    } finally {
+      if (timer) {
+        clearTimeout(timer);
+      }
+    }
+
+    if (result.errors && result.errors.length > 0) {
+      log.error("GraphQL errors", { errors: result.errors });
+      throw new LottieFilesGraphQLError(result.errors.map((e) => e.message));
+    }
+
+    if (!result.data) {
+      throw new LottieFilesGraphQLError([]);
+    }
+
+    return result.data;
+  }
+
+  /**
+   * Wraps a fetch failure, distinguishing our own timeout aborts.
+   */
+  private toNetworkError(error: unknown, signal: AbortSignal): LottieFilesNetworkError {
+    if (signal.aborted) {
+      log.error("Request timed out", { timeoutMs: this.timeoutMs });
+      return new LottieFilesTimeoutError(this.timeoutMs);
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    log.error("Request failed", { error: message });
+    return new LottieFilesNetworkError(message, error);
+  }
+
+  /**
+   * Searches public animations by keyword.
+   */
+  async search(params: PageParams & { query: string }): Promise<AnimationPage> {
+    const { data, cached } = await this.request<{ searchPublicAnimations: AnimationConnection }>(
+      SEARCH_QUERY,
+      { query: params.query, limit: params.first, after: params.after ?? null }
+    );
+    return toPage(data.searchPublicAnimations, params.first, cached);
+  }
+
+  /**
+   * Lists featured (popular) public animations.
+   */
+  async featured(params: PageParams): Promise<AnimationPage> {
+    const { data, cached } = await this.request<{ featuredPublicAnimations: AnimationConnection }>(
+      FEATURED_QUERY,
+      { limit: params.first, after: params.after ?? null }
+    );
+    return toPage(data.featuredPublicAnimations, params.first, cached);
+  }
+
+  /**
+   * Looks up a single animation by numeric ID.
+   *
+   * Uses the API's single-animation query. If that query is rejected or finds
+   * nothing, falls back to searching with the ID as text and picking the exact
+   * match, returning the first hit as a suggestion otherwise.
+   */
+  async getById(id: string): Promise<AnimationLookup> {
+    if (/^\d+$/.test(id)) {
+      try {
+        const { data, cached } = await this.request<{ publicAnimation: LottieAnimation | null }>(
+          ANIMATION_BY_ID_QUERY,
+          { id: Number(id) }
+        );
+        if (data.publicAnimation) {
+          return {
+            animation: normalizeAnimation(data.publicAnimation),
+            suggestion: null,
+            cached,
+            source: "lookup",
+          };
+        }
+      } catch (error) {
+        // Schema mismatches surface as GraphQL errors; anything else is a real failure
+        if (!(error instanceof LottieFilesGraphQLError)) {
+          throw error;
+        }
+        log.warn("Lookup by ID failed, falling back to search", { id, error: error.message });
+      }
+    }
+
+    return this.searchForMatch(id, (a) => a.id === id);
+  }
+
+  /**
+   * Looks up a single animation by slug.
+   *
+   * The public API has no lookup by slug, so this searches using the slug's
+   * words and picks the animation whose slug matches exactly.
+   */
+  async getBySlug(slug: string): Promise<AnimationLookup> {
+    const normalized = slug.toLowerCase();
+    return this.searchForMatch(slug.replace(/[-_]+/g, " "), (a) => a.slug.toLowerCase() === normalized);
+  }
+
+  /**
+   * Looks up a single animation by ID, slug or lottiefiles.com URL.
+   *
+   * @throws LottieFilesError if the input is not a valid animation reference
+   */
+  async lookup(input: string): Promise<AnimationLookup> {
+    const ref = parseAnimationRef(input);
+    if (!ref) {
+      throw new LottieFilesError(`"${input}" is not an animation ID, slug or lottiefiles.com URL`);
+    }
+    return ref.kind === "id" ? this.getById(ref.id) : this.getBySlug(ref.slug);
+  }
+
+  /**
+   * Searches for text and returns the first animation matching a predicate,
+   * or the first search hit as a suggestion.
+   */
+  private async searchForMatch(
+    query: string,
+    matches: (animation: LottieAnimation) => boolean
+  ): Promise<AnimationLookup> {
+    const page = await this.search({ query, first: 10 });
+    const animation = page.animations.find(matches) ?? null;
+
+    return {
+      animation,
+      suggestion: animation ? null : page.animations[0] ?? null,
+      cached: page.cached,
+      source: "search",
+    };
+  }
+}
+
+/**
+ * Shared client instance used by all tools.
+ */
+let sharedClient: LottieFilesClient | null = null;
+
+/**
+ * Gets the shared LottieFiles client, creating it on first use.
+ * The shared client uses the cache and request settings from config.
+ */
+export function getLottieFilesClient(): LottieFilesClient {
+  if (!sharedClient) {
+    const cacheConfig = getCacheConfig();
+    const requestConfig = getRequestConfig();
+    sharedClient = new LottieFilesClient({
+      cache: new ResponseCache({
+        ttlMs: cacheConfig.ttlSeconds * 1000,
+        maxEntries: cacheConfig.maxEntries,
+        filePath: cacheConfig.persist ? DEFAULT_CACHE_FILE_PATH : null,
+      }),
+      timeoutMs: requestConfig.timeoutMs,
+      maxRetries: requestConfig.maxRetries,
+      maxConcurrent: requestConfig.maxConcurrent,
+    });
+  }
+  return sharedClient;
+}
+
+/**
+ * Replaces the shared LottieFiles client (e.g. with one using a stubbed fetch).
+ * Pass null to reset to a default client on next use.
+ */
+export function setLottieFilesClient(client: LottieFilesClient | null): void {
+  sharedClient = client;
+}
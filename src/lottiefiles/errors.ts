@@ -0,0 +1,63 @@
+/**
+ * Error classes for LottieFiles API failures.
+ *
+ * All errors extend LottieFilesError so callers can catch them as a group,
+ * while still being able to distinguish HTTP, GraphQL and network failures.
+ */
+
+/**
+ * Base class for all LottieFiles API errors.
+ */
+export class LottieFilesError extends Error {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = "LottieFilesError";
+  }
+}
+
+/**
+ * Thrown when the API responds with a non-2xx HTTP status.
+ */
+export class LottieFilesHttpError extends LottieFilesError {
+  constructor(
+    public readonly status: number,
+    public readonly retryAfterMs: number | null = null
+  ) {
+    super(
+      retryAfterMs !== null
+        ? `HTTP ${status} (retry after ${Math.ceil(retryAfterMs / 1000)}s)`
+        : `HTTP ${status}`
+    );
+    this.name = "LottieFilesHttpError";
+  }
+}
+
+/**
+ * Thrown when the API responds with GraphQL errors or without data.
+ */
+export class LottieFilesGraphQLError extends LottieFilesError {
+  constructor(public readonly messages: string[]) {
+    super(messages.length > 0 ? messages.join(", ") : "Empty response from LottieFiles API");
+    this.name = "LottieFilesGraphQLError";
+  }
+}
+
+/**
+ * Thrown when the request could not be sent or the response could not be read.
+ */
+export class LottieFilesNetworkError extends LottieFilesError {
+  constructor(message: string, cause?: unknown) {
+    super(message, { cause });
+    this.name = "LottieFilesNetworkError";
+  }
+}
+
+/**
+ * Thrown when a request does not complete within the configured timeout.
+ */
+export class LottieFilesTimeoutError extends LottieFilesNetworkError {
+  constructor(public readonly timeoutMs: number) {
+    super(`Request timed out after ${timeoutMs}ms`);
+    this.name = "LottieFilesTimeoutError";
+  }
+}
@@ -0,0 +1,287 @@
+/**
+ * Client-side filtering and sorting of animation results.
+ *
+ * The public API only supports keyword search, so filters are applied locally
+ * and extra pages are fetched until enough animations pass them.
+ */
+
+import { AnimationPage, LottieAnimation } from "./types.js";
+import { matchTags } from "./tags.js";
+
+/**
+ * Filters applied to animations after they are fetched.
+ */
+export interface AnimationFilters {
+  /** Minimum download count */
+  minDownloads?: number;
+
+  /** Maximum download count */
+  maxDownloads?: number;
+
+  /** Minimum like count */
+  minLikes?: number;
+
+  /** Maximum like count */
+  maxLikes?: number;
+
+  /** Only animations created at or after this date (ISO 8601) */
+  createdAfter?: string;
+
+  /** Only animations created at or before this date (ISO 8601; see endOfDay for bare dates) */
+  createdBefore?: string;
+
+  /** Only animations by these creators (usernames, case-insensitive) */
+  includeCreators?: string[];
+
+  /** Skip animations by these creators (usernames, case-insensitive) */
+  excludeCreators?: string[];
+
+  /** Only animations with a Lottie JSON URL */
+  requireJson?: boolean;
+
+  /** Only animations with a dotLottie URL */
+  requireDotLottie?: boolean;
+
+  /** Only animations matching at least one of these tags (see matchTags) */
+  anyTags?: string[];
+
+  /** Only animations containing every one of these phrases (see matchTags) */
+  requiredPhrases?: string[];
+
+  /** Skip animations containing any of these terms or phrases (see matchTags) */
+  excludeTerms?: string[];
+}
+
+/**
+ * Sort orders for results. "relevance" keeps the API order.
+ */
+export const ANIMATION_SORTS = ["relevance", "downloads", "likes", "newest"] as const;
+export type AnimationSort = (typeof ANIMATION_SORTS)[number];
+
+/**
+ * Result of fetching pages until enough animations pass the filters.
+ */
+export interface FilteredResult {
+  /** Matching animations, sorted and capped at the limit */
+  animations: LottieAnimation[];
+
+  /** Fetched animations that did not pass the filters */
+  dropped: LottieAnimation[];
+
+  /** The last page fetched (its cursor continues after the scanned results) */
+  lastPage: AnimationPage;
+
+  /** Number of pages fetched */
+  pagesFetched: number;
+
+  /** Number of animations inspected before filtering */
+  scanned: number;
+
+  /** Whether every page came from the response cache */
+  cached: boolean;
+}
+
+/**
+ * Expands a bare date (2024-01-31) to the end of that day, so "on or before"
+ * includes the whole day. Dates with a time are returned unchanged.
+ */
+export function endOfDay(date: string): string {
+  return /^\d{4}-\d{2}-\d{2}$/.test(date) ? `${date}T23:59:59.999Z` : date;
+}
+
+/**
+ * Whether any filter is set.
+ */
+export function hasActiveFilters(filters: AnimationFilters): boolean {
+  return (
+    filters.minDownloads !== undefined ||
+    filters.maxDownloads !== undefined ||
+    filters.minLikes !== undefined ||
+    filters.maxLikes !== undefined ||
+    filters.createdAfter !== undefined ||
+    filters.createdBefore !== undefined ||
+    (filters.includeCreators?.length ?? 0) > 0 ||
+    (filters.excludeCreators?.length ?? 0) > 0 ||
+    filters.requireJson === true ||
+    filters.requireDotLottie === true ||
+    (filters.anyTags?.length ?? 0) > 0 ||
+    (filters.requiredPhrases?.length ?? 0) > 0 ||
+    (filters.excludeTerms?.length ?? 0) > 0
+  );
+}
+
+/**
+ * Combines several filter sets so that an animation must pass all of them.
+ * Creator and term lists are concatenated.
+ */
+export function mergeFilters(...sets: AnimationFilters[]): AnimationFilters {
+  const merged: AnimationFilters = {};
+  const concat = (a: string[] | undefined, b: string[] | undefined) =>
+    a || b ? [...(a ?? []), ...(b ?? [])] : undefined;
+  const pick = (a: number | undefined, b: number | undefined, fn: (x: number, y: number) => number) =>
+    a === undefined ? b : b === undefined ? a : fn(a, b);
+  const pickDate = (a: string | undefined, b: string | undefined, later: boolean) =>
+    a === undefined ? b : b === undefined ? a : (Date.parse(a) > Date.parse(b)) === later ? a : b;
+
+  for (const set of sets) {
+    merged.minDownloads = pick(merged.minDownloads, set.minDownloads, Math.max);
+    merged.maxDownloads = pick(merged.maxDownloads, set.maxDownloads, Math.min);
+    merged.minLikes = pick(merged.minLikes, set.minLikes, Math.max);
+    merged.maxLikes = pick(merged.maxLikes, set.maxLikes, Math.min);
+    merged.createdAfter = pickDate(merged.createdAfter, set.createdAfter, true);
+    merged.createdBefore = pickDate(merged.createdBefore, set.createdBefore, false);
+    merged.includeCreators = concat(merged.includeCreators, set.includeCreators);
+    merged.excludeCreators = concat(merged.excludeCreators, set.excludeCreators);
+    merged.requireJson = merged.requireJson || set.requireJson || undefined;
+    merged.requireDotLottie = merged.requireDotLottie || set.requireDotLottie || undefined;
+    merged.anyTags = concat(merged.anyTags, set.anyTags);
+    merged.requiredPhrases = concat(merged.requiredPhrases, set.requiredPhrases);
+    merged.excludeTerms = concat(merged.excludeTerms, set.excludeTerms);
+  }
+
+  return merged;
+}
+
+/**
+ * Checks whether an animation passes all filters.
+ */
+export function matchesFilters(anim: LottieAnimation, filters: AnimationFilters): boolean {
+  if (filters.minDownloads !== undefined && anim.downloads < filters.minDownloads) {
+    return false;
+  }
+  if (filters.maxDownloads !== undefined && anim.downloads > filters.maxDownloads) {
+    return false;
+  }
+  if (filters.minLikes !== undefined && anim.likesCount < filters.minLikes) {
+    return false;
+  }
+  if (filters.maxLikes !== undefined && anim.likesCount > filters.maxLikes) {
+    return false;
+  }
+
+  const created = Date.parse(anim.createdAt);
+  if (filters.createdAfter !== undefined) {
+    if (Number.isNaN(created) || created < Date.parse(filters.createdAfter)) {
+      return false;
+    }
+  }
+  if (filters.createdBefore !== undefined) {
+    if (Number.isNaN(created) || created > Date.parse(filters.createdBefore)) {
+      return false;
+    }
+  }
+
+  const creator = anim.createdBy?.username.toLowerCase();
+  if (filters.includeCreators && filters.includeCreators.length > 0) {
+    if (!creator || !filters.includeCreators.some((c) => c.toLowerCase() === creator)) {
+      return false;
+    }
+  }
+  if (filters.excludeCreators && creator) {
+    if (filters.excludeCreators.some((c) => c.toLowerCase() === creator)) {
+      return false;
+    }
+  }
+
+  if (filters.requireJson && !anim.jsonUrl) {
+    return false;
+  }
+  if (filters.requireDotLottie && !anim.lottieUrl) {
+    return false;
+  }
+
+  if (filters.anyTags && filters.anyTags.length > 0 && matchTags(anim, filters.anyTags).length === 0) {
+    return false;
+  }
+  if (filters.requiredPhrases && matchTags(anim, filters.requiredPhrases).length < filters.requiredPhrases.length) {
+    return false;
+  }
+  if (filters.excludeTerms && matchTags(anim, filters.excludeTerms).length > 0) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Returns a sorted copy of the animations. "relevance" keeps the input order.
+ */
+export function sortAnimations(animations: LottieAnimation[], sort: AnimationSort): LottieAnimation[] {
+  const sorted = [...animations];
+  switch (sort) {
+    case "downloads":
+      return sorted.sort((a, b) => b.downloads - a.downloads);
+    case "likes":
+      return sorted.sort((a, b) => b.likesCount - a.likesCount);
+    case "newest":
+      return sorted.sort((a, b) => (Date.parse(b.createdAt) || 0) - (Date.parse(a.createdAt) || 0));
+    case "relevance":
+      return sorted;
+  }
+}
+
+/**
+ * Fetches pages until `limit` animations pass the filters, the results run
+ * out, or `maxPages` pages have been fetched. Results are then sorted.
+ *
+ * Scanning stops at the animation that fills the limit, and the returned
+ * cursor continues after it, so following the cursor never skips matches.
+ *
+ * @param fetchPage - Fetches one page starting after the given cursor
+ */
+export async function fetchFiltered(
+  fetchPage: (after: string | undefined) => Promise<AnimationPage>,
+  options: {
+    limit: number;
+    filters: AnimationFilters;
+    sort: AnimationSort;
+    maxPages: number;
+    after?: string;
+  }
+): Promise<FilteredResult> {
+  const matches: LottieAnimation[] = [];
+  const dropped: LottieAnimation[] = [];
+  let after = options.after;
+  let pagesFetched = 0;
+  let scanned = 0;
+  let cached = true;
+  let lastPage: AnimationPage;
+
+  do {
+    lastPage = await fetchPage(after);
+    pagesFetched++;
+    cached = cached && lastPage.cached;
+
+    for (const [index, anim] of lastPage.animations.entries()) {
+      scanned++;
+      if (matchesFilters(anim, options.filters)) {
+        matches.push(anim);
+      } else {
+        dropped.push(anim);
+      }
+
+      // Stop at the limit and continue after this animation next time, so
+      // the rest of the page is not skipped
+      if (matches.length === options.limit && index < lastPage.animations.length - 1) {
+        lastPage = { ...lastPage, nextCursor: lastPage.cursors[index], hasNextPage: true };
+        break;
+      }
+    }
+
+    after = lastPage.nextCursor ?? undefined;
+  } while (
+    matches.length < options.limit &&
+    lastPage.hasNextPage &&
+    after !== undefined &&
+    pagesFetched < options.maxPages
+  );
+
+  return {
+    animations: sortAnimations(matches, options.sort),
+    dropped,
+    lastPage,
+    pagesFetched,
+    scanned,
+    cached,
+  };
+}
@@ -0,0 +1,61 @@
+/**
+ * LottieFiles API module public exports.
+ */
+
+export {
+  LottieFilesClient,
+  LottieFilesClientOptions,
+  FetchFn,
+  LOTTIEFILES_API,
+  parseRetryAfter,
+  getLottieFilesClient,
+  setLottieFilesClient,
+} from "./client.js";
+export {
+  ResponseCache,
+  ResponseCacheOptions,
+  DEFAULT_CACHE_FILE_PATH,
+} from "./cache.js";
+export {
+  LottieFilesError,
+  LottieFilesHttpError,
+  LottieFilesGraphQLError,
+  LottieFilesNetworkError,
+  LottieFilesTimeoutError,
+} from "./errors.js";
+export { ConcurrencyLimiter } from "./limiter.js";
+export { parseAnimationRef, AnimationRef } from "./ref.js";
+export {
+  AnimationFilters,
+  AnimationSort,
+  ANIMATION_SORTS,
+  FilteredResult,
+  endOfDay,
+  hasActiveFilters,
+  mergeFilters,
+  matchesFilters,
+  sortAnimations,
+  fetchFiltered,
+} from "./filters.js";
+export { matchTags } from "./tags.js";
+export {
+  QuerySyntaxError,
+  QueryGroup,
+  ParsedQuery,
+  parseQuery,
+  fetchQuery,
+} from "./query.js";
+export {
+  SearchRun,
+  ResultSource,
+  MergedAnimation,
+  mergeSearchRuns,
+} from "./merge.js";
+export {
+  LottieAnimation,
+  LottieCreator,
+  AnimationPage,
+  AnimationLookup,
+  PageParams,
+  QueryResult,
+} from "./types.js";
@@ -0,0 +1,59 @@
+/**
+ * ConcurrencyLimiter - Caps the number of in-flight async operations.
+ *
+ * Callers beyond the limit wait in FIFO order until a slot frees up.
+ */
+
+export class ConcurrencyLimiter {
+  private active = 0;
+  private waiting: Array<() => void> = [];
+  private maxConcurrent: number;
+
+  constructor(maxConcurrent: number) {
+    this.maxConcurrent = Math.max(1, Math.floor(maxConcurrent));
+  }
+
+  /**
+   * Number of operations currently running.
+   */
+  get activeCount(): number {
+    return this.active;
+  }
+
+  /**
+   * Number of operations waiting for a slot.
+   */
+  get pendingCount(): number {
+    return this.waiting.length;
+  }
+
+  /**
+   * Runs an operation once a slot is available.
+   */
+  async run<T>(operation: () => Promise<T>): Promise<T> {
+    await this.acquire();
+    try {
+      return await operation();
+    } finally {
+      this.release();
+    }
+  }
+
+  private acquire(): Promise<void> {
+    if (this.active < this.maxConcurrent) {
+      this.active++;
+      return Promise.resolve();
+    }
+    // The slot is handed over directly by release(), so active stays unchanged
+    return new Promise((resolve) => this.waiting.push(resolve));
+  }
+
+  private release(): void {
+    const next = this.waiting.shift();
+    if (next) {
+      next();
+    } else {
+      this.active--;
+    }
+  }
+}
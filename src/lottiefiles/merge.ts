@@ -0,0 +1,79 @@
+/**
+ * Merging and ranking of results from several searches.
+ */
+
+import { LottieAnimation } from "./types.js";
+
+/**
+ * Results of one search in a fan-out.
+ */
+export interface SearchRun {
+  /** The query that was run */
+  query: string;
+
+  /** Animations returned, in API order */
+  animations: LottieAnimation[];
+}
+
+/**
+ * Where a merged result was found.
+ */
+export interface ResultSource {
+  /** The query that returned the animation */
+  query: string;
+
+  /** 1-based position in that query's results */
+  rank: number;
+}
+
+/**
+ * An animation merged from one or more searches.
+ */
+export interface MergedAnimation {
+  animation: LottieAnimation;
+
+  /** Queries that returned this animation, in run order */
+  sources: ResultSource[];
+
+  /** Ranking score: number of matching queries plus popularity (0-1) */
+  score: number;
+}
+
+/**
+ * Merges search runs, de-duplicating by animation ID.
+ *
+ * Results are ranked by the number of queries that returned them, with
+ * popularity (log-scaled downloads, relative to the most downloaded result)
+ * breaking ties. Remaining ties keep the best per-query rank first.
+ */
+export function mergeSearchRuns(runs: SearchRun[]): MergedAnimation[] {
+  const merged = new Map<string, MergedAnimation>();
+
+  for (const run of runs) {
+    run.animations.forEach((animation, index) => {
+      const existing = merged.get(animation.id);
+      const source = { query: run.query, rank: index + 1 };
+      if (existing) {
+        if (!existing.sources.some((s) => s.query === run.query)) {
+          existing.sources.push(source);
+        }
+      } else {
+        merged.set(animation.id, { animation, sources: [source], score: 0 });
+      }
+    });
+  }
+
+  const results = [...merged.values()];
+  const maxDownloads = Math.max(0, ...results.map((r) => r.animation.downloads));
+  const popularityScale = Math.log10(maxDownloads + 1);
+
+  for (const result of results) {
+    const popularity = popularityScale > 0
+      ? Math.log10(Math.max(0, result.animation.downloads) + 1) / popularityScale
+      : 0;
+    result.score = result.sources.length + popularity;
+  }
+
+  const bestRank = (r: MergedAnimation) => Math.min(...r.sources.map((s) => s.rank));
+  return results.sort((a, b) => b.score - a.score || bestRank(a) - bestRank(b));
+}
@@ -0,0 +1,70 @@
+/**
+ * GraphQL queries for the LottieFiles public API.
+ */
+
+/**
+ * Fields requested for every animation node.
+ */
+const ANIMATION_FIELDS = `
+  id
+  slug
+  name
+  description
+  likesCount
+  downloads
+  gifUrl
+  lottieUrl
+  jsonUrl
+  createdAt
+  createdBy {
+    username
+    avatarUrl
+  }
+`;
+
+/**
+ * Full-text search over public animations.
+ */
+export const SEARCH_QUERY = `
+  query SearchAnimations($query: String!, $limit: Int!, $after: String) {
+    searchPublicAnimations(query: $query, first: $limit, after: $after) {
+      totalCount
+      pageInfo {
+        hasNextPage
+        endCursor
+      }
+      edges {
+        cursor
+        node {${ANIMATION_FIELDS}}
+      }
+    }
+  }
+`;
+
+/**
+ * Featured (popular) public animations.
+ */
+export const FEATURED_QUERY = `
+  query FeaturedAnimations($limit: Int!, $after: String) {
+    featuredPublicAnimations(first: $limit, after: $after) {
+      totalCount
+      pageInfo {
+        hasNextPage
+        endCursor
+      }
+      edges {
+        cursor
+        node {${ANIMATION_FIELDS}}
+      }
+    }
+  }
+`;
+
+/**
+ * Single public animation by numeric ID.
+ */
+export const ANIMATION_BY_ID_QUERY = `
+  query AnimationById($id: Int!) {
+    publicAnimation(id: $id) {${ANIMATION_FIELDS}}
+  }
+`;
@@ -0,0 +1,326 @@
+/**
+ * A small search query language, parsed locally.
+ *
+ * Syntax:
+ * - `loading spinner`      plain terms, sent to the API
+ * - `"loading spinner"`    phrase: sent to the API and required verbatim in results
+ * - `-3d`, `-"line art"`   exclude results containing the term or phrase
+ * - `a OR b`               run each side as its own API query and merge the results
+ * - `creator:foo`          only results by this creator (`-creator:foo` to exclude)
+ * - `downloads:>1000`      download count comparison (>, >=, <, <=, =; `1k`/`2m` allowed)
+ * - `likes:>=50`           like count comparison
+ * - `created:>2024-01-01`  creation date comparison (> and >= mean on or after, < and <= on or before)
+ *
+ * Qualifiers and exclusions apply to the whole query; terms and phrases
+ * belong to the OR group they appear in. Other words containing a colon
+ * (`16:9`) are plain terms.
+ */
+
+import {
+  AnimationFilters,
+  AnimationSort,
+  FilteredResult,
+  endOfDay,
+  fetchFiltered,
+  mergeFilters,
+  sortAnimations,
+} from "./filters.js";
+import { AnimationPage, LottieAnimation } from "./types.js";
+
+/**
+ * Thrown when a query string cannot be parsed.
+ */
+export class QuerySyntaxError extends Error {
+  constructor(
+    message: string,
+    public readonly position: number
+  ) {
+    super(`${message} (at position ${position + 1})`);
+    this.name = "QuerySyntaxError";
+  }
+}
+
+/**
+ * One OR-separated alternative of a query.
+ */
+export interface QueryGroup {
+  /** Text sent to the API (terms and phrase words) */
+  query: string;
+
+  /** Phrases that must appear verbatim in results from this group */
+  phrases: string[];
+}
+
+/**
+ * A parsed query.
+ */
+export interface ParsedQuery {
+  /** OR-separated alternatives (always at least one, possibly with an empty query) */
+  groups: QueryGroup[];
+
+  /** Filters from qualifiers and exclusions, applied to every group */
+  filters: AnimationFilters;
+}
+
+/** Qualifiers understood by the parser */
+const QUALIFIERS = ["creator", "downloads", "likes", "created"] as const;
+
+/**
+ * A raw token with its start position in the input.
+ */
+interface Token {
+  text: string;
+  quoted: boolean;
+  negated: boolean;
+  position: number;
+}
+
+/**
+ * Splits the input into tokens, honouring double-quoted phrases.
+ */
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    if (/\s/.test(input[i])) {
+      i++;
+      continue;
+    }
+
+    const position = i;
+    let negated = false;
+    if (input[i] === "-" && i + 1 < input.length && !/\s/.test(input[i + 1])) {
+      negated = true;
+      i++;
+    }
+
+    if (input[i] === '"') {
+      const end = input.indexOf('"', i + 1);
+      if (end === -1) {
+        throw new QuerySyntaxError("Unterminated quote", i);
+      }
+      tokens.push({ text: input.slice(i + 1, end).trim(), quoted: true, negated, position });
+      i = end + 1;
+      continue;
+    }
+
+    let end = i;
+    while (end < input.length && !/\s/.test(input[end])) {
+      end++;
+    }
+    tokens.push({ text: input.slice(i, end), quoted: false, negated, position });
+    i = end;
+  }
+
+  return tokens;
+}
+
+/**
+ * Parses a count such as `1000`, `1.5k` or `2m`.
+ */
+function parseCount(value: string, position: number): number {
+  const match = /^(\d+(?:\.\d+)?)([km]?)$/i.exec(value);
+  if (!match) {
+    throw new QuerySyntaxError(`Expected a number (e.g. 1000 or 1k), got "${value}"`, position);
+  }
+  const multiplier = match[2].toLowerCase() === "k" ? 1_000 : match[2].toLowerCase() === "m" ? 1_000_000 : 1;
+  return Math.round(parseFloat(match[1]) * multiplier);
+}
+
+/**
+ * Splits a comparison such as `>=100` into operator and operand.
+ */
+function splitComparison(value: string): { op: ">" | ">=" | "<" | "<=" | "="; operand: string } {
+  const match = /^(>=|<=|>|<|=)?(.*)$/.exec(value)!;
+  return { op: (match[1] ?? "=") as ">" | ">=" | "<" | "<=" | "=", operand: match[2] };
+}
+
+/**
+ * Applies a downloads/likes comparison to the filters.
+ */
+function applyCountQualifier(
+  filters: AnimationFilters,
+  field: "downloads" | "likes",
+  value: string,
+  position: number
+): void {
+  const { op, operand } = splitComparison(value);
+  const count = parseCount(operand, position);
+  const [minKey, maxKey] = field === "downloads"
+    ? (["minDownloads", "maxDownloads"] as const)
+    : (["minLikes", "maxLikes"] as const);
+
+  const min = op === ">" ? count + 1 : op === ">=" || op === "=" ? count : undefined;
+  const max = op === "<" ? count - 1 : op === "<=" || op === "=" ? count : undefined;
+  if (min !== undefined) {
+    filters[minKey] = Math.max(filters[minKey] ?? 0, min);
+  }
+  if (max !== undefined) {
+    filters[maxKey] = Math.min(filters[maxKey] ?? Infinity, max);
+  }
+}
+
+/**
+ * Applies a created-date comparison to the filters.
+ */
+function applyCreatedQualifier(filters: AnimationFilters, value: string, position: number): void {
+  const { op, operand } = splitComparison(value);
+  if (!/^\d{4}-\d{2}-\d{2}/.test(operand) || Number.isNaN(Date.parse(operand))) {
+    throw new QuerySyntaxError(`Expected a date (e.g. 2024-01-31), got "${operand}"`, position);
+  }
+  if (op === ">" || op === ">=" || op === "=") {
+    filters.createdAfter = operand;
+  }
+  if (op === "<" || op === "<=" || op === "=") {
+    filters.createdBefore = endOfDay(operand);
+  }
+}
+
+/**
+ * Parses a query string. Throws QuerySyntaxError on invalid input.
+ */
+export function parseQuery(input: string): ParsedQuery {
+  const filters: AnimationFilters = {};
+  const groups: Array<{ terms: string[]; phrases: string[]; position: number }> = [
+    { terms: [], phrases: [], position: 0 },
+  ];
+
+  for (const token of tokenize(input)) {
+    const group = groups[groups.length - 1];
+
+    if (!token.quoted && !token.negated && token.text === "OR") {
+      if (group.terms.length === 0) {
+        throw new QuerySyntaxError("OR needs search terms on both sides", token.position);
+      }
+      groups.push({ terms: [], phrases: [], position: token.position });
+      continue;
+    }
+
+    if (token.quoted) {
+      if (!token.text) {
+        throw new QuerySyntaxError("Empty phrase", token.position);
+      }
+      if (token.negated) {
+        filters.excludeTerms = [...(filters.excludeTerms ?? []), token.text];
+      } else {
+        group.terms.push(token.text);
+        group.phrases.push(token.text);
+      }
+      continue;
+    }
+
+    const colon = token.text.indexOf(":");
+    const field = token.text.slice(0, colon).toLowerCase();
+    if (colon > 0 && (QUALIFIERS as readonly string[]).includes(field)) {
+      const value = token.text.slice(colon + 1);
+      if (!value) {
+        throw new QuerySyntaxError(`Missing value for "${field}:"`, token.position);
+      }
+
+      if (field === "creator") {
+        const key = token.negated ? "excludeCreators" : "includeCreators";
+        filters[key] = [...(filters[key] ?? []), value];
+      } else if (token.negated) {
+        throw new QuerySyntaxError(`"${field}:" cannot be negated; use a comparison like ${field}:<100 instead`, token.position);
+      } else if (field === "created") {
+        applyCreatedQualifier(filters, value, token.position);
+      } else {
+        applyCountQualifier(filters, field as "downloads" | "likes", value, token.position);
+      }
+      continue;
+    }
+
+    if (token.negated) {
+      filters.excludeTerms = [...(filters.excludeTerms ?? []), token.text];
+    } else {
+      group.terms.push(token.text);
+    }
+  }
+
+  const last = groups[groups.length - 1];
+  if (groups.length > 1 && last.terms.length === 0) {
+    throw new QuerySyntaxError("OR needs search terms on both sides", last.position);
+  }
+
+  return {
+    groups: groups.map((g) => ({ query: g.terms.join(" "), phrases: g.phrases })),
+    filters,
+  };
+}
+
+/**
+ * Fetches results for a parsed query.
+ *
+ * Each OR group is fetched with fetchFiltered (its phrases added as required
+ * filters); multiple groups run concurrently and are merged, de-duplicated by
+ * ID and sorted. Cursors only apply to single-group queries.
+ *
+ * @param fetchPage - Fetches one page for an API query, starting after the cursor
+ * @param options.prefix - Terms prepended to every group's API query (e.g. tags)
+ */
+export async function fetchQuery(
+  fetchPage: (query: string, after: string | undefined) => Promise<AnimationPage>,
+  parsed: ParsedQuery,
+  options: {
+    limit: number;
+    filters: AnimationFilters;
+    sort: AnimationSort;
+    maxPages: number;
+    after?: string;
+    prefix?: string;
+  }
+): Promise<FilteredResult> {
+  const run = (group: QueryGroup) => {
+    const query = [options.prefix ?? "", group.query].filter(Boolean).join(" ");
+    return fetchFiltered((after) => fetchPage(query, after), {
+      limit: options.limit,
+      filters: mergeFilters(options.filters, parsed.filters, { requiredPhrases: group.phrases }),
+      sort: options.sort,
+      maxPages: options.maxPages,
+      after: options.after,
+    });
+  };
+
+  if (parsed.groups.length === 1) {
+    return run(parsed.groups[0]);
+  }
+
+  const results = await Promise.all(parsed.groups.map(run));
+  const seen = new Set<string>();
+  const animations: LottieAnimation[] = [];
+  const dropped: LottieAnimation[] = [];
+  for (const result of results) {
+    for (const anim of result.animations) {
+      if (!seen.has(anim.id)) {
+        seen.add(anim.id);
+        animations.push(anim);
+      }
+    }
+    dropped.push(...result.dropped);
+  }
+  const droppedIds = new Set<string>();
+
+  const cached = results.every((r) => r.cached);
+  return {
+    animations: sortAnimations(animations, options.sort).slice(0, options.limit),
+    dropped: dropped.filter((anim) => {
+      if (seen.has(anim.id) || droppedIds.has(anim.id)) {
+        return false;
+      }
+      droppedIds.add(anim.id);
+      return true;
+    }),
+    lastPage: {
+      totalCount: results.reduce((sum, r) => sum + r.lastPage.totalCount, 0),
+      animations,
+      cursors: [],
+      nextCursor: null,
+      hasNextPage: false,
+      cached,
+    },
+    pagesFetched: results.reduce((sum, r) => sum + r.pagesFetched, 0),
+    scanned: results.reduce((sum, r) => sum + r.scanned, 0),
+    cached,
+  };
+}
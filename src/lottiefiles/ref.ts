@@ -0,0 +1,83 @@
+/**
+ * Parsing of user-supplied animation references.
+ *
+ * Accepts numeric IDs, slugs and lottiefiles.com URLs such as:
+ * - 12345
+ * - success-check-a1b2c3
+ * - https://lottiefiles.com/animations/success-check-a1b2c3
+ * - https://lottiefiles.com/free-animation/success-check-a1b2c3
+ * - https://lottiefiles.com/12345-success-check (legacy URL with ID prefix)
+ */
+
+/**
+ * A parsed animation reference.
+ */
+export type AnimationRef =
+  | { kind: "id"; id: string }
+  | { kind: "slug"; slug: string };
+
+/**
+ * URL path prefixes that are followed by an animation slug.
+ */
+const SLUG_PATH_PREFIXES = ["animations", "animation", "free-animation"];
+
+/**
+ * Parses an animation ID, slug or lottiefiles.com URL.
+ *
+ * @returns The parsed reference, or null if the input can't be an animation reference
+ */
+export function parseAnimationRef(input: string): AnimationRef | null {
+  const trimmed = input.trim();
+  if (trimmed === "") {
+    return null;
+  }
+
+  if (/^\d+$/.test(trimmed)) {
+    return { kind: "id", id: trimmed };
+  }
+
+  if (/^(https?:\/\/)?([a-z0-9-]+\.)*lottiefiles\.com\//i.test(trimmed)) {
+    return parseAnimationUrl(trimmed);
+  }
+
+  if (/^[a-z0-9][a-z0-9_-]*$/i.test(trimmed)) {
+    return { kind: "slug", slug: trimmed };
+  }
+
+  return null;
+}
+
+/**
+ * Extracts the animation reference from a lottiefiles.com URL.
+ */
+function parseAnimationUrl(input: string): AnimationRef | null {
+  let url: URL;
+  try {
+    url = new URL(/^https?:\/\//i.test(input) ? input : `https://${input}`);
+  } catch {
+    return null;
+  }
+
+  let segments: string[];
+  try {
+    segments = url.pathname.split("/").filter(Boolean).map(decodeURIComponent);
+  } catch {
+    // Malformed percent-escapes
+    return null;
+  }
+
+  if (segments.length >= 2 && SLUG_PATH_PREFIXES.includes(segments[0].toLowerCase())) {
+    return parseAnimationRef(segments[1]);
+  }
+
+  // Legacy URLs: lottiefiles.com/12345-some-name
+  if (segments.length === 1) {
+    const legacy = /^(\d+)-/.exec(segments[0]);
+    if (legacy) {
+      return { kind: "id", id: legacy[1] };
+    }
+    return parseAnimationRef(segments[0]);
+  }
+
+  return null;
+}
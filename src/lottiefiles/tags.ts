@@ -0,0 +1,45 @@
+/**
+ * Tag matching for animations.
+ *
+ * The public API does not return tag metadata for animations, so tags are
+ * matched as whole words against the name, description and slug instead.
+ */
+
+import { LottieAnimation } from "./types.js";
+
+/**
+ * Escapes a string for use inside a RegExp.
+ */
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Builds the searchable text for an animation (lowercased, slug dashes as spaces).
+ */
+function searchableText(anim: LottieAnimation): string {
+  return [anim.name, anim.description ?? "", anim.slug.replace(/[-_]+/g, " ")]
+    .join(" ")
+    .toLowerCase();
+}
+
+/**
+ * Checks whether a tag appears as a whole word (or simple plural) in the text.
+ * Multi-word tags match with any whitespace, dash or underscore between words.
+ */
+function textHasTag(text: string, tag: string): boolean {
+  const words = tag.trim().toLowerCase().split(/[\s_-]+/).filter(Boolean);
+  if (words.length === 0) {
+    return false;
+  }
+  const pattern = words.map(escapeRegExp).join("[\\s_-]+");
+  return new RegExp(`(^|[^a-z0-9])${pattern}(s|es)?([^a-z0-9]|$)`).test(text);
+}
+
+/**
+ * Returns the tags that an animation matches, in the order given.
+ */
+export function matchTags(anim: LottieAnimation, tags: string[]): string[] {
+  const text = searchableText(anim);
+  return tags.filter((tag) => textHasTag(text, tag));
+}
@@ -0,0 +1,125 @@
+/**
+ * LottieFiles API data types.
+ *
+ * Every tool works with the same normalized animation shape, regardless of
+ * which GraphQL query produced it.
+ */
+
+/**
+ * Creator of an animation.
+ */
+export interface LottieCreator {
+  /** LottieFiles username */
+  username: string;
+
+  /** Avatar image URL, if the creator has one */
+  avatarUrl: string | null;
+}
+
+/**
+ * A public Lottie animation as returned by the LottieFiles API.
+ */
+export interface LottieAnimation {
+  /** Numeric animation ID (as a string) */
+  id: string;
+
+  /** URL slug used on lottiefiles.com */
+  slug: string;
+
+  /** Display name */
+  name: string;
+
+  /** Free-form description */
+  description: string | null;
+
+  /** Number of likes */
+  likesCount: number;
+
+  /** Number of downloads */
+  downloads: number;
+
+  /** Animated GIF preview URL */
+  gifUrl: string | null;
+
+  /** dotLottie (.lottie) download URL */
+  lottieUrl: string | null;
+
+  /** Lottie JSON download URL */
+  jsonUrl: string | null;
+
+  /** ISO 8601 creation timestamp */
+  createdAt: string;
+
+  /** Creator, if known */
+  createdBy: LottieCreator | null;
+}
+
+/**
+ * A single page of animations from a connection query.
+ */
+export interface AnimationPage {
+  /** Total number of animations matching the query */
+  totalCount: number;
+
+  /** Animations on this page, in API order */
+  animations: LottieAnimation[];
+
+  /** Edge cursor of each animation, in the same order, for resuming partway through the page */
+  cursors: string[];
+
+  /** Cursor to pass as `after` to fetch the next page, or null on the last page */
+  nextCursor: string | null;
+
+  /** Whether more results exist after this page */
+  hasNextPage: boolean;
+
+  /** Whether this page was served from the response cache */
+  cached: boolean;
+}
+
+/**
+ * Parameters shared by paginated connection queries.
+ */
+export interface PageParams {
+  /** Number of animations to fetch */
+  first: number;
+
+  /** Cursor from a previous page's nextCursor */
+  after?: string;
+}
+
+/**
+ * Result of looking up a single animation.
+ */
+export interface AnimationLookup {
+  /** The exact match, or null if none was found */
+  animation: LottieAnimation | null;
+
+  /** Closest candidate when there is no exact match */
+  suggestion: LottieAnimation | null;
+
+  /** Whether the lookup was served from the response cache */
+  cached: boolean;
+
+  /** How the animation was found: the direct lookup query or the search fallback */
+  source: "lookup" | "search";
+}
+
+/**
+ * Data returned by a GraphQL request, with cache-hit information.
+ */
+export interface QueryResult<T> {
+  /** The `data` field of the GraphQL response */
+  data: T;
+
+  /** Whether the data was served from the response cache */
+  cached: boolean;
+}
+
+/**
+ * Raw GraphQL response envelope.
+ */
+export interface GraphQLResponse<T> {
+  data?: T | null;
+  errors?: Array<{ message: string }>;
+}
@@ -0,0 +1,156 @@
+import { z } from "zod";
+import { ToolRegistrar } from "../types/tool.js";
+import { createLogger } from "../utils/logger.js";
+import { analyzeAccessibility, hexToRgb, loadLottie } from "../lottie/index.js";
+import { lottieSourceShape } from "./source.js";
+
+const log = createLogger("accessibility_check");
+
+const rangeSchema = {
+  start: z.number().describe("First frame"),
+  end: z.number().describe("Last frame"),
+  startSeconds: z.number(),
+  endSeconds: z.number(),
+  area: z.number().describe("Largest fraction of the canvas (0-1) affected at once"),
+};
+
+/**
+ * Structured output returned alongside the Markdown text
+ */
+const outputSchema = {
+  passes: z.boolean().describe("False if flashing fails WCAG 2.3.1 (Three Flashes or Below Threshold)"),
+  framesAnalyzed: z.number(),
+  flashes: z
+    .array(z.object({
+      ...rangeSchema,
+      flashesPerSecond: z.number().describe("Most flashes counted within one second"),
+      red: z.boolean().describe("Whether saturated red is involved"),
+      fails: z.boolean().describe("Whether the flashing area reaches the threshold"),
+    }))
+    .describe("Periods with more than three flashes per second"),
+  contrastChanges: z
+    .array(z.object({ ...rangeSchema, change: z.number().describe("Largest luminance change (0-1)") }))
+    .describe("Abrupt high-contrast changes over a large area"),
+  reducedMotion: z
+    .object({ frame: z.number(), seconds: z.number(), reason: z.string() })
+    .describe("Suggested static frame for users who prefer reduced motion"),
+  warnings: z.array(z.string()).describe("Features that were skipped or approximated"),
+};
+
+const percent = (fraction: number) => `${Math.round(fraction * 100)}%`;
+
+/**
+ * Check a Lottie animation for photosensitivity risks.
+ *
+ * Samples every frame to find fast flashing (WCAG 2.3.1) and abrupt
+ * large-area contrast changes, and suggests a still frame to show when the
+ * user prefers reduced motion.
+ */
+export const register: ToolRegistrar = (server, wrapTool) => {
+  const tool = wrapTool(
+    "accessibility_check",
+    "Check a Lottie animation for flashing that can trigger seizures (WCAG 2.3.1 Three Flashes or Below Threshold). Samples every frame, reports the time ranges with more than three flashes per second (noting saturated red), abrupt high-contrast changes over a large area, and suggests a static frame to show instead when users prefer reduced motion. Use it before shipping attention-grabbing animations such as alerts, celebrations or loaders.",
+    {
+      ...lottieSourceShape,
+      background: z
+        .string()
+        .optional()
+        .describe("Color the animation is shown on, as hex (default: \"#ffffff\")"),
+      area_threshold: z
+        .number()
+        .min(1)
+        .max(100)
+        .optional()
+        .default(25)
+        .describe("Percentage of the canvas that must flash at once to fail (default: 25)"),
+    },
+    async ({ url, path, json, animation_id, background, area_threshold = 25 }) => {
+      log.info("Checking accessibility", { url, path, inline: json !== undefined, background, area_threshold });
+
+      const backgroundRgb = background !== undefined ? hexToRgb(background) : null;
+      if (background !== undefined && !backgroundRgb) {
+        return {
+          content: [{ type: "text" as const, text: `Invalid background color "${background}". Use a hex color such as "#ffffff".` }],
+          isError: true,
+        };
+      }
+
+      try {
+        const { document, source } = await loadLottie({ url, path, json, animationId: animation_id });
+        const report = analyzeAccessibility(document, {
+          background: backgroundRgb ?? undefined,
+          areaThreshold: area_threshold / 100,
+        });
+
+        const failing = report.flashes.filter((range) => range.fails);
+        const lines: string[] = [
+          "# Accessibility Check",
+          "",
+          `**Source:** ${source}`,
+          `**Result:** ${report.passes ? "passes" : "fails"} WCAG 2.3.1 (Three Flashes or Below Threshold)`,
+          `**Frames analyzed:** ${report.framesAnalyzed} at ${document.fr} fps`,
+        ];
+
+        if (report.flashes.length > 0) {
+          lines.push("");
+          lines.push("## Flashing");
+          lines.push(...report.flashes.map((range) =>
+            `- Frames ${range.start}-${range.end} (${range.startSeconds.toFixed(2)}s-${range.endSeconds.toFixed(2)}s): ` +
+            `${range.flashesPerSecond} flashes per second over ${percent(range.area)} of the canvas` +
+            `${range.red ? ", saturated red" : ""} - ${range.fails ? "fails" : `below the ${area_threshold}% area threshold`}`
+          ));
+        }
+
+        if (report.contrastChanges.length > 0) {
+          lines.push("");
+          lines.push("## Abrupt contrast changes");
+          lines.push(...report.contrastChanges.map((range) =>
+            `- Frames ${range.start}-${range.end} (${range.startSeconds.toFixed(2)}s-${range.endSeconds.toFixed(2)}s): ` +
+            `luminance changes by up to ${range.change.toFixed(2)} over ${percent(range.area)} of the canvas`
+          ));
+        }
+
+        lines.push("");
+        lines.push("## Reduced motion");
+        lines.push(
+          `Show frame ${report.reducedMotion.frame} (${report.reducedMotion.seconds.toFixed(2)}s) as a static image when the user prefers reduced motion: it ${report.reducedMotion.reason}. Render it with render_frame.`
+        );
+        if (failing.length > 0) {
+          lines.push("Slow the flashing to three per second or fewer, shrink the flashing area, or lower its contrast.");
+        }
+
+        if (report.warnings.length > 0) {
+          lines.push("");
+          lines.push("## Notes");
+          lines.push(...report.warnings.map((warning) => `- ${warning}`));
+        }
+
+        log.info("Accessibility checked", {
+          source,
+          passes: report.passes,
+          flashes: report.flashes.length,
+          contrastChanges: report.contrastChanges.length,
+        });
+
+        return {
+          content: [{ type: "text" as const, text: lines.join("\n") }],
+          structuredContent: { ...report },
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "Unknown error";
+        log.error("Accessibility check failed", { url, path, error: errorMessage });
+
+        return {
+          content: [{ type: "text" as const, text: `Failed to check accessibility: ${errorMessage}` }],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    tool.name,
+    { description: tool.description, inputSchema: tool.schema, outputSchema },
+    tool.handler
+  );
+};
@@ -0,0 +1,130 @@
+import { z } from "zod";
+import { ToolRegistrar } from "../types/tool.js";
+import { createLogger } from "../utils/logger.js";
+import { RUNTIMES, SUPPORT_LEVELS, checkCompatibility, loadLottie } from "../lottie/index.js";
+import { lottieSourceShape } from "./source.js";
+
+const log = createLogger("check_compatibility");
+
+const supportSchema = z.object({
+  level: z.enum(SUPPORT_LEVELS),
+  note: z.string().nullable(),
+});
+
+/**
+ * Structured output returned alongside the Markdown text
+ */
+const outputSchema = {
+  compatible: z.boolean().describe("True if every requested runtime supports every feature used"),
+  features: z
+    .array(z.object({
+      id: z.string(),
+      name: z.string(),
+      count: z.number(),
+      pointers: z.array(z.string()).describe("JSON pointers to the first uses"),
+      support: z.record(z.string(), supportSchema).describe("Support per runtime"),
+    }))
+    .describe("Features with runtime-specific support found in the animation"),
+  runtimes: z.array(z.object({
+    runtime: z.enum(RUNTIMES),
+    player: z.string(),
+    status: z.enum(SUPPORT_LEVELS).describe("Worst support level among the features used"),
+    issues: z.array(z.object({
+      feature: z.string(),
+      name: z.string(),
+      level: z.enum(SUPPORT_LEVELS),
+      note: z.string().nullable(),
+      pointer: z.string().describe("JSON pointer to the first use"),
+    })),
+  })),
+};
+
+/**
+ * Check which runtimes can play an animation as designed.
+ *
+ * Scans for features that players implement differently (expressions,
+ * mattes, merge paths, text, 3D layers, effects, blend modes) and looks
+ * each one up in the compatibility matrix.
+ */
+export const register: ToolRegistrar = (server, wrapTool) => {
+  const tool = wrapTool(
+    "check_compatibility",
+    "Check whether a Lottie animation will render correctly on lottie-web, lottie-ios, lottie-android and lottie-react-native. Scans for features with uneven player support (expressions, track mattes, merge paths, text layers, 3D layers, effects, blend modes, mask modes, external images) and reports, per runtime, which features are supported, partially supported or ignored, with JSON pointers to where they are used.",
+    {
+      ...lottieSourceShape,
+      runtimes: z
+        .array(z.enum(RUNTIMES))
+        .min(1)
+        .optional()
+        .describe("Runtimes to check (default: all of web, ios, android, react-native)"),
+    },
+    async ({ url, path, json, animation_id, runtimes }) => {
+      log.info("Checking compatibility", { url, path, inline: json !== undefined, runtimes });
+
+      try {
+        const { document, source } = await loadLottie({ url, path, json, animationId: animation_id });
+        const report = checkCompatibility(document, runtimes ? [...new Set(runtimes)] : RUNTIMES);
+        const compatible = report.runtimes.every((r) => r.status === "supported");
+
+        const lines: string[] = [
+          "# Compatibility Report",
+          "",
+          `**Source:** ${source}`,
+          ...report.runtimes.map((r) => `**${r.player}:** ${r.status}`),
+        ];
+
+        if (report.features.length === 0) {
+          lines.push("");
+          lines.push("No features with runtime-specific support were found.");
+        } else {
+          lines.push("");
+          lines.push("## Features");
+          lines.push("");
+          lines.push(`| Feature | Uses | ${report.runtimes.map((r) => r.player).join(" | ")} |`);
+          lines.push(`| --- | --- | ${report.runtimes.map(() => "---").join(" | ")} |`);
+          for (const feature of report.features) {
+            const levels = report.runtimes.map((r) => feature.support[r.runtime].level);
+            lines.push(`| ${feature.name} | ${feature.count} | ${levels.join(" | ")} |`);
+          }
+
+          for (const r of report.runtimes.filter((r) => r.issues.length > 0)) {
+            lines.push("");
+            lines.push(`## ${r.player}`);
+            lines.push(...r.issues.map((issue) =>
+              `- **${issue.name}** (${issue.level}): ${issue.note ?? "no details"} (first use: \`${issue.pointer}\`)`
+            ));
+          }
+        }
+
+        log.info("Compatibility checked", {
+          source,
+          features: report.features.length,
+          statuses: Object.fromEntries(report.runtimes.map((r) => [r.runtime, r.status])),
+        });
+
+        return {
+          content: [{ type: "text" as const, text: lines.join("\n") }],
+          structuredContent: {
+            compatible,
+            features: report.features,
+            runtimes: report.runtimes,
+          },
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "Unknown error";
+        log.error("Compatibility check failed", { url, path, error: errorMessage });
+
+        return {
+          content: [{ type: "text" as const, text: `Failed to check compatibility: ${errorMessage}` }],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    tool.name,
+    { description: tool.description, inputSchema: tool.schema, outputSchema },
+    tool.handler
+  );
+};
@@ -0,0 +1,42 @@
+import { ToolRegistrar } from "../types/tool.js";
+import { createLogger } from "../utils/logger.js";
+import { getLottieFilesClient } from "../lottiefiles/index.js";
+
+const log = createLogger("clear_cache");
+
+/**
+ * Clear the LottieFiles response cache.
+ *
+ * Removes cached search and lookup results from memory and disk so the next
+ * call fetches fresh data from the API.
+ */
+export const register: ToolRegistrar = (server, wrapTool) => {
+  const tool = wrapTool(
+    "clear_cache",
+    "Clear cached LottieFiles API responses (in memory and on disk). Use this when search results look stale.",
+    {},
+    async () => {
+      log.info("Clearing response cache");
+
+      try {
+        const removed = await getLottieFilesClient().clearCache();
+
+        return {
+          content: [{
+            type: "text" as const,
+            text: `Response cache cleared (${removed} ${removed === 1 ? "entry" : "entries"} removed).`,
+          }],
+        };
+      } catch (error) {
+        const msg = error instanceof Error ? error.message : "Unknown error";
+        log.error("Failed to clear cache", { error: msg });
+        return {
+          content: [{ type: "text" as const, text: `Failed to clear cache: ${msg}` }],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.tool(tool.name, tool.description, tool.schema, tool.handler);
+};
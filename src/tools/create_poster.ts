@@ -0,0 +1,203 @@
+import { z } from "zod";
+import { ToolRegistrar } from "../types/tool.js";
+import { createLogger } from "../utils/logger.js";
+import { POSTER_STRATEGIES, createPoster, hexToRgb, loadLottie, rgbToHex, writeLocalFile } from "../lottie/index.js";
+import { deliverLottie, deliverSvg, lottieSourceShape } from "./source.js";
+
+const log = createLogger("create_poster");
+
+/**
+ * Structured output returned alongside the Markdown text
+ */
+const outputSchema = {
+  frame: z.number().describe("Frame used as the poster"),
+  seconds: z.number().describe("Time of the frame from the start of the timeline"),
+  reason: z.string().describe("Why the frame was chosen"),
+  width: z.number(),
+  height: z.number(),
+  jsonBytes: z.number().describe("Size of the single-frame Lottie JSON"),
+  svgBytes: z.number().describe("Size of the SVG"),
+  writtenPaths: z.array(z.string()).describe("Files written (empty if the results were returned inline)"),
+  snippet: z.string().describe("HTML showing the poster when the user prefers reduced motion"),
+  warnings: z.array(z.string()).describe("Features that were skipped or approximated"),
+};
+
+/**
+ * HTML and lottie-web code that shows the animation, or the poster SVG when
+ * the user prefers reduced motion (switching live when the setting changes).
+ */
+function posterSnippet(animationSrc: string, posterSrc: string, width: number, height: number): string {
+  return [
+    `<div id="lottie-animation" style="width: ${width}px; aspect-ratio: ${width} / ${height}">`,
+    `  <img src="${posterSrc}" alt="" width="${width}" height="${height}">`,
+    "</div>",
+    "<script type=\"module\">",
+    "  import lottie from \"lottie-web\";",
+    "",
+    "  const container = document.getElementById(\"lottie-animation\");",
+    "  const poster = container.innerHTML;",
+    "  const reducedMotion = window.matchMedia(\"(prefers-reduced-motion: reduce)\");",
+    "  let animation = null;",
+    "",
+    "  function update() {",
+    "    animation?.destroy();",
+    "    animation = null;",
+    "    if (reducedMotion.matches) {",
+    "      container.innerHTML = poster;",
+    "    } else {",
+    "      container.replaceChildren();",
+    `      animation = lottie.loadAnimation({ container, renderer: "svg", loop: true, autoplay: true, path: ${JSON.stringify(animationSrc)} });`,
+    "    }",
+    "  }",
+    "",
+    "  update();",
+    "  reducedMotion.addEventListener(\"change\", update);",
+    "</script>",
+  ].join("\n");
+}
+
+/**
+ * Create a static poster frame of a Lottie animation.
+ *
+ * Apps need a still image when `prefers-reduced-motion` is set; this picks
+ * a representative frame and returns it as a single-frame Lottie JSON and
+ * an SVG, with a snippet that switches between the poster and the animation.
+ */
+export const register: ToolRegistrar = (server, wrapTool) => {
+  const tool = wrapTool(
+    "create_poster",
+    "Create a static poster frame of a Lottie animation for users who prefer reduced motion. Picks the frame with the most visible content, the last frame, the start of a named marker, or a given frame, and outputs it as a single-frame Lottie JSON and an SVG, plus an HTML/lottie-web snippet that shows the poster instead of the animation when `prefers-reduced-motion` is set.",
+    {
+      ...lottieSourceShape,
+      pick: z
+        .enum(POSTER_STRATEGIES)
+        .optional()
+        .default("content")
+        .describe("content: frame with the most visible content (default); last: last frame; marker: start of the marker named in `marker`"),
+      marker: z.string().optional().describe("Marker name when pick is \"marker\""),
+      frame: z.number().min(0).optional().describe("Use this frame instead of picking one"),
+      background: z
+        .string()
+        .optional()
+        .describe("SVG background color as hex, e.g. \"#ffffff\" (default: transparent)"),
+      name: z
+        .string()
+        .regex(/^[A-Za-z0-9._-]+$/)
+        .optional()
+        .default("poster")
+        .describe("Base file name for the poster files (default: \"poster\")"),
+      output_dir: z
+        .string()
+        .min(1)
+        .optional()
+        .describe("Write <output_dir>/<name>.json and <output_dir>/<name>.svg inside the project instead of returning them"),
+      overwrite: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe("Allow replacing existing files in output_dir (default: false)"),
+      animation_src: z
+        .string()
+        .optional()
+        .describe("URL the app loads the animated version from, used in the snippet (default: the source URL or file name)"),
+    },
+    async ({ url, path, json, animation_id, pick = "content", marker, frame, background, name = "poster", output_dir, overwrite = false, animation_src }) => {
+      log.info("Creating poster", { url, path, inline: json !== undefined, pick, marker, frame, output_dir });
+
+      const backgroundRgb = background !== undefined ? hexToRgb(background) : null;
+      if (background !== undefined && !backgroundRgb) {
+        return {
+          content: [{ type: "text" as const, text: `Invalid background color "${background}". Use a hex color such as "#ffffff".` }],
+          isError: true,
+        };
+      }
+      if (pick === "marker" && frame === undefined && !marker) {
+        return {
+          content: [{ type: "text" as const, text: "Set `marker` to the marker name when pick is \"marker\"." }],
+          isError: true,
+        };
+      }
+
+      try {
+        const { document, source } = await loadLottie({ url, path, json, animationId: animation_id });
+        const poster = createPoster(document, {
+          strategy: pick,
+          marker,
+          frame,
+          background: backgroundRgb ? rgbToHex(backgroundRgb) : undefined,
+        });
+
+        const lines: string[] = [
+          "# Poster Frame",
+          "",
+          `**Source:** ${source}`,
+          `**Frame:** ${poster.frame} (${poster.seconds.toFixed(2)}s), ${poster.reason}`,
+          `**Size:** ${poster.width}×${poster.height}`,
+        ];
+
+        const jsonText = JSON.stringify(poster.document);
+        const jsonBytes = Buffer.byteLength(jsonText, "utf-8");
+        const svgBytes = Buffer.byteLength(poster.svg, "utf-8");
+        const writtenPaths: string[] = [];
+        if (output_dir) {
+          const dir = output_dir.replace(/\/+$/, "");
+          writtenPaths.push(await writeLocalFile(`${dir}/${name}.json`, jsonText, { overwrite }));
+          writtenPaths.push(await writeLocalFile(`${dir}/${name}.svg`, poster.svg, { overwrite }));
+          lines.push(`**Written to:** ${writtenPaths[0]} (${(jsonBytes / 1024).toFixed(1)}KB), ${writtenPaths[1]} (${(svgBytes / 1024).toFixed(1)}KB)`);
+        } else {
+          lines.push("");
+          lines.push((await deliverLottie(poster.document, {})).text);
+          lines.push("");
+          lines.push((await deliverSvg(poster.svg, { format: "text" })).text);
+        }
+
+        const animationSrc = animation_src ?? url ?? path?.split("/").pop() ?? "animation.json";
+        const snippet = posterSnippet(animationSrc, `${name}.svg`, poster.width, poster.height);
+        lines.push("");
+        lines.push("## Reduced-motion snippet");
+        lines.push("Shows the poster when the user prefers reduced motion and the animation otherwise. Adjust the paths to where your app serves the files; native apps can load the single-frame JSON in their Lottie player with autoplay off.");
+        lines.push("```html");
+        lines.push(snippet);
+        lines.push("```");
+
+        if (poster.warnings.length > 0) {
+          lines.push("");
+          lines.push("## Notes");
+          lines.push(...poster.warnings.map((warning) => `- ${warning}`));
+        }
+
+        log.info("Poster created", { source, frame: poster.frame, reason: poster.reason, writtenPaths });
+
+        return {
+          content: [{ type: "text" as const, text: lines.join("\n") }],
+          structuredContent: {
+            frame: poster.frame,
+            seconds: poster.seconds,
+            reason: poster.reason,
+            width: poster.width,
+            height: poster.height,
+            jsonBytes,
+            svgBytes,
+            writtenPaths,
+            snippet,
+            warnings: poster.warnings,
+          },
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "Unknown error";
+        log.error("Poster creation failed", { url, path, error: errorMessage });
+
+        return {
+          content: [{ type: "text" as const, text: `Failed to create poster: ${errorMessage}` }],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    tool.name,
+    { description: tool.description, inputSchema: tool.schema, outputSchema },
+    tool.handler
+  );
+};
@@ -0,0 +1,370 @@
+import { z } from "zod";
+import { ToolRegistrar } from "../types/tool.js";
+import { createLogger } from "../utils/logger.js";
+import {
+  DOTLOTTIE_ID_PATTERN,
+  DotLottiePackInput,
+  LottieDocument,
+  MAX_DOCUMENT_BYTES,
+  fetchTrusted,
+  isZip,
+  loadLottie,
+  packDotLottie,
+  readLocalFile,
+  unpackDotLottie,
+  writeLocalFile,
+} from "../lottie/index.js";
+import { MAX_INLINE_JSON_SIZE, lottieSourceShape } from "./source.js";
+
+const log = createLogger("dotlottie");
+
+/**
+ * Maximum number of animations packed into one archive
+ */
+const MAX_PACKED_ANIMATIONS = 20;
+
+/**
+ * Summary fields shared by unpacked and packed animations
+ */
+const animationSummaryShape = {
+  id: z.string(),
+  width: z.number(),
+  height: z.number(),
+  frameRate: z.number(),
+  durationSeconds: z.number().nullable(),
+  layers: z.number(),
+};
+
+/**
+ * Structured output of unpack_dotlottie
+ */
+const unpackOutputSchema = {
+  version: z.number().describe("Archive layout version (1 or 2)"),
+  generator: z.string().nullable(),
+  author: z.string().nullable(),
+  activeAnimationId: z.string().nullable(),
+  animations: z.array(
+    z.object({
+      ...animationSummaryShape,
+      speed: z.number().nullable(),
+      loop: z.union([z.boolean(), z.number()]).nullable(),
+      autoplay: z.boolean().nullable(),
+      missingImages: z.array(z.string()),
+      writtenPath: z.string().nullable(),
+    })
+  ),
+  images: z.array(z.object({ path: z.string(), bytes: z.number() })),
+  otherFiles: z.array(z.string()).describe("Other archive files (themes, state machines, ...), not extracted"),
+};
+
+/**
+ * Structured output of pack_dotlottie
+ */
+const packOutputSchema = {
+  path: z.string().describe("Absolute path written"),
+  bytes: z.number(),
+  version: z.number(),
+  activeAnimationId: z.string(),
+  animations: z.array(z.object(animationSummaryShape)),
+  images: z.array(z.object({ path: z.string(), bytes: z.number() })),
+};
+
+/**
+ * Summarizes a document for the structured output
+ */
+function summarize(id: string, doc: LottieDocument) {
+  return {
+    id,
+    width: doc.w,
+    height: doc.h,
+    frameRate: doc.fr,
+    durationSeconds: doc.fr > 0 ? Math.round(((doc.op - doc.ip) / doc.fr) * 1000) / 1000 : null,
+    layers: doc.layers.length,
+  };
+}
+
+/**
+ * Derives an archive id from a file name or URL, e.g. "src/success-check.json" -> "success-check"
+ */
+function idFromName(name: string | undefined, index: number): string {
+  const base = name?.split(/[?#]/)[0].split("/").pop()?.replace(/\.(json|lottie)$/i, "") ?? "";
+  const id = base.replace(/[^A-Za-z0-9_-]+/g, "_").replace(/^_+|_+$/g, "");
+  return id || `animation_${index + 1}`;
+}
+
+/**
+ * Register the dotLottie archive tools
+ */
+export const register: ToolRegistrar = (server, wrapTool) => {
+  // ==================== UNPACK DOTLOTTIE ====================
+  const unpackTool = wrapTool(
+    "unpack_dotlottie",
+    "Unpack a dotLottie (.lottie) archive: lists its manifest, animations and images, and returns each animation as Lottie JSON (with images embedded) or writes them into a project folder.",
+    {
+      url: z
+        .string()
+        .url()
+        .optional()
+        .describe("dotLottie URL from LottieFiles (from search results or get_animation)"),
+      path: z
+        .string()
+        .min(1)
+        .optional()
+        .describe(".lottie file path inside the project (relative to the project root), as an alternative to `url`"),
+      output_dir: z
+        .string()
+        .min(1)
+        .optional()
+        .describe("Write each animation to <output_dir>/<id>.json inside the project instead of returning the JSON"),
+      overwrite: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe("Allow replacing existing files in output_dir (default: false)"),
+    },
+    async ({ url, path, output_dir, overwrite = false }) => {
+      log.info("Unpacking dotLottie", { url, path, output_dir });
+
+      if ((url === undefined) === (path === undefined)) {
+        return {
+          content: [{ type: "text" as const, text: "Provide exactly one of `url` or `path`." }],
+          isError: true,
+        };
+      }
+
+      try {
+        const body = url ? await fetchTrusted(url) : await readLocalFile(path as string, MAX_DOCUMENT_BYTES);
+        if (!isZip(body)) {
+          return {
+            content: [{ type: "text" as const, text: `${url ?? path} is not a dotLottie archive. Use inspect_animation or download_animation for Lottie JSON.` }],
+            isError: true,
+          };
+        }
+
+        const archive = unpackDotLottie(body);
+        const jsonById = new Map(archive.animations.map((a) => [a.id, JSON.stringify(a.document)]));
+
+        const written = new Map<string, string>();
+        if (output_dir) {
+          for (const animation of archive.animations) {
+            const target = `${output_dir.replace(/\/+$/, "")}/${animation.id}.json`;
+            written.set(animation.id, await writeLocalFile(target, jsonById.get(animation.id) as string, { overwrite }));
+          }
+        }
+
+        const lines: string[] = [
+          "# dotLottie Archive",
+          "",
+          `**Source:** ${url ?? path}`,
+          `**Size:** ${(body.byteLength / 1024).toFixed(1)}KB`,
+          `**Manifest:** version ${archive.manifest.version ?? archive.version}${archive.manifest.generator ? `, generated by ${archive.manifest.generator}` : ""}${archive.manifest.author ? `, author ${archive.manifest.author}` : ""}`,
+          "",
+          `## Animations (${archive.animations.length})`,
+        ];
+        for (const animation of archive.animations) {
+          const { document: doc, manifest: settings } = animation;
+          const active = animation.id === archive.manifest.activeAnimationId ? " (active)" : "";
+          const playback = [
+            settings.speed !== undefined ? `speed ${settings.speed}` : null,
+            settings.loop !== undefined ? `loop ${settings.loop}` : null,
+            settings.autoplay !== undefined ? `autoplay ${settings.autoplay}` : null,
+          ].filter(Boolean);
+          lines.push(
+            `- **${animation.id}**${active}: ${doc.w}x${doc.h}, ${((doc.op - doc.ip) / doc.fr).toFixed(2)}s at ${doc.fr}fps, ${doc.layers.length} layers${playback.length > 0 ? ` (${playback.join(", ")})` : ""}`
+          );
+          if (animation.missingImages.length > 0) {
+            lines.push(`  - Missing images: ${animation.missingImages.join(", ")}`);
+          }
+          const writtenPath = written.get(animation.id);
+          if (writtenPath) {
+            lines.push(`  - Written to: ${writtenPath}`);
+          }
+        }
+
+        if (archive.images.length > 0) {
+          lines.push("");
+          lines.push(`## Images (${archive.images.length}, embedded into the animations)`);
+          for (const image of archive.images) {
+            lines.push(`- ${image.path} (${(image.data.byteLength / 1024).toFixed(1)}KB)`);
+          }
+        }
+        if (archive.otherFiles.length > 0) {
+          lines.push("");
+          lines.push(`**Other files (not extracted):** ${archive.otherFiles.map((f) => f.path).join(", ")}`);
+        }
+
+        if (!output_dir) {
+          const totalSize = [...jsonById.values()].reduce((sum, json) => sum + json.length, 0);
+          lines.push("");
+          if (totalSize > MAX_INLINE_JSON_SIZE) {
+            lines.push(`The animations are too large to return inline (${(totalSize / 1024).toFixed(1)}KB). Call again with \`output_dir\` to write them to files.`);
+          } else {
+            for (const [id, json] of jsonById) {
+              lines.push(`## JSON: ${id} (${(Buffer.byteLength(json, "utf-8") / 1024).toFixed(1)}KB)\n\`\`\`json\n${json}\n\`\`\``);
+            }
+          }
+        }
+
+        log.info("dotLottie unpacked", { source: url ?? path, animations: archive.animations.length, images: archive.images.length });
+
+        return {
+          content: [{ type: "text" as const, text: lines.join("\n") }],
+          structuredContent: {
+            version: archive.version,
+            generator: archive.manifest.generator ?? null,
+            author: archive.manifest.author ?? null,
+            activeAnimationId: archive.manifest.activeAnimationId ?? null,
+            animations: archive.animations.map((animation) => ({
+              ...summarize(animation.id, animation.document),
+              speed: animation.manifest.speed ?? null,
+              loop: animation.manifest.loop ?? null,
+              autoplay: animation.manifest.autoplay ?? null,
+              missingImages: animation.missingImages,
+              writtenPath: written.get(animation.id) ?? null,
+            })),
+            images: archive.images.map((image) => ({ path: image.path, bytes: image.data.byteLength })),
+            otherFiles: archive.otherFiles.map((file) => file.path),
+          },
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "Unknown error";
+        log.error("Unpack failed", { url, path, error: errorMessage });
+
+        return {
+          content: [{ type: "text" as const, text: `Failed to unpack dotLottie: ${errorMessage}` }],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    unpackTool.name,
+    { description: unpackTool.description, inputSchema: unpackTool.schema, outputSchema: unpackOutputSchema },
+    unpackTool.handler
+  );
+
+  // ==================== PACK DOTLOTTIE ====================
+  const packTool = wrapTool(
+    "pack_dotlottie",
+    "Package one or more Lottie JSON animations into a dotLottie (.lottie) file inside the project, with a generated manifest. Embedded images are stored as separate files in the archive. dotLottie files are much smaller than JSON and work with the LottieFiles players.",
+    {
+      animations: z
+        .array(
+          z.object({
+            ...lottieSourceShape,
+            id: z
+              .string()
+              .regex(DOTLOTTIE_ID_PATTERN, "Animation id must be alphanumeric with dashes/underscores")
+              .optional()
+              .describe("Id inside the archive (default: derived from the file name)"),
+            speed: z.number().positive().optional().describe("Playback speed (default: 1)"),
+            loop: z.boolean().optional().describe("Loop playback (default: true)"),
+            autoplay: z.boolean().optional().describe("Start playing automatically (default: true)"),
+          })
+        )
+        .min(1)
+        .max(MAX_PACKED_ANIMATIONS)
+        .describe("Animations to pack, each from a `url`, `path` or `json`. The first is the active animation unless active_animation_id is set"),
+      output_path: z
+        .string()
+        .min(1)
+        .refine((value) => value.toLowerCase().endsWith(".lottie"), "Must end with .lottie")
+        .describe("Destination .lottie file inside the project (relative to the project root)"),
+      overwrite: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe("Replace the file if it already exists (default: false)"),
+      version: z
+        .union([z.literal(1), z.literal(2)])
+        .optional()
+        .default(1)
+        .describe("dotLottie format version: 1 (default, widest player support) or 2 (newer players; playback settings are not stored)"),
+      author: z.string().max(100).optional().describe("Author recorded in the manifest"),
+      active_animation_id: z.string().optional().describe("Id of the animation players show first"),
+    },
+    async ({ animations, output_path, overwrite = false, version = 1, author, active_animation_id }) => {
+      log.info("Packing dotLottie", { count: animations.length, output_path, version });
+
+      try {
+        const inputs: DotLottiePackInput[] = [];
+        const usedIds = new Set<string>();
+        for (const [index, entry] of animations.entries()) {
+          const { document } = await loadLottie({
+            url: entry.url,
+            path: entry.path,
+            json: entry.json,
+            animationId: entry.animation_id,
+          });
+
+          const base = entry.id ?? idFromName(entry.path ?? entry.url, index);
+          let id = base;
+          if (!entry.id) {
+            // Derived ids get a numeric suffix instead of failing on duplicates
+            for (let n = 2; usedIds.has(id); n++) {
+              id = `${base}_${n}`;
+            }
+          }
+          usedIds.add(id);
+          inputs.push({ id, document, speed: entry.speed, loop: entry.loop, autoplay: entry.autoplay });
+        }
+
+        const packed = packDotLottie(inputs, {
+          version,
+          author,
+          activeAnimationId: active_animation_id,
+        });
+        const writtenPath = await writeLocalFile(output_path, packed.data, { overwrite });
+        const jsonSize = inputs.reduce((sum, input) => sum + Buffer.byteLength(JSON.stringify(input.document), "utf-8"), 0);
+
+        const lines: string[] = [
+          "# dotLottie Created",
+          "",
+          `**Path:** ${writtenPath}`,
+          `**Size:** ${(packed.data.byteLength / 1024).toFixed(1)}KB (from ${(jsonSize / 1024).toFixed(1)}KB of JSON)`,
+          `**Format:** dotLottie version ${version}`,
+          "",
+          `## Animations (${inputs.length})`,
+        ];
+        for (const input of inputs) {
+          const doc = input.document;
+          const active = input.id === packed.manifest.activeAnimationId ? " (active)" : "";
+          lines.push(`- **${input.id}**${active}: ${doc.w}x${doc.h}, ${((doc.op - doc.ip) / doc.fr).toFixed(2)}s at ${doc.fr}fps`);
+        }
+        if (packed.images.length > 0) {
+          lines.push("");
+          lines.push(`**Images:** ${packed.images.map((image) => image.path).join(", ")}`);
+        }
+
+        log.info("dotLottie packed", { writtenPath, bytes: packed.data.byteLength, animations: inputs.length });
+
+        return {
+          content: [{ type: "text" as const, text: lines.join("\n") }],
+          structuredContent: {
+            path: writtenPath,
+            bytes: packed.data.byteLength,
+            version,
+            activeAnimationId: packed.manifest.activeAnimationId as string,
+            animations: inputs.map((input) => summarize(input.id, input.document)),
+            images: packed.images,
+          },
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "Unknown error";
+        log.error("Pack failed", { output_path, error: errorMessage });
+
+        return {
+          content: [{ type: "text" as const, text: `Failed to pack dotLottie: ${errorMessage}` }],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    packTool.name,
+    { description: packTool.description, inputSchema: packTool.schema, outputSchema: packOutputSchema },
+    packTool.handler
+  );
+};
@@ -1,6 +1,15 @@
 import { z } from "zod";
 import { ToolRegistrar } from "../types/tool.js";
 import { createLogger } from "../utils/logger.js";
+import {
+  TRUSTED_DOMAINS,
+  fetchTrusted,
+  isTrustedUrl,
+  isZip,
+  selectDotLottieAnimation,
+  unpackDotLottie,
+} from "../lottie/index.js";
+import { generateIntegration } from "../integration/index.js";
 
 const log = createLogger("download_animation");
 
@@ -18,49 +27,36 @@ const MAX_JSON_SIZE = 100000; // 100KB
 export const register: ToolRegistrar = (server, wrapTool) => {
   const tool = wrapTool(
     "download_animation",
-    "Download a Lottie animation JSON by URL. Returns the actual JSON data that you can use directly in your app. For large animations, consider using the URL directly instead.",
+    "Download a Lottie animation JSON by URL. Returns the actual JSON data that you can use directly in your app. dotLottie (.lottie) URLs are unpacked and one animation's JSON is returned. To put the file in your project (any size), use save_animation instead.",
     {
       url: z
         .string()
         .url()
-        .describe("The animation JSON URL (from search results or get_animation)"),
+        .describe("The animation JSON or dotLottie URL (from search results or get_animation)"),
       format: z
         .enum(["json", "minified"])
         .optional()
         .default("minified")
         .describe("Output format: 'json' (pretty-printed) or 'minified' (compact, default)"),
+      animation_id: z
+        .string()
+        .min(1)
+        .optional()
+        .describe("Animation to return from a dotLottie file that contains several (default: its active or first animation)"),
     },
-    async ({ url, format = "minified" }) => {
+    async ({ url, format = "minified", animation_id }) => {
       log.info("Downloading animation", { url, format });
 
-      // Validate URL is from a trusted source
-      const trustedDomains = [
-        "lottie.host",
-        "assets.lottiefiles.com",
-        "assets-v2.lottiefiles.com",
-        "assets1.lottiefiles.com",
-        "assets2.lottiefiles.com",
-        "assets3.lottiefiles.com",
-        "assets4.lottiefiles.com",
-        "assets5.lottiefiles.com",
-        "assets6.lottiefiles.com",
-        "assets7.lottiefiles.com",
-        "assets8.lottiefiles.com",
-        "assets9.lottiefiles.com",
-        "assets10.lottiefiles.com",
-      ];
-
       try {
-        const urlObj = new URL(url);
-        const hostname = urlObj.hostname;
+        const hostname = new URL(url).hostname;
 
-        if (!trustedDomains.some((domain) => hostname === domain || hostname.endsWith(`.${domain}`))) {
+        if (!isTrustedUrl(url)) {
           log.warn("Untrusted domain", { url, hostname });
           return {
             content: [
               {
                 type: "text" as const,
-                text: `For security, only URLs from LottieFiles CDN are supported. Trusted domains: ${trustedDomains.slice(0, 3).join(", ")}...`,
+                text: `For security, only URLs from LottieFiles CDN are supported. Trusted domains: ${TRUSTED_DOMAINS.slice(0, 3).join(", ")}...`,
               },
             ],
             isError: true,
@@ -79,59 +75,35 @@ export const register: ToolRegistrar = (server, wrapTool) => {
       }
 
       try {
-        const response = await fetch(url, {
-          headers: {
-            "User-Agent": "LottieAnimationSearch-MCP/1.0",
-            Accept: "application/json",
-          },
-        });
-
-        if (!response.ok) {
-          log.error("Download failed", { url, status: response.status });
-          return {
-            content: [
-              {
-                type: "text" as const,
-                text: `Failed to download animation: HTTP ${response.status}`,
-              },
-            ],
-            isError: true,
-          };
-        }
-
-        const contentType = response.headers.get("content-type") || "";
-        
-        // Handle .lottie files (which are actually ZIP archives)
-        if (url.endsWith(".lottie") || contentType.includes("application/zip")) {
-          log.info("dotLottie format detected, providing guidance");
-          return {
-            content: [
-              {
-                type: "text" as const,
-                text: `This is a dotLottie file (.lottie format), which is a compressed archive containing the animation.
-
-To use it:
-1. **In HTML with lottie-player:**
-   \`\`\`html
-   <script src="https://unpkg.com/@lottiefiles/lottie-player@latest/dist/lottie-player.js"></script>
-   <lottie-player src="${url}" background="transparent" speed="1" loop autoplay></lottie-player>
-   \`\`\`
-
-2. **In React:**
-   \`\`\`jsx
-   import { DotLottieReact } from '@lottiefiles/dotlottie-react';
-   <DotLottieReact src="${url}" loop autoplay />
-   \`\`\`
-
-3. **For raw JSON:** Try searching for the same animation and look for the JSON URL instead of dotLottie URL.
-
-The dotLottie format is more efficient (smaller file size) and is recommended for production use.`,
-              },
-            ],
-          };
+        const body = await fetchTrusted(url);
+        const isArchive = isZip(body) || url.split(/[?#]/)[0].endsWith(".lottie");
+
+        // dotLottie files are ZIP archives: return the JSON of one of their animations
+        let text: string;
+        let archiveNote = "";
+        if (isArchive) {
+          log.info("dotLottie format detected, unpacking", { url });
+          const archive = unpackDotLottie(body);
+          const animation = selectDotLottieAnimation(archive, animation_id);
+          text = JSON.stringify(animation.document);
+          const others = archive.animations.filter((a) => a.id !== animation.id).map((a) => a.id);
+          archiveNote = `**dotLottie:** extracted animation "${animation.id}" from the archive${others.length > 0 ? ` (also contains: ${others.join(", ")}; pass animation_id to pick another)` : ""}.${archive.images.length > 0 ? " Images are embedded as data URIs." : ""}\n`;
+        } else {
+          if (animation_id !== undefined) {
+            return {
+              content: [{ type: "text" as const, text: "`animation_id` only applies to dotLottie (.lottie) files" }],
+              isError: true,
+            };
+          }
+          text = new TextDecoder().decode(body);
         }
 
-        const text = await response.text();
+        // lottie-player only reads JSON, so dotLottie URLs get pointed at the dotLottie players
+        const usage = isArchive
+          ? "Play .lottie URLs with a dotLottie player, e.g. `generate_integration(framework: \"react-dotlottie\")`."
+          : "```html\n" +
+            generateIntegration("html", { name: "animation", source: { kind: "remote", jsonUrl: url, dotLottieUrl: null } }).files[0].code +
+            "\n```";
 
         // Check size
         if (text.length > MAX_JSON_SIZE) {
@@ -142,11 +114,9 @@ The dotLottie format is more efficient (smaller file size) and is recommended fo
                 type: "text" as const,
                 text: `Animation JSON is too large (${(text.length / 1024).toFixed(1)}KB). For large animations, use the URL directly in your app:
 
-\`\`\`html
-<lottie-player src="${url}" background="transparent" speed="1" loop autoplay></lottie-player>
-\`\`\`
+${usage}
 
-Or download it manually and save to a file.`,
+Or save it into your project with \`save_animation(url: "${url}", path: "src/assets/animation.${isArchive ? "lottie" : "json"}")\`.`,
               },
             ],
           };
@@ -187,7 +157,7 @@ Or download it manually and save to a file.`,
         const header = `# Lottie Animation JSON
 
 **Source:** ${url}
-**Size:** ${(text.length / 1024).toFixed(1)}KB
+${archiveNote}**Size:** ${(text.length / 1024).toFixed(1)}KB
 ${metadata.length > 0 ? `**Metadata:** ${metadata.join(" | ")}` : ""}
 
 ## JSON Data
@@ -198,17 +168,9 @@ ${metadata.length > 0 ? `**Metadata:** ${metadata.join(" | ")}` : ""}
 \`\`\`
 
 ## Usage Example
-\`\`\`html
-<script src="https://unpkg.com/@lottiefiles/lottie-player@latest/dist/lottie-player.js"></script>
-<lottie-player 
-  src='${url}' 
-  background="transparent" 
-  speed="1" 
-  style="width: 300px; height: 300px;"
-  loop 
-  autoplay>
-</lottie-player>
-\`\`\``;
+${usage}
+
+For React, Vue, Svelte, Angular, React Native, Flutter, SwiftUI or Jetpack Compose code, use generate_integration.`;
 
         log.info("Animation downloaded", { url, size: text.length });
 
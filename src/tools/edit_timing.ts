@@ -0,0 +1,220 @@
+import { z } from "zod";
+import { ToolRegistrar } from "../types/tool.js";
+import { createLogger } from "../utils/logger.js";
+import { LottieDocument, TimingEdits, editTiming, listSegments, loadLottie } from "../lottie/index.js";
+import { deliverLottie, lottieOutputShape, lottieSourceShape } from "./source.js";
+
+const log = createLogger("edit_timing");
+
+/**
+ * Timeline summary used for before/after output
+ */
+const timelineShape = z.object({
+  ip: z.number(),
+  op: z.number(),
+  frameRate: z.number(),
+  durationSeconds: z.number(),
+});
+
+/**
+ * Structured output returned alongside the Markdown text
+ */
+const outputSchema = {
+  before: timelineShape,
+  after: timelineShape,
+  markers: z.array(z.object({ name: z.string(), start: z.number(), end: z.number() })).describe("Markers of the edited animation, in frames"),
+  warnings: z.array(z.string()),
+  writtenPath: z.string().nullable().describe("File written, or null if the JSON was returned inline"),
+  bytes: z.number().describe("Size of the edited JSON"),
+};
+
+/**
+ * Summarizes a document's timeline
+ */
+function timeline(doc: LottieDocument) {
+  return {
+    ip: round(doc.ip),
+    op: round(doc.op),
+    frameRate: doc.fr,
+    durationSeconds: round((doc.op - doc.ip) / doc.fr),
+  };
+}
+
+/**
+ * Rounds for display (retiming produces fractional frames)
+ */
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+/**
+ * Formats a timeline summary
+ */
+function formatTimeline(summary: ReturnType<typeof timeline>): string {
+  return `frames ${summary.ip}-${summary.op} (${summary.durationSeconds}s at ${summary.frameRate}fps)`;
+}
+
+/**
+ * Edit the timing of a Lottie animation.
+ *
+ * Trims to a range or marker segment, changes speed by retiming keyframes,
+ * reverses playback and adds named markers for segments.
+ */
+export const register: ToolRegistrar = (server, wrapTool) => {
+  const tool = wrapTool(
+    "edit_timing",
+    "Edit the timing of a Lottie animation: trim to a frame/time range or an existing marker segment (e.g. keep only the part where the check appears), change playback speed by retiming keyframes, reverse it, and add named markers for segments players can play on their own. Returns or writes the edited JSON.",
+    {
+      ...lottieSourceShape,
+      unit: z
+        .enum(["frames", "seconds"])
+        .optional()
+        .default("frames")
+        .describe("Unit of start, end and marker times (default: frames). Seconds count from the start of the timeline"),
+      start: z.number().min(0).optional().describe("Trim: first frame/time to keep (default: the start of the animation)"),
+      end: z.number().min(0).optional().describe("Trim: frame/time to end at (default: the end of the animation)"),
+      segment: z
+        .string()
+        .min(1)
+        .optional()
+        .describe("Trim to the range of this existing marker, as an alternative to start/end (inspect_animation lists markers)"),
+      speed: z
+        .number()
+        .min(0.1)
+        .max(10)
+        .optional()
+        .describe("Playback speed factor, e.g. 2 for twice as fast or 0.5 for half speed. Keyframes are retimed; the frame rate is kept"),
+      reverse: z.boolean().optional().default(false).describe("Play the animation backwards"),
+      markers: z
+        .array(z.object({
+          name: z.string().min(1).max(100),
+          start: z.number().min(0),
+          end: z.number().min(0),
+        }))
+        .max(50)
+        .optional()
+        .describe("Named markers to add (replacing markers with the same name), in the edited timeline. Players can play a marker as a segment"),
+      ...lottieOutputShape,
+    },
+    async ({ url, path, json, animation_id, unit = "frames", start, end, segment, speed, reverse = false, markers, output_path, overwrite = false }) => {
+      log.info("Editing timing", { url, path, inline: json !== undefined, unit, start, end, segment, speed, reverse, output_path });
+
+      const trimming = start !== undefined || end !== undefined;
+      if (segment !== undefined && trimming) {
+        return {
+          content: [{ type: "text" as const, text: "Provide either `segment` or `start`/`end`, not both." }],
+          isError: true,
+        };
+      }
+      if (!trimming && segment === undefined && speed === undefined && !reverse && !markers?.length) {
+        return {
+          content: [{ type: "text" as const, text: "Nothing to do: provide a trim range (`start`/`end` or `segment`), `speed`, `reverse` or `markers`." }],
+          isError: true,
+        };
+      }
+
+      try {
+        const { document, source } = await loadLottie({ url, path, json, animationId: animation_id });
+        const toFrame = (doc: LottieDocument, value: number) => (unit === "seconds" ? doc.ip + value * doc.fr : value);
+
+        const edits: TimingEdits = { speed, reverse };
+        if (segment !== undefined) {
+          const found = listSegments(document).find((s) => s.name === segment);
+          if (!found) {
+            const names = listSegments(document).map((s) => s.name);
+            return {
+              content: [{ type: "text" as const, text: `No marker named "${segment}". ${names.length > 0 ? `Available markers: ${names.join(", ")}` : "The animation has no markers."}` }],
+              isError: true,
+            };
+          }
+          edits.trim = { start: found.start, end: found.end };
+        } else if (trimming) {
+          edits.trim = {
+            start: start !== undefined ? toFrame(document, start) : document.ip,
+            end: end !== undefined ? toFrame(document, end) : document.op,
+          };
+        }
+
+        const { document: retimed, warnings } = editTiming(document, edits);
+        // Marker times refer to the edited timeline, so they are converted against it
+        const edited = markers?.length
+          ? editTiming(retimed, {
+              markers: markers.map((m) => ({ name: m.name, start: toFrame(retimed, m.start), end: toFrame(retimed, m.end) })),
+            }).document
+          : retimed;
+
+        const delivered = await deliverLottie(edited, { output_path, overwrite });
+        const before = timeline(document);
+        const after = timeline(edited);
+        const segments = listSegments(edited).map((s) => ({ name: s.name, start: round(s.start), end: round(s.end) }));
+
+        const changes: string[] = [];
+        if (edits.trim) {
+          changes.push(`- Trimmed to frames ${round(edits.trim.start)}-${round(edits.trim.end)}${segment ? ` (marker "${segment}")` : ""}`);
+        }
+        if (speed !== undefined && speed !== 1) {
+          changes.push(`- Speed ×${speed}`);
+        }
+        if (reverse) {
+          changes.push("- Reversed");
+        }
+        if (markers?.length) {
+          changes.push(`- Added markers: ${markers.map((m) => m.name).join(", ")}`);
+        }
+
+        const lines: string[] = [
+          "# Edited Timing",
+          "",
+          `**Source:** ${source}`,
+          `**Before:** ${formatTimeline(before)}`,
+          `**After:** ${formatTimeline(after)}`,
+          "",
+          "## Changes",
+          ...changes,
+        ];
+        if (segments.length > 0) {
+          lines.push("");
+          lines.push("## Markers");
+          for (const s of segments) {
+            lines.push(`- ${s.name}: frames ${s.start}-${s.end}`);
+          }
+        }
+        if (warnings.length > 0) {
+          lines.push("");
+          lines.push("## Warnings");
+          lines.push(...warnings.map((warning) => `- ${warning}`));
+        }
+        lines.push("");
+        lines.push(delivered.text);
+
+        log.info("Timing edited", { source, before, after, writtenPath: delivered.writtenPath });
+
+        return {
+          content: [{ type: "text" as const, text: lines.join("\n") }],
+          structuredContent: {
+            before,
+            after,
+            markers: segments,
+            warnings,
+            writtenPath: delivered.writtenPath,
+            bytes: delivered.bytes,
+          },
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "Unknown error";
+        log.error("Timing edit failed", { url, path, error: errorMessage });
+
+        return {
+          content: [{ type: "text" as const, text: `Failed to edit timing: ${errorMessage}` }],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    tool.name,
+    { description: tool.description, inputSchema: tool.schema, outputSchema },
+    tool.handler
+  );
+};
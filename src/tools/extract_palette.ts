@@ -0,0 +1,132 @@
+import { z } from "zod";
+import { ToolRegistrar } from "../types/tool.js";
+import { createLogger } from "../utils/logger.js";
+import { collectColors, extractPalette, loadLottie } from "../lottie/index.js";
+import { lottieSourceShape } from "./source.js";
+
+const log = createLogger("extract_palette");
+
+/**
+ * Maximum layers listed per color in the Markdown text
+ */
+const MAX_LAYERS_LISTED = 5;
+
+/**
+ * Structured output returned alongside the Markdown text
+ */
+const outputSchema = {
+  palette: z.array(
+    z.object({
+      hex: z.string().describe("Representative color (the most used member)"),
+      weight: z.number().describe("Share of total color usage, 0-1"),
+      members: z.array(z.string()).describe("Distinct colors merged into this entry"),
+      usages: z.number(),
+      layers: z.array(
+        z.object({ name: z.string(), composition: z.string(), kinds: z.array(z.string()) })
+      ),
+      animated: z.boolean().describe("Whether any usage comes from animated keyframes"),
+    })
+  ),
+  distinctColors: z.number().describe("Distinct colors found before clustering"),
+  totalUsages: z.number(),
+};
+
+/**
+ * Extract the color palette of a Lottie animation.
+ *
+ * Walks fills, strokes, gradients, solid layers and text (including animated
+ * color keyframes), then clusters similar colors into a weighted palette.
+ */
+export const register: ToolRegistrar = (server, wrapTool) => {
+  const tool = wrapTool(
+    "extract_palette",
+    "Extract the color palette of a Lottie animation: walks fills, strokes, gradients, solid layers and text (including animated colors), clusters similar colors, and returns hex values with usage weights and the layers using each color. Use it to check brand fit before downloading.",
+    {
+      ...lottieSourceShape,
+      max_colors: z
+        .number()
+        .int()
+        .min(1)
+        .max(32)
+        .optional()
+        .default(12)
+        .describe("Maximum palette size (1-32, default: 12). Similar colors are merged to fit"),
+      threshold: z
+        .number()
+        .min(0)
+        .max(50)
+        .optional()
+        .default(8)
+        .describe("Merge colors closer than this perceptual distance (CIE delta E, default: 8; 0 keeps every distinct color)"),
+    },
+    async ({ url, path, json, animation_id, max_colors = 12, threshold = 8 }) => {
+      log.info("Extracting palette", { url, path, inline: json !== undefined, max_colors, threshold });
+
+      try {
+        const { document, source } = await loadLottie({ url, path, json, animationId: animation_id });
+        const usages = collectColors(document);
+        const palette = extractPalette(usages, { maxColors: max_colors, threshold });
+        const distinctColors = new Set(palette.flatMap((c) => c.members)).size;
+        const structuredContent = { palette, distinctColors, totalUsages: usages.length };
+
+        if (palette.length === 0) {
+          return {
+            content: [{ type: "text" as const, text: `No colors found in ${source}. The animation may only use images or precomps without shapes.` }],
+            structuredContent,
+          };
+        }
+
+        const lines: string[] = [
+          "# Color Palette",
+          "",
+          `**Source:** ${source}`,
+          `Found ${distinctColors} distinct colors in ${usages.length} usages, grouped into ${palette.length}:`,
+          "",
+        ];
+
+        palette.forEach((color, index) => {
+          const share = `${(color.weight * 100).toFixed(1)}%`;
+          lines.push(`## ${index + 1}. ${color.hex} (${share})`);
+          if (color.members.length > 1) {
+            lines.push(`**Similar shades:** ${color.members.slice(1).join(", ")}`);
+          }
+          const layerList = color.layers
+            .slice(0, MAX_LAYERS_LISTED)
+            .map((l) => `${l.name}${l.composition !== "root" ? ` [${l.composition}]` : ""} (${l.kinds.join(", ")})`);
+          if (color.layers.length > MAX_LAYERS_LISTED) {
+            layerList.push(`+${color.layers.length - MAX_LAYERS_LISTED} more`);
+          }
+          lines.push(`**Used by:** ${layerList.join("; ")}`);
+          if (color.animated) {
+            lines.push("**Animated:** yes (appears in color keyframes)");
+          }
+          lines.push("");
+        });
+
+        lines.push("---");
+        lines.push(`**Hex list:** ${palette.map((c) => c.hex).join(", ")}`);
+
+        log.info("Palette extracted", { source, colors: palette.length, usages: usages.length });
+
+        return {
+          content: [{ type: "text" as const, text: lines.join("\n") }],
+          structuredContent,
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "Unknown error";
+        log.error("Palette extraction failed", { url, path, error: errorMessage });
+
+        return {
+          content: [{ type: "text" as const, text: `Failed to extract palette: ${errorMessage}` }],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    tool.name,
+    { description: tool.description, inputSchema: tool.schema, outputSchema },
+    tool.handler
+  );
+};
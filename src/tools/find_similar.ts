@@ -1,61 +1,19 @@
 import { z } from "zod";
 import { ToolRegistrar } from "../types/tool.js";
 import { createLogger } from "../utils/logger.js";
+import { getLottieFilesClient } from "../lottiefiles/index.js";
+import { formatCacheNote } from "./format.js";
+import { animationListOutputShape, toAnimationListOutput } from "./output.js";
 
 const log = createLogger("find_similar");
 
 /**
- * LottieFiles GraphQL API endpoint
+ * Structured output returned alongside the Markdown text
  */
-const LOTTIEFILES_API = "https://graphql.lottiefiles.com/2022-08";
-
-/**
- * GraphQL query for searching animations
- */
-const SEARCH_QUERY = `
-  query SearchSimilar($query: String!, $limit: Int!) {
-    searchPublicAnimations(query: $query, first: $limit) {
-      totalCount
-      edges {
-        node {
-          id
-          name
-          description
-          downloads
-          likesCount
-          lottieUrl
-          jsonUrl
-          gifUrl
-          createdBy {
-            username
-          }
-        }
-      }
-    }
-  }
-`;
-
-interface LottieAnimation {
-  id: string;
-  name: string;
-  description: string | null;
-  downloads: number;
-  likesCount: number;
-  lottieUrl: string | null;
-  jsonUrl: string | null;
-  gifUrl: string | null;
-  createdBy: { username: string } | null;
-}
-
-interface SearchResponse {
-  data: {
-    searchPublicAnimations: {
-      totalCount: number;
-      edges: Array<{ node: LottieAnimation }>;
-    };
-  };
-  errors?: Array<{ message: string }>;
-}
+const outputSchema = {
+  sourceId: z.string(),
+  ...animationListOutputShape,
+};
 
 /**
  * Find similar Lottie animations based on keywords/tags.
@@ -84,40 +42,12 @@ export const register: ToolRegistrar = (server, wrapTool) => {
     async ({ id, limit = 10 }) => {
       log.info("Finding similar animations", { id, limit });
 
-      // Since the public API doesn't support getting animation details by ID,
-      // we'll search using the ID as a keyword and suggest using search_by_tags instead
+      // The public API doesn't expose tags, so search using the ID as a keyword
+      // and suggest search_by_tags when nothing related turns up
       try {
-        const response = await fetch(LOTTIEFILES_API, {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            "User-Agent": "LottieAnimationSearch-MCP/1.0",
-          },
-          body: JSON.stringify({
-            query: SEARCH_QUERY,
-            variables: { query: id, limit },
-          }),
-        });
-
-        if (!response.ok) {
-          return {
-            content: [{ type: "text" as const, text: `Search failed: HTTP ${response.status}` }],
-            isError: true,
-          };
-        }
-
-        const result: SearchResponse = await response.json();
-
-        if (result.errors?.length) {
-          return {
-            content: [{ type: "text" as const, text: `Search failed: ${result.errors.map(e => e.message).join(", ")}` }],
-            isError: true,
-          };
-        }
-
-        const animations = result.data.searchPublicAnimations.edges
-          .map(e => e.node)
-          .filter(a => a.id !== id); // Exclude the source animation
+        const page = await getLottieFilesClient().search({ query: id, first: limit });
+        const animations = page.animations.filter(a => a.id !== id); // Exclude the source animation
+        const structuredContent = { sourceId: id, ...toAnimationListOutput(page, animations) };
 
         if (animations.length === 0) {
           return {
@@ -125,6 +55,7 @@ export const register: ToolRegistrar = (server, wrapTool) => {
               type: "text" as const,
               text: `No similar animations found for ID: ${id}\n\n**Tip:** The LottieFiles public API has limited support for finding similar animations.\n\nTry these alternatives:\n- Use \`search_by_tags\` with style keywords like "minimal", "flat", "colorful"\n- Use \`search_animations\` with descriptive keywords\n- Use \`search_with_style\` with a saved style preset`,
             }],
+            structuredContent,
           };
         }
 
@@ -169,7 +100,8 @@ export const register: ToolRegistrar = (server, wrapTool) => {
         });
 
         return {
-          content: [{ type: "text" as const, text: lines.join("\n") }],
+          content: [{ type: "text" as const, text: lines.join("\n") + formatCacheNote(page.cached) }],
+          structuredContent,
         };
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : "Unknown error";
@@ -183,5 +115,9 @@ export const register: ToolRegistrar = (server, wrapTool) => {
     }
   );
 
-  server.tool(tool.name, tool.description, tool.schema, tool.handler);
+  server.registerTool(
+    tool.name,
+    { description: tool.description, inputSchema: tool.schema, outputSchema },
+    tool.handler
+  );
 };
@@ -0,0 +1,58 @@
+/**
+ * Shared formatting helpers for tool output.
+ */
+
+import { LottieAnimation, QuerySyntaxError } from "../lottiefiles/index.js";
+
+/**
+ * Short reference for the search query syntax, used in tool descriptions and errors.
+ */
+export const QUERY_SYNTAX_HELP =
+  'Query syntax: "exact phrase", -exclude, a OR b, creator:name, -creator:name, downloads:>1000, likes:>=50, created:>2024-01-01';
+
+/**
+ * Returns a note to append to tool text when a response came from the cache.
+ */
+export function formatCacheNote(cached: boolean): string {
+  return cached ? "\n\n*Served from cache. Use `clear_cache` to force fresh results.*" : "";
+}
+
+/**
+ * Formats a query parse error as tool error text.
+ */
+export function formatQueryError(error: QuerySyntaxError): string {
+  return `Invalid query: ${error.message}\n\n${QUERY_SYNTAX_HELP}`;
+}
+
+/**
+ * Formats a single animation result for display
+ */
+export function formatAnimation(anim: LottieAnimation, index: number): string {
+  const lines: string[] = [
+    `${index + 1}. **${anim.name}**`,
+    `   ID: ${anim.id}`,
+  ];
+
+  if (anim.description) {
+    lines.push(`   Description: ${anim.description.slice(0, 100)}${anim.description.length > 100 ? "..." : ""}`);
+  }
+
+  if (anim.createdBy) {
+    lines.push(`   Creator: ${anim.createdBy.username}`);
+  }
+
+  lines.push(`   Downloads: ${anim.downloads.toLocaleString()} | Likes: ${anim.likesCount.toLocaleString()}`);
+
+  // Add download URLs
+  if (anim.lottieUrl) {
+    lines.push(`   dotLottie URL: ${anim.lottieUrl}`);
+  }
+  if (anim.jsonUrl) {
+    lines.push(`   JSON URL: ${anim.jsonUrl}`);
+  }
+  if (anim.gifUrl) {
+    lines.push(`   Preview GIF: ${anim.gifUrl}`);
+  }
+
+  return lines.join("\n");
+}
@@ -0,0 +1,210 @@
+import { relative, resolve, sep } from "node:path";
+import { z } from "zod";
+import { ToolRegistrar } from "../types/tool.js";
+import { createLogger } from "../utils/logger.js";
+import { getProjectRoot } from "../config/styles.js";
+import { FRAMEWORKS, IntegrationTarget, generateIntegration } from "../integration/index.js";
+import { getLottieFilesClient } from "../lottiefiles/index.js";
+import { loadLottie, resolveProjectPath } from "../lottie/index.js";
+
+const log = createLogger("generate_integration");
+
+/**
+ * Structured output returned alongside the Markdown text
+ */
+const outputSchema = {
+  framework: z.enum(FRAMEWORKS),
+  packages: z.array(z.string()).describe("Packages the code depends on"),
+  install: z
+    .object({ language: z.string(), code: z.string() })
+    .nullable()
+    .describe("Command or build file line that installs the packages"),
+  files: z
+    .array(z.object({ path: z.string().describe("Suggested file name"), language: z.string(), code: z.string() }))
+    .describe("Generated code"),
+  notes: z.array(z.string()).describe("Setup steps the code relies on"),
+};
+
+/**
+ * Generate framework-specific code that plays a Lottie animation.
+ *
+ * Resolves a LottieFiles animation or a project file and emits the install
+ * step and an idiomatic component for the chosen framework, with the
+ * requested playback settings.
+ */
+export const register: ToolRegistrar = (server, wrapTool) => {
+  const tool = wrapTool(
+    "generate_integration",
+    "Generate idiomatic code that plays a Lottie animation in a given framework: HTML (lottie-player), React (lottie-react or dotlottie-react), Vue, Svelte, Angular (ngx-lottie), React Native, Flutter, SwiftUI or Jetpack Compose. Takes a LottieFiles animation ID/slug/URL or a file in the project, plus loop, autoplay, speed, frame segment and hover-to-play options, and returns the install step, a ready-to-use component and setup notes.",
+    {
+      framework: z
+        .enum(FRAMEWORKS)
+        .describe("Target framework; \"react\" uses lottie-react (JSON), \"react-dotlottie\" uses @lottiefiles/dotlottie-react"),
+      id: z
+        .string()
+        .min(1)
+        .optional()
+        .describe("LottieFiles animation ID, slug or lottiefiles.com URL"),
+      path: z
+        .string()
+        .min(1)
+        .optional()
+        .describe("Lottie JSON or .lottie file inside the project (relative to the project root), as an alternative to `id`"),
+      loop: z.boolean().optional().default(true).describe("Repeat forever (default: true)"),
+      autoplay: z.boolean().optional().default(true).describe("Start playing once loaded (default: true)"),
+      speed: z.number().positive().max(10).optional().default(1).describe("Speed multiplier (default: 1)"),
+      segment: z
+        .object({
+          start: z.number().min(0).describe("First frame"),
+          end: z.number().positive().describe("Last frame"),
+        })
+        .optional()
+        .describe("Play only this frame range"),
+      hover: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe("Play while hovered and pause when the pointer leaves, instead of autoplaying (while pressed on touch screens)"),
+      component_name: z
+        .string()
+        .regex(/^[A-Z][A-Za-z0-9]*$/)
+        .optional()
+        .describe("Component name in PascalCase (default: derived from the animation name)"),
+    },
+    async ({ framework, id, path, loop = true, autoplay = true, speed = 1, segment, hover = false, component_name }) => {
+      log.info("Generating integration", { framework, id, path, loop, autoplay, speed, segment, hover });
+
+      if ((id === undefined) === (path === undefined)) {
+        return {
+          content: [{ type: "text" as const, text: "Provide either `id` (a LottieFiles animation) or `path` (a file in the project)." }],
+          isError: true,
+        };
+      }
+
+      try {
+        let target: IntegrationTarget;
+        let source: string;
+
+        if (id !== undefined) {
+          const { animation, suggestion } = await getLottieFilesClient().lookup(id);
+          if (!animation) {
+            return {
+              content: [
+                {
+                  type: "text" as const,
+                  text: suggestion
+                    ? `Animation "${id}" not found.\n\n**Did you mean "${suggestion.name}" (ID: ${suggestion.id})?**`
+                    : `Animation "${id}" not found.\n\nUse search_animations to find animations first.`,
+                },
+              ],
+              isError: true,
+            };
+          }
+          target = {
+            name: animation.name,
+            source: { kind: "remote", jsonUrl: animation.jsonUrl, dotLottieUrl: animation.lottieUrl },
+          };
+          source = `${animation.name} (ID: ${animation.id})`;
+        } else {
+          const filePath = path as string;
+          const { document } = await loadLottie({ path: filePath });
+          if (segment && segment.end > document.op) {
+            return {
+              content: [
+                {
+                  type: "text" as const,
+                  text: `Segment ${segment.start}-${segment.end} is outside the timeline (${document.ip}-${document.op}).`,
+                },
+              ],
+              isError: true,
+            };
+          }
+          const projectPath = relative(resolve(getProjectRoot()), await resolveProjectPath(filePath)).split(sep).join("/");
+          target = {
+            name: projectPath.split("/").pop()!.replace(/\.(json|lottie)$/i, ""),
+            source: { kind: "file", path: projectPath },
+            width: document.w,
+            height: document.h,
+          };
+          source = projectPath;
+        }
+
+        const integration = generateIntegration(framework, target, {
+          loop,
+          autoplay,
+          speed,
+          segment,
+          hover,
+          componentName: component_name,
+        });
+
+        const playback = [
+          hover ? "plays on hover" : autoplay ? "autoplays" : "starts paused",
+          loop ? "loops" : "plays once",
+        ];
+        if (speed !== 1) {
+          playback.push(`${speed}x speed`);
+        }
+        if (segment) {
+          playback.push(`frames ${segment.start}-${segment.end}`);
+        }
+
+        const lines: string[] = [
+          `# ${integration.label} Integration`,
+          "",
+          `**Animation:** ${source}`,
+          `**Playback:** ${playback.join(", ")}`,
+        ];
+
+        if (integration.install) {
+          lines.push("");
+          lines.push("## Install");
+          lines.push("```" + integration.install.language);
+          lines.push(integration.install.code);
+          lines.push("```");
+        }
+
+        for (const file of integration.files) {
+          lines.push("");
+          lines.push(`## ${file.path}`);
+          lines.push("```" + file.language);
+          lines.push(file.code);
+          lines.push("```");
+        }
+
+        if (integration.notes.length > 0) {
+          lines.push("");
+          lines.push("## Notes");
+          lines.push(...integration.notes.map((note) => `- ${note}`));
+        }
+
+        log.info("Integration generated", { framework, source, files: integration.files.length });
+
+        return {
+          content: [{ type: "text" as const, text: lines.join("\n") }],
+          structuredContent: {
+            framework,
+            packages: integration.packages,
+            install: integration.install,
+            files: integration.files,
+            notes: integration.notes,
+          },
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "Unknown error";
+        log.error("Integration generation failed", { framework, id, path, error: errorMessage });
+
+        return {
+          content: [{ type: "text" as const, text: `Failed to generate integration: ${errorMessage}` }],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    tool.name,
+    { description: tool.description, inputSchema: tool.schema, outputSchema },
+    tool.handler
+  );
+};
@@ -1,142 +1,69 @@
 import { z } from "zod";
 import { ToolRegistrar } from "../types/tool.js";
 import { createLogger } from "../utils/logger.js";
+import { generateIntegration } from "../integration/index.js";
+import { getLottieFilesClient, parseAnimationRef } from "../lottiefiles/index.js";
+import { formatCacheNote } from "./format.js";
+import { animationOutputSchema, toAnimationOutput } from "./output.js";
 
 const log = createLogger("get_animation");
 
 /**
- * LottieFiles GraphQL API endpoint
+ * Structured output returned alongside the Markdown text
  */
-const LOTTIEFILES_API = "https://graphql.lottiefiles.com/2022-08";
-
-/**
- * GraphQL query for searching animations by ID
- */
-const SEARCH_QUERY = `
-  query SearchById($query: String!, $limit: Int!) {
-    searchPublicAnimations(query: $query, first: $limit) {
-      edges {
-        node {
-          id
-          slug
-          name
-          description
-          likesCount
-          downloads
-          gifUrl
-          lottieUrl
-          jsonUrl
-          createdAt
-          createdBy {
-            username
-            avatarUrl
-          }
-        }
-      }
-    }
-  }
-`;
-
-interface AnimationDetails {
-  id: string;
-  slug: string;
-  name: string;
-  description: string | null;
-  likesCount: number;
-  downloads: number;
-  gifUrl: string | null;
-  lottieUrl: string | null;
-  jsonUrl: string | null;
-  createdAt: string;
-  createdBy: {
-    username: string;
-    avatarUrl: string | null;
-  } | null;
-}
-
-interface SearchResponse {
-  data: {
-    searchPublicAnimations: {
-      edges: Array<{ node: AnimationDetails }>;
-    };
-  };
-  errors?: Array<{ message: string }>;
-}
+const outputSchema = {
+  animation: animationOutputSchema,
+  cached: z.boolean().describe("Whether the response was served from cache"),
+};
 
 /**
- * Get detailed information about a specific Lottie animation by ID.
+ * Get detailed information about a specific Lottie animation.
  * 
- * Returns comprehensive metadata and all available download URLs.
+ * Accepts an animation ID, slug or lottiefiles.com URL and returns
+ * comprehensive metadata and all available download URLs.
  */
 export const register: ToolRegistrar = (server, wrapTool) => {
   const tool = wrapTool(
     "get_animation",
-    "Get detailed information about a specific Lottie animation by its ID. Returns metadata, tags, and all download URLs (JSON, dotLottie, GIF preview).",
+    "Get detailed information about a specific Lottie animation by its ID, slug or lottiefiles.com URL. Returns metadata, tags, and all download URLs (JSON, dotLottie, GIF preview).",
     {
       id: z
         .string()
         .min(1)
-        .describe("The animation ID (from search results)"),
+        .describe("The animation ID (from search results), slug, or lottiefiles.com/animations/... URL"),
     },
     async ({ id }) => {
       log.info("Getting animation details", { id });
 
-      try {
-        // Search for the animation using its ID
-        const response = await fetch(LOTTIEFILES_API, {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            "User-Agent": "LottieAnimationSearch-MCP/1.0",
-          },
-          body: JSON.stringify({
-            query: SEARCH_QUERY,
-            variables: { query: id, limit: 10 },
-          }),
-        });
-
-        if (!response.ok) {
-          log.error("API request failed", { status: response.status });
-          return {
-            content: [
-              {
-                type: "text" as const,
-                text: `Failed to get animation: HTTP ${response.status}`,
-              },
-            ],
-            isError: true,
-          };
-        }
-
-        const result: SearchResponse = await response.json();
+      const ref = parseAnimationRef(id);
+      if (!ref) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `"${id}" is not a valid animation reference.\n\nUse a numeric ID (e.g. 12345), a slug (e.g. success-check-a1b2c3) or a URL like https://lottiefiles.com/animations/success-check-a1b2c3`,
+            },
+          ],
+          isError: true,
+        };
+      }
 
-        if (result.errors && result.errors.length > 0) {
-          log.error("GraphQL errors", { errors: result.errors });
-          return {
-            content: [
-              {
-                type: "text" as const,
-                text: `Failed to get animation: ${result.errors.map((e) => e.message).join(", ")}`,
-              },
-            ],
-            isError: true,
-          };
-        }
+      const refLabel = ref.kind === "id" ? `ID "${ref.id}"` : `slug "${ref.slug}"`;
 
-        // Find the exact animation by ID
-        const anim = result.data.searchPublicAnimations.edges
-          .map(e => e.node)
-          .find(a => a.id === id || a.id.toString() === id);
+      try {
+        const client = getLottieFilesClient();
+        const { animation: anim, suggestion, cached, source } = ref.kind === "id"
+          ? await client.getById(ref.id)
+          : await client.getBySlug(ref.slug);
 
         if (!anim) {
-          // If not found by exact ID, return the first result as a suggestion
-          const firstResult = result.data.searchPublicAnimations.edges[0]?.node;
-          if (firstResult) {
+          // If not found by exact ID, return the closest result as a suggestion
+          if (suggestion) {
             return {
               content: [
                 {
                   type: "text" as const,
-                  text: `Animation with exact ID "${id}" not found.\n\n**Did you mean "${firstResult.name}" (ID: ${firstResult.id})?**\n\nUse the ID from search results for best results.`,
+                  text: `Animation with exact ${refLabel} not found.\n\n**Did you mean "${suggestion.name}" (ID: ${suggestion.id})?**\n\nUse the ID from search results for best results.`,
                 },
               ],
               isError: true,
@@ -147,7 +74,7 @@ export const register: ToolRegistrar = (server, wrapTool) => {
             content: [
               {
                 type: "text" as const,
-                text: `Animation not found with ID: ${id}\n\nUse search_animations to find animations first.`,
+                text: `Animation not found with ${refLabel}\n\nUse search_animations to find animations first.`,
               },
             ],
             isError: true,
@@ -161,6 +88,10 @@ export const register: ToolRegistrar = (server, wrapTool) => {
           `**ID:** ${anim.id}`,
         ];
 
+        if (anim.slug) {
+          lines.push(`**Slug:** ${anim.slug}`);
+        }
+
         if (anim.description) {
           lines.push(`**Description:** ${anim.description}`);
         }
@@ -188,26 +119,33 @@ export const register: ToolRegistrar = (server, wrapTool) => {
           lines.push(`**GIF Preview:** ${anim.gifUrl}`);
         }
 
-        lines.push("");
-        lines.push("## Usage");
-        lines.push("```html");
-        lines.push(`<script src="https://unpkg.com/@lottiefiles/lottie-player@latest/dist/lottie-player.js"></script>`);
-        lines.push(`<lottie-player src="${anim.lottieUrl || anim.jsonUrl}" background="transparent" speed="1" loop autoplay></lottie-player>`);
-        lines.push("```");
+        if (anim.jsonUrl) {
+          const [usage] = generateIntegration("html", {
+            name: anim.name,
+            source: { kind: "remote", jsonUrl: anim.jsonUrl, dotLottieUrl: anim.lottieUrl },
+          }).files;
+          lines.push("");
+          lines.push("## Usage");
+          lines.push("```html");
+          lines.push(usage.code);
+          lines.push("```");
+          lines.push("For React, Vue, Svelte, Angular, React Native, Flutter, SwiftUI or Jetpack Compose code, use generate_integration.");
+        }
 
         lines.push("");
         lines.push("---");
         lines.push("**License:** Lottie Simple License (free for commercial use, no attribution required)");
 
-        log.info("Animation details retrieved", { id: anim.id, name: anim.name });
+        log.info("Animation details retrieved", { id: anim.id, name: anim.name, source });
 
         return {
           content: [
             {
               type: "text" as const,
-              text: lines.join("\n"),
+              text: lines.join("\n") + formatCacheNote(cached),
             },
           ],
+          structuredContent: { animation: toAnimationOutput(anim), cached },
         };
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : "Unknown error";
@@ -226,5 +164,9 @@ export const register: ToolRegistrar = (server, wrapTool) => {
     }
   );
 
-  server.tool(tool.name, tool.description, tool.schema, tool.handler);
+  server.registerTool(
+    tool.name,
+    { description: tool.description, inputSchema: tool.schema, outputSchema },
+    tool.handler
+  );
 };
@@ -4,10 +4,27 @@ import * as searchAnimations from "./search_animations.js";
 import * as getAnimation from "./get_animation.js";
 import * as listPopular from "./list_popular.js";
 import * as downloadAnimation from "./download_animation.js";
+import * as saveAnimation from "./save_animation.js";
+import * as generateIntegration from "./generate_integration.js";
 import * as findSimilar from "./find_similar.js";
 import * as searchByTags from "./search_by_tags.js";
+import * as multiSearch from "./multi_search.js";
 import * as manageStyles from "./manage_styles.js";
 import * as searchWithStyle from "./search_with_style.js";
+import * as clearCache from "./clear_cache.js";
+import * as inspectAnimation from "./inspect_animation.js";
+import * as validateAnimation from "./validate_animation.js";
+import * as checkCompatibility from "./check_compatibility.js";
+import * as accessibilityCheck from "./accessibility_check.js";
+import * as extractPalette from "./extract_palette.js";
+import * as recolorAnimation from "./recolor_animation.js";
+import * as optimizeAnimation from "./optimize_animation.js";
+import * as editTiming from "./edit_timing.js";
+import * as resizeAnimation from "./resize_animation.js";
+import * as renderFrame from "./render_frame.js";
+import * as storyboard from "./storyboard.js";
+import * as createPoster from "./create_poster.js";
+import * as dotLottie from "./dotlottie.js";
 
 /**
  * All tool modules to register.
@@ -17,8 +34,11 @@ import * as searchWithStyle from "./search_with_style.js";
  * - get_animation: Get detailed info about a specific animation
  * - list_popular: List trending/popular animations
  * - download_animation: Download animation JSON content
+ * - save_animation: Save an animation file into the project
+ * - generate_integration: Player code for React, Vue, Svelte, Angular, React Native, Flutter, SwiftUI, Compose
  * - find_similar: Find animations similar to a given one (by tags)
  * - search_by_tags: Search by style tags (minimal, flat, 3d, etc.)
+ * - multi_search: Run several searches at once and merge the results
  * 
  * Style management tools:
  * - save_style: Save a named style preset with tags
@@ -30,6 +50,25 @@ import * as searchWithStyle from "./search_with_style.js";
  * - search_with_style: Search using a saved style
  * - search_for_folder: Search using a folder's style
  *
+ * Cache tools:
+ * - clear_cache: Clear cached LottieFiles API responses
+ *
+ * Animation file tools:
+ * - inspect_animation: Report layers, assets, features and complexity
+ * - validate_animation: Check structure against the Lottie format with JSON pointers
+ * - check_compatibility: Report feature support per runtime (web, iOS, Android, React Native)
+ * - accessibility_check: Detect fast flashing (WCAG 2.3.1) and suggest a reduced-motion frame
+ * - extract_palette: Extract a weighted color palette
+ * - recolor_animation: Recolor by color map or nearest palette color
+ * - optimize_animation: Shrink JSON size for production bundles
+ * - edit_timing: Trim, change speed, reverse and add markers
+ * - resize_animation: Change canvas size (fit/fill/crop, auto-crop)
+ * - render_frame: Render a single frame as a static SVG
+ * - storyboard: Render sampled or marker frames as an SVG contact sheet
+ * - create_poster: Static poster frame (JSON and SVG) for reduced-motion users
+ * - unpack_dotlottie: Extract animations and images from a .lottie archive
+ * - pack_dotlottie: Package Lottie JSON animations into a .lottie archive
+ *
  * Note: The built-in `report_issue` tool is automatically registered
  * when metrics are enabled. See src/metrics/report_issue_tool.ts
  */
@@ -38,10 +77,27 @@ const tools = [
   getAnimation,
   listPopular,
   downloadAnimation,
+  saveAnimation,
+  generateIntegration,
   findSimilar,
   searchByTags,
+  multiSearch,
   manageStyles,
   searchWithStyle,
+  clearCache,
+  inspectAnimation,
+  validateAnimation,
+  checkCompatibility,
+  accessibilityCheck,
+  extractPalette,
+  recolorAnimation,
+  optimizeAnimation,
+  editTiming,
+  resizeAnimation,
+  renderFrame,
+  storyboard,
+  createPoster,
+  dotLottie,
 ];
 
 /**
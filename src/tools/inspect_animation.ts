@@ -0,0 +1,239 @@
+import { z } from "zod";
+import { ToolRegistrar } from "../types/tool.js";
+import { createLogger } from "../utils/logger.js";
+import { InspectionReport, inspectLottie, loadLottie } from "../lottie/index.js";
+import { lottieSourceShape } from "./source.js";
+
+const log = createLogger("inspect_animation");
+
+/**
+ * Maximum layers and expression locations listed in the Markdown text
+ */
+const MAX_LISTED = 50;
+
+const countsByMode = z.object({ total: z.number(), byMode: z.record(z.string(), z.number()) });
+
+/**
+ * Structured output returned alongside the Markdown text
+ */
+const outputSchema = {
+  version: z.string().nullable(),
+  name: z.string().nullable(),
+  width: z.number(),
+  height: z.number(),
+  frameRate: z.number(),
+  inPoint: z.number(),
+  outPoint: z.number(),
+  totalFrames: z.number(),
+  durationSeconds: z.number(),
+  is3d: z.boolean(),
+  layers: z.array(
+    z.object({
+      composition: z.string().describe('"root" or the precomp asset ID'),
+      pointer: z.string().describe("JSON pointer to the layer"),
+      index: z.number().nullable(),
+      name: z.string(),
+      type: z.string(),
+      parent: z.number().nullable(),
+      depth: z.number().describe("Parenting depth"),
+      inPoint: z.number(),
+      outPoint: z.number(),
+      hidden: z.boolean(),
+      is3d: z.boolean(),
+      refId: z.string().nullable(),
+      masks: z.number(),
+      matte: z.string().nullable().describe("Track matte mode this layer uses"),
+      isMatte: z.boolean().describe("Whether this layer is a track matte"),
+      effects: z.number(),
+      shapes: z.number(),
+      expressions: z.number(),
+    })
+  ),
+  precomps: z.array(
+    z.object({ id: z.string(), name: z.string().nullable(), layers: z.number(), references: z.number() })
+  ),
+  images: z.array(
+    z.object({
+      id: z.string(),
+      width: z.number().nullable(),
+      height: z.number().nullable(),
+      embedded: z.boolean(),
+      path: z.string().nullable(),
+      bytes: z.number().nullable(),
+    })
+  ),
+  fonts: z.array(
+    z.object({ name: z.string(), family: z.string().nullable(), style: z.string().nullable(), origin: z.string() })
+  ),
+  markers: z.array(
+    z.object({ name: z.string(), frame: z.number(), durationFrames: z.number(), timeSeconds: z.number() })
+  ),
+  masks: countsByMode,
+  mattes: countsByMode,
+  expressions: z.object({
+    total: z.number(),
+    locations: z.array(z.object({ pointer: z.string(), layer: z.string(), composition: z.string() })),
+  }),
+  shapes: z.number(),
+  effects: z.number(),
+  animatedProperties: z.number(),
+  keyframes: z.number(),
+  complexity: z.object({
+    score: z.number().describe("0-100, higher is heavier to render"),
+    rating: z.enum(["low", "moderate", "high", "very high"]),
+    factors: z.record(z.string(), z.number()),
+  }),
+};
+
+/**
+ * Formats "a: 1, b: 2" from a count map, or "none"
+ */
+function formatModes(byMode: Record<string, number>): string {
+  const entries = Object.entries(byMode);
+  return entries.length > 0 ? entries.map(([mode, count]) => `${mode}: ${count}`).join(", ") : "none";
+}
+
+/**
+ * Formats the inspection report as Markdown
+ */
+function formatReport(report: InspectionReport, source: string, bytes: number): string {
+  const lines: string[] = [
+    `# Animation Inspection${report.name ? `: ${report.name}` : ""}`,
+    "",
+    `**Source:** ${source}`,
+    `**Size:** ${(bytes / 1024).toFixed(1)}KB`,
+    `**Canvas:** ${report.width}x${report.height}${report.is3d ? " (3D)" : ""}`,
+    `**Timing:** ${report.totalFrames} frames at ${report.frameRate}fps (${report.durationSeconds}s, frames ${report.inPoint}-${report.outPoint})`,
+  ];
+  if (report.version) {
+    lines.push(`**Bodymovin version:** ${report.version}`);
+  }
+
+  lines.push("");
+  lines.push(`## Complexity: ${report.complexity.score}/100 (${report.complexity.rating})`);
+  const factors = Object.entries(report.complexity.factors).sort((a, b) => b[1] - a[1]);
+  if (factors.length > 0) {
+    lines.push(`Main factors: ${factors.slice(0, 5).map(([factor, value]) => `${factor} (${value})`).join(", ")}`);
+  }
+
+  lines.push("");
+  lines.push(`## Layers (${report.layers.length})`);
+  let currentComposition = "";
+  report.layers.slice(0, MAX_LISTED).forEach((layer) => {
+    if (layer.composition !== currentComposition) {
+      currentComposition = layer.composition;
+      lines.push(currentComposition === "root" ? "**Root composition:**" : `**Precomp \`${currentComposition}\`:**`);
+    }
+    const details = [
+      layer.type,
+      `frames ${layer.inPoint}-${layer.outPoint}`,
+      layer.refId ? `ref: ${layer.refId}` : "",
+      layer.masks > 0 ? `${layer.masks} mask${layer.masks === 1 ? "" : "s"}` : "",
+      layer.matte ? `${layer.matte} matte` : "",
+      layer.isMatte ? "matte source" : "",
+      layer.effects > 0 ? `${layer.effects} effect${layer.effects === 1 ? "" : "s"}` : "",
+      layer.expressions > 0 ? `${layer.expressions} expression${layer.expressions === 1 ? "" : "s"}` : "",
+      layer.is3d ? "3D" : "",
+      layer.hidden ? "hidden" : "",
+    ].filter(Boolean);
+    lines.push(`${"  ".repeat(layer.depth)}- ${layer.index !== null ? `[${layer.index}] ` : ""}${layer.name} (${details.join(", ")})`);
+  });
+  if (report.layers.length > MAX_LISTED) {
+    lines.push(`- ...and ${report.layers.length - MAX_LISTED} more (see structured output)`);
+  }
+
+  if (report.precomps.length > 0) {
+    lines.push("");
+    lines.push(`## Precomps (${report.precomps.length})`);
+    for (const precomp of report.precomps) {
+      lines.push(`- \`${precomp.id}\`${precomp.name ? ` "${precomp.name}"` : ""}: ${precomp.layers} layers, used ${precomp.references} time${precomp.references === 1 ? "" : "s"}`);
+    }
+  }
+
+  if (report.images.length > 0 || report.fonts.length > 0) {
+    lines.push("");
+    lines.push("## Assets");
+    for (const image of report.images) {
+      const size = image.width !== null && image.height !== null ? `${image.width}x${image.height}` : "unknown size";
+      lines.push(`- Image \`${image.id}\`: ${size}, ${image.embedded ? `embedded (~${((image.bytes ?? 0) / 1024).toFixed(1)}KB)` : `external (${image.path})`}`);
+    }
+    for (const font of report.fonts) {
+      lines.push(`- Font ${font.name}${font.family ? ` (${font.family}${font.style ? ` ${font.style}` : ""})` : ""}, origin: ${font.origin}`);
+    }
+  }
+
+  if (report.markers.length > 0) {
+    lines.push("");
+    lines.push(`## Markers (${report.markers.length})`);
+    for (const marker of report.markers) {
+      lines.push(`- "${marker.name}" at frame ${marker.frame} (${marker.timeSeconds}s)${marker.durationFrames > 0 ? `, ${marker.durationFrames} frames long` : ""}`);
+    }
+  }
+
+  lines.push("");
+  lines.push("## Features");
+  lines.push(`- Shapes: ${report.shapes}`);
+  lines.push(`- Masks: ${report.masks.total} (${formatModes(report.masks.byMode)})`);
+  lines.push(`- Track mattes: ${report.mattes.total} (${formatModes(report.mattes.byMode)})`);
+  lines.push(`- Effects: ${report.effects}`);
+  lines.push(`- Expressions: ${report.expressions.total}`);
+  lines.push(`- Animated properties: ${report.animatedProperties} (${report.keyframes} keyframes)`);
+
+  if (report.expressions.total > 0) {
+    lines.push("");
+    lines.push("## Expressions");
+    lines.push("Expressions only play in runtimes that support them (e.g. lottie-web's SVG/canvas renderers), not on most mobile players.");
+    for (const location of report.expressions.locations.slice(0, MAX_LISTED)) {
+      lines.push(`- ${location.layer}: \`${location.pointer}\``);
+    }
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Inspect the structure of a Lottie animation.
+ *
+ * Parses the Lottie JSON and reports its layers, precomps, assets, markers,
+ * masks, mattes, expressions and an estimated rendering complexity.
+ */
+export const register: ToolRegistrar = (server, wrapTool) => {
+  const tool = wrapTool(
+    "inspect_animation",
+    "Inspect a Lottie animation's structure: layer tree (types, names, parenting, in/out points), precomps, image and font assets, markers, masks and mattes, expressions, and an estimated rendering complexity score. Use it to judge an animation before shipping it.",
+    lottieSourceShape,
+    async ({ url, path, json, animation_id }) => {
+      log.info("Inspecting animation", { url, path, inline: json !== undefined });
+
+      try {
+        const { document, source, bytes } = await loadLottie({ url, path, json, animationId: animation_id });
+        const report = inspectLottie(document);
+
+        log.info("Animation inspected", {
+          source,
+          layers: report.layers.length,
+          complexity: report.complexity.score,
+        });
+
+        return {
+          content: [{ type: "text" as const, text: formatReport(report, source, bytes) }],
+          structuredContent: { ...report },
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "Unknown error";
+        log.error("Inspection failed", { url, path, error: errorMessage });
+
+        return {
+          content: [{ type: "text" as const, text: `Failed to inspect animation: ${errorMessage}` }],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    tool.name,
+    { description: tool.description, inputSchema: tool.schema, outputSchema },
+    tool.handler
+  );
+};
@@ -1,103 +1,12 @@
 import { z } from "zod";
 import { ToolRegistrar } from "../types/tool.js";
 import { createLogger } from "../utils/logger.js";
+import { getLottieFilesClient } from "../lottiefiles/index.js";
+import { formatAnimation, formatCacheNote } from "./format.js";
+import { animationListOutputShape, toAnimationListOutput } from "./output.js";
 
 const log = createLogger("list_popular");
 
-/**
- * LottieFiles GraphQL API endpoint
- */
-const LOTTIEFILES_API = "https://graphql.lottiefiles.com/2022-08";
-
-/**
- * GraphQL query for fetching popular/featured animations
- */
-const POPULAR_QUERY = `
-  query PopularAnimations($limit: Int!) {
-    featuredPublicAnimations(first: $limit) {
-      totalCount
-      edges {
-        cursor
-        node {
-          id
-          slug
-          name
-          description
-          likesCount
-          downloads
-          gifUrl
-          lottieUrl
-          jsonUrl
-          createdAt
-          createdBy {
-            username
-            avatarUrl
-          }
-        }
-      }
-    }
-  }
-`;
-
-interface LottieAnimation {
-  id: string;
-  slug: string;
-  name: string;
-  description: string | null;
-  likesCount: number;
-  downloads: number;
-  gifUrl: string | null;
-  lottieUrl: string | null;
-  jsonUrl: string | null;
-  createdAt: string;
-  createdBy: {
-    username: string;
-    avatarUrl: string | null;
-  } | null;
-}
-
-interface PopularResponse {
-  data: {
-    featuredPublicAnimations: {
-      totalCount: number;
-      edges: Array<{
-        cursor: string;
-        node: LottieAnimation;
-      }>;
-    };
-  };
-  errors?: Array<{ message: string }>;
-}
-
-/**
- * Formats a single animation result for display
- */
-function formatAnimation(anim: LottieAnimation, index: number): string {
-  const lines: string[] = [
-    `${index + 1}. **${anim.name}**`,
-    `   ID: ${anim.id}`,
-  ];
-
-  if (anim.description) {
-    lines.push(`   Description: ${anim.description.slice(0, 100)}${anim.description.length > 100 ? "..." : ""}`);
-  }
-
-  if (anim.createdBy) {
-    lines.push(`   Creator: ${anim.createdBy.username}`);
-  }
-
-  lines.push(`   Downloads: ${anim.downloads.toLocaleString()} | Likes: ${anim.likesCount.toLocaleString()}`);
-
-  if (anim.lottieUrl) {
-    lines.push(`   dotLottie URL: ${anim.lottieUrl}`);
-  }
-  if (anim.jsonUrl) {
-    lines.push(`   JSON URL: ${anim.jsonUrl}`);
-  }
-
-  return lines.join("\n");
-}
-
 /**
  * List popular/featured Lottie animations from LottieFiles.
  * 
@@ -116,53 +25,19 @@ export const register: ToolRegistrar = (server, wrapTool) => {
         .optional()
         .default(10)
         .describe("Number of animations to return (1-50, default: 10)"),
+      cursor: z
+        .string()
+        .min(1)
+        .optional()
+        .describe("Pagination cursor: pass the nextCursor from a previous list_popular call to get the next page"),
     },
-    async ({ limit = 10 }) => {
-      log.info("Fetching popular animations", { limit });
+    async ({ limit = 10, cursor }) => {
+      log.info("Fetching popular animations", { limit, cursor });
 
       try {
-        const response = await fetch(LOTTIEFILES_API, {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            "User-Agent": "LottieAnimationSearch-MCP/1.0",
-          },
-          body: JSON.stringify({
-            query: POPULAR_QUERY,
-            variables: { limit },
-          }),
-        });
-
-        if (!response.ok) {
-          log.error("API request failed", { status: response.status });
-          return {
-            content: [
-              {
-                type: "text" as const,
-                text: `Failed to fetch popular animations: HTTP ${response.status}`,
-              },
-            ],
-            isError: true,
-          };
-        }
-
-        const result: PopularResponse = await response.json();
-
-        if (result.errors && result.errors.length > 0) {
-          log.error("GraphQL errors", { errors: result.errors });
-          return {
-            content: [
-              {
-                type: "text" as const,
-                text: `Failed to fetch popular animations: ${result.errors.map((e) => e.message).join(", ")}`,
-              },
-            ],
-            isError: true,
-          };
-        }
-
-        const popularData = result.data.featuredPublicAnimations;
-        const animations = popularData.edges.map((edge) => edge.node);
+        const popularData = await getLottieFilesClient().featured({ first: limit, after: cursor });
+        const animations = popularData.animations;
+        const structuredContent = toAnimationListOutput(popularData);
 
         if (animations.length === 0) {
           return {
@@ -172,6 +47,7 @@ export const register: ToolRegistrar = (server, wrapTool) => {
                 text: "No popular animations available at the moment.",
               },
             ],
+            structuredContent,
           };
         }
 
@@ -179,20 +55,25 @@ export const register: ToolRegistrar = (server, wrapTool) => {
         const formattedAnimations = animations.map((anim, i) => formatAnimation(anim, i));
 
         const header = `Popular Lottie Animations (showing ${animations.length} of ${popularData.totalCount.toLocaleString()}):\n`;
+        const pagination = popularData.hasNextPage
+          ? `\n\nhasNextPage: true\nnextCursor: ${popularData.nextCursor}\n(Call list_popular again with cursor: "${popularData.nextCursor}" for more results)`
+          : `\n\nhasNextPage: false`;
         const footer = `\n---\nTo download: Use the JSON URL or dotLottie URL directly.\nLicense: Lottie Simple License (free for commercial use)`;
 
         log.info("Popular animations fetched", {
           totalCount: popularData.totalCount,
           returned: animations.length,
+          hasNextPage: popularData.hasNextPage,
         });
 
         return {
           content: [
             {
               type: "text" as const,
-              text: header + formattedAnimations.join("\n\n") + footer,
+              text: header + formattedAnimations.join("\n\n") + pagination + footer + formatCacheNote(popularData.cached),
             },
           ],
+          structuredContent,
         };
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : "Unknown error";
@@ -211,5 +92,9 @@ export const register: ToolRegistrar = (server, wrapTool) => {
     }
   );
 
-  server.tool(tool.name, tool.description, tool.schema, tool.handler);
+  server.registerTool(
+    tool.name,
+    { description: tool.description, inputSchema: tool.schema, outputSchema: animationListOutputShape },
+    tool.handler
+  );
 };
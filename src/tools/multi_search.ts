@@ -0,0 +1,198 @@
+import { z } from "zod";
+import { ToolRegistrar } from "../types/tool.js";
+import { createLogger } from "../utils/logger.js";
+import { getLottieFilesClient, mergeSearchRuns, SearchRun } from "../lottiefiles/index.js";
+import { formatCacheNote } from "./format.js";
+import { animationOutputSchema, toAnimationOutput } from "./output.js";
+import { STYLE_TAGS } from "./tag_search.js";
+
+const log = createLogger("multi_search");
+
+/**
+ * Maximum number of queries (plain plus tag combinations) in one call
+ */
+const MAX_QUERIES = 10;
+
+/**
+ * Structured output returned alongside the Markdown text
+ */
+const outputSchema = {
+  queries: z.array(z.string()).describe("Queries that were run, in order"),
+  results: z.array(
+    animationOutputSchema.extend({
+      score: z.number().describe("Number of matching queries plus popularity (0-1)"),
+      matchedQueries: z
+        .array(z.object({ query: z.string(), rank: z.number().describe("1-based position in that query's results") }))
+        .describe("Queries that returned this animation"),
+    })
+  ),
+  failedQueries: z.array(z.object({ query: z.string(), error: z.string() })),
+  cached: z.boolean().describe("Whether every response was served from cache"),
+};
+
+/**
+ * Run several searches at once and merge the results.
+ *
+ * Queries run concurrently (the shared client limits how many requests are
+ * in flight), results are de-duplicated by animation ID and ranked by how
+ * many queries returned them, then by popularity.
+ */
+export const register: ToolRegistrar = (server, wrapTool) => {
+  const tool = wrapTool(
+    "multi_search",
+    "Run several Lottie animation searches at once (e.g., 'success check outline' and 'success check flat') and get one de-duplicated list, ranked by how many queries matched and popularity, showing which queries found each result.",
+    {
+      queries: z
+        .array(z.string().min(1))
+        .max(MAX_QUERIES)
+        .optional()
+        .describe("Search queries to run (e.g., ['success check', 'checkmark', 'done'])"),
+      tag_sets: z
+        .array(z.array(z.string().min(1)).min(1).max(5))
+        .max(MAX_QUERIES)
+        .optional()
+        .describe(`Tag combinations, each run as its own search (e.g., [['outline'], ['flat']]). Common styles: ${Object.values(STYLE_TAGS).flat().join(", ")}`),
+      keyword: z
+        .string()
+        .optional()
+        .describe("Optional keyword added to every tag combination (e.g., 'success check')"),
+      limit_per_query: z
+        .number()
+        .int()
+        .min(1)
+        .max(30)
+        .optional()
+        .default(10)
+        .describe("Results fetched per query (1-30, default: 10)"),
+      limit: z
+        .number()
+        .int()
+        .min(1)
+        .max(50)
+        .optional()
+        .default(20)
+        .describe("Maximum number of merged results (1-50, default: 20)"),
+    },
+    async ({ queries = [], tag_sets = [], keyword, limit_per_query = 10, limit = 20 }) => {
+      const allQueries = [
+        ...queries,
+        ...tag_sets.map((tags) => [...tags, ...(keyword ? [keyword] : [])].join(" ")),
+      ]
+        .map((q) => q.trim())
+        .filter((q, index, list) => q.length > 0 && list.indexOf(q) === index);
+
+      log.info("Running multi search", { queries: allQueries, limitPerQuery: limit_per_query, limit });
+
+      if (allQueries.length === 0) {
+        return {
+          content: [{ type: "text" as const, text: "Provide at least one entry in `queries` or `tag_sets`." }],
+          isError: true,
+        };
+      }
+      if (allQueries.length > MAX_QUERIES) {
+        return {
+          content: [{ type: "text" as const, text: `Too many queries (${allQueries.length}). Use at most ${MAX_QUERIES} queries and tag sets combined.` }],
+          isError: true,
+        };
+      }
+
+      const client = getLottieFilesClient();
+      const settled = await Promise.allSettled(
+        allQueries.map((query) => client.search({ query, first: limit_per_query }))
+      );
+
+      const runs: SearchRun[] = [];
+      const failedQueries: Array<{ query: string; error: string }> = [];
+      let cached = true;
+      settled.forEach((outcome, index) => {
+        const query = allQueries[index];
+        if (outcome.status === "fulfilled") {
+          runs.push({ query, animations: outcome.value.animations });
+          cached = cached && outcome.value.cached;
+        } else {
+          const reason = outcome.reason;
+          failedQueries.push({ query, error: reason instanceof Error ? reason.message : "Unknown error" });
+        }
+      });
+
+      if (runs.length === 0) {
+        log.error("All queries failed", { failedQueries });
+        return {
+          content: [{
+            type: "text" as const,
+            text: `Search failed for every query:\n${failedQueries.map((f) => `- "${f.query}": ${f.error}`).join("\n")}`,
+          }],
+          isError: true,
+        };
+      }
+
+      const merged = mergeSearchRuns(runs).slice(0, limit);
+      const structuredContent = {
+        queries: allQueries,
+        results: merged.map((m) => ({
+          ...toAnimationOutput(m.animation),
+          score: Math.round(m.score * 1000) / 1000,
+          matchedQueries: m.sources,
+        })),
+        failedQueries,
+        cached,
+      };
+
+      const failedNote = failedQueries.length > 0
+        ? `\n\n**Failed queries:**\n${failedQueries.map((f) => `- "${f.query}": ${f.error}`).join("\n")}`
+        : "";
+
+      if (merged.length === 0) {
+        return {
+          content: [{
+            type: "text" as const,
+            text: `No animations found for any of: ${allQueries.map((q) => `"${q}"`).join(", ")}${failedNote}`,
+          }],
+          structuredContent,
+        };
+      }
+
+      const lines: string[] = [
+        `# Combined results for ${allQueries.length} queries`,
+        "",
+        `**Queries:** ${allQueries.map((q) => `"${q}"`).join(", ")}`,
+        "",
+        `Found ${merged.length} unique animations:`,
+        "",
+      ];
+
+      merged.forEach(({ animation: anim, sources }, index) => {
+        lines.push(`## ${index + 1}. ${anim.name}`);
+        lines.push(`**ID:** ${anim.id}`);
+        lines.push(`**Matched ${sources.length}/${allQueries.length} queries:** ${sources.map((s) => `"${s.query}" (#${s.rank})`).join(", ")}`);
+        lines.push(`**Downloads:** ${anim.downloads.toLocaleString()}`);
+
+        if (anim.lottieUrl) {
+          lines.push(`**dotLottie URL:** ${anim.lottieUrl}`);
+        }
+        if (anim.jsonUrl) {
+          lines.push(`**JSON URL:** ${anim.jsonUrl}`);
+        }
+
+        lines.push("");
+      });
+
+      log.info("Multi search completed", {
+        queries: allQueries.length,
+        failed: failedQueries.length,
+        resultsCount: merged.length,
+      });
+
+      return {
+        content: [{ type: "text" as const, text: lines.join("\n").trimEnd() + failedNote + formatCacheNote(cached) }],
+        structuredContent,
+      };
+    }
+  );
+
+  server.registerTool(
+    tool.name,
+    { description: tool.description, inputSchema: tool.schema, outputSchema },
+    tool.handler
+  );
+};
@@ -0,0 +1,174 @@
+import { z } from "zod";
+import { ToolRegistrar } from "../types/tool.js";
+import { createLogger } from "../utils/logger.js";
+import { loadLottie, optimizeLottie } from "../lottie/index.js";
+import { deliverLottie, lottieOutputShape, lottieSourceShape } from "./source.js";
+
+const log = createLogger("optimize_animation");
+
+/**
+ * Maximum removed layers listed in the Markdown text
+ */
+const MAX_LAYERS_LISTED = 20;
+
+/**
+ * Structured output returned alongside the Markdown text
+ */
+const outputSchema = {
+  sourceBytes: z.number().describe("Size of the loaded file"),
+  originalBytes: z.number().describe("Size of the original animation as minified JSON"),
+  optimizedBytes: z.number().describe("Size of the optimized minified JSON"),
+  savedPercent: z.number(),
+  removedLayers: z.array(
+    z.object({ name: z.string(), composition: z.string(), reason: z.enum(["hidden", "out-of-range", "unused-null"]) })
+  ),
+  removedShapes: z.number(),
+  removedAssets: z.array(z.string()),
+  collapsedProperties: z.number(),
+  roundedValues: z.number(),
+  strippedFields: z.number(),
+  keptNamesReason: z.string().nullable(),
+  writtenPath: z.string().nullable().describe("File written, or null if the JSON was returned inline"),
+};
+
+/**
+ * Optimize a Lottie animation for production.
+ *
+ * Applies lossless clean-ups (unused layers and assets, static keyframes,
+ * editor metadata) and numeric rounding, reporting the size before and after.
+ */
+export const register: ToolRegistrar = (server, wrapTool) => {
+  const tool = wrapTool(
+    "optimize_animation",
+    "Shrink a Lottie animation for production bundles: rounds numeric precision, removes hidden and unused layers and unused assets, strips editor metadata (and optionally names), and collapses keyframes that never change into static values. Reports before/after sizes and returns or writes the optimized JSON.",
+    {
+      ...lottieSourceShape,
+      precision: z
+        .number()
+        .int()
+        .min(1)
+        .max(6)
+        .optional()
+        .default(3)
+        .describe("Decimal places kept for numbers (1-6, default: 3). Lower is smaller but can visibly shift fine details"),
+      remove_unused_layers: z
+        .boolean()
+        .optional()
+        .default(true)
+        .describe("Remove hidden layers and shapes, layers outside the timeline and null layers nothing is parented to (default: true)"),
+      remove_unused_assets: z
+        .boolean()
+        .optional()
+        .default(true)
+        .describe("Remove precomps and images no layer uses (default: true)"),
+      strip_metadata: z
+        .boolean()
+        .optional()
+        .default(true)
+        .describe("Remove editor metadata such as `meta` and After Effects match names (default: true)"),
+      strip_names: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe("Also remove layer and shape names (default: false). Skip this if your code looks layers up by name"),
+      collapse_static: z
+        .boolean()
+        .optional()
+        .default(true)
+        .describe("Turn keyframed properties that never change into static values (default: true)"),
+      ...lottieOutputShape,
+    },
+    async ({
+      url,
+      path,
+      json,
+      animation_id,
+      precision = 3,
+      remove_unused_layers = true,
+      remove_unused_assets = true,
+      strip_metadata = true,
+      strip_names = false,
+      collapse_static = true,
+      output_path,
+      overwrite = false,
+    }) => {
+      log.info("Optimizing animation", { url, path, inline: json !== undefined, precision, output_path });
+
+      try {
+        const { document, source, bytes: sourceBytes } = await loadLottie({ url, path, json, animationId: animation_id });
+        const { document: optimized, stats } = optimizeLottie(document, {
+          precision,
+          removeUnusedLayers: remove_unused_layers,
+          removeUnusedAssets: remove_unused_assets,
+          stripMetadata: strip_metadata,
+          stripNames: strip_names,
+          collapseStaticKeyframes: collapse_static,
+        });
+
+        const originalBytes = Buffer.byteLength(JSON.stringify(document), "utf-8");
+        const delivered = await deliverLottie(optimized, { output_path, overwrite });
+        const savedPercent = originalBytes > 0
+          ? Math.round(((originalBytes - delivered.bytes) / originalBytes) * 1000) / 10
+          : 0;
+
+        const lines: string[] = [
+          "# Optimized Animation",
+          "",
+          `**Source:** ${source} (${(sourceBytes / 1024).toFixed(1)}KB)`,
+          `**Size:** ${(originalBytes / 1024).toFixed(1)}KB → ${(delivered.bytes / 1024).toFixed(1)}KB minified (${savedPercent}% smaller)`,
+          "",
+          "## Changes",
+          `- Rounded ${stats.roundedValues} values to ${precision} decimal places`,
+          `- Collapsed ${stats.collapsedProperties} static keyframed properties`,
+          `- Removed ${stats.removedLayers.length} layers, ${stats.removedShapes} hidden shapes and ${stats.removedAssets.length} unused assets${stats.removedAssets.length > 0 ? ` (${stats.removedAssets.join(", ")})` : ""}`,
+          `- Stripped ${stats.strippedFields} metadata${strip_names ? " and name" : ""} fields`,
+        ];
+        if (stats.keptNamesReason) {
+          lines.push(`- Kept names and match names: ${stats.keptNamesReason}`);
+        }
+
+        if (stats.removedLayers.length > 0) {
+          lines.push("");
+          lines.push("## Removed Layers");
+          for (const layer of stats.removedLayers.slice(0, MAX_LAYERS_LISTED)) {
+            const where = layer.composition === "root" ? "" : ` in ${layer.composition}`;
+            lines.push(`- ${layer.name}${where} (${layer.reason})`);
+          }
+          if (stats.removedLayers.length > MAX_LAYERS_LISTED) {
+            lines.push(`- ...and ${stats.removedLayers.length - MAX_LAYERS_LISTED} more`);
+          }
+        }
+        lines.push("");
+        lines.push(delivered.text);
+
+        log.info("Animation optimized", { source, originalBytes, optimizedBytes: delivered.bytes, writtenPath: delivered.writtenPath });
+
+        return {
+          content: [{ type: "text" as const, text: lines.join("\n") }],
+          structuredContent: {
+            sourceBytes,
+            originalBytes,
+            optimizedBytes: delivered.bytes,
+            savedPercent,
+            ...stats,
+            writtenPath: delivered.writtenPath,
+          },
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "Unknown error";
+        log.error("Optimization failed", { url, path, error: errorMessage });
+
+        return {
+          content: [{ type: "text" as const, text: `Failed to optimize animation: ${errorMessage}` }],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    tool.name,
+    { description: tool.description, inputSchema: tool.schema, outputSchema },
+    tool.handler
+  );
+};
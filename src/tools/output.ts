@@ -0,0 +1,90 @@
+/**
+ * Structured output schemas shared by the search tools.
+ *
+ * Tools return these as MCP `structuredContent` alongside their Markdown text,
+ * so automation can read IDs and URLs without parsing the text.
+ */
+
+import { z } from "zod";
+import { AnimationPage, LottieAnimation } from "../lottiefiles/index.js";
+
+/**
+ * Structured form of a single animation.
+ */
+export const animationOutputSchema = z.object({
+  id: z.string().describe("Animation ID"),
+  slug: z.string().describe("URL slug"),
+  name: z.string(),
+  description: z.string().nullable(),
+  createdAt: z.string().describe("ISO 8601 creation timestamp"),
+  urls: z.object({
+    page: z.string().nullable().describe("lottiefiles.com page URL"),
+    json: z.string().nullable().describe("Lottie JSON download URL"),
+    dotLottie: z.string().nullable().describe("dotLottie (.lottie) download URL"),
+    gif: z.string().nullable().describe("Animated GIF preview URL"),
+  }),
+  stats: z.object({
+    downloads: z.number(),
+    likes: z.number(),
+  }),
+  creator: z
+    .object({
+      username: z.string(),
+      avatarUrl: z.string().nullable(),
+    })
+    .nullable(),
+});
+
+export type AnimationOutput = z.infer<typeof animationOutputSchema>;
+
+/**
+ * Output fields shared by every tool that returns a list of animations.
+ */
+export const animationListOutputShape = {
+  results: z.array(animationOutputSchema),
+  totalCount: z.number().describe("Total matches reported by the API"),
+  nextCursor: z.string().nullable().describe("Pass as `cursor` to fetch the next page"),
+  hasNextPage: z.boolean(),
+  cached: z.boolean().describe("Whether the response was served from cache"),
+};
+
+/**
+ * Converts an animation into its structured output form.
+ */
+export function toAnimationOutput(anim: LottieAnimation): AnimationOutput {
+  return {
+    id: anim.id,
+    slug: anim.slug,
+    name: anim.name,
+    description: anim.description,
+    createdAt: anim.createdAt,
+    urls: {
+      page: anim.slug ? `https://lottiefiles.com/animations/${anim.slug}` : null,
+      json: anim.jsonUrl,
+      dotLottie: anim.lottieUrl,
+      gif: anim.gifUrl,
+    },
+    stats: {
+      downloads: anim.downloads,
+      likes: anim.likesCount,
+    },
+    creator: anim.createdBy
+      ? { username: anim.createdBy.username, avatarUrl: anim.createdBy.avatarUrl }
+      : null,
+  };
+}
+
+/**
+ * Builds the shared list output fields from a page of animations.
+ *
+ * @param animations - The animations actually returned (may be filtered from page)
+ */
+export function toAnimationListOutput(page: AnimationPage, animations: LottieAnimation[] = page.animations) {
+  return {
+    results: animations.map(toAnimationOutput),
+    totalCount: page.totalCount,
+    nextCursor: page.nextCursor,
+    hasNextPage: page.hasNextPage,
+    cached: page.cached,
+  };
+}
@@ -0,0 +1,149 @@
+import { z } from "zod";
+import { ToolRegistrar } from "../types/tool.js";
+import { createLogger } from "../utils/logger.js";
+import {
+  ColorMapper,
+  colorMapMapper,
+  loadLottie,
+  nearestPaletteMapper,
+  recolorLottie,
+} from "../lottie/index.js";
+import { deliverLottie, lottieOutputShape, lottieSourceShape } from "./source.js";
+
+const log = createLogger("recolor_animation");
+
+/**
+ * Maximum color mappings listed in the Markdown text
+ */
+const MAX_MAPPINGS_LISTED = 20;
+
+/**
+ * Structured output returned alongside the Markdown text
+ */
+const outputSchema = {
+  mode: z.enum(["color_map", "palette"]),
+  changedValues: z.number().describe("Number of color values rewritten"),
+  mappings: z.array(
+    z.object({ from: z.string(), to: z.string(), count: z.number(), layers: z.array(z.string()) })
+  ),
+  writtenPath: z.string().nullable().describe("File written, or null if the JSON was returned inline"),
+  bytes: z.number().describe("Size of the recolored JSON"),
+};
+
+/**
+ * Recolor a Lottie animation.
+ *
+ * Rewrites static and keyframed fill, stroke, gradient, solid and text colors,
+ * either from an explicit old-to-new map or by snapping every color to the
+ * nearest color of a target palette.
+ */
+export const register: ToolRegistrar = (server, wrapTool) => {
+  const tool = wrapTool(
+    "recolor_animation",
+    "Recolor a Lottie animation to match your brand. Give either an explicit old-to-new color map (e.g., {\"#ff0000\": \"#6c5ce7\"}) or a target palette (every color snaps to the nearest palette color). Rewrites static and animated fill, stroke, gradient, solid and text colors, then returns or writes the modified JSON.",
+    {
+      ...lottieSourceShape,
+      color_map: z
+        .record(z.string(), z.string())
+        .optional()
+        .describe("Explicit mapping of existing hex colors to new hex colors (use extract_palette to see existing colors)"),
+      palette: z
+        .array(z.string())
+        .min(1)
+        .max(32)
+        .optional()
+        .describe("Target palette of hex colors; every color is replaced by its nearest palette color"),
+      tolerance: z
+        .number()
+        .min(0)
+        .max(50)
+        .optional()
+        .default(2)
+        .describe("For color_map: also replace colors within this perceptual distance of a key (CIE delta E, default: 2)"),
+      ...lottieOutputShape,
+    },
+    async ({ url, path, json, animation_id, color_map, palette, tolerance = 2, output_path, overwrite = false }) => {
+      log.info("Recoloring animation", { url, path, inline: json !== undefined, color_map, palette, output_path });
+
+      if ((color_map === undefined) === (palette === undefined)) {
+        return {
+          content: [{ type: "text" as const, text: "Provide exactly one of `color_map` or `palette`." }],
+          isError: true,
+        };
+      }
+
+      try {
+        const mapper: ColorMapper = color_map
+          ? colorMapMapper(color_map, tolerance)
+          : nearestPaletteMapper(palette ?? []);
+        const { document, source } = await loadLottie({ url, path, json, animationId: animation_id });
+        const { document: recolored, changes } = recolorLottie(document, mapper);
+
+        const grouped = new Map<string, { from: string; to: string; count: number; layers: string[] }>();
+        for (const change of changes) {
+          const key = `${change.from}>${change.to}`;
+          const entry = grouped.get(key) ?? { from: change.from, to: change.to, count: 0, layers: [] };
+          entry.count++;
+          if (!entry.layers.includes(change.layer)) {
+            entry.layers.push(change.layer);
+          }
+          grouped.set(key, entry);
+        }
+        const mappings = [...grouped.values()].sort((a, b) => b.count - a.count);
+
+        const delivered = await deliverLottie(recolored, { output_path, overwrite });
+
+        const lines: string[] = [
+          "# Recolored Animation",
+          "",
+          `**Source:** ${source}`,
+          `**Mode:** ${color_map ? "explicit color map" : `nearest of ${palette?.length} palette colors`}`,
+          `**Changed:** ${changes.length} color values`,
+          "",
+        ];
+        if (mappings.length === 0) {
+          lines.push(color_map
+            ? "No colors matched the color map. Use extract_palette to see the animation's colors, or raise `tolerance`."
+            : "All colors already match the palette.");
+        } else {
+          lines.push("## Mappings");
+          for (const mapping of mappings.slice(0, MAX_MAPPINGS_LISTED)) {
+            lines.push(`- ${mapping.from} → ${mapping.to} (${mapping.count}×: ${mapping.layers.join(", ")})`);
+          }
+          if (mappings.length > MAX_MAPPINGS_LISTED) {
+            lines.push(`- ...and ${mappings.length - MAX_MAPPINGS_LISTED} more`);
+          }
+        }
+        lines.push("");
+        lines.push(delivered.text);
+
+        log.info("Animation recolored", { source, changes: changes.length, writtenPath: delivered.writtenPath });
+
+        return {
+          content: [{ type: "text" as const, text: lines.join("\n") }],
+          structuredContent: {
+            mode: color_map ? ("color_map" as const) : ("palette" as const),
+            changedValues: changes.length,
+            mappings,
+            writtenPath: delivered.writtenPath,
+            bytes: delivered.bytes,
+          },
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "Unknown error";
+        log.error("Recolor failed", { url, path, error: errorMessage });
+
+        return {
+          content: [{ type: "text" as const, text: `Failed to recolor animation: ${errorMessage}` }],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    tool.name,
+    { description: tool.description, inputSchema: tool.schema, outputSchema },
+    tool.handler
+  );
+};
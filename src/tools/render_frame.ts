@@ -0,0 +1,126 @@
+import { z } from "zod";
+import { ToolRegistrar } from "../types/tool.js";
+import { createLogger } from "../utils/logger.js";
+import { hexToRgb, loadLottie, renderFrame, rgbToHex } from "../lottie/index.js";
+import { deliverSvg, lottieSourceShape, svgOutputShape } from "./source.js";
+
+const log = createLogger("render_frame");
+
+/**
+ * Structured output returned alongside the Markdown text
+ */
+const outputSchema = {
+  frame: z.number().describe("Frame rendered, on the animation's timeline"),
+  width: z.number(),
+  height: z.number(),
+  bytes: z.number().describe("Size of the SVG"),
+  warnings: z.array(z.string()).describe("Features that were skipped or approximated"),
+  writtenPath: z.string().nullable().describe("File written, or null if the SVG was returned inline"),
+};
+
+/**
+ * Render a frame of a Lottie animation as a static SVG.
+ *
+ * Lets agents without a browser preview an animation at any point of its
+ * timeline instead of relying on the remote GIF preview.
+ */
+export const register: ToolRegistrar = (server, wrapTool) => {
+  const tool = wrapTool(
+    "render_frame",
+    "Render one frame of a Lottie animation as a static SVG, to preview it without a browser (e.g. check the end state of a success animation or how it looks after recoloring). Handles shape layers, transforms, fills, strokes, gradients, trim paths, precomps, masks and mattes; anything else is listed in the warnings. Returns the SVG as text, as an image, or writes it to a file.",
+    {
+      ...lottieSourceShape,
+      frame: z
+        .number()
+        .min(0)
+        .optional()
+        .describe("Frame (or time, see unit) to render (default: the first frame)"),
+      unit: z
+        .enum(["frames", "seconds"])
+        .optional()
+        .default("frames")
+        .describe("Unit of `frame` (default: frames). Seconds count from the start of the timeline"),
+      width: z
+        .number()
+        .int()
+        .min(16)
+        .max(4096)
+        .optional()
+        .describe("Output width in pixels (default: the animation width); the height keeps the aspect ratio"),
+      background: z
+        .string()
+        .optional()
+        .describe("Background color as hex, e.g. \"#ffffff\" (default: transparent)"),
+      ...svgOutputShape,
+    },
+    async ({ url, path, json, animation_id, frame, unit = "frames", width, background, format = "text", output_path, overwrite = false }) => {
+      log.info("Rendering frame", { url, path, inline: json !== undefined, frame, unit, width, format, output_path });
+
+      const backgroundRgb = background !== undefined ? hexToRgb(background) : null;
+      if (background !== undefined && !backgroundRgb) {
+        return {
+          content: [{ type: "text" as const, text: `Invalid background color "${background}". Use a hex color such as "#ffffff".` }],
+          isError: true,
+        };
+      }
+
+      try {
+        const { document, source } = await loadLottie({ url, path, json, animationId: animation_id });
+
+        const target = frame === undefined ? document.ip : unit === "seconds" ? document.ip + frame * document.fr : frame;
+        if (target < document.ip || target > document.op) {
+          return {
+            content: [{ type: "text" as const, text: `Frame ${target} is outside the timeline (frames ${document.ip}-${document.op}, ${((document.op - document.ip) / document.fr).toFixed(2)}s).` }],
+            isError: true,
+          };
+        }
+
+        const rendered = renderFrame(document, target, { width, background: backgroundRgb ? rgbToHex(backgroundRgb) : undefined });
+        const lines: string[] = [
+          "# Rendered Frame",
+          "",
+          `**Source:** ${source}`,
+          `**Frame:** ${Math.round(target * 1000) / 1000} of ${document.ip}-${document.op} (${((target - document.ip) / document.fr).toFixed(2)}s)`,
+          `**Size:** ${rendered.width}×${rendered.height}`,
+        ];
+        if (rendered.warnings.length > 0) {
+          lines.push("");
+          lines.push("## Warnings");
+          lines.push(...rendered.warnings.map((warning) => `- ${warning}`));
+        }
+
+        const delivered = await deliverSvg(rendered.svg, { format, output_path, overwrite });
+        lines.push("");
+        lines.push(delivered.text);
+
+        log.info("Frame rendered", { source, frame: target, bytes: delivered.bytes, warnings: rendered.warnings.length, writtenPath: delivered.writtenPath });
+
+        return {
+          content: [{ type: "text" as const, text: lines.join("\n") }, ...(delivered.image ? [delivered.image] : [])],
+          structuredContent: {
+            frame: target,
+            width: rendered.width,
+            height: rendered.height,
+            bytes: delivered.bytes,
+            warnings: rendered.warnings,
+            writtenPath: delivered.writtenPath,
+          },
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "Unknown error";
+        log.error("Render failed", { url, path, error: errorMessage });
+
+        return {
+          content: [{ type: "text" as const, text: `Failed to render frame: ${errorMessage}` }],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    tool.name,
+    { description: tool.description, inputSchema: tool.schema, outputSchema },
+    tool.handler
+  );
+};
@@ -0,0 +1,182 @@
+import { z } from "zod";
+import { ToolRegistrar } from "../types/tool.js";
+import { createLogger } from "../utils/logger.js";
+import { ALIGNMENTS, Box, RESIZE_MODES, contentBounds, loadLottie, resizeLottie } from "../lottie/index.js";
+import { deliverLottie, lottieOutputShape, lottieSourceShape } from "./source.js";
+
+const log = createLogger("resize_animation");
+
+/**
+ * Canvas size used for before/after output
+ */
+const sizeShape = z.object({ width: z.number(), height: z.number() });
+
+/**
+ * Structured output returned alongside the Markdown text
+ */
+const outputSchema = {
+  before: sizeShape,
+  after: sizeShape,
+  mode: z.enum(RESIZE_MODES),
+  scale: z.number().describe("Uniform scale applied to the shown region"),
+  region: z
+    .object({ x: z.number(), y: z.number(), width: z.number(), height: z.number() })
+    .describe("Part of the original canvas shown, in original canvas coordinates"),
+  warnings: z.array(z.string()),
+  writtenPath: z.string().nullable().describe("File written, or null if the JSON was returned inline"),
+  bytes: z.number().describe("Size of the resized JSON"),
+};
+
+/**
+ * Rounds for display
+ */
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+/**
+ * Rounds a box outward to whole pixels, grows it by `padding` and keeps it within the canvas
+ */
+function expandRegion(box: Box, padding: number, width: number, height: number): Box {
+  const x0 = Math.max(Math.floor(box.x) - padding, 0);
+  const y0 = Math.max(Math.floor(box.y) - padding, 0);
+  const x1 = Math.min(Math.ceil(box.x + box.width) + padding, width);
+  const y1 = Math.min(Math.ceil(box.y + box.height) + padding, height);
+  return { x: x0, y: y0, width: x1 - x0, height: y1 - y0 };
+}
+
+/**
+ * Resize or re-frame a Lottie animation canvas.
+ *
+ * The original layers are wrapped in a precomp placed by a single transformed
+ * layer, so the animation itself is not modified.
+ */
+export const register: ToolRegistrar = (server, wrapTool) => {
+  const tool = wrapTool(
+    "resize_animation",
+    "Change the canvas size of a Lottie animation, e.g. make a 1:1 icon fit a 16:9 banner or remove empty space around the artwork. Modes: fit (scale to fit inside, letterboxed), fill (scale to cover, overflow cropped) and crop (keep the scale, crop or pad). auto_crop first crops to the visible content bounds computed from the shape geometry. Returns or writes the resized JSON.",
+    {
+      ...lottieSourceShape,
+      width: z
+        .number()
+        .int()
+        .min(1)
+        .max(8192)
+        .optional()
+        .describe("New canvas width in pixels. If only one of width/height is given, the other keeps the aspect ratio of the shown area"),
+      height: z.number().int().min(1).max(8192).optional().describe("New canvas height in pixels"),
+      mode: z
+        .enum(RESIZE_MODES)
+        .optional()
+        .default("fit")
+        .describe("fit: scale to fit inside (default); fill: scale to cover, cropping overflow; crop: keep the scale and crop or pad"),
+      align: z
+        .enum(ALIGNMENTS)
+        .optional()
+        .default("center")
+        .describe("Where the content sits when it does not fill the canvas exactly (default: center)"),
+      auto_crop: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe("Crop to the visible content bounds (over the whole timeline) before resizing"),
+      padding: z
+        .number()
+        .int()
+        .min(0)
+        .max(1000)
+        .optional()
+        .default(0)
+        .describe("Auto-crop: pixels of space to keep around the content, in original canvas pixels"),
+      ...lottieOutputShape,
+    },
+    async ({ url, path, json, animation_id, width, height, mode = "fit", align = "center", auto_crop = false, padding = 0, output_path, overwrite = false }) => {
+      log.info("Resizing animation", { url, path, inline: json !== undefined, width, height, mode, align, auto_crop, output_path });
+
+      if (width === undefined && height === undefined && !auto_crop) {
+        return {
+          content: [{ type: "text" as const, text: "Nothing to do: provide `width`, `height` or `auto_crop`." }],
+          isError: true,
+        };
+      }
+
+      try {
+        const { document, source } = await loadLottie({ url, path, json, animationId: animation_id });
+
+        const warnings: string[] = [];
+        let region: Box | undefined;
+        if (auto_crop) {
+          const measured = contentBounds(document);
+          warnings.push(...measured.warnings);
+          if (!measured.bounds) {
+            return {
+              content: [{ type: "text" as const, text: "Failed to resize animation: no visible content found to auto-crop to" }],
+              isError: true,
+            };
+          }
+          region = expandRegion(measured.bounds, padding, document.w, document.h);
+        }
+
+        const result = resizeLottie(document, { width, height, mode, align, region });
+        const delivered = await deliverLottie(result.document, { output_path, overwrite });
+
+        const before = { width: document.w, height: document.h };
+        const after = { width: result.document.w, height: result.document.h };
+        const shown = {
+          x: round(result.region.x),
+          y: round(result.region.y),
+          width: round(result.region.width),
+          height: round(result.region.height),
+        };
+
+        const lines: string[] = [
+          "# Resized Animation",
+          "",
+          `**Source:** ${source}`,
+          `**Canvas:** ${before.width}×${before.height} → ${after.width}×${after.height}`,
+          `**Mode:** ${mode} (${align}), scale ×${round(result.scale)}`,
+        ];
+        if (auto_crop) {
+          lines.push(`**Content bounds:** ${shown.width}×${shown.height} at (${shown.x}, ${shown.y})${padding > 0 ? ` including ${padding}px padding` : ""}`);
+        }
+        if (warnings.length > 0) {
+          lines.push("");
+          lines.push("## Warnings");
+          lines.push(...warnings.map((warning) => `- ${warning}`));
+        }
+        lines.push("");
+        lines.push(delivered.text);
+
+        log.info("Animation resized", { source, before, after, scale: result.scale, writtenPath: delivered.writtenPath });
+
+        return {
+          content: [{ type: "text" as const, text: lines.join("\n") }],
+          structuredContent: {
+            before,
+            after,
+            mode,
+            scale: round(result.scale),
+            region: shown,
+            warnings,
+            writtenPath: delivered.writtenPath,
+            bytes: delivered.bytes,
+          },
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "Unknown error";
+        log.error("Resize failed", { url, path, error: errorMessage });
+
+        return {
+          content: [{ type: "text" as const, text: `Failed to resize animation: ${errorMessage}` }],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    tool.name,
+    { description: tool.description, inputSchema: tool.schema, outputSchema },
+    tool.handler
+  );
+};
@@ -0,0 +1,131 @@
+import { z } from "zod";
+import { stat } from "fs/promises";
+import { basename } from "path";
+import { ToolRegistrar } from "../types/tool.js";
+import { createLogger } from "../utils/logger.js";
+import {
+  fetchTrusted,
+  isZip,
+  parseLottie,
+  resolveProjectPath,
+  selectDotLottieAnimation,
+  unpackDotLottie,
+  writeLocalFile,
+} from "../lottie/index.js";
+
+const log = createLogger("save_animation");
+
+/**
+ * Structured output returned alongside the Markdown text
+ */
+const outputSchema = {
+  path: z.string().describe("Absolute path written"),
+  format: z.enum(["json", "dotlottie"]),
+  bytes: z.number(),
+  width: z.number(),
+  height: z.number(),
+  frameRate: z.number(),
+  durationSeconds: z.number().nullable(),
+};
+
+/**
+ * Save a Lottie animation file into the project.
+ *
+ * Downloads the JSON or dotLottie file and writes it inside the project root,
+ * returning only a summary so large animations never fill the conversation.
+ */
+export const register: ToolRegistrar = (server, wrapTool) => {
+  const tool = wrapTool(
+    "save_animation",
+    "Save a Lottie animation (JSON or .lottie) from its LottieFiles URL straight into your project, e.g. 'src/assets/animations/success.json'. No size limit; returns only a summary instead of the JSON. Refuses paths outside the project root and won't overwrite existing files unless asked.",
+    {
+      url: z
+        .string()
+        .url()
+        .describe("The animation JSON or dotLottie URL (from search results or get_animation)"),
+      path: z
+        .string()
+        .min(1)
+        .describe("Destination inside the project, relative to the project root. End with '/' to keep the file name from the URL"),
+      overwrite: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe("Replace the file if it already exists (default: false)"),
+    },
+    async ({ url, path, overwrite = false }) => {
+      log.info("Saving animation", { url, path, overwrite });
+
+      try {
+        let destination = path;
+        const isDirectory = path.endsWith("/") ||
+          (await stat(await resolveProjectPath(path)).then((info) => info.isDirectory(), () => false));
+        if (isDirectory) {
+          const fileName = basename(new URL(url).pathname) || "animation.json";
+          destination = `${path.replace(/\/+$/, "")}/${fileName}`;
+        }
+
+        const body = await fetchTrusted(url, Infinity);
+        const format = isZip(body) ? ("dotlottie" as const) : ("json" as const);
+
+        const expected = format === "dotlottie" ? ".lottie" : ".json";
+        if (!destination.toLowerCase().endsWith(expected)) {
+          return {
+            content: [{
+              type: "text" as const,
+              text: `The downloaded file is ${format === "dotlottie" ? "a dotLottie archive" : "Lottie JSON"}, but "${destination}" does not end with ${expected}. Use a ${expected} file name.`,
+            }],
+            isError: true,
+          };
+        }
+
+        // Refuse to save content that is not a Lottie document or a valid archive
+        const doc = format === "dotlottie"
+          ? selectDotLottieAnimation(unpackDotLottie(body)).document
+          : parseLottie(new TextDecoder().decode(body));
+        const metadata = {
+          width: doc.w,
+          height: doc.h,
+          frameRate: doc.fr,
+          durationSeconds: doc.fr > 0 ? Math.round(((doc.op - doc.ip) / doc.fr) * 1000) / 1000 : null,
+        };
+
+        const writtenPath = await writeLocalFile(destination, body, { overwrite });
+
+        const lines: string[] = [
+          "# Animation Saved",
+          "",
+          `**Path:** ${writtenPath}`,
+          `**Format:** ${format === "dotlottie" ? "dotLottie (.lottie)" : "Lottie JSON"}`,
+          `**Size:** ${(body.byteLength / 1024).toFixed(1)}KB`,
+        ];
+        lines.push(`**Canvas:** ${metadata.width}x${metadata.height}`);
+        lines.push(`**Duration:** ${metadata.durationSeconds}s at ${metadata.frameRate}fps`);
+        lines.push("");
+        lines.push(`**Source:** ${url}`);
+        lines.push("License: Lottie Simple License (free for commercial use, no attribution required)");
+
+        log.info("Animation saved", { url, writtenPath, bytes: body.byteLength, format });
+
+        return {
+          content: [{ type: "text" as const, text: lines.join("\n") }],
+          structuredContent: { path: writtenPath, format, bytes: body.byteLength, ...metadata },
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "Unknown error";
+        log.error("Save failed", { url, path, error: errorMessage });
+
+        return {
+          content: [{ type: "text" as const, text: `Failed to save animation: ${errorMessage}` }],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    tool.name,
+    { description: tool.description, inputSchema: tool.schema, outputSchema },
+    tool.handler
+  );
+};
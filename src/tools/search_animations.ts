@@ -1,106 +1,49 @@
 import { z } from "zod";
 import { ToolRegistrar } from "../types/tool.js";
 import { createLogger } from "../utils/logger.js";
+import {
+  getLottieFilesClient,
+  AnimationFilters,
+  ANIMATION_SORTS,
+  endOfDay,
+  hasActiveFilters,
+  mergeFilters,
+  parseQuery,
+  fetchQuery,
+  ParsedQuery,
+  QuerySyntaxError,
+} from "../lottiefiles/index.js";
+import { QUERY_SYNTAX_HELP, formatAnimation, formatCacheNote, formatQueryError } from "./format.js";
+import { animationListOutputShape, toAnimationListOutput } from "./output.js";
 
 const log = createLogger("search_animations");
 
 /**
- * LottieFiles GraphQL API endpoint (public, no auth required)
+ * Page size used when over-fetching to fill `limit` after filtering
  */
-const LOTTIEFILES_API = "https://graphql.lottiefiles.com/2022-08";
+const FILTER_PAGE_SIZE = 50;
 
 /**
- * GraphQL query for searching animations
+ * Maximum number of pages fetched for a single filtered search
  */
-const SEARCH_QUERY = `
-  query SearchAnimations($query: String!, $limit: Int!) {
-    searchPublicAnimations(query: $query, first: $limit) {
-      totalCount
-      edges {
-        cursor
-        node {
-          id
-          slug
-          name
-          description
-          likesCount
-          downloads
-          gifUrl
-          lottieUrl
-          jsonUrl
-          createdAt
-          createdBy {
-            username
-            avatarUrl
-          }
-        }
-      }
-    }
-  }
-`;
-
-interface LottieAnimation {
-  id: string;
-  slug: string;
-  name: string;
-  description: string | null;
-  likesCount: number;
-  downloads: number;
-  gifUrl: string | null;
-  lottieUrl: string | null;
-  jsonUrl: string | null;
-  createdAt: string;
-  createdBy: {
-    username: string;
-    avatarUrl: string | null;
-  } | null;
-}
-
-interface SearchResponse {
-  data: {
-    searchPublicAnimations: {
-      totalCount: number;
-      edges: Array<{
-        cursor: string;
-        node: LottieAnimation;
-      }>;
-    };
-  };
-  errors?: Array<{ message: string }>;
-}
+const MAX_FILTER_PAGES = 5;
+
+/**
+ * ISO 8601 date input, validated up front so filters never compare against NaN
+ */
+const isoDate = z
+  .string()
+  .refine((value) => !Number.isNaN(Date.parse(value)), "Must be an ISO 8601 date (e.g., '2024-01-31')");
 
 /**
- * Formats a single animation result for display
+ * Structured output returned alongside the Markdown text
  */
-function formatAnimation(anim: LottieAnimation, index: number): string {
-  const lines: string[] = [
-    `${index + 1}. **${anim.name}**`,
-    `   ID: ${anim.id}`,
-  ];
-
-  if (anim.description) {
-    lines.push(`   Description: ${anim.description.slice(0, 100)}${anim.description.length > 100 ? "..." : ""}`);
-  }
-
-  if (anim.createdBy) {
-    lines.push(`   Creator: ${anim.createdBy.username}`);
-  }
-
-  lines.push(`   Downloads: ${anim.downloads.toLocaleString()} | Likes: ${anim.likesCount.toLocaleString()}`);
-
-  // Add download URLs
-  if (anim.lottieUrl) {
-    lines.push(`   dotLottie URL: ${anim.lottieUrl}`);
-  }
-  if (anim.jsonUrl) {
-    lines.push(`   JSON URL: ${anim.jsonUrl}`);
-  }
-  if (anim.gifUrl) {
-    lines.push(`   Preview GIF: ${anim.gifUrl}`);
-  }
-
-  return lines.join("\n");
-}
+const outputSchema = {
+  query: z.string(),
+  sortBy: z.enum(ANIMATION_SORTS),
+  scannedCount: z.number().describe("Animations inspected before client-side filtering"),
+  ...animationListOutputShape,
+};
 
 /**
  * Search for Lottie animations on LottieFiles.
@@ -111,13 +54,13 @@ function formatAnimation(anim: LottieAnimation, index: number): string {
 export const register: ToolRegistrar = (server, wrapTool) => {
   const tool = wrapTool(
     "search_animations",
-    "Search for free Lottie animations by keyword. Returns animations with direct download URLs (JSON and dotLottie formats). Perfect for finding loading spinners, success animations, icons, and more.",
+    "Search for free Lottie animations by keyword. Returns animations with direct download URLs (JSON and dotLottie formats). Perfect for finding loading spinners, success animations, icons, and more. Supports optional filters (downloads, likes, creation date, creator, available formats) and sorting.",
     {
       query: z
         .string()
         .min(1)
         .max(100)
-        .describe("Search keywords (e.g., 'loading spinner', 'success check', 'error', 'arrow')"),
+        .describe(`Search keywords (e.g., 'loading spinner', 'success check', 'error', 'arrow'). ${QUERY_SYNTAX_HELP}`),
       limit: z
         .number()
         .int()
@@ -126,84 +69,174 @@ export const register: ToolRegistrar = (server, wrapTool) => {
         .optional()
         .default(10)
         .describe("Number of results to return (1-50, default: 10)"),
+      cursor: z
+        .string()
+        .min(1)
+        .optional()
+        .describe("Pagination cursor: pass the nextCursor from a previous search with the same query to get the next page"),
+      min_downloads: z
+        .number()
+        .int()
+        .min(0)
+        .optional()
+        .describe("Only return animations with at least this many downloads"),
+      min_likes: z
+        .number()
+        .int()
+        .min(0)
+        .optional()
+        .describe("Only return animations with at least this many likes"),
+      created_after: isoDate
+        .optional()
+        .describe("Only return animations created on or after this date (ISO 8601, e.g., '2024-01-01')"),
+      created_before: isoDate
+        .optional()
+        .describe("Only return animations created on or before this date (ISO 8601)"),
+      creators: z
+        .array(z.string().min(1))
+        .max(10)
+        .optional()
+        .describe("Only return animations by these creator usernames"),
+      exclude_creators: z
+        .array(z.string().min(1))
+        .max(10)
+        .optional()
+        .describe("Skip animations by these creator usernames"),
+      require_json: z
+        .boolean()
+        .optional()
+        .describe("Only return animations that have a Lottie JSON URL"),
+      require_dotlottie: z
+        .boolean()
+        .optional()
+        .describe("Only return animations that have a dotLottie URL"),
+      sort_by: z
+        .enum(ANIMATION_SORTS)
+        .optional()
+        .default("relevance")
+        .describe("Sort order: 'relevance' (API order, default), 'downloads', 'likes' or 'newest'. Sorting applies to the fetched results, not the whole catalog"),
     },
-    async ({ query, limit = 10 }) => {
-      log.info("Searching animations", { query, limit });
+    async ({
+      query,
+      limit = 10,
+      cursor,
+      min_downloads,
+      min_likes,
+      created_after,
+      created_before,
+      creators,
+      exclude_creators,
+      require_json,
+      require_dotlottie,
+      sort_by = "relevance",
+    }) => {
+      const filters: AnimationFilters = {
+        minDownloads: min_downloads,
+        minLikes: min_likes,
+        createdAfter: created_after,
+        createdBefore: created_before === undefined ? undefined : endOfDay(created_before),
+        includeCreators: creators,
+        excludeCreators: exclude_creators,
+        requireJson: require_json,
+        requireDotLottie: require_dotlottie,
+      };
 
+      let parsed: ParsedQuery;
       try {
-        const response = await fetch(LOTTIEFILES_API, {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            "User-Agent": "LottieAnimationSearch-MCP/1.0",
-          },
-          body: JSON.stringify({
-            query: SEARCH_QUERY,
-            variables: { query, limit },
-          }),
-        });
-
-        if (!response.ok) {
-          log.error("API request failed", { status: response.status });
-          return {
-            content: [
-              {
-                type: "text" as const,
-                text: `Failed to search animations: HTTP ${response.status}`,
-              },
-            ],
-            isError: true,
-          };
+        parsed = parseQuery(query);
+      } catch (error) {
+        if (error instanceof QuerySyntaxError) {
+          return { content: [{ type: "text" as const, text: formatQueryError(error) }], isError: true };
         }
+        throw error;
+      }
+      if (parsed.groups.some((g) => !g.query)) {
+        return {
+          content: [{ type: "text" as const, text: `Query "${query}" has no search terms. Add at least one keyword besides qualifiers and exclusions.` }],
+          isError: true,
+        };
+      }
+      if (cursor && parsed.groups.length > 1) {
+        return {
+          content: [{ type: "text" as const, text: "`cursor` cannot be used with OR queries, which merge several searches. Run each alternative separately to paginate." }],
+          isError: true,
+        };
+      }
 
-        const result: SearchResponse = await response.json();
+      const filtering =
+        hasActiveFilters(mergeFilters(filters, parsed.filters)) ||
+        parsed.groups.length > 1 ||
+        parsed.groups.some((g) => g.phrases.length > 0);
 
-        if (result.errors && result.errors.length > 0) {
-          log.error("GraphQL errors", { errors: result.errors });
-          return {
-            content: [
-              {
-                type: "text" as const,
-                text: `Search failed: ${result.errors.map((e) => e.message).join(", ")}`,
-              },
-            ],
-            isError: true,
-          };
-        }
+      log.info("Searching animations", { query, limit, cursor, filters, sort_by });
 
-        const searchData = result.data.searchPublicAnimations;
-        const animations = searchData.edges.map((edge) => edge.node);
+      try {
+        const client = getLottieFilesClient();
+        // Over-fetch larger pages when filtering so `limit` can still be filled
+        const filtered = await fetchQuery(
+          (groupQuery, after) => client.search({ query: groupQuery, first: filtering ? FILTER_PAGE_SIZE : limit, after }),
+          parsed,
+          {
+            limit,
+            filters,
+            sort: sort_by,
+            maxPages: filtering ? MAX_FILTER_PAGES : 1,
+            after: cursor,
+          }
+        );
+        const searchData = { ...filtered.lastPage, cached: filtered.cached };
+        const animations = filtered.animations;
+        const structuredContent = {
+          query,
+          sortBy: sort_by,
+          scannedCount: filtered.scanned,
+          ...toAnimationListOutput(searchData, animations),
+        };
 
         if (animations.length === 0) {
           return {
             content: [
               {
                 type: "text" as const,
-                text: `No animations found for "${query}". Try different keywords like: loading, spinner, success, error, check, arrow, heart, star, confetti, rocket, etc.`,
+                text: filtering
+                  ? `No animations for "${query}" matched the filters (scanned ${filtered.scanned} results across ${filtered.pagesFetched} pages). Try loosening the filters.${searchData.hasNextPage ? `\n\nMore unscanned results exist: call again with cursor: "${searchData.nextCursor}"` : ""}`
+                  : `No animations found for "${query}". Try different keywords like: loading, spinner, success, error, check, arrow, heart, star, confetti, rocket, etc.`,
               },
             ],
+            structuredContent,
           };
         }
 
         // Format results
         const formattedAnimations = animations.map((anim, i) => formatAnimation(anim, i));
 
-        const header = `Found ${searchData.totalCount.toLocaleString()} animations for "${query}" (showing ${animations.length}):\n`;
+        const filterNote = filtering
+          ? `, ${animations.length} of ${filtered.scanned} scanned matched filters`
+          : "";
+        const sortNote = sort_by !== "relevance" ? `, sorted by ${sort_by}` : "";
+        const header = `Found ${searchData.totalCount.toLocaleString()} animations for "${query}" (showing ${animations.length}${filterNote}${sortNote}):\n`;
+        const pagination = searchData.hasNextPage
+          ? `\n\nhasNextPage: true\nnextCursor: ${searchData.nextCursor}\n(Call search_animations again with the same query and cursor: "${searchData.nextCursor}" for more results)`
+          : `\n\nhasNextPage: false`;
         const footer = `\n---\nTo download: Use the JSON URL or dotLottie URL directly.\nLicense: Lottie Simple License (free for commercial use, no attribution required)`;
 
         log.info("Search completed", {
           query,
           totalCount: searchData.totalCount,
           returned: animations.length,
+          scanned: filtered.scanned,
+          pagesFetched: filtered.pagesFetched,
+          hasNextPage: searchData.hasNextPage,
         });
 
         return {
           content: [
             {
               type: "text" as const,
-              text: header + formattedAnimations.join("\n\n") + footer,
+              text: header + formattedAnimations.join("\n\n") + pagination + footer + formatCacheNote(searchData.cached),
             },
           ],
+          structuredContent,
         };
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : "Unknown error";
@@ -222,5 +255,9 @@ export const register: ToolRegistrar = (server, wrapTool) => {
     }
   );
 
-  server.tool(tool.name, tool.description, tool.schema, tool.handler);
+  server.registerTool(
+    tool.name,
+    { description: tool.description, inputSchema: tool.schema, outputSchema },
+    tool.handler
+  );
 };
@@ -1,72 +1,30 @@
 import { z } from "zod";
 import { ToolRegistrar } from "../types/tool.js";
 import { createLogger } from "../utils/logger.js";
+import { QuerySyntaxError } from "../lottiefiles/index.js";
+import { QUERY_SYNTAX_HELP, formatCacheNote, formatQueryError } from "./format.js";
+import { animationListOutputShape, toAnimationListOutput } from "./output.js";
+import {
+  STYLE_TAGS,
+  formatDroppedNote,
+  formatMatchedTags,
+  searchTags,
+  tagMatchOutputShape,
+  toTagMatchOutput,
+} from "./tag_search.js";
 
 const log = createLogger("search_by_tags");
 
 /**
- * LottieFiles GraphQL API endpoint
+ * Structured output returned alongside the Markdown text
  */
-const LOTTIEFILES_API = "https://graphql.lottiefiles.com/2022-08";
-
-/**
- * GraphQL query for searching animations
- */
-const SEARCH_QUERY = `
-  query SearchByTags($query: String!, $limit: Int!) {
-    searchPublicAnimations(query: $query, first: $limit) {
-      totalCount
-      edges {
-        node {
-          id
-          name
-          description
-          downloads
-          likesCount
-          lottieUrl
-          jsonUrl
-          gifUrl
-          createdBy {
-            username
-          }
-        }
-      }
-    }
-  }
-`;
-
-/**
- * Common style tags for reference
- */
-const STYLE_TAGS = {
-  visual: ["minimal", "flat", "3d", "isometric", "outline", "filled", "gradient", "neon", "retro", "modern"],
-  color: ["colorful", "monochrome", "pastel", "vibrant", "dark", "light", "black", "white", "blue", "green", "red"],
-  type: ["icon", "illustration", "character", "logo", "ui", "ux", "button", "loader", "spinner"],
-  mood: ["cute", "professional", "playful", "elegant", "fun", "serious", "friendly"],
+const outputSchema = {
+  tags: z.array(z.string()),
+  keyword: z.string().nullable(),
+  ...animationListOutputShape,
+  ...tagMatchOutputShape,
 };
 
-interface LottieAnimation {
-  id: string;
-  name: string;
-  description: string | null;
-  downloads: number;
-  likesCount: number;
-  lottieUrl: string | null;
-  jsonUrl: string | null;
-  gifUrl: string | null;
-  createdBy: { username: string } | null;
-}
-
-interface SearchResponse {
-  data: {
-    searchPublicAnimations: {
-      totalCount: number;
-      edges: Array<{ node: LottieAnimation }>;
-    };
-  };
-  errors?: Array<{ message: string }>;
-}
-
 /**
  * Search for Lottie animations by style tags.
  * 
@@ -86,7 +44,7 @@ export const register: ToolRegistrar = (server, wrapTool) => {
       keyword: z
         .string()
         .optional()
-        .describe("Optional keyword to combine with tags (e.g., 'loading' to find minimal loading animations)"),
+        .describe(`Optional keyword to combine with tags (e.g., 'loading' to find minimal loading animations). ${QUERY_SYNTAX_HELP}`),
       limit: z
         .number()
         .int()
@@ -99,57 +57,28 @@ export const register: ToolRegistrar = (server, wrapTool) => {
         .boolean()
         .optional()
         .default(false)
-        .describe("If true, only return animations that have at least one of the specified tags. If false, returns best matches."),
+        .describe("If true, only return animations whose name, description or slug contains at least one of the specified tags (fetches extra pages to fill the limit). If false, returns best matches."),
     },
     async ({ tags, keyword, limit = 10, strict = false }) => {
       log.info("Searching by tags", { tags, keyword, limit, strict });
 
-      // Note: strict mode is ignored since API doesn't return tag metadata
-      // We search using tags as keywords instead
-
       try {
-        // Build search query combining tags and optional keyword
-        const searchTerms = [...tags];
-        if (keyword) {
-          searchTerms.push(keyword);
-        }
-        const query = searchTerms.join(" ");
-
-        const response = await fetch(LOTTIEFILES_API, {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            "User-Agent": "LottieAnimationSearch-MCP/1.0",
-          },
-          body: JSON.stringify({
-            query: SEARCH_QUERY,
-            variables: { query, limit },
-          }),
-        });
-
-        if (!response.ok) {
-          return {
-            content: [{ type: "text" as const, text: `Search failed: HTTP ${response.status}` }],
-            isError: true,
-          };
-        }
-
-        const result: SearchResponse = await response.json();
-
-        if (result.errors?.length) {
-          return {
-            content: [{ type: "text" as const, text: `Search failed: ${result.errors.map(e => e.message).join(", ")}` }],
-            isError: true,
-          };
-        }
-
-        const animations = result.data.searchPublicAnimations.edges.map(e => e.node);
+        const result = await searchTags(tags, keyword, limit, strict);
+        const { animations, matchedTags, dropped } = result;
+        const structuredContent = {
+          tags,
+          keyword: keyword ?? null,
+          ...toAnimationListOutput(result.page, animations),
+          cached: result.cached,
+          ...toTagMatchOutput(result, strict),
+        };
 
         if (animations.length === 0) {
           return {
+            structuredContent,
             content: [{
               type: "text" as const,
-              text: `No animations found matching tags: ${tags.join(", ")}${keyword ? ` with keyword "${keyword}"` : ""}\n\n**Popular style tags to try:**\n- Visual: ${STYLE_TAGS.visual.join(", ")}\n- Color: ${STYLE_TAGS.color.join(", ")}\n- Type: ${STYLE_TAGS.type.join(", ")}\n- Mood: ${STYLE_TAGS.mood.join(", ")}`,
+              text: `No animations found matching tags: ${tags.join(", ")}${keyword ? ` with keyword "${keyword}"` : ""}\n\n**Popular style tags to try:**\n- Visual: ${STYLE_TAGS.visual.join(", ")}\n- Color: ${STYLE_TAGS.color.join(", ")}\n- Type: ${STYLE_TAGS.type.join(", ")}\n- Mood: ${STYLE_TAGS.mood.join(", ")}${formatDroppedNote(dropped)}`,
             }],
           };
         }
@@ -165,7 +94,7 @@ export const register: ToolRegistrar = (server, wrapTool) => {
         animations.forEach((anim, index) => {
           lines.push(`## ${index + 1}. ${anim.name}`);
           lines.push(`**ID:** ${anim.id}`);
-          lines.push(`**Search tags:** ${tags.join(", ")}`);
+          lines.push(formatMatchedTags(matchedTags[anim.id] ?? []));
           
           if (anim.createdBy) {
             lines.push(`**Creator:** ${anim.createdBy.username}`);
@@ -192,13 +121,23 @@ export const register: ToolRegistrar = (server, wrapTool) => {
         log.info("Tag search completed", { 
           tags,
           keyword,
-          resultsCount: animations.length 
+          strict,
+          resultsCount: animations.length,
+          droppedCount: dropped.length,
         });
 
         return {
-          content: [{ type: "text" as const, text: lines.join("\n") }],
+          content: [{ type: "text" as const, text: lines.join("\n") + formatDroppedNote(dropped) + formatCacheNote(result.cached) }],
+          structuredContent,
         };
       } catch (error) {
+        if (error instanceof QuerySyntaxError) {
+          return {
+            content: [{ type: "text" as const, text: formatQueryError(error) }],
+            isError: true,
+          };
+        }
+
         const errorMessage = error instanceof Error ? error.message : "Unknown error";
         log.error("Tag search failed", { tags, error: errorMessage });
 
@@ -210,5 +149,9 @@ export const register: ToolRegistrar = (server, wrapTool) => {
     }
   );
 
-  server.tool(tool.name, tool.description, tool.schema, tool.handler);
+  server.registerTool(
+    tool.name,
+    { description: tool.description, inputSchema: tool.schema, outputSchema },
+    tool.handler
+  );
 };
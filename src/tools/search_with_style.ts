@@ -2,61 +2,31 @@ import { z } from "zod";
 import { ToolRegistrar } from "../types/tool.js";
 import { createLogger } from "../utils/logger.js";
 import { getStyleTags, getStyleForFolder } from "../config/styles.js";
+import { QuerySyntaxError } from "../lottiefiles/index.js";
+import { QUERY_SYNTAX_HELP, formatCacheNote, formatQueryError } from "./format.js";
+import { animationListOutputShape, toAnimationListOutput } from "./output.js";
+import {
+  formatDroppedNote,
+  formatMatchedTags,
+  searchTags,
+  tagMatchOutputShape,
+  toTagMatchOutput,
+} from "./tag_search.js";
 
 const log = createLogger("search_with_style");
 
 /**
- * LottieFiles GraphQL API endpoint
+ * Structured output returned alongside the Markdown text
  */
-const LOTTIEFILES_API = "https://graphql.lottiefiles.com/2022-08";
-
-/**
- * GraphQL query for searching animations
- */
-const SEARCH_QUERY = `
-  query SearchWithStyle($query: String!, $limit: Int!) {
-    searchPublicAnimations(query: $query, first: $limit) {
-      totalCount
-      edges {
-        node {
-          id
-          name
-          description
-          downloads
-          likesCount
-          lottieUrl
-          jsonUrl
-          gifUrl
-          createdBy {
-            username
-          }
-        }
-      }
-    }
-  }
-`;
-
-interface LottieAnimation {
-  id: string;
-  name: string;
-  description: string | null;
-  downloads: number;
-  likesCount: number;
-  lottieUrl: string | null;
-  jsonUrl: string | null;
-  gifUrl: string | null;
-  createdBy: { username: string } | null;
-}
+const outputSchema = {
+  style: z.string(),
+  tags: z.array(z.string()),
+  keyword: z.string().nullable(),
+  ...animationListOutputShape,
+  ...tagMatchOutputShape,
+};
 
-interface SearchResponse {
-  data: {
-    searchPublicAnimations: {
-      totalCount: number;
-      edges: Array<{ node: LottieAnimation }>;
-    };
-  };
-  errors?: Array<{ message: string }>;
-}
+type StyleSearchOutput = z.infer<z.ZodObject<typeof outputSchema>>;
 
 /**
  * Search animations using style tags
@@ -65,50 +35,26 @@ async function searchWithTags(
   styleName: string,
   tags: string[],
   keyword: string | undefined,
-  limit: number
-): Promise<{ content: Array<{ type: "text"; text: string }>; isError?: boolean }> {
-  // Build search query combining tags and optional keyword
-  const searchTerms = [...tags];
-  if (keyword) {
-    searchTerms.push(keyword);
-  }
-  const query = searchTerms.join(" ");
-
-  const response = await fetch(LOTTIEFILES_API, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      "User-Agent": "LottieAnimationSearch-MCP/1.0",
-    },
-    body: JSON.stringify({
-      query: SEARCH_QUERY,
-      variables: { query, limit },
-    }),
-  });
-
-  if (!response.ok) {
-    return {
-      content: [{ type: "text" as const, text: `Search failed: HTTP ${response.status}` }],
-      isError: true,
-    };
-  }
-
-  const result: SearchResponse = await response.json();
-
-  if (result.errors?.length) {
-    return {
-      content: [{ type: "text" as const, text: `Search failed: ${result.errors.map(e => e.message).join(", ")}` }],
-      isError: true,
-    };
-  }
-
-  const animations = result.data.searchPublicAnimations.edges.map(e => e.node);
+  limit: number,
+  strict: boolean
+): Promise<{ content: Array<{ type: "text"; text: string }>; structuredContent: StyleSearchOutput; isError?: boolean }> {
+  const result = await searchTags(tags, keyword, limit, strict);
+  const { animations, matchedTags, dropped } = result;
+  const structuredContent: StyleSearchOutput = {
+    style: styleName,
+    tags,
+    keyword: keyword ?? null,
+    ...toAnimationListOutput(result.page, animations),
+    cached: result.cached,
+    ...toTagMatchOutput(result, strict),
+  };
 
   if (animations.length === 0) {
     return {
+      structuredContent,
       content: [{
         type: "text" as const,
-        text: `No animations found matching style "${styleName}" (tags: ${tags.join(", ")})${keyword ? ` with keyword "${keyword}"` : ""}\n\nTry:\n- Using different tags in the style\n- Removing the keyword filter\n- Searching with fewer tags`,
+        text: `No animations found matching style "${styleName}" (tags: ${tags.join(", ")})${keyword ? ` with keyword "${keyword}"` : ""}\n\nTry:\n- Using different tags in the style\n- Removing the keyword filter\n- Searching with fewer tags${strict ? "\n- Turning off strict mode" : ""}${formatDroppedNote(dropped)}`,
       }],
     };
   }
@@ -127,6 +73,7 @@ async function searchWithTags(
   animations.forEach((anim, index) => {
     lines.push(`## ${index + 1}. ${anim.name}`);
     lines.push(`**ID:** ${anim.id}`);
+    lines.push(formatMatchedTags(matchedTags[anim.id] ?? []));
     
     if (anim.createdBy) {
       lines.push(`**Creator:** ${anim.createdBy.username}`);
@@ -145,7 +92,8 @@ async function searchWithTags(
   });
 
   return {
-    content: [{ type: "text" as const, text: lines.join("\n") }],
+    content: [{ type: "text" as const, text: lines.join("\n") + formatDroppedNote(dropped) + formatCacheNote(result.cached) }],
+    structuredContent,
   };
 }
 
@@ -165,7 +113,7 @@ export const register: ToolRegistrar = (server, wrapTool) => {
       keyword: z
         .string()
         .optional()
-        .describe("Optional keyword to combine with style tags (e.g., 'loading' to find minimal loading animations)"),
+        .describe(`Optional keyword to combine with style tags (e.g., 'loading' to find minimal loading animations). ${QUERY_SYNTAX_HELP}`),
       limit: z
         .number()
         .int()
@@ -178,10 +126,10 @@ export const register: ToolRegistrar = (server, wrapTool) => {
         .boolean()
         .optional()
         .default(false)
-        .describe("If true, only return animations that have at least one of the style's tags"),
+        .describe("If true, only return animations whose name, description or slug contains at least one of the style's tags"),
     },
-    async ({ style, keyword, limit = 10 }) => {
-      log.info("Searching with style", { style, keyword, limit });
+    async ({ style, keyword, limit = 10, strict = false }) => {
+      log.info("Searching with style", { style, keyword, limit, strict });
 
       try {
         const tags = await getStyleTags(style);
@@ -196,8 +144,15 @@ export const register: ToolRegistrar = (server, wrapTool) => {
           };
         }
 
-        return await searchWithTags(style, tags, keyword, limit);
+        return await searchWithTags(style, tags, keyword, limit, strict);
       } catch (error) {
+        if (error instanceof QuerySyntaxError) {
+          return {
+            content: [{ type: "text" as const, text: formatQueryError(error) }],
+            isError: true,
+          };
+        }
+
         const errorMessage = error instanceof Error ? error.message : "Unknown error";
         log.error("Style search failed", { style, error: errorMessage });
 
@@ -221,7 +176,7 @@ export const register: ToolRegistrar = (server, wrapTool) => {
       keyword: z
         .string()
         .optional()
-        .describe("Optional keyword to combine with the folder's style tags"),
+        .describe(`Optional keyword to combine with the folder's style tags. ${QUERY_SYNTAX_HELP}`),
       limit: z
         .number()
         .int()
@@ -234,10 +189,10 @@ export const register: ToolRegistrar = (server, wrapTool) => {
         .boolean()
         .optional()
         .default(false)
-        .describe("If true, only return animations that have at least one of the style's tags"),
+        .describe("If true, only return animations whose name, description or slug contains at least one of the style's tags"),
     },
-    async ({ folder, keyword, limit = 10 }) => {
-      log.info("Searching for folder", { folder, keyword, limit });
+    async ({ folder, keyword, limit = 10, strict = false }) => {
+      log.info("Searching for folder", { folder, keyword, limit, strict });
 
       try {
         const result = await getStyleForFolder(folder);
@@ -260,7 +215,7 @@ export const register: ToolRegistrar = (server, wrapTool) => {
           prefix = `*Style inherited from: \`${matchedPath}\`*\n\n`;
         }
 
-        const searchResult = await searchWithTags(styleName, tags, keyword, limit);
+        const searchResult = await searchWithTags(styleName, tags, keyword, limit, strict);
         
         // Prepend inheritance info if applicable
         if (prefix && searchResult.content[0]?.type === "text") {
@@ -269,6 +224,13 @@ export const register: ToolRegistrar = (server, wrapTool) => {
 
         return searchResult;
       } catch (error) {
+        if (error instanceof QuerySyntaxError) {
+          return {
+            content: [{ type: "text" as const, text: formatQueryError(error) }],
+            isError: true,
+          };
+        }
+
         const errorMessage = error instanceof Error ? error.message : "Unknown error";
         log.error("Folder search failed", { folder, error: errorMessage });
 
@@ -281,6 +243,14 @@ export const register: ToolRegistrar = (server, wrapTool) => {
   );
 
   // Register tools
-  server.tool(searchWithStyleTool.name, searchWithStyleTool.description, searchWithStyleTool.schema, searchWithStyleTool.handler);
-  server.tool(searchForFolderTool.name, searchForFolderTool.description, searchForFolderTool.schema, searchForFolderTool.handler);
+  server.registerTool(
+    searchWithStyleTool.name,
+    { description: searchWithStyleTool.description, inputSchema: searchWithStyleTool.schema, outputSchema },
+    searchWithStyleTool.handler
+  );
+  server.registerTool(
+    searchForFolderTool.name,
+    { description: searchForFolderTool.description, inputSchema: searchForFolderTool.schema, outputSchema },
+    searchForFolderTool.handler
+  );
 };
@@ -0,0 +1,146 @@
+/**
+ * Shared input and output handling for tools that work on a Lottie document.
+ */
+
+import { z } from "zod";
+import { writeLocalFile } from "../lottie/index.js";
+
+/**
+ * Input fields for choosing the animation to load (see loadLottie).
+ */
+export const lottieSourceShape = {
+  url: z
+    .string()
+    .url()
+    .optional()
+    .describe("Lottie JSON or dotLottie URL from LottieFiles (from search results or get_animation)"),
+  path: z
+    .string()
+    .min(1)
+    .optional()
+    .describe("Lottie JSON or .lottie file path inside the project (relative to the project root), as an alternative to `url`"),
+  json: z
+    .string()
+    .min(2)
+    .optional()
+    .describe("Raw Lottie JSON text, as an alternative to `url`"),
+  animation_id: z
+    .string()
+    .min(1)
+    .optional()
+    .describe("Animation to use from a dotLottie file that contains several (default: its active or first animation)"),
+};
+
+/**
+ * Largest JSON returned inline in tool text (to avoid overwhelming the context)
+ */
+export const MAX_INLINE_JSON_SIZE = 100000; // 100KB
+
+/**
+ * Input fields for tools that produce a modified Lottie document.
+ */
+export const lottieOutputShape = {
+  output_path: z
+    .string()
+    .min(1)
+    .optional()
+    .describe("Write the result to this file inside the project (relative to the project root) instead of returning the JSON"),
+  overwrite: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe("Allow replacing an existing file at output_path (default: false)"),
+};
+
+/**
+ * Writes a produced document to `output_path`, or formats it for inline return.
+ *
+ * @returns Markdown describing where the result went (including the JSON when returned inline)
+ */
+export async function deliverLottie(
+  document: unknown,
+  options: { output_path?: string; overwrite?: boolean }
+): Promise<{ text: string; writtenPath: string | null; bytes: number }> {
+  const json = JSON.stringify(document);
+  const bytes = Buffer.byteLength(json, "utf-8");
+
+  if (options.output_path) {
+    const writtenPath = await writeLocalFile(options.output_path, json, { overwrite: options.overwrite });
+    return { text: `**Written to:** ${writtenPath} (${(bytes / 1024).toFixed(1)}KB)`, writtenPath, bytes };
+  }
+
+  if (json.length > MAX_INLINE_JSON_SIZE) {
+    return {
+      text: `The result is too large to return inline (${(bytes / 1024).toFixed(1)}KB). Call again with \`output_path\` to write it to a file.`,
+      writtenPath: null,
+      bytes,
+    };
+  }
+
+  return { text: `## JSON (${(bytes / 1024).toFixed(1)}KB)\n\`\`\`json\n${json}\n\`\`\``, writtenPath: null, bytes };
+}
+
+/**
+ * Input fields for tools that produce an SVG.
+ */
+export const svgOutputShape = {
+  format: z
+    .enum(["text", "image"])
+    .optional()
+    .default("text")
+    .describe("text: return the SVG markup (default); image: return the SVG as an MCP image"),
+  output_path: z
+    .string()
+    .min(1)
+    .optional()
+    .describe("Write the SVG to this file inside the project (relative to the project root) instead of returning it"),
+  overwrite: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe("Allow replacing an existing file at output_path (default: false)"),
+};
+
+/**
+ * Writes a produced SVG to `output_path`, or formats it for inline return as text or an image.
+ *
+ * @returns Markdown describing where the result went (including the SVG when returned as text),
+ * and the image content to attach when returned as an image
+ */
+export async function deliverSvg(
+  svg: string,
+  options: { format?: "text" | "image"; output_path?: string; overwrite?: boolean }
+): Promise<{
+  text: string;
+  image: { type: "image"; data: string; mimeType: string } | null;
+  writtenPath: string | null;
+  bytes: number;
+}> {
+  const bytes = Buffer.byteLength(svg, "utf-8");
+  const size = `${(bytes / 1024).toFixed(1)}KB`;
+
+  if (options.output_path) {
+    const writtenPath = await writeLocalFile(options.output_path, svg, { overwrite: options.overwrite });
+    return { text: `**Written to:** ${writtenPath} (${size})`, image: null, writtenPath, bytes };
+  }
+
+  if (options.format === "image") {
+    return {
+      text: `The SVG (${size}) is attached as an image.`,
+      image: { type: "image", data: Buffer.from(svg, "utf-8").toString("base64"), mimeType: "image/svg+xml" },
+      writtenPath: null,
+      bytes,
+    };
+  }
+
+  if (svg.length > MAX_INLINE_JSON_SIZE) {
+    return {
+      text: `The SVG is too large to return inline (${size}). Call again with \`output_path\` to write it to a file, or with \`format: "image"\`.`,
+      image: null,
+      writtenPath: null,
+      bytes,
+    };
+  }
+
+  return { text: `## SVG (${size})\n\`\`\`svg\n${svg}\n\`\`\``, image: null, writtenPath: null, bytes };
+}
@@ -0,0 +1,149 @@
+import { z } from "zod";
+import { ToolRegistrar } from "../types/tool.js";
+import { createLogger } from "../utils/logger.js";
+import { evenFrames, hexToRgb, listSegments, loadLottie, markerFrames, renderStoryboard, rgbToHex } from "../lottie/index.js";
+import { deliverSvg, lottieSourceShape, svgOutputShape } from "./source.js";
+
+const log = createLogger("storyboard");
+
+/**
+ * Structured output returned alongside the Markdown text
+ */
+const outputSchema = {
+  frames: z
+    .array(z.object({ frame: z.number(), seconds: z.number(), label: z.string().nullable() }))
+    .describe("Frames shown, in grid order"),
+  columns: z.number(),
+  rows: z.number(),
+  width: z.number(),
+  height: z.number(),
+  bytes: z.number().describe("Size of the SVG"),
+  warnings: z.array(z.string()).describe("Features that were skipped or approximated"),
+  writtenPath: z.string().nullable().describe("File written, or null if the SVG was returned inline"),
+};
+
+/**
+ * Render a storyboard (contact sheet) of a Lottie animation.
+ *
+ * Samples evenly spaced frames or the marker frames and lays them out in a
+ * captioned SVG grid, so the motion can be reviewed without a player.
+ */
+export const register: ToolRegistrar = (server, wrapTool) => {
+  const tool = wrapTool(
+    "storyboard",
+    "Render a storyboard (contact sheet) of a Lottie animation: evenly spaced frames, or the frame of each marker, laid out in one SVG grid captioned with frame numbers and timestamps. Use it to understand the motion of an animation without a player. Returns the SVG as text, as an image, or writes it to a file.",
+    {
+      ...lottieSourceShape,
+      frames: z
+        .number()
+        .int()
+        .min(2)
+        .max(36)
+        .optional()
+        .default(9)
+        .describe("Number of evenly spaced frames, from the first to the last (default: 9)"),
+      use_markers: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe("Show the start frame of each marker instead of evenly spaced frames"),
+      columns: z.number().int().min(1).max(12).optional().describe("Number of columns (default: a roughly square grid)"),
+      cell_width: z
+        .number()
+        .int()
+        .min(64)
+        .max(1024)
+        .optional()
+        .default(240)
+        .describe("Width of each frame in pixels (default: 240)"),
+      background: z
+        .string()
+        .optional()
+        .describe("Background color of each frame as hex (default: \"#ffffff\")"),
+      ...svgOutputShape,
+    },
+    async ({ url, path, json, animation_id, frames = 9, use_markers = false, columns, cell_width = 240, background, format = "text", output_path, overwrite = false }) => {
+      log.info("Rendering storyboard", { url, path, inline: json !== undefined, frames, use_markers, columns, format, output_path });
+
+      const backgroundRgb = background !== undefined ? hexToRgb(background) : null;
+      if (background !== undefined && !backgroundRgb) {
+        return {
+          content: [{ type: "text" as const, text: `Invalid background color "${background}". Use a hex color such as "#ffffff".` }],
+          isError: true,
+        };
+      }
+
+      try {
+        const { document, source } = await loadLottie({ url, path, json, animationId: animation_id });
+
+        if (use_markers && listSegments(document).length === 0) {
+          return {
+            content: [{ type: "text" as const, text: "The animation has no markers. Call again without `use_markers` to sample evenly spaced frames." }],
+            isError: true,
+          };
+        }
+
+        const selected = use_markers ? markerFrames(document) : evenFrames(document, frames);
+        const storyboard = renderStoryboard(document, selected, {
+          columns,
+          cellWidth: cell_width,
+          background: backgroundRgb ? rgbToHex(backgroundRgb) : undefined,
+        });
+        const delivered = await deliverSvg(storyboard.svg, { format, output_path, overwrite });
+
+        const shown = storyboard.frames.map(({ frame, label }) => ({
+          frame: Math.round(frame * 1000) / 1000,
+          seconds: Math.round(((frame - document.ip) / document.fr) * 100) / 100,
+          label: label ?? null,
+        }));
+
+        const lines: string[] = [
+          "# Storyboard",
+          "",
+          `**Source:** ${source}`,
+          `**Frames:** ${shown.length} ${use_markers ? "marker frames" : "evenly spaced frames"} in a ${storyboard.columns}×${storyboard.rows} grid (${storyboard.width}×${storyboard.height})`,
+          "",
+          "## Frames",
+          ...shown.map((f, n) => `${n + 1}. Frame ${f.frame} (${f.seconds.toFixed(2)}s)${f.label ? ` — ${f.label}` : ""}`),
+        ];
+        if (storyboard.warnings.length > 0) {
+          lines.push("");
+          lines.push("## Warnings");
+          lines.push(...storyboard.warnings.map((warning) => `- ${warning}`));
+        }
+        lines.push("");
+        lines.push(delivered.text);
+
+        log.info("Storyboard rendered", { source, frames: shown.length, bytes: delivered.bytes, writtenPath: delivered.writtenPath });
+
+        return {
+          content: [{ type: "text" as const, text: lines.join("\n") }, ...(delivered.image ? [delivered.image] : [])],
+          structuredContent: {
+            frames: shown,
+            columns: storyboard.columns,
+            rows: storyboard.rows,
+            width: storyboard.width,
+            height: storyboard.height,
+            bytes: delivered.bytes,
+            warnings: storyboard.warnings,
+            writtenPath: delivered.writtenPath,
+          },
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "Unknown error";
+        log.error("Storyboard failed", { url, path, error: errorMessage });
+
+        return {
+          content: [{ type: "text" as const, text: `Failed to render storyboard: ${errorMessage}` }],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    tool.name,
+    { description: tool.description, inputSchema: tool.schema, outputSchema },
+    tool.handler
+  );
+};
@@ -0,0 +1,149 @@
+/**
+ * Shared tag search used by search_by_tags, search_with_style and search_for_folder,
+ * plus the common style tags suggested to users.
+ *
+ * Tags are sent to the API as keywords, and the keyword may use the query
+ * syntax from parseQuery. In strict mode, results that match none of the
+ * tags (see matchTags) are dropped; whenever results are filtered locally,
+ * extra pages are fetched to fill the limit.
+ */
+
+import { z } from "zod";
+import {
+  AnimationFilters,
+  AnimationPage,
+  LottieAnimation,
+  fetchQuery,
+  getLottieFilesClient,
+  hasActiveFilters,
+  matchTags,
+  parseQuery,
+} from "../lottiefiles/index.js";
+
+/**
+ * Common style tags for reference
+ */
+export const STYLE_TAGS = {
+  visual: ["minimal", "flat", "3d", "isometric", "outline", "filled", "gradient", "neon", "retro", "modern"],
+  color: ["colorful", "monochrome", "pastel", "vibrant", "dark", "light", "black", "white", "blue", "green", "red"],
+  type: ["icon", "illustration", "character", "logo", "ui", "ux", "button", "loader", "spinner"],
+  mood: ["cute", "professional", "playful", "elegant", "fun", "serious", "friendly"],
+};
+
+/** Page size used when over-fetching to fill the limit after filtering */
+const FILTER_PAGE_SIZE = 30;
+
+/** Maximum pages scanned when filtering */
+const MAX_FILTER_PAGES = 3;
+
+/** Maximum dropped results listed in the Markdown text */
+const MAX_DROPPED_LISTED = 10;
+
+/**
+ * Output fields describing how results matched the tags.
+ */
+export const tagMatchOutputShape = {
+  strict: z.boolean().describe("Whether results matching none of the tags were dropped"),
+  matchedTags: z
+    .record(z.string(), z.array(z.string()))
+    .describe("Tags found in each result's name, description or slug, keyed by animation ID"),
+  dropped: z
+    .array(z.object({ id: z.string(), name: z.string() }))
+    .describe("Results removed by strict mode or keyword query filters"),
+};
+
+/**
+ * Result of a tag search.
+ */
+export interface TagSearchResult {
+  /** Animations to return */
+  animations: LottieAnimation[];
+
+  /** Animations removed by strict mode or keyword query filters */
+  dropped: LottieAnimation[];
+
+  /** Tags matched per returned animation ID */
+  matchedTags: Record<string, string[]>;
+
+  /** The last page fetched */
+  page: AnimationPage;
+
+  /** Whether every page came from the response cache */
+  cached: boolean;
+}
+
+/**
+ * Searches for animations using tags (plus an optional keyword query).
+ * Throws QuerySyntaxError if the keyword cannot be parsed.
+ */
+export async function searchTags(
+  tags: string[],
+  keyword: string | undefined,
+  limit: number,
+  strict: boolean
+): Promise<TagSearchResult> {
+  const parsed = parseQuery(keyword ?? "");
+  const filters: AnimationFilters = strict ? { anyTags: tags } : {};
+  const filtering =
+    strict ||
+    parsed.groups.length > 1 ||
+    parsed.groups.some((g) => g.phrases.length > 0) ||
+    hasActiveFilters(parsed.filters);
+
+  const client = getLottieFilesClient();
+  const result = await fetchQuery(
+    (query, after) => client.search({ query, first: filtering ? Math.max(limit, FILTER_PAGE_SIZE) : limit, after }),
+    parsed,
+    {
+      limit,
+      filters,
+      sort: "relevance",
+      maxPages: filtering ? MAX_FILTER_PAGES : 1,
+      prefix: tags.join(" "),
+    }
+  );
+  const { animations, dropped, lastPage: page, cached } = result;
+
+  const matchedTags: Record<string, string[]> = {};
+  for (const anim of animations) {
+    matchedTags[anim.id] = matchTags(anim, tags);
+  }
+
+  return { animations, dropped, matchedTags, page, cached };
+}
+
+/**
+ * Builds the tag match output fields for a search result.
+ */
+export function toTagMatchOutput(result: TagSearchResult, strict: boolean) {
+  return {
+    strict,
+    matchedTags: result.matchedTags,
+    dropped: result.dropped.map((anim) => ({ id: anim.id, name: anim.name })),
+  };
+}
+
+/**
+ * Formats the matched tags line for one result.
+ */
+export function formatMatchedTags(tags: string[]): string {
+  return `**Matched tags:** ${tags.length > 0 ? tags.join(", ") : "none (keyword match only)"}`;
+}
+
+/**
+ * Formats a note listing results dropped by local filtering, or "" if none were.
+ */
+export function formatDroppedNote(dropped: LottieAnimation[]): string {
+  if (dropped.length === 0) {
+    return "";
+  }
+
+  const listed = dropped
+    .slice(0, MAX_DROPPED_LISTED)
+    .map((anim) => `- ${anim.name} (ID: ${anim.id})`);
+  if (dropped.length > MAX_DROPPED_LISTED) {
+    listed.push(`- ...and ${dropped.length - MAX_DROPPED_LISTED} more`);
+  }
+
+  return `\n\n**Dropped ${dropped.length} result${dropped.length === 1 ? "" : "s"} not matching the tags or query filters:**\n${listed.join("\n")}`;
+}
@@ -0,0 +1,125 @@
+import { z } from "zod";
+import { ToolRegistrar } from "../types/tool.js";
+import { createLogger } from "../utils/logger.js";
+import { LottieFormatError, ValidationReport, loadLottieJson, validateLottie } from "../lottie/index.js";
+import { lottieSourceShape } from "./source.js";
+
+const log = createLogger("validate_animation");
+
+/**
+ * Structured output returned alongside the Markdown text
+ */
+const outputSchema = {
+  valid: z.boolean().describe("True if there are no errors (warnings are allowed)"),
+  errors: z.number(),
+  warnings: z.number(),
+  diagnostics: z
+    .array(z.object({
+      severity: z.enum(["error", "warning"]),
+      pointer: z.string().describe("JSON pointer to the offending value"),
+      message: z.string(),
+    }))
+    .describe("Problems found, errors first (limited by max_diagnostics)"),
+  truncated: z.boolean().describe("Whether more diagnostics were found than returned"),
+};
+
+/**
+ * Validate a Lottie animation against the structure players expect.
+ *
+ * Reports missing fields, malformed keyframes, broken asset references,
+ * precomp cycles and unembedded images with JSON pointers, so broken or
+ * truncated files are caught before they ship.
+ */
+export const register: ToolRegistrar = (server, wrapTool) => {
+  const tool = wrapTool(
+    "validate_animation",
+    "Validate a Lottie animation against the Lottie format: required root fields, layer and shape structure, keyframe structure, asset references, precomp cycles and missing image assets. Returns errors (players will fail or render incorrectly) and warnings, each with a JSON pointer to the offending value. Use it to catch broken or truncated files before adding them to an app.",
+    {
+      ...lottieSourceShape,
+      max_diagnostics: z
+        .number()
+        .int()
+        .min(1)
+        .max(500)
+        .optional()
+        .default(50)
+        .describe("Maximum number of problems to return (default: 50)"),
+    },
+    async ({ url, path, json, animation_id, max_diagnostics = 50 }) => {
+      log.info("Validating animation", { url, path, inline: json !== undefined });
+
+      try {
+        let source: string;
+        let report: ValidationReport;
+        try {
+          const loaded = await loadLottieJson({ url, path, json, animationId: animation_id });
+          source = loaded.source;
+          report = validateLottie(loaded.value);
+        } catch (error) {
+          // Unparseable content is a validation result, not a tool failure
+          if (!(error instanceof LottieFormatError)) {
+            throw error;
+          }
+          source = url ?? path ?? "inline JSON";
+          const truncated = /end of (JSON|data) input|Unterminated/i.test(error.message);
+          report = {
+            valid: false,
+            errors: 1,
+            warnings: 0,
+            diagnostics: [{
+              severity: "error",
+              pointer: error.pointer,
+              message: truncated ? `${error.message} (the file appears to be truncated)` : error.message,
+            }],
+          };
+        }
+
+        const shown = report.diagnostics.slice(0, max_diagnostics);
+        const lines: string[] = [
+          "# Validation Report",
+          "",
+          `**Source:** ${source}`,
+          `**Result:** ${report.valid ? "valid" : "invalid"} (${report.errors} error${report.errors === 1 ? "" : "s"}, ${report.warnings} warning${report.warnings === 1 ? "" : "s"})`,
+        ];
+        for (const severity of ["error", "warning"] as const) {
+          const items = shown.filter((d) => d.severity === severity);
+          if (items.length === 0) continue;
+          lines.push("");
+          lines.push(severity === "error" ? "## Errors" : "## Warnings");
+          lines.push(...items.map((d) => `- \`${d.pointer || "(root)"}\`: ${d.message}`));
+        }
+        if (shown.length < report.diagnostics.length) {
+          lines.push("");
+          lines.push(`_${report.diagnostics.length - shown.length} more not shown; raise \`max_diagnostics\` to see them._`);
+        }
+
+        log.info("Animation validated", { source, valid: report.valid, errors: report.errors, warnings: report.warnings });
+
+        return {
+          content: [{ type: "text" as const, text: lines.join("\n") }],
+          structuredContent: {
+            valid: report.valid,
+            errors: report.errors,
+            warnings: report.warnings,
+            diagnostics: shown,
+            truncated: shown.length < report.diagnostics.length,
+          },
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "Unknown error";
+        log.error("Validation failed", { url, path, error: errorMessage });
+
+        return {
+          content: [{ type: "text" as const, text: `Failed to validate animation: ${errorMessage}` }],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    tool.name,
+    { description: tool.description, inputSchema: tool.schema, outputSchema },
+    tool.handler
+  );
+};
@@ -3,6 +3,8 @@ import { Client } from "@modelcontextprotocol/sdk/client/index.js";
 import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
 import { createServer, ServerContext } from "../src/server.js";
 import { MetricsCollector, IssueCollector } from "../src/metrics/index.js";
+import { LottieDocument } from "../src/lottie/index.js";
+import { AnimationPage, LottieAnimation } from "../src/lottiefiles/index.js";
 
 /**
  * Test context containing both server and client for integration tests.
@@ -73,3 +75,134 @@ export function extractTextContent(
   );
   return textContent?.text ?? "";
 }
+
+/**
+ * Builds a small Lottie document covering the common features:
+ * parenting, shapes with fills and strokes, a precomp with a mask and a
+ * track matte, an expression, an embedded image and markers.
+ */
+export function sampleLottie(): LottieDocument {
+  return {
+    v: "5.7.4",
+    nm: "Sample",
+    fr: 30,
+    ip: 0,
+    op: 60,
+    w: 200,
+    h: 100,
+    ddd: 0,
+    assets: [
+      {
+        id: "comp_0",
+        nm: "Badge",
+        layers: [
+          {
+            ty: 4,
+            nm: "Matte",
+            ind: 1,
+            td: 1,
+            ip: 0,
+            op: 60,
+            st: 0,
+            ks: {},
+            shapes: [
+              { ty: "el", nm: "Circle", p: { a: 0, k: [50, 50] }, s: { a: 0, k: [80, 80] } },
+              { ty: "fl", nm: "Fill", c: { a: 0, k: [1, 1, 1, 1] }, o: { a: 0, k: 100 } },
+            ],
+          },
+          {
+            ty: 1,
+            nm: "Background",
+            ind: 2,
+            tt: 1,
+            ip: 0,
+            op: 60,
+            st: 0,
+            ks: {},
+            sc: "#ff0000",
+            sw: 100,
+            sh: 100,
+            hasMask: true,
+            masksProperties: [{ mode: "a", pt: { a: 0, k: { c: true, v: [[0, 0], [100, 0], [100, 100]], i: [[0, 0], [0, 0], [0, 0]], o: [[0, 0], [0, 0], [0, 0]] } }, o: { a: 0, k: 100 } }],
+          },
+        ],
+      },
+      { id: "image_0", w: 4, h: 4, u: "", p: "data:image/png;base64,iVBORw0KGgo=", e: 1 },
+    ],
+    layers: [
+      {
+        ty: 3,
+        nm: "Controller",
+        ind: 1,
+        ip: 0,
+        op: 60,
+        st: 0,
+        ks: {
+          p: { a: 1, k: [{ t: 0, s: [100, 50], i: { x: [0.5], y: [1] }, o: { x: [0.5], y: [0] } }, { t: 30, s: [120, 50] }] },
+        },
+      },
+      {
+        ty: 4,
+        nm: "Check",
+        ind: 2,
+        parent: 1,
+        ip: 0,
+        op: 60,
+        st: 0,
+        ks: { o: { a: 0, k: 100 }, r: { a: 0, k: 0, x: "wiggle(2, 10)" } },
+        shapes: [
+          {
+            ty: "gr",
+            nm: "Group",
+            it: [
+              { ty: "rc", nm: "Rect", p: { a: 0, k: [0, 0] }, s: { a: 0, k: [40, 20] }, r: { a: 0, k: 0 } },
+              { ty: "st", nm: "Stroke", c: { a: 0, k: [0, 0.5, 1, 1] }, o: { a: 0, k: 100 }, w: { a: 0, k: 4 } },
+              { ty: "fl", nm: "Fill", c: { a: 1, k: [{ t: 0, s: [0, 0.8, 0.2, 1] }, { t: 60, s: [0, 0.6, 0.2, 1] }] }, o: { a: 0, k: 100 } },
+              { ty: "tr", p: { a: 0, k: [0, 0] }, a: { a: 0, k: [0, 0] }, s: { a: 0, k: [100, 100] }, r: { a: 0, k: 0 }, o: { a: 0, k: 100 } },
+            ],
+          },
+        ],
+      },
+      { ty: 0, nm: "Badge", ind: 3, refId: "comp_0", w: 100, h: 100, ip: 0, op: 60, st: 0, ks: {} },
+      { ty: 2, nm: "Logo", ind: 4, refId: "image_0", ip: 30, op: 60, st: 0, ks: {} },
+    ],
+    markers: [
+      { tm: 0, cm: "intro", dr: 30 },
+      { tm: 30, cm: "loop", dr: 30 },
+    ],
+  };
+}
+
+/**
+ * Builds a LottieFiles animation with plausible defaults.
+ */
+export function sampleAnimation(id: string, overrides: Partial<LottieAnimation> = {}): LottieAnimation {
+  return {
+    id,
+    slug: `anim-${id}`,
+    name: `Animation ${id}`,
+    description: null,
+    likesCount: 10,
+    downloads: 100,
+    gifUrl: null,
+    lottieUrl: `https://lottie.host/${id}.lottie`,
+    jsonUrl: `https://lottie.host/${id}.json`,
+    createdAt: "2024-06-01T00:00:00.000Z",
+    createdBy: { username: "alice", avatarUrl: null },
+    ...overrides,
+  };
+}
+
+/**
+ * Builds a page of search results; each animation's cursor is "c" + its ID.
+ */
+export function samplePage(animations: LottieAnimation[], nextCursor: string | null = null): AnimationPage {
+  return {
+    totalCount: 1000,
+    animations,
+    cursors: animations.map((anim) => `c${anim.id}`),
+    nextCursor,
+    hasNextPage: nextCursor !== null,
+    cached: false,
+  };
+}
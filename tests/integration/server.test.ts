@@ -1,5 +1,47 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
-import { createTestClient, extractTextContent, TestContext } from "../helpers.js";
+import { createTestClient, extractTextContent, sampleLottie, TestContext } from "../helpers.js";
+import { mkdtemp, readFile, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { LottieFilesClient, setLottieFilesClient } from "../../src/lottiefiles/index.js";
+import { setProjectRoot } from "../../src/config/styles.js";
+import { AnimationOutput } from "../../src/tools/output.js";
+import { packDotLottie, parseLottie } from "../../src/lottie/index.js";
+
+/**
+ * Canned API response used by tests that must not hit the network.
+ */
+function stubApiResponse(overrides: Record<string, unknown> = {}): Response {
+  const node = {
+    id: 101,
+    slug: "success-check-abc",
+    name: "Success Check",
+    description: "A green check mark",
+    likesCount: 5,
+    downloads: 1200,
+    gifUrl: null,
+    lottieUrl: "https://lottie.host/abc/success.lottie",
+    jsonUrl: "https://lottie.host/abc/success.json",
+    createdAt: "2024-05-01T00:00:00.000Z",
+    createdBy: { username: "designer", avatarUrl: null },
+    ...overrides,
+  };
+  const connection = {
+    totalCount: 1,
+    pageInfo: { hasNextPage: false, endCursor: "c0" },
+    edges: [{ cursor: "c0", node }],
+  };
+  return new Response(
+    JSON.stringify({
+      data: {
+        searchPublicAnimations: connection,
+        featuredPublicAnimations: connection,
+        publicAnimation: node,
+      },
+    }),
+    { headers: { "Content-Type": "application/json" } }
+  );
+}
 
 describe("MCP Server Integration", () => {
   let ctx: TestContext;
@@ -55,6 +97,14 @@ describe("MCP Server Integration", () => {
       expect(downloadTool?.description).toContain("Download");
     });
 
+    it("should include clear_cache tool in the list", async () => {
+      const result = await ctx.client.listTools();
+
+      const clearCacheTool = result.tools.find((t) => t.name === "clear_cache");
+      expect(clearCacheTool).toBeDefined();
+      expect(clearCacheTool?.description).toContain("cache");
+    });
+
     it("should include reasoning parameter when metrics enabled", async () => {
       const result = await ctx.client.listTools();
       const searchTool = result.tools.find((t) => t.name === "search_animations");
@@ -138,6 +188,748 @@ describe("MCP Server Integration", () => {
       expect(data.tool_stats.search_animations).toBeDefined();
       expect(data.tool_stats.search_animations.call_count).toBeGreaterThan(0);
     });
+
+    it("should include the whole day given as created_before", async () => {
+      setLottieFilesClient(
+        new LottieFilesClient({ fetch: async () => stubApiResponse({ createdAt: "2024-05-01T12:00:00.000Z" }) })
+      );
+
+      try {
+        const result = await ctx.client.callTool({
+          name: "search_animations",
+          arguments: { query: "success", created_before: "2024-05-01", reasoning: "Testing the created_before boundary" },
+        });
+
+        expect(result.isError).not.toBe(true);
+        expect(extractTextContent(result)).toContain("Success Check");
+      } finally {
+        setLottieFilesClient(null);
+      }
+    });
+  });
+
+  describe("structured output", () => {
+    beforeEach(() => {
+      setLottieFilesClient(new LottieFilesClient({ fetch: async () => stubApiResponse() }));
+    });
+
+    afterEach(() => {
+      setLottieFilesClient(null);
+    });
+
+    it("should advertise an output schema for search tools", async () => {
+      const result = await ctx.client.listTools();
+
+      for (const name of ["search_animations", "list_popular", "search_by_tags", "find_similar", "search_with_style", "get_animation"]) {
+        const tool = result.tools.find((t) => t.name === name);
+        expect(tool?.outputSchema, name).toBeDefined();
+      }
+    });
+
+    it("should return structured results from search_animations", async () => {
+      const result = await ctx.client.callTool({
+        name: "search_animations",
+        arguments: { query: "success", reasoning: "Testing structured output" },
+      });
+
+      expect(result.isError).not.toBe(true);
+      expect(extractTextContent(result)).toContain("Success Check");
+      const structured = result.structuredContent as { query: string; hasNextPage: boolean; results: AnimationOutput[] };
+      expect(structured.query).toBe("success");
+      expect(structured.hasNextPage).toBe(false);
+      expect(structured.results[0]).toMatchObject({
+        id: "101",
+        urls: {
+          json: "https://lottie.host/abc/success.json",
+          dotLottie: "https://lottie.host/abc/success.lottie",
+        },
+        stats: { downloads: 1200, likes: 5 },
+        creator: { username: "designer" },
+      });
+    });
+
+    it("should return the structured animation from get_animation", async () => {
+      const result = await ctx.client.callTool({
+        name: "get_animation",
+        arguments: { id: "101", reasoning: "Testing structured output" },
+      });
+
+      expect(result.isError).not.toBe(true);
+      const structured = result.structuredContent as { animation: AnimationOutput };
+      expect(structured.animation.id).toBe("101");
+      expect(structured.animation.urls.page).toBe("https://lottiefiles.com/animations/success-check-abc");
+    });
+
+    it("should report matched tags from search_by_tags", async () => {
+      const result = await ctx.client.callTool({
+        name: "search_by_tags",
+        arguments: { tags: ["check", "minimal"], reasoning: "Testing tag matching" },
+      });
+
+      expect(result.isError).not.toBe(true);
+      expect(extractTextContent(result)).toContain("**Matched tags:** check");
+      const structured = result.structuredContent as { strict: boolean; matchedTags: Record<string, string[]>; dropped: unknown[] };
+      expect(structured.strict).toBe(false);
+      expect(structured.matchedTags).toEqual({ "101": ["check"] });
+      expect(structured.dropped).toEqual([]);
+    });
+
+    it("should merge fan-out results from multi_search with provenance", async () => {
+      const result = await ctx.client.callTool({
+        name: "multi_search",
+        arguments: {
+          queries: ["success"],
+          tag_sets: [["outline"], ["flat"]],
+          keyword: "check",
+          reasoning: "Testing multi search",
+        },
+      });
+
+      expect(result.isError).not.toBe(true);
+      const structured = result.structuredContent as { queries: string[]; results: (AnimationOutput & { matchedQueries: { query: string }[] })[] };
+      expect(structured.queries).toEqual(["success", "outline check", "flat check"]);
+      expect(structured.results).toHaveLength(1);
+      expect(structured.results[0].id).toBe("101");
+      expect(structured.results[0].matchedQueries.map((m) => m.query)).toEqual([
+        "success",
+        "outline check",
+        "flat check",
+      ]);
+      expect(extractTextContent(result)).toContain("Matched 3/3 queries");
+    });
+
+    it("should reject multi_search without queries", async () => {
+      const result = await ctx.client.callTool({
+        name: "multi_search",
+        arguments: { reasoning: "Testing multi search validation" },
+      });
+
+      expect(result.isError).toBe(true);
+    });
+
+    it("should return a tool error for invalid query syntax", async () => {
+      const result = await ctx.client.callTool({
+        name: "search_animations",
+        arguments: { query: 'success "check', reasoning: "Testing query syntax errors" },
+      });
+
+      expect(result.isError).toBe(true);
+      expect(extractTextContent(result)).toContain("Invalid query: Unterminated quote");
+    });
+
+    it("should apply query exclusions to search_by_tags keywords", async () => {
+      const result = await ctx.client.callTool({
+        name: "search_by_tags",
+        arguments: { tags: ["minimal"], keyword: "success -green", reasoning: "Testing keyword query" },
+      });
+
+      expect(result.isError).not.toBe(true);
+      const structured = result.structuredContent as { results: AnimationOutput[]; dropped: { id: string; name: string }[] };
+      expect(structured.results).toEqual([]);
+      expect(structured.dropped).toEqual([{ id: "101", name: "Success Check" }]);
+    });
+
+    it("should drop results matching none of the tags in strict mode", async () => {
+      const result = await ctx.client.callTool({
+        name: "search_by_tags",
+        arguments: { tags: ["neon"], strict: true, reasoning: "Testing strict mode" },
+      });
+
+      expect(result.isError).not.toBe(true);
+      expect(extractTextContent(result)).toContain("Dropped 1 result not matching");
+      const structured = result.structuredContent as { results: AnimationOutput[]; dropped: { id: string; name: string }[] };
+      expect(structured.results).toEqual([]);
+      expect(structured.dropped).toEqual([{ id: "101", name: "Success Check" }]);
+    });
+  });
+
+  describe("inspect_animation tool", () => {
+    it("should inspect inline JSON", async () => {
+      const result = await ctx.client.callTool({
+        name: "inspect_animation",
+        arguments: { json: JSON.stringify(sampleLottie()), reasoning: "Testing inspection" },
+      });
+
+      expect(result.isError).not.toBe(true);
+      const text = extractTextContent(result);
+      expect(text).toContain("## Layers (6)");
+      expect(text).toContain("  - [2] Check (shape");
+      const structured = result.structuredContent as { precomps: { id: string }[]; complexity: { score: number } };
+      expect(structured.precomps[0].id).toBe("comp_0");
+      expect(structured.complexity.score).toBeGreaterThan(0);
+    });
+
+    it("should return an error for invalid documents", async () => {
+      const result = await ctx.client.callTool({
+        name: "inspect_animation",
+        arguments: { json: "{\"layers\": []}", reasoning: "Testing inspection errors" },
+      });
+
+      expect(result.isError).toBe(true);
+      expect(extractTextContent(result)).toContain('Missing or non-numeric "fr"');
+    });
+  });
+
+  describe("validate_animation tool", () => {
+    it("should list problems with JSON pointers", async () => {
+      const raw = sampleLottie();
+      raw.layers[2].refId = "missing";
+
+      const result = await ctx.client.callTool({
+        name: "validate_animation",
+        arguments: { json: JSON.stringify(raw), reasoning: "Testing validation" },
+      });
+
+      expect(result.isError).not.toBe(true);
+      const text = extractTextContent(result);
+      expect(text).toContain("**Result:** invalid (2 errors, 0 warnings)");
+      expect(text).toContain('- `/layers/2/refId`: Layer "Badge" references missing precomp asset "missing"');
+      expect(result.structuredContent).toMatchObject({ valid: false, errors: 2, truncated: false });
+    });
+
+    it("should report truncated files as invalid", async () => {
+      const text = JSON.stringify(sampleLottie());
+
+      const result = await ctx.client.callTool({
+        name: "validate_animation",
+        arguments: { json: text.slice(0, text.length / 2), max_diagnostics: 1, reasoning: "Testing truncated files" },
+      });
+
+      expect(result.isError).not.toBe(true);
+      expect(extractTextContent(result)).toContain("the file appears to be truncated");
+      expect(result.structuredContent).toMatchObject({ valid: false, errors: 1, diagnostics: [{ pointer: "" }] });
+    });
+  });
+
+  describe("check_compatibility tool", () => {
+    it("should report feature support per runtime", async () => {
+      const result = await ctx.client.callTool({
+        name: "check_compatibility",
+        arguments: { json: JSON.stringify(sampleLottie()), runtimes: ["web", "ios"], reasoning: "Testing compatibility" },
+      });
+
+      expect(result.isError).not.toBe(true);
+      const text = extractTextContent(result);
+      expect(text).toContain("| Feature | Uses | lottie-web | lottie-ios |");
+      expect(text).toContain("| Expressions | 1 | partial | unsupported |");
+      expect(text).toContain("## lottie-ios");
+      expect(result.structuredContent).toMatchObject({
+        compatible: false,
+        runtimes: [{ runtime: "web", status: "partial" }, { runtime: "ios", status: "unsupported" }],
+      });
+    });
+  });
+
+  describe("accessibility_check tool", () => {
+    it("should report fast flashing and suggest a reduced-motion frame", async () => {
+      const raw = sampleLottie();
+      // Blink the red Background solid on and off every 3 frames
+      raw.assets![0].layers![1].ks!.o = {
+        a: 1,
+        k: Array.from({ length: 20 }, (_, n) => ({ t: n * 3, s: [n % 2 === 0 ? 100 : 0], h: 1 })),
+      };
+
+      const result = await ctx.client.callTool({
+        name: "accessibility_check",
+        arguments: { json: JSON.stringify(raw), reasoning: "Testing photosensitivity checks" },
+      });
+
+      expect(result.isError).not.toBe(true);
+      const text = extractTextContent(result);
+      expect(text).toContain("**Result:** fails WCAG 2.3.1");
+      expect(text).toMatch(/- Frames 0-\d+ \(0\.00s-[\d.]+s\): [\d.]+ flashes per second over \d+% of the canvas, saturated red - fails/);
+      expect(text).toContain("## Reduced motion");
+      expect(result.structuredContent).toMatchObject({ passes: false, framesAnalyzed: 60 });
+    });
+
+    it("should reject invalid background colors", async () => {
+      const result = await ctx.client.callTool({
+        name: "accessibility_check",
+        arguments: { json: JSON.stringify(sampleLottie()), background: "white", reasoning: "Testing validation" },
+      });
+
+      expect(result.isError).toBe(true);
+      expect(extractTextContent(result)).toContain('Invalid background color "white"');
+    });
+  });
+
+  describe("extract_palette tool", () => {
+    it("should return the palette with layers for each color", async () => {
+      const result = await ctx.client.callTool({
+        name: "extract_palette",
+        arguments: { json: JSON.stringify(sampleLottie()), reasoning: "Testing palette extraction" },
+      });
+
+      expect(result.isError).not.toBe(true);
+      expect(extractTextContent(result)).toContain("#ff0000");
+      const structured = result.structuredContent as { palette: { hex: string; layers: unknown[] }[]; totalUsages: number };
+      const red = structured.palette.find((c) => c.hex === "#ff0000");
+      expect(red?.layers).toEqual([{ name: "Background", composition: "comp_0", kinds: ["solid"] }]);
+      expect(structured.totalUsages).toBe(5);
+    });
+  });
+
+  describe("recolor_animation tool", () => {
+    it("should return recolored JSON with the applied mappings", async () => {
+      const result = await ctx.client.callTool({
+        name: "recolor_animation",
+        arguments: {
+          json: JSON.stringify(sampleLottie()),
+          color_map: { "#ff0000": "#6c5ce7" },
+          reasoning: "Testing recolor",
+        },
+      });
+
+      expect(result.isError).not.toBe(true);
+      const text = extractTextContent(result);
+      expect(text).toContain("#ff0000 → #6c5ce7 (1×: Background)");
+      expect(text).toContain('"sc":"#6c5ce7"');
+      const structured = result.structuredContent as Record<string, unknown>;
+      expect(structured).toMatchObject({ mode: "color_map", changedValues: 1, writtenPath: null });
+    });
+
+    it("should require exactly one of color_map or palette", async () => {
+      const result = await ctx.client.callTool({
+        name: "recolor_animation",
+        arguments: { json: JSON.stringify(sampleLottie()), reasoning: "Testing recolor validation" },
+      });
+
+      expect(result.isError).toBe(true);
+      expect(extractTextContent(result)).toContain("exactly one of");
+    });
+  });
+
+  describe("optimize_animation tool", () => {
+    it("should report before/after sizes and return the optimized JSON", async () => {
+      const raw = sampleLottie();
+      raw.meta = { g: "LottieFiles AE 3.0.0", a: "Someone", k: "check, success" };
+      raw.layers.push({ ty: 4, nm: "Hidden", ind: 5, hd: true, ip: 0, op: 60, st: 0, ks: {}, shapes: [] });
+
+      const result = await ctx.client.callTool({
+        name: "optimize_animation",
+        arguments: { json: JSON.stringify(raw), reasoning: "Testing optimization" },
+      });
+
+      expect(result.isError).not.toBe(true);
+      const text = extractTextContent(result);
+      expect(text).toMatch(/\*\*Size:\*\* [\d.]+KB → [\d.]+KB minified \([\d.]+% smaller\)/);
+      expect(text).toContain("- Hidden (hidden)");
+      expect(text).toContain("## JSON");
+
+      const structured = result.structuredContent as { originalBytes: number; optimizedBytes: number; removedLayers: unknown[] };
+      expect(structured.optimizedBytes).toBeLessThan(structured.originalBytes);
+      expect(structured.removedLayers).toHaveLength(1);
+    });
+  });
+
+  describe("edit_timing tool", () => {
+    it("should trim to a marker segment and change speed", async () => {
+      const result = await ctx.client.callTool({
+        name: "edit_timing",
+        arguments: {
+          json: JSON.stringify(sampleLottie()),
+          segment: "loop",
+          speed: 2,
+          markers: [{ name: "settle", start: 0.25, end: 0.5 }],
+          unit: "seconds",
+          reasoning: "Testing timing edits",
+        },
+      });
+
+      expect(result.isError).not.toBe(true);
+      const text = extractTextContent(result);
+      expect(text).toContain("**Before:** frames 0-60 (2s at 30fps)");
+      expect(text).toContain("**After:** frames 0-15 (0.5s at 30fps)");
+      expect(text).toContain('- Trimmed to frames 30-60 (marker "loop")');
+      expect(text).toContain("- settle: frames 7.5-15");
+      expect(result.structuredContent).toMatchObject({
+        after: { ip: 0, op: 15, durationSeconds: 0.5 },
+        warnings: [expect.stringContaining("expressions")],
+      });
+    });
+
+    it("should list available markers for an unknown segment", async () => {
+      const result = await ctx.client.callTool({
+        name: "edit_timing",
+        arguments: { json: JSON.stringify(sampleLottie()), segment: "outro", reasoning: "Testing unknown segment" },
+      });
+
+      expect(result.isError).toBe(true);
+      expect(extractTextContent(result)).toContain("Available markers: intro, loop");
+    });
+  });
+
+  describe("resize_animation tool", () => {
+    it("should auto-crop to the content and resize", async () => {
+      const raw = sampleLottie();
+      raw.layers = raw.layers.slice(0, 2);
+
+      const result = await ctx.client.callTool({
+        name: "resize_animation",
+        arguments: { json: JSON.stringify(raw), auto_crop: true, padding: 2, height: 56, reasoning: "Testing auto-crop" },
+      });
+
+      expect(result.isError).not.toBe(true);
+      const text = extractTextContent(result);
+      expect(text).toContain("**Canvas:** 200×100 → 136×56");
+      expect(text).toContain("**Content bounds:** 68×28 at (76, 36) including 2px padding");
+      expect(result.structuredContent).toMatchObject({
+        before: { width: 200, height: 100 },
+        after: { width: 136, height: 56 },
+        mode: "fit",
+        scale: 2,
+      });
+    });
+
+    it("should require a size or auto_crop", async () => {
+      const result = await ctx.client.callTool({
+        name: "resize_animation",
+        arguments: { json: JSON.stringify(sampleLottie()), reasoning: "Testing missing size" },
+      });
+
+      expect(result.isError).toBe(true);
+      expect(extractTextContent(result)).toContain("Nothing to do");
+    });
+  });
+
+  describe("render_frame tool", () => {
+    it("should return the SVG of a frame given in seconds", async () => {
+      const result = await ctx.client.callTool({
+        name: "render_frame",
+        arguments: { json: JSON.stringify(sampleLottie()), frame: 1, unit: "seconds", reasoning: "Testing rendering" },
+      });
+
+      expect(result.isError).not.toBe(true);
+      const text = extractTextContent(result);
+      expect(text).toContain("**Frame:** 30 of 0-60 (1.00s)");
+      expect(text).toContain("**Size:** 200×100");
+      expect(text).toMatch(/```svg\n<svg xmlns=/);
+      expect(result.structuredContent).toMatchObject({ frame: 30, width: 200, height: 100, writtenPath: null });
+    });
+
+    it("should return the SVG as an image", async () => {
+      const result = await ctx.client.callTool({
+        name: "render_frame",
+        arguments: { json: JSON.stringify(sampleLottie()), format: "image", width: 400, reasoning: "Testing image output" },
+      });
+
+      expect(result.isError).not.toBe(true);
+      const image = (result.content as Array<{ type: string; data?: string; mimeType?: string }>).find((c) => c.type === "image");
+      expect(image?.mimeType).toBe("image/svg+xml");
+      expect(Buffer.from(image?.data ?? "", "base64").toString("utf-8")).toContain('width="400" height="200"');
+    });
+
+    it("should reject frames outside the timeline", async () => {
+      const result = await ctx.client.callTool({
+        name: "render_frame",
+        arguments: { json: JSON.stringify(sampleLottie()), frame: 90, reasoning: "Testing frame range" },
+      });
+
+      expect(result.isError).toBe(true);
+      expect(extractTextContent(result)).toContain("outside the timeline (frames 0-60, 2.00s)");
+    });
+  });
+
+  describe("storyboard tool", () => {
+    it("should render evenly spaced frames in a grid", async () => {
+      const result = await ctx.client.callTool({
+        name: "storyboard",
+        arguments: { json: JSON.stringify(sampleLottie()), frames: 4, reasoning: "Testing storyboard" },
+      });
+
+      expect(result.isError).not.toBe(true);
+      const text = extractTextContent(result);
+      expect(text).toContain("**Frames:** 4 evenly spaced frames in a 2×2 grid");
+      expect(text).toContain("4. Frame 59 (1.97s)");
+      expect(text).toMatch(/```svg\n<svg xmlns=/);
+      expect(result.structuredContent).toMatchObject({ columns: 2, rows: 2, frames: [{ frame: 0, seconds: 0, label: null }, {}, {}, {}] });
+    });
+
+    it("should render marker frames", async () => {
+      const result = await ctx.client.callTool({
+        name: "storyboard",
+        arguments: { json: JSON.stringify(sampleLottie()), use_markers: true, format: "image", reasoning: "Testing marker storyboard" },
+      });
+
+      expect(result.isError).not.toBe(true);
+      expect(extractTextContent(result)).toContain("2. Frame 30 (1.00s) — loop");
+      expect((result.content as Array<{ type: string }>).some((c) => c.type === "image")).toBe(true);
+    });
+  });
+
+  describe("create_poster tool", () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), "lottie-poster-"));
+      setProjectRoot(dir);
+    });
+
+    afterEach(async () => {
+      setProjectRoot(process.cwd());
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it("should return the poster inline with a reduced-motion snippet", async () => {
+      const result = await ctx.client.callTool({
+        name: "create_poster",
+        arguments: { json: JSON.stringify(sampleLottie()), pick: "last", reasoning: "Testing poster frames" },
+      });
+
+      expect(result.isError).not.toBe(true);
+      const text = extractTextContent(result);
+      expect(text).toContain("**Frame:** 59 (1.97s), last frame");
+      expect(text).toMatch(/```json\n\{/);
+      expect(text).toMatch(/```svg\n<svg xmlns=/);
+      expect(text).toContain('window.matchMedia("(prefers-reduced-motion: reduce)")');
+      expect(result.structuredContent).toMatchObject({ frame: 59, writtenPaths: [] });
+      expect((result.structuredContent as { snippet: string }).snippet).toContain('path: "animation.json"');
+    });
+
+    it("should write the poster files into the project", async () => {
+      await writeFile(join(dir, "hero.json"), JSON.stringify(sampleLottie()));
+
+      const result = await ctx.client.callTool({
+        name: "create_poster",
+        arguments: { path: "hero.json", pick: "marker", marker: "loop", name: "hero-poster", output_dir: "public/", reasoning: "Testing poster files" },
+      });
+
+      expect(result.isError).not.toBe(true);
+      const poster = JSON.parse(await readFile(join(dir, "public", "hero-poster.json"), "utf-8"));
+      expect(poster).toMatchObject({ ip: 0, op: 1 });
+      expect(await readFile(join(dir, "public", "hero-poster.svg"), "utf-8")).toMatch(/^<svg xmlns=/);
+      const structured = result.structuredContent as { frame: number; snippet: string };
+      expect(structured.frame).toBe(30);
+      expect(structured.snippet).toContain('<img src="hero-poster.svg" alt="" width="200" height="100">');
+      expect(structured.snippet).toContain('path: "hero.json"');
+    });
+
+    it("should require a marker name when picking by marker", async () => {
+      const result = await ctx.client.callTool({
+        name: "create_poster",
+        arguments: { json: JSON.stringify(sampleLottie()), pick: "marker", reasoning: "Testing poster validation" },
+      });
+
+      expect(result.isError).toBe(true);
+      expect(extractTextContent(result)).toContain("Set `marker`");
+    });
+  });
+
+  describe("save_animation tool", () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), "lottie-save-"));
+      setProjectRoot(dir);
+      vi.spyOn(globalThis, "fetch").mockImplementation(async () => new Response(JSON.stringify(sampleLottie())));
+    });
+
+    afterEach(async () => {
+      setProjectRoot(process.cwd());
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it("should save the file into the project and return a summary", async () => {
+      const result = await ctx.client.callTool({
+        name: "save_animation",
+        arguments: {
+          url: "https://lottie.host/abc/success.json",
+          path: "src/assets/",
+          reasoning: "Testing save",
+        },
+      });
+
+      expect(result.isError).not.toBe(true);
+      const saved = join(dir, "src", "assets", "success.json");
+      expect(JSON.parse(await readFile(saved, "utf-8")).nm).toBe("Sample");
+      const text = extractTextContent(result);
+      expect(text).toContain(`**Path:** ${saved}`);
+      expect(text).not.toContain('"layers"');
+      expect(result.structuredContent).toMatchObject({ format: "json", width: 200, height: 100, durationSeconds: 2 });
+    });
+
+    it("should not overwrite existing files unless asked", async () => {
+      const args = { url: "https://lottie.host/abc/success.json", path: "anim.json", reasoning: "Testing overwrite" };
+      await ctx.client.callTool({ name: "save_animation", arguments: args });
+
+      const again = await ctx.client.callTool({ name: "save_animation", arguments: args });
+      expect(again.isError).toBe(true);
+      expect(extractTextContent(again)).toContain("already exists");
+
+      const forced = await ctx.client.callTool({ name: "save_animation", arguments: { ...args, overwrite: true } });
+      expect(forced.isError).not.toBe(true);
+    });
+
+    it("should refuse paths outside the project root", async () => {
+      const result = await ctx.client.callTool({
+        name: "save_animation",
+        arguments: { url: "https://lottie.host/abc/success.json", path: "../escape.json", reasoning: "Testing traversal" },
+      });
+
+      expect(result.isError).toBe(true);
+      expect(extractTextContent(result)).toContain("outside the project root");
+    });
+  });
+
+  describe("generate_integration tool", () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), "lottie-integration-"));
+      setProjectRoot(dir);
+      setLottieFilesClient(new LottieFilesClient({ fetch: async () => stubApiResponse() }));
+    });
+
+    afterEach(async () => {
+      setLottieFilesClient(null);
+      setProjectRoot(process.cwd());
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it("should generate a component for a LottieFiles animation", async () => {
+      const result = await ctx.client.callTool({
+        name: "generate_integration",
+        arguments: { id: "101", framework: "react-dotlottie", speed: 2, reasoning: "Testing integration code" },
+      });
+
+      expect(result.isError).not.toBe(true);
+      const text = extractTextContent(result);
+      expect(text).toContain("# React (dotlottie-react) Integration");
+      expect(text).toContain("**Playback:** autoplays, loops, 2x speed");
+      expect(text).toContain("```sh\nnpm install @lottiefiles/dotlottie-react\n```");
+      expect(text).toContain("## SuccessCheckAnimation.tsx");
+      const structured = result.structuredContent as { packages: string[]; files: { code: string }[] };
+      expect(structured.packages).toEqual(["@lottiefiles/dotlottie-react"]);
+      expect(structured.files[0].code).toContain('src="https://lottie.host/abc/success.lottie"');
+      expect(structured.files[0].code).toContain("speed={2}");
+
+      const details = await ctx.client.callTool({
+        name: "get_animation",
+        arguments: { id: "101", reasoning: "Testing the usage snippet" },
+      });
+      expect(extractTextContent(details)).toContain('<lottie-player src="https://lottie.host/abc/success.json"');
+      expect(extractTextContent(details)).toContain("use generate_integration");
+    });
+
+    it("should generate a component for a project file", async () => {
+      await writeFile(join(dir, "hero.json"), JSON.stringify(sampleLottie()));
+
+      const result = await ctx.client.callTool({
+        name: "generate_integration",
+        arguments: { path: "./hero.json", framework: "flutter", segment: { start: 30, end: 60 }, hover: true, reasoning: "Testing integration code" },
+      });
+
+      expect(result.isError).not.toBe(true);
+      const text = extractTextContent(result);
+      expect(text).toContain("**Animation:** hero.json");
+      expect(text).toContain("## hero_animation.dart");
+      expect(text).toContain("- List hero.json under flutter: assets: in pubspec.yaml");
+      const [file] = (result.structuredContent as { files: { code: string }[] }).files;
+      expect(file.code).toContain("class HeroAnimation extends StatefulWidget");
+      expect(file.code).toContain("onEnter: (_) => _play(),");
+    });
+
+    it("should reject ambiguous sources and segments past the end", async () => {
+      const both = await ctx.client.callTool({
+        name: "generate_integration",
+        arguments: { id: "101", path: "hero.json", framework: "vue", reasoning: "Testing integration validation" },
+      });
+      expect(both.isError).toBe(true);
+      expect(extractTextContent(both)).toContain("Provide either `id`");
+
+      await writeFile(join(dir, "hero.json"), JSON.stringify(sampleLottie()));
+      const late = await ctx.client.callTool({
+        name: "generate_integration",
+        arguments: { path: "hero.json", framework: "vue", segment: { start: 30, end: 90 }, reasoning: "Testing integration validation" },
+      });
+      expect(late.isError).toBe(true);
+      expect(extractTextContent(late)).toContain("Segment 30-90 is outside the timeline (0-60)");
+    });
+  });
+
+  describe("dotLottie tools", () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), "lottie-dotlottie-"));
+      setProjectRoot(dir);
+      await writeFile(join(dir, "success.json"), JSON.stringify(sampleLottie()));
+    });
+
+    afterEach(async () => {
+      setProjectRoot(process.cwd());
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it("should pack JSON files into a .lottie and unpack it again", async () => {
+      const packed = await ctx.client.callTool({
+        name: "pack_dotlottie",
+        arguments: {
+          animations: [{ path: "success.json" }, { path: "success.json", loop: false }],
+          output_path: "dist/success.lottie",
+          reasoning: "Testing pack",
+        },
+      });
+
+      expect(packed.isError).not.toBe(true);
+      expect(packed.structuredContent).toMatchObject({
+        version: 1,
+        activeAnimationId: "success",
+        animations: [{ id: "success", width: 200 }, { id: "success_2" }],
+        images: [{ path: "images/image_0.png" }],
+      });
+
+      const unpacked = await ctx.client.callTool({
+        name: "unpack_dotlottie",
+        arguments: { path: "dist/success.lottie", output_dir: "extracted", reasoning: "Testing unpack" },
+      });
+
+      expect(unpacked.isError).not.toBe(true);
+      const text = extractTextContent(unpacked);
+      expect(text).toContain("**success** (active): 200x100, 2.00s at 30fps");
+      expect(text).toContain("loop false");
+      expect(unpacked.structuredContent).toMatchObject({
+        version: 1,
+        animations: [{ id: "success", missingImages: [] }, { id: "success_2", loop: false }],
+      });
+      const extracted = JSON.parse(await readFile(join(dir, "extracted", "success_2.json"), "utf-8"));
+      expect(extracted.assets[1].p).toMatch(/^data:image\/png;base64,/);
+    });
+
+    it("should let other tools read .lottie files", async () => {
+      await ctx.client.callTool({
+        name: "pack_dotlottie",
+        arguments: { animations: [{ path: "success.json", id: "main" }], output_path: "a.lottie", reasoning: "Testing pack" },
+      });
+
+      const result = await ctx.client.callTool({
+        name: "inspect_animation",
+        arguments: { path: "a.lottie", reasoning: "Testing dotLottie inspection" },
+      });
+
+      expect(result.isError).not.toBe(true);
+      expect(extractTextContent(result)).toContain('a.lottie (animation "main")');
+    });
+
+    it("should refuse output paths without the .lottie extension", async () => {
+      const result = await ctx.client.callTool({
+        name: "pack_dotlottie",
+        arguments: { animations: [{ path: "success.json" }], output_path: "out.json", reasoning: "Testing validation" },
+      });
+
+      expect(result.isError).toBe(true);
+      expect(extractTextContent(result)).toContain(".lottie");
+    });
+
+    it("should report files that are not archives", async () => {
+      const result = await ctx.client.callTool({
+        name: "unpack_dotlottie",
+        arguments: { path: "success.json", reasoning: "Testing non-archive" },
+      });
+
+      expect(result.isError).toBe(true);
+      expect(extractTextContent(result)).toContain("not a dotLottie archive");
+    });
   });
 
   describe("download_animation tool", () => {
@@ -155,7 +947,10 @@ describe("MCP Server Integration", () => {
       expect(text).toContain("security");
     });
 
-    it("should handle dotLottie format with guidance", async () => {
+    it("should unpack dotLottie files", async () => {
+      const archive = packDotLottie([{ id: "main", document: parseLottie(sampleLottie()) }]);
+      vi.spyOn(globalThis, "fetch").mockImplementation(async () => new Response(archive.data));
+
       const result = await ctx.client.callTool({
         name: "download_animation",
         arguments: {
@@ -166,7 +961,38 @@ describe("MCP Server Integration", () => {
 
       expect(result.isError).not.toBe(true);
       const text = extractTextContent(result);
-      expect(text).toContain("dotLottie");
+      expect(text).toContain('**dotLottie:** extracted animation "main" from the archive.');
+      expect(text).toContain('"nm":"Sample"');
+    });
+
+    it("should return the JSON of the requested dotLottie animation", async () => {
+      const doc = parseLottie(sampleLottie());
+      const archive = packDotLottie([{ id: "a", document: doc }, { id: "b", document: { ...doc, nm: "Second" } }]);
+      vi.spyOn(globalThis, "fetch").mockImplementation(async () => new Response(archive.data));
+
+      const result = await ctx.client.callTool({
+        name: "download_animation",
+        arguments: { url: "https://lottie.host/abc/pair.lottie", animation_id: "b", reasoning: "Testing dotLottie unpacking" },
+      });
+
+      expect(result.isError).not.toBe(true);
+      const text = extractTextContent(result);
+      expect(text).toContain('extracted animation "b" from the archive (also contains: a');
+      expect(text).toContain('"nm":"Second"');
+    });
+
+    it("should refuse files over the download size limit", async () => {
+      vi.spyOn(globalThis, "fetch").mockImplementation(
+        async () => new Response("{}", { headers: { "Content-Length": String(50 * 1024 * 1024) } })
+      );
+
+      const result = await ctx.client.callTool({
+        name: "download_animation",
+        arguments: { url: "https://assets.lottiefiles.com/huge.json", reasoning: "Testing the download size limit" },
+      });
+
+      expect(result.isError).toBe(true);
+      expect(extractTextContent(result)).toContain("File is too large (50.0MB, limit 20MB)");
     });
   });
 
@@ -0,0 +1,110 @@
+import { describe, it, expect } from "vitest";
+import { analyzeAccessibility, parseLottie, sampleFrame } from "../../src/lottie/index.js";
+import { sampleLottie } from "../helpers.js";
+
+/**
+ * A 100x100, 2-second animation whose only layer is a solid of the given
+ * size, with opacity held at 100 or 0 at each listed frame.
+ */
+function blinkingSolid(toggles: number[], size = 100, color = "#000000") {
+  return parseLottie({
+    v: "5.7.4",
+    fr: 30,
+    ip: 0,
+    op: 60,
+    w: 100,
+    h: 100,
+    layers: [
+      {
+        ty: 1,
+        nm: "Solid",
+        ind: 1,
+        ip: 0,
+        op: 60,
+        st: 0,
+        sc: color,
+        sw: size,
+        sh: size,
+        ks: {
+          o: toggles.length > 0
+            ? { a: 1, k: toggles.map((t, n) => ({ t, s: [n % 2 === 0 ? 100 : 0], h: 1 })) }
+            : { a: 0, k: 100 },
+        },
+      },
+    ],
+  });
+}
+
+/** Toggles every `step` frames from `from` to `to` */
+const every = (step: number, from = 0, to = 60) =>
+  Array.from({ length: Math.ceil((to - from) / step) }, (_, n) => from + n * step);
+
+describe("sampleFrame", () => {
+  it("should sample shapes, strokes and solids onto a grid", () => {
+    const doc = parseLottie(sampleLottie());
+    const cell = (frame: ReturnType<typeof sampleFrame>, column: number, row: number) => {
+      const offset = (row * frame.columns + column) * 3;
+      return Array.from(frame.pixels.subarray(offset, offset + 3)).map((c) => Math.round(c * 100) / 100);
+    };
+
+    const coarse = sampleFrame(doc, 0, { resolution: 20 });
+    expect([coarse.columns, coarse.rows]).toEqual([20, 10]);
+    // The Background solid inside the Badge precomp, then the Check rectangle's fill
+    expect(cell(coarse, 1, 1)).toEqual([1, 0, 0]);
+    expect(cell(coarse, 9, 4)).toEqual([0, 0.8, 0.2]);
+    expect(coarse.warnings).toContain("Masks and track mattes are ignored, so masked layers are sampled at their full size");
+
+    // The stroke is only 4 units wide, so it needs finer cells
+    expect(cell(sampleFrame(doc, 0, { resolution: 100 }), 47, 20)).toEqual([0, 0.5, 1]);
+  });
+});
+
+describe("analyzeAccessibility", () => {
+  it("should fail large areas flashing more than three times per second", () => {
+    const report = analyzeAccessibility(blinkingSolid(every(3)));
+
+    expect(report.passes).toBe(false);
+    expect(report.flashes).toEqual([
+      { start: 0, end: 59, startSeconds: 0, endSeconds: 1.97, flashesPerSecond: 5, area: 1, red: false, fails: true },
+    ]);
+    expect(report.contrastChanges[0]).toMatchObject({ area: 1, change: 1 });
+  });
+
+  it("should allow up to three flashes per second", () => {
+    const report = analyzeAccessibility(blinkingSolid(every(5)));
+
+    expect(report.passes).toBe(true);
+    expect(report.flashes).toEqual([]);
+  });
+
+  it("should report the time range of the flashing", () => {
+    const report = analyzeAccessibility(blinkingSolid([0, ...every(3, 30, 54)]));
+
+    expect(report.flashes).toHaveLength(1);
+    expect(report.flashes[0]).toMatchObject({ fails: true });
+    expect(report.flashes[0].start).toBeGreaterThanOrEqual(15);
+    expect(report.flashes[0].start).toBeLessThanOrEqual(30);
+    expect(report.flashes[0].end).toBeGreaterThanOrEqual(45);
+  });
+
+  it("should only warn about small flashing areas and flag saturated red", () => {
+    const report = analyzeAccessibility(blinkingSolid(every(3), 40, "#ff0000"));
+
+    expect(report.passes).toBe(true);
+    expect(report.flashes).toMatchObject([{ red: true, fails: false }]);
+    expect(report.flashes[0].area).toBeCloseTo(0.16, 1);
+  });
+
+  it("should suggest a still frame showing the most content", () => {
+    const doc = blinkingSolid([]);
+    doc.layers[0].ks = {
+      o: { a: 1, k: [{ t: 0, s: [0], i: { x: [1], y: [1] }, o: { x: [0], y: [0] } }, { t: 20, s: [100] }] },
+    };
+
+    const report = analyzeAccessibility(doc);
+    expect(report.passes).toBe(true);
+    expect(report.reducedMotion.frame).toBe(59);
+    expect(report.reducedMotion.seconds).toBe(1.97);
+    expect(report.reducedMotion.reason).toContain("100% of the canvas");
+  });
+});
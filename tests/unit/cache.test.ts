@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { rm, readFile, writeFile } from "fs/promises";
+import { existsSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+import { ResponseCache } from "../../src/lottiefiles/index.js";
+
+// Generate unique cache file path for each test to avoid cross-contamination
+function getTestCachePath(): string {
+  return join(tmpdir(), `test-cache-${Date.now()}-${Math.random().toString(36).substring(7)}.json`);
+}
+
+describe("ResponseCache", () => {
+  beforeEach(() => {
+    // Suppress logger output during tests
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("should build stable keys from query and variables", () => {
+    const a = ResponseCache.key("query A", { q: "x", limit: 1 });
+    const b = ResponseCache.key("query A", { q: "x", limit: 1 });
+    const c = ResponseCache.key("query A", { q: "y", limit: 1 });
+
+    expect(a).toBe(b);
+    expect(a).not.toBe(c);
+  });
+
+  it("should return cached data within the TTL", async () => {
+    const cache = new ResponseCache({ ttlMs: 1000, maxEntries: 10 });
+
+    await cache.set("k", { value: 1 });
+
+    expect(await cache.get("k")).toEqual({ value: 1 });
+  });
+
+  it("should expire entries after the TTL", async () => {
+    vi.useFakeTimers();
+    const cache = new ResponseCache({ ttlMs: 1000, maxEntries: 10 });
+
+    await cache.set("k", { value: 1 });
+    vi.advanceTimersByTime(1001);
+
+    expect(await cache.get("k")).toBeUndefined();
+  });
+
+  it("should evict the least recently used entry", async () => {
+    const cache = new ResponseCache({ ttlMs: 1000, maxEntries: 2 });
+
+    await cache.set("a", 1);
+    await cache.set("b", 2);
+    await cache.get("a"); // "b" is now least recently used
+    await cache.set("c", 3);
+
+    expect(await cache.get("a")).toBe(1);
+    expect(await cache.get("b")).toBeUndefined();
+    expect(await cache.get("c")).toBe(3);
+  });
+
+  it("should store nothing when the TTL is 0", async () => {
+    const cache = new ResponseCache({ ttlMs: 0, maxEntries: 10 });
+
+    await cache.set("k", 1);
+
+    expect(cache.enabled).toBe(false);
+    expect(await cache.get("k")).toBeUndefined();
+  });
+
+  it("should report the number of cleared entries", async () => {
+    const cache = new ResponseCache({ ttlMs: 1000, maxEntries: 10 });
+    await cache.set("a", 1);
+    await cache.set("b", 2);
+
+    expect(await cache.clear()).toBe(2);
+    expect(cache.size).toBe(0);
+  });
+
+  describe("disk persistence", () => {
+    let filePath: string;
+
+    beforeEach(() => {
+      filePath = getTestCachePath();
+    });
+
+    afterEach(async () => {
+      if (existsSync(filePath)) {
+        await rm(filePath);
+      }
+    });
+
+    it("should persist entries and reload them in a new instance", async () => {
+      const cache = new ResponseCache({ ttlMs: 60000, maxEntries: 10, filePath });
+      await cache.set("k", { value: "persisted" });
+      await cache.flush();
+
+      const content = JSON.parse(await readFile(filePath, "utf-8"));
+      expect(content.entries.k.data).toEqual({ value: "persisted" });
+
+      const reloaded = new ResponseCache({ ttlMs: 60000, maxEntries: 10, filePath });
+      expect(await reloaded.get("k")).toEqual({ value: "persisted" });
+    });
+
+    it("should delete the cache file on clear", async () => {
+      const cache = new ResponseCache({ ttlMs: 60000, maxEntries: 10, filePath });
+      await cache.set("k", 1);
+      await cache.flush();
+
+      await cache.clear();
+
+      expect(existsSync(filePath)).toBe(false);
+    });
+
+    it("should ignore a corrupted cache file", async () => {
+      await writeFile(filePath, "not json", "utf-8");
+
+      const cache = new ResponseCache({ ttlMs: 60000, maxEntries: 10, filePath });
+
+      expect(await cache.get("k")).toBeUndefined();
+    });
+  });
+});
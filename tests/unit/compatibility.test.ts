@@ -0,0 +1,94 @@
+import { describe, it, expect } from "vitest";
+import { FEATURE_MATRIX, RUNTIMES, checkCompatibility, parseLottie } from "../../src/lottie/index.js";
+import { sampleLottie } from "../helpers.js";
+
+describe("checkCompatibility", () => {
+  it("should detect the features used by the sample", () => {
+    const report = checkCompatibility(parseLottie(sampleLottie()));
+
+    expect(report.features.map((f) => [f.id, f.count, f.pointers])).toEqual([
+      ["expressions", 1, ["/layers/1/ks/r"]],
+      ["alpha-mattes", 1, ["/assets/0/layers/1/tt"]],
+    ]);
+    expect(report.runtimes.map((r) => [r.runtime, r.status])).toEqual([
+      ["web", "partial"],
+      ["ios", "unsupported"],
+      ["android", "unsupported"],
+      ["react-native", "unsupported"],
+    ]);
+    expect(report.runtimes[1].issues).toEqual([
+      {
+        feature: "expressions",
+        name: "Expressions",
+        level: "unsupported",
+        note: expect.stringContaining("Ignored"),
+        pointer: "/layers/1/ks/r",
+      },
+    ]);
+  });
+
+  it("should detect mattes, merge paths, text, 3D, effects, blend modes, masks and images", () => {
+    const raw = sampleLottie();
+    raw.layers[1].ks!.r = { a: 0, k: 0 };
+    raw.layers[1].shapes![0].it!.splice(1, 0, { ty: "mm", mm: 1 });
+    raw.layers[1].ddd = 1;
+    raw.layers[1].bm = 3;
+    raw.layers[1].ef = [
+      { ty: 0, nm: "Slider Control" },
+      { ty: 25, nm: "Drop Shadow" },
+      { ty: 21, nm: "Fill" },
+      { ty: 29, nm: "Blur", en: 0 },
+    ];
+    raw.assets![0].layers![1].tt = 3;
+    raw.assets![0].layers![1].masksProperties![0].mode = "d";
+    raw.assets![1] = { id: "image_0", w: 4, h: 4, u: "images/", p: "img_0.png", e: 0 };
+    raw.layers.push({ ty: 5, nm: "Title", ind: 5, ip: 0, op: 60, st: 0, ks: {}, t: {} });
+
+    const report = checkCompatibility(parseLottie(raw));
+    expect(report.features.map((f) => [f.id, f.pointers[0]])).toEqual([
+      ["luma-mattes", "/assets/0/layers/1/tt"],
+      ["merge-paths", "/layers/1/shapes/0/it/1"],
+      ["text-layers", "/layers/4"],
+      ["3d-layers", "/layers/1/ddd"],
+      ["shadow-blur-effects", "/layers/1/ef/1"],
+      ["effects", "/layers/1/ef/2"],
+      ["blend-modes", "/layers/1/bm"],
+      ["mask-modes", "/assets/0/layers/1/masksProperties/0/mode"],
+      ["external-images", "/assets/1"],
+    ]);
+  });
+
+  it("should derive React Native support from iOS and Android", () => {
+    const raw = sampleLottie();
+    raw.layers[1].shapes![0].it!.push({ ty: "mm", mm: 1 });
+    const [mergePaths] = checkCompatibility(parseLottie(raw)).features.filter((f) => f.id === "merge-paths");
+
+    expect(mergePaths.support["react-native"]).toEqual({
+      level: "partial",
+      note: expect.stringMatching(/^iOS: .+ Android: .+/),
+    });
+    expect(mergePaths.support.web.level).toBe("unsupported");
+  });
+
+  it("should report only the requested runtimes", () => {
+    const raw = sampleLottie();
+    raw.layers[1].ks!.r = { a: 0, k: 0 };
+
+    const report = checkCompatibility(parseLottie(raw), ["web", "android"]);
+    expect(report.runtimes).toEqual([
+      { runtime: "web", player: "lottie-web", status: "supported", issues: [] },
+      { runtime: "android", player: "lottie-android", status: "supported", issues: [] },
+    ]);
+  });
+
+  it("should cover every runtime for every feature in the matrix", () => {
+    const ids = FEATURE_MATRIX.map((f) => f.id);
+    expect(new Set(ids).size).toBe(ids.length);
+    for (const feature of FEATURE_MATRIX) {
+      for (const runtime of RUNTIMES.filter((r) => r !== "react-native")) {
+        const support = feature.support[runtime as keyof typeof feature.support];
+        expect(support.level === "supported" || support.note !== null).toBe(true);
+      }
+    }
+  });
+});
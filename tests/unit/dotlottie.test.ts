@@ -0,0 +1,232 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { deflateRawSync } from "zlib";
+import {
+  LottieFormatError,
+  crc32,
+  loadLottie,
+  packDotLottie,
+  parseLottie,
+  readZip,
+  selectDotLottieAnimation,
+  unpackDotLottie,
+  writeZip,
+} from "../../src/lottie/index.js";
+import { setProjectRoot } from "../../src/config/styles.js";
+import { sampleLottie } from "../helpers.js";
+
+const encode = (text: string) => new TextEncoder().encode(text);
+const decode = (data: Uint8Array) => new TextDecoder().decode(data);
+
+describe("zip", () => {
+  it("should compute CRC-32", () => {
+    expect(crc32(encode("123456789"))).toBe(0xcbf43926);
+  });
+
+  it("should round-trip stored and deflated entries", () => {
+    const entries = [
+      { name: "manifest.json", data: encode("{}") },
+      { name: "animations/große.json", data: encode("x".repeat(1000)) },
+    ];
+
+    const read = readZip(writeZip(entries));
+
+    expect(read.map((e) => e.name)).toEqual(["manifest.json", "animations/große.json"]);
+    expect(read.map((e) => decode(e.data))).toEqual(["{}", "x".repeat(1000)]);
+  });
+
+  it("should reject non-archives and corrupted data", () => {
+    expect(() => readZip(encode('{"v":"5.7.0"}'))).toThrow(LottieFormatError);
+
+    const zip = writeZip([{ name: "a.txt", data: encode("hello hello hello hello") }]);
+    const corrupted = new Uint8Array(zip);
+    corrupted[36] ^= 0xff; // first byte of file data
+    expect(() => readZip(corrupted)).toThrow(LottieFormatError);
+  });
+
+  it("should read archives written by other tools (deflated, with a comment)", () => {
+    const data = encode("deflated content ".repeat(20));
+    const body = deflateRawSync(data);
+    const name = encode("file.txt");
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(crc32(data), 14);
+    local.writeUInt32LE(body.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(crc32(data), 16);
+    central.writeUInt32LE(body.length, 20);
+    central.writeUInt32LE(data.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    const comment = encode("archive comment");
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(1, 8);
+    end.writeUInt16LE(1, 10);
+    end.writeUInt32LE(central.length + name.length, 12);
+    end.writeUInt32LE(local.length + name.length + body.length, 16);
+    end.writeUInt16LE(comment.length, 20);
+
+    const zip = Buffer.concat([local, name, body, central, name, end, comment]);
+
+    expect(decode(readZip(zip)[0].data)).toBe(decode(data));
+  });
+});
+
+describe("dotLottie", () => {
+  it("should pack animations with a manifest and extracted images", () => {
+    const doc = parseLottie(sampleLottie());
+    const packed = packDotLottie([
+      { id: "check", document: doc, loop: false },
+      { id: "check-2", document: doc, speed: 2 },
+    ]);
+
+    const names = readZip(packed.data).map((e) => e.name);
+    expect(names).toEqual(["manifest.json", "animations/check.json", "animations/check-2.json", "images/image_0.png"]);
+    expect(packed.manifest).toMatchObject({
+      version: "1",
+      activeAnimationId: "check",
+      animations: [
+        { id: "check", loop: false, autoplay: true, speed: 1 },
+        { id: "check-2", loop: true, speed: 2 },
+      ],
+    });
+    expect(packed.images).toEqual([{ path: "images/image_0.png", bytes: 8 }]);
+    // The input document keeps its embedded image
+    expect(doc.assets?.[1].p).toMatch(/^data:image\/png;base64,/);
+  });
+
+  it("should unpack what it packs, re-embedding images", () => {
+    const doc = parseLottie(sampleLottie());
+    const archive = unpackDotLottie(packDotLottie([{ id: "check", document: doc }], { author: "Tests" }).data);
+
+    expect(archive.version).toBe(1);
+    expect(archive.manifest.author).toBe("Tests");
+    expect(archive.animations).toHaveLength(1);
+    expect(archive.animations[0].missingImages).toEqual([]);
+    expect(archive.animations[0].document).toEqual(doc);
+    expect(archive.images.map((i) => i.path)).toEqual(["images/image_0.png"]);
+  });
+
+  it("should use the version 2 layout", () => {
+    const packed = packDotLottie([{ id: "check", document: parseLottie(sampleLottie()) }], { version: 2 });
+
+    expect(readZip(packed.data).map((e) => e.name)).toEqual(["manifest.json", "a/check.json", "i/image_0.png"]);
+    expect(packed.manifest.animations).toEqual([{ id: "check" }]);
+
+    const archive = unpackDotLottie(packed.data);
+    expect(archive.version).toBe(2);
+    expect(archive.animations[0].document.assets?.[1].e).toBe(1);
+  });
+
+  it("should report missing images and keep unknown files", () => {
+    const manifest = { version: "1", animations: [{ id: "a" }] };
+    const doc = { ...sampleLottie(), assets: [{ id: "img", w: 4, h: 4, u: "/images/", p: "gone.png", e: 0 }] };
+    const archive = unpackDotLottie(writeZip([
+      { name: "manifest.json", data: encode(JSON.stringify(manifest)) },
+      { name: "animations/a.json", data: encode(JSON.stringify(doc)) },
+      { name: "themes/dark.json", data: encode("{}") },
+    ]));
+
+    expect(archive.animations[0].missingImages).toEqual(["gone.png"]);
+    expect(archive.otherFiles.map((f) => f.path)).toEqual(["themes/dark.json"]);
+  });
+
+  it("should reject archives without a manifest or with missing animations", () => {
+    expect(() => unpackDotLottie(writeZip([{ name: "animations/a.json", data: encode("{}") }]))).toThrow("no manifest.json");
+
+    const manifest = encode(JSON.stringify({ animations: [{ id: "a" }] }));
+    expect(() => unpackDotLottie(writeZip([{ name: "manifest.json", data: manifest }]))).toThrow("animations/a.json is missing");
+  });
+
+  it("should reject manifest ids that are not safe file names", () => {
+    const manifest = encode(JSON.stringify({ animations: [{ id: "../../src/index" }] }));
+    const zip = writeZip([
+      { name: "manifest.json", data: manifest },
+      { name: "animations/../../src/index.json", data: encode(JSON.stringify(sampleLottie())) },
+    ]);
+
+    expect(() => unpackDotLottie(zip)).toThrow('Invalid animation id "../../src/index"');
+  });
+
+  it("should accept a manifest version that is not a string", () => {
+    const manifest = encode(JSON.stringify({ version: 2, animations: [{ id: "a" }] }));
+    const archive = unpackDotLottie(writeZip([
+      { name: "manifest.json", data: manifest },
+      { name: "animations/a.json", data: encode(JSON.stringify(sampleLottie())) },
+    ]));
+
+    expect(archive.version).toBe(1);
+    expect(archive.animations.map((a) => a.id)).toEqual(["a"]);
+  });
+
+  it("should reject invalid and duplicate ids when packing", () => {
+    const doc = parseLottie(sampleLottie());
+
+    expect(() => packDotLottie([{ id: "../x", document: doc }])).toThrow("Invalid animation id");
+    expect(() => packDotLottie([{ id: "a", document: doc }, { id: "a", document: doc }])).toThrow("Duplicate");
+    expect(() => packDotLottie([{ id: "a", document: doc }], { activeAnimationId: "b" })).toThrow("not one of");
+  });
+
+  it("should name embedded images without an id after their position", () => {
+    const doc = parseLottie(sampleLottie());
+    delete (doc.assets![1] as { id?: string }).id;
+
+    expect(packDotLottie([{ id: "a", document: doc }]).images).toEqual([{ path: "images/image_1.png", bytes: 8 }]);
+  });
+
+  it("should reject images with malformed data URIs when packing", () => {
+    const doc = parseLottie({ ...sampleLottie(), assets: [{ id: "img", w: 4, h: 4, u: "", p: "data:image/svg+xml,%E0%A4%A", e: 1 }] });
+
+    expect(() => packDotLottie([{ id: "a", document: doc }])).toThrow('Animation "a": image "img" has an invalid data URI');
+  });
+
+  it("should select the requested, active or first animation", () => {
+    const doc = parseLottie(sampleLottie());
+    const archive = unpackDotLottie(packDotLottie(
+      [{ id: "a", document: doc }, { id: "b", document: doc }],
+      { activeAnimationId: "b" }
+    ).data);
+
+    expect(selectDotLottieAnimation(archive).id).toBe("b");
+    expect(selectDotLottieAnimation(archive, "a").id).toBe("a");
+    expect(() => selectDotLottieAnimation(archive, "c")).toThrow("Available: a, b");
+  });
+});
+
+describe("loadLottie with dotLottie files", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "lottie-dotlottie-"));
+    setProjectRoot(dir);
+  });
+
+  afterEach(async () => {
+    setProjectRoot(process.cwd());
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("should load an animation from a local .lottie file", async () => {
+    const doc = parseLottie(sampleLottie());
+    const packed = packDotLottie([{ id: "a", document: doc }, { id: "b", document: { ...doc, nm: "Second" } }]);
+    await writeFile(join(dir, "anim.lottie"), packed.data);
+
+    const first = await loadLottie({ path: "anim.lottie" });
+    expect(first.document.nm).toBe("Sample");
+    expect(first.source).toBe('anim.lottie (animation "a")');
+
+    const second = await loadLottie({ path: "anim.lottie", animationId: "b" });
+    expect(second.document.nm).toBe("Second");
+  });
+
+  it("should reject animationId for JSON sources", async () => {
+    await expect(loadLottie({ json: JSON.stringify(sampleLottie()), animationId: "a" })).rejects.toThrow("only applies to dotLottie");
+  });
+});
@@ -0,0 +1,226 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  hasActiveFilters,
+  mergeFilters,
+  matchesFilters,
+  sortAnimations,
+  fetchFiltered,
+  matchTags,
+} from "../../src/lottiefiles/index.js";
+import { sampleAnimation, samplePage } from "../helpers.js";
+
+describe("hasActiveFilters", () => {
+  it("should be false for empty filters", () => {
+    expect(hasActiveFilters({})).toBe(false);
+    expect(hasActiveFilters({ includeCreators: [], requireJson: false })).toBe(false);
+  });
+
+  it("should be true when any filter is set", () => {
+    expect(hasActiveFilters({ minLikes: 0 })).toBe(true);
+    expect(hasActiveFilters({ excludeCreators: ["bob"] })).toBe(true);
+  });
+});
+
+describe("matchesFilters", () => {
+  it("should filter by minimum downloads and likes", () => {
+    const anim = sampleAnimation("1", { downloads: 500, likesCount: 20 });
+
+    expect(matchesFilters(anim, { minDownloads: 500 })).toBe(true);
+    expect(matchesFilters(anim, { minDownloads: 501 })).toBe(false);
+    expect(matchesFilters(anim, { minLikes: 21 })).toBe(false);
+  });
+
+  it("should filter by creation date range", () => {
+    const anim = sampleAnimation("1", { createdAt: "2024-06-01T00:00:00.000Z" });
+
+    expect(matchesFilters(anim, { createdAfter: "2024-01-01" })).toBe(true);
+    expect(matchesFilters(anim, { createdAfter: "2024-07-01" })).toBe(false);
+    expect(matchesFilters(anim, { createdBefore: "2024-05-01" })).toBe(false);
+  });
+
+  it("should match creators case-insensitively", () => {
+    const anim = sampleAnimation("1", { createdBy: { username: "Alice", avatarUrl: null } });
+
+    expect(matchesFilters(anim, { includeCreators: ["alice"] })).toBe(true);
+    expect(matchesFilters(anim, { includeCreators: ["bob"] })).toBe(false);
+    expect(matchesFilters(anim, { excludeCreators: ["ALICE"] })).toBe(false);
+  });
+
+  it("should exclude animations without a creator when creators are required", () => {
+    const anim = sampleAnimation("1", { createdBy: null });
+
+    expect(matchesFilters(anim, { includeCreators: ["alice"] })).toBe(false);
+    expect(matchesFilters(anim, { excludeCreators: ["alice"] })).toBe(true);
+  });
+
+  it("should require download formats", () => {
+    const anim = sampleAnimation("1", { jsonUrl: null });
+
+    expect(matchesFilters(anim, { requireJson: true })).toBe(false);
+    expect(matchesFilters(anim, { requireDotLottie: true })).toBe(true);
+  });
+});
+
+describe("sortAnimations", () => {
+  const anims = [
+    sampleAnimation("a", { downloads: 10, likesCount: 300, createdAt: "2023-01-01T00:00:00Z" }),
+    sampleAnimation("b", { downloads: 300, likesCount: 10, createdAt: "2022-01-01T00:00:00Z" }),
+    sampleAnimation("c", { downloads: 100, likesCount: 100, createdAt: "2024-01-01T00:00:00Z" }),
+  ];
+
+  it("should keep API order for relevance", () => {
+    expect(sortAnimations(anims, "relevance").map((a) => a.id)).toEqual(["a", "b", "c"]);
+  });
+
+  it("should sort by downloads, likes and newest", () => {
+    expect(sortAnimations(anims, "downloads").map((a) => a.id)).toEqual(["b", "c", "a"]);
+    expect(sortAnimations(anims, "likes").map((a) => a.id)).toEqual(["a", "c", "b"]);
+    expect(sortAnimations(anims, "newest").map((a) => a.id)).toEqual(["c", "a", "b"]);
+  });
+
+  it("should not mutate the input", () => {
+    sortAnimations(anims, "downloads");
+    expect(anims.map((a) => a.id)).toEqual(["a", "b", "c"]);
+  });
+});
+
+describe("fetchFiltered", () => {
+  it("should fetch more pages until the limit is filled", async () => {
+    const pages = [
+      samplePage([sampleAnimation("1", { downloads: 5 }), sampleAnimation("2", { downloads: 500 })], "p1"),
+      samplePage([sampleAnimation("3", { downloads: 5 }), sampleAnimation("4", { downloads: 900 })], "p2"),
+      samplePage([sampleAnimation("5", { downloads: 700 })], null),
+    ];
+    const fetchPage = vi.fn(async (after: string | undefined) =>
+      pages[after === undefined ? 0 : Number(after.slice(1))]
+    );
+
+    const result = await fetchFiltered(fetchPage, {
+      limit: 2,
+      filters: { minDownloads: 100 },
+      sort: "relevance",
+      maxPages: 5,
+    });
+
+    expect(fetchPage).toHaveBeenCalledTimes(2);
+    expect(result.animations.map((a) => a.id)).toEqual(["2", "4"]);
+    expect(result.scanned).toBe(4);
+    expect(result.lastPage.nextCursor).toBe("p2");
+  });
+
+  it("should stop at maxPages", async () => {
+    const fetchPage = vi.fn(async () => samplePage([sampleAnimation("1", { downloads: 0 })], "next"));
+
+    const result = await fetchFiltered(fetchPage, {
+      limit: 5,
+      filters: { minDownloads: 100 },
+      sort: "relevance",
+      maxPages: 3,
+    });
+
+    expect(fetchPage).toHaveBeenCalledTimes(3);
+    expect(result.animations).toHaveLength(0);
+    expect(result.pagesFetched).toBe(3);
+  });
+
+  it("should start after the given cursor and sort the results", async () => {
+    const fetchPage = vi.fn(async () =>
+      samplePage([sampleAnimation("1", { likesCount: 1 }), sampleAnimation("2", { likesCount: 50 })], null)
+    );
+
+    const result = await fetchFiltered(fetchPage, {
+      limit: 2,
+      filters: {},
+      sort: "likes",
+      maxPages: 1,
+      after: "start",
+    });
+
+    expect(fetchPage).toHaveBeenCalledWith("start");
+    expect(result.animations.map((a) => a.id)).toEqual(["2", "1"]);
+  });
+
+  it("should continue after the last returned match when a page has more matches than the limit", async () => {
+    const ids = ["1", "2", "3", "4", "5", "6", "7"];
+    const all = ids.map((id) => sampleAnimation(id, { downloads: Number(id) % 2 === 1 ? 500 : 5 }));
+    // Serves the animations after the given edge cursor, three at a time
+    const fetchPage = vi.fn(async (after: string | undefined) => {
+      const start = after === undefined ? 0 : ids.indexOf(after.slice(1)) + 1;
+      const end = start + 3;
+      return samplePage(all.slice(start, end), end < all.length ? `c${ids[end - 1]}` : null);
+    });
+
+    const seen: string[] = [];
+    let cursor: string | undefined;
+    do {
+      const result = await fetchFiltered(fetchPage, {
+        limit: 1,
+        filters: { minDownloads: 100 },
+        sort: "relevance",
+        maxPages: 5,
+        after: cursor,
+      });
+      seen.push(...result.animations.map((a) => a.id));
+      cursor = result.lastPage.hasNextPage ? result.lastPage.nextCursor ?? undefined : undefined;
+    } while (cursor !== undefined);
+
+    expect(seen).toEqual(["1", "3", "5", "7"]);
+  });
+});
+
+describe("matchTags", () => {
+  it("should match tags as whole words in the name, description and slug", () => {
+    const anim = sampleAnimation("1", {
+      name: "Minimal Loader",
+      description: "A flat spinner",
+      slug: "neon-glow-xyz",
+    });
+
+    expect(matchTags(anim, ["minimal", "flat", "neon", "3d"])).toEqual(["minimal", "flat", "neon"]);
+  });
+
+  it("should not match partial words but should match plurals", () => {
+    const anim = sampleAnimation("1", { name: "Flatten icons" });
+
+    expect(matchTags(anim, ["flat", "icon"])).toEqual(["icon"]);
+  });
+
+  it("should match multi-word tags across dashes", () => {
+    const anim = sampleAnimation("1", { name: "Thing", slug: "line-art-check" });
+
+    expect(matchTags(anim, ["line art"])).toEqual(["line art"]);
+  });
+});
+
+describe("anyTags filter", () => {
+  it("should keep animations matching at least one tag and report the rest as dropped", async () => {
+    const result = await fetchFiltered(
+      async () => samplePage([sampleAnimation("1", { name: "Cute cat" }), sampleAnimation("2", { name: "Dog" })], null),
+      { limit: 10, filters: { anyTags: ["cute", "retro"] }, sort: "relevance", maxPages: 1 }
+    );
+
+    expect(result.animations.map((a) => a.id)).toEqual(["1"]);
+    expect(result.dropped.map((a) => a.id)).toEqual(["2"]);
+  });
+});
+
+describe("mergeFilters", () => {
+  it("should keep the strictest bounds and concatenate lists", () => {
+    expect(
+      mergeFilters(
+        { minDownloads: 100, createdAfter: "2024-01-01", excludeCreators: ["a"] },
+        { minDownloads: 50, maxDownloads: 500, createdAfter: "2024-03-01", excludeCreators: ["b"], requireJson: true }
+      )
+    ).toMatchObject({
+      minDownloads: 100,
+      maxDownloads: 500,
+      createdAfter: "2024-03-01",
+      excludeCreators: ["a", "b"],
+      requireJson: true,
+    });
+  });
+
+  it("should produce inactive filters from empty sets", () => {
+    expect(hasActiveFilters(mergeFilters({}, {}))).toBe(false);
+  });
+});
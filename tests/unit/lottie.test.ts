@@ -0,0 +1,243 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtemp, readFile, rm, symlink, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { setProjectRoot } from "../../src/config/styles.js";
+import {
+  LottieFormatError,
+  LottieSourceError,
+  LottiePathError,
+  inspectLottie,
+  resolveProjectPath,
+  writeLocalFile,
+  isTrustedUrl,
+  loadLottie,
+  parseLottie,
+} from "../../src/lottie/index.js";
+import { sampleLottie } from "../helpers.js";
+
+describe("parseLottie", () => {
+  it("should parse JSON text into a document", () => {
+    const doc = parseLottie(JSON.stringify(sampleLottie()));
+
+    expect(doc.w).toBe(200);
+    expect(doc.layers).toHaveLength(4);
+  });
+
+  it("should reject invalid JSON", () => {
+    expect(() => parseLottie("{nope")).toThrow(LottieFormatError);
+    expect(() => parseLottie("{nope")).toThrow("Not valid JSON");
+  });
+
+  it("should reject documents missing required fields with a pointer", () => {
+    const doc: Record<string, unknown> = sampleLottie();
+    delete doc.fr;
+
+    try {
+      parseLottie(doc);
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(LottieFormatError);
+      expect((error as LottieFormatError).pointer).toBe("/fr");
+    }
+  });
+
+  it("should reject non-object documents", () => {
+    expect(() => parseLottie([])).toThrow("must be a JSON object");
+  });
+});
+
+describe("isTrustedUrl", () => {
+  it("should accept LottieFiles CDN hosts", () => {
+    expect(isTrustedUrl("https://lottie.host/abc/anim.json")).toBe(true);
+    expect(isTrustedUrl("https://assets2.lottiefiles.com/packages/anim.json")).toBe(true);
+  });
+
+  it("should reject other hosts, lookalikes and invalid URLs", () => {
+    expect(isTrustedUrl("https://evil.com/anim.json")).toBe(false);
+    expect(isTrustedUrl("https://lottie.host.evil.com/anim.json")).toBe(false);
+    expect(isTrustedUrl("file:///etc/passwd")).toBe(false);
+    expect(isTrustedUrl("not a url")).toBe(false);
+  });
+});
+
+describe("loadLottie", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should load inline JSON", async () => {
+    const json = JSON.stringify(sampleLottie());
+    const loaded = await loadLottie({ json });
+
+    expect(loaded.source).toBe("inline JSON");
+    expect(loaded.bytes).toBe(json.length);
+  });
+
+  it("should fetch JSON from trusted URLs", async () => {
+    const fetchMock = vi.spyOn(globalThis, "fetch").mockResolvedValue(new Response(JSON.stringify(sampleLottie())));
+    const loaded = await loadLottie({ url: "https://lottie.host/abc/anim.json" });
+
+    expect(fetchMock).toHaveBeenCalledOnce();
+    expect(loaded.document.nm).toBe("Sample");
+  });
+
+  it("should refuse untrusted URLs without fetching", async () => {
+    const fetchMock = vi.spyOn(globalThis, "fetch");
+
+    await expect(loadLottie({ url: "https://evil.com/anim.json" })).rejects.toThrow(LottieSourceError);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("should report HTTP errors", async () => {
+    vi.spyOn(globalThis, "fetch").mockResolvedValue(new Response("nope", { status: 404 }));
+
+    await expect(loadLottie({ url: "https://lottie.host/abc/anim.json" })).rejects.toThrow("HTTP 404");
+  });
+
+  it("should load local files from the project root", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "lottie-test-"));
+    setProjectRoot(dir);
+    try {
+      await writeFile(join(dir, "anim.json"), JSON.stringify(sampleLottie()));
+
+      const loaded = await loadLottie({ path: "anim.json" });
+      expect(loaded.source).toBe("anim.json");
+      expect(loaded.document.nm).toBe("Sample");
+      await expect(loadLottie({ path: "missing.json" })).rejects.toThrow("file not found");
+      await expect(loadLottie({ path: "../outside.json" })).rejects.toThrow(LottiePathError);
+    } finally {
+      setProjectRoot(process.cwd());
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("should require exactly one source", async () => {
+    await expect(loadLottie({})).rejects.toThrow("Provide a `url`, `path` or `json`");
+    await expect(loadLottie({ url: "https://lottie.host/a.json", json: "{}" })).rejects.toThrow("only one of");
+  });
+});
+
+describe("inspectLottie", () => {
+  it("should report timing and canvas", () => {
+    const report = inspectLottie(parseLottie(sampleLottie()));
+
+    expect(report).toMatchObject({
+      version: "5.7.4",
+      width: 200,
+      height: 100,
+      frameRate: 30,
+      totalFrames: 60,
+      durationSeconds: 2,
+      is3d: false,
+    });
+  });
+
+  it("should order layers as a parenting tree per composition", () => {
+    const report = inspectLottie(parseLottie(sampleLottie()));
+
+    expect(report.layers.map((l) => [l.composition, l.name, l.type, l.depth])).toEqual([
+      ["root", "Controller", "null", 0],
+      ["root", "Check", "shape", 1],
+      ["root", "Badge", "precomp", 0],
+      ["root", "Logo", "image", 0],
+      ["comp_0", "Matte", "shape", 0],
+      ["comp_0", "Background", "solid", 0],
+    ]);
+    expect(report.layers[1]).toMatchObject({ parent: 1, shapes: 4, expressions: 1, pointer: "/layers/1" });
+  });
+
+  it("should summarise precomps, assets and markers", () => {
+    const report = inspectLottie(parseLottie(sampleLottie()));
+
+    expect(report.precomps).toEqual([{ id: "comp_0", name: "Badge", layers: 2, references: 1 }]);
+    expect(report.images).toEqual([
+      { id: "image_0", width: 4, height: 4, embedded: true, path: null, bytes: 8 },
+    ]);
+    expect(report.markers).toEqual([
+      { name: "intro", frame: 0, durationFrames: 30, timeSeconds: 0 },
+      { name: "loop", frame: 30, durationFrames: 30, timeSeconds: 1 },
+    ]);
+  });
+
+  it("should count masks, mattes, expressions and keyframes", () => {
+    const report = inspectLottie(parseLottie(sampleLottie()));
+
+    expect(report.masks).toEqual({ total: 1, byMode: { add: 1 } });
+    expect(report.mattes).toEqual({ total: 1, byMode: { alpha: 1 } });
+    expect(report.layers.find((l) => l.name === "Matte")?.isMatte).toBe(true);
+    expect(report.expressions.total).toBe(1);
+    expect(report.expressions.locations[0]).toEqual({ pointer: "/layers/1/ks/r", layer: "Check", composition: "root" });
+    expect(report.animatedProperties).toBe(2);
+    expect(report.keyframes).toBe(4);
+  });
+
+  it("should score complexity between 0 and 100 with contributing factors", () => {
+    const simple = inspectLottie(parseLottie({ fr: 30, ip: 0, op: 30, w: 10, h: 10, layers: [] }));
+    const sample = inspectLottie(parseLottie(sampleLottie()));
+
+    expect(simple.complexity).toEqual({ score: 0, rating: "low", factors: {} });
+    expect(sample.complexity.score).toBeGreaterThan(0);
+    expect(sample.complexity.score).toBeLessThanOrEqual(100);
+    expect(sample.complexity.factors.expressions).toBe(5);
+    expect(sample.complexity.factors.mattes).toBe(4);
+  });
+
+  it("should not loop on parenting cycles", () => {
+    const doc = parseLottie({
+      fr: 30, ip: 0, op: 30, w: 10, h: 10,
+      layers: [
+        { ty: 3, ind: 1, parent: 2, ip: 0, op: 30 },
+        { ty: 3, ind: 2, parent: 1, ip: 0, op: 30 },
+      ],
+    });
+
+    expect(inspectLottie(doc).layers).toHaveLength(2);
+  });
+});
+
+describe("project files", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "lottie-test-"));
+    setProjectRoot(dir);
+  });
+
+  afterEach(async () => {
+    setProjectRoot(process.cwd());
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("should create directories and refuse to overwrite by default", async () => {
+    const written = await writeLocalFile("nested/out.json", "{}");
+    expect(written).toBe(join(dir, "nested", "out.json"));
+    expect(await readFile(written, "utf-8")).toBe("{}");
+
+    await expect(writeLocalFile("nested/out.json", "[]")).rejects.toThrow("already exists");
+    await writeLocalFile("nested/out.json", "[]", { overwrite: true });
+    expect(await readFile(written, "utf-8")).toBe("[]");
+  });
+
+  it("should reject paths that escape the project root", async () => {
+    await expect(resolveProjectPath("../escape.json")).rejects.toThrow("outside the project root");
+    await expect(resolveProjectPath("a/../../escape.json")).rejects.toThrow(LottiePathError);
+    await expect(resolveProjectPath("/etc/passwd")).rejects.toThrow(LottiePathError);
+    await expect(writeLocalFile("../escape.json", "{}")).rejects.toThrow(LottiePathError);
+    expect(await resolveProjectPath("a/../inside.json")).toBe(join(dir, "inside.json"));
+  });
+
+  it("should reject symlinks that lead outside the project root", async () => {
+    const outside = await mkdtemp(join(tmpdir(), "lottie-outside-"));
+    try {
+      await symlink(outside, join(dir, "link"));
+      await expect(writeLocalFile("link/escape.json", "{}")).rejects.toThrow("through a symlink");
+    } finally {
+      await rm(outside, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,564 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import {
+  LottieFilesClient,
+  LottieFilesError,
+  LottieFilesHttpError,
+  LottieFilesGraphQLError,
+  LottieFilesNetworkError,
+  LottieFilesTimeoutError,
+  ResponseCache,
+  ConcurrencyLimiter,
+  parseRetryAfter,
+  parseAnimationRef,
+  FetchFn,
+  LOTTIEFILES_API,
+} from "../../src/lottiefiles/index.js";
+
+// Raw node as returned by the API (numeric id, some fields missing)
+function rawNode(id: number, overrides: Record<string, unknown> = {}) {
+  return {
+    id,
+    slug: `anim-${id}`,
+    name: `Animation ${id}`,
+    description: null,
+    likesCount: 10,
+    downloads: 100,
+    gifUrl: null,
+    lottieUrl: `https://lottie.host/${id}.lottie`,
+    jsonUrl: `https://lottie.host/${id}.json`,
+    createdAt: "2024-01-01T00:00:00.000Z",
+    createdBy: { username: "creator" },
+    ...overrides,
+  };
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+function connection(
+  nodes: unknown[],
+  totalCount = nodes.length,
+  pageInfo?: { hasNextPage: boolean; endCursor: string | null }
+) {
+  return {
+    totalCount,
+    pageInfo,
+    edges: nodes.map((node, i) => ({ cursor: `c${i}`, node })),
+  };
+}
+
+describe("LottieFilesClient", () => {
+  beforeEach(() => {
+    // Suppress logger output during tests
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should POST the query and variables to the API", async () => {
+    const fetchFn = vi.fn<FetchFn>(async () =>
+      jsonResponse({ data: { searchPublicAnimations: connection([]) } })
+    );
+    const client = new LottieFilesClient({ fetch: fetchFn });
+
+    await client.search({ query: "loading", first: 5 });
+
+    expect(fetchFn).toHaveBeenCalledTimes(1);
+    const [url, init] = fetchFn.mock.calls[0];
+    expect(url).toBe(LOTTIEFILES_API);
+    expect(init?.method).toBe("POST");
+    const body = JSON.parse(init?.body as string);
+    expect(body.query).toContain("searchPublicAnimations");
+    expect(body.variables).toEqual({ query: "loading", limit: 5, after: null });
+  });
+
+  it("should normalize animation nodes", async () => {
+    const client = new LottieFilesClient({
+      fetch: async () =>
+        jsonResponse({ data: { searchPublicAnimations: connection([rawNode(42)], 1000) } }),
+    });
+
+    const page = await client.search({ query: "check", first: 1 });
+
+    expect(page.totalCount).toBe(1000);
+    expect(page.animations).toHaveLength(1);
+    expect(page.animations[0].id).toBe("42");
+    expect(page.animations[0].createdBy).toEqual({ username: "creator", avatarUrl: null });
+  });
+
+  it("should fetch featured animations", async () => {
+    const client = new LottieFilesClient({
+      fetch: async () =>
+        jsonResponse({ data: { featuredPublicAnimations: connection([rawNode(1), rawNode(2)]) } }),
+    });
+
+    const page = await client.featured({ first: 2 });
+
+    expect(page.animations.map((a) => a.id)).toEqual(["1", "2"]);
+  });
+
+  describe("pagination", () => {
+    it("should pass the after cursor and return pageInfo", async () => {
+      const fetchFn = vi.fn<FetchFn>(async () =>
+        jsonResponse({
+          data: {
+            searchPublicAnimations: connection([rawNode(1)], 500, {
+              hasNextPage: true,
+              endCursor: "next-1",
+            }),
+          },
+        })
+      );
+      const client = new LottieFilesClient({ fetch: fetchFn });
+
+      const page = await client.search({ query: "loading", first: 1, after: "prev" });
+
+      const body = JSON.parse(fetchFn.mock.calls[0][1]?.body as string);
+      expect(body.variables.after).toBe("prev");
+      expect(page.hasNextPage).toBe(true);
+      expect(page.nextCursor).toBe("next-1");
+    });
+
+    it("should report no next page on the last page", async () => {
+      const client = new LottieFilesClient({
+        fetch: async () =>
+          jsonResponse({
+            data: {
+              featuredPublicAnimations: connection([rawNode(1)], 1, {
+                hasNextPage: false,
+                endCursor: "c0",
+              }),
+            },
+          }),
+      });
+
+      const page = await client.featured({ first: 10 });
+
+      expect(page.hasNextPage).toBe(false);
+      expect(page.nextCursor).toBeNull();
+    });
+
+    it("should fall back to the last edge cursor without pageInfo", async () => {
+      const client = new LottieFilesClient({
+        fetch: async () =>
+          jsonResponse({ data: { searchPublicAnimations: connection([rawNode(1), rawNode(2)]) } }),
+      });
+
+      const page = await client.search({ query: "x", first: 2 });
+
+      expect(page.hasNextPage).toBe(true);
+      expect(page.nextCursor).toBe("c1");
+    });
+  });
+
+  it("should throw LottieFilesHttpError on non-2xx status", async () => {
+    const client = new LottieFilesClient({
+      fetch: async () => new Response("Too many requests", { status: 429 }),
+      maxRetries: 0,
+    });
+
+    const error = await client.search({ query: "x", first: 1 }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(LottieFilesHttpError);
+    expect(error).toBeInstanceOf(LottieFilesError);
+    expect(error.status).toBe(429);
+    expect(error.message).toBe("HTTP 429");
+  });
+
+  it("should throw LottieFilesGraphQLError on GraphQL errors", async () => {
+    const client = new LottieFilesClient({
+      fetch: async () =>
+        jsonResponse({ data: null, errors: [{ message: "Bad query" }, { message: "Oops" }] }),
+    });
+
+    const error = await client.search({ query: "x", first: 1 }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(LottieFilesGraphQLError);
+    expect(error.messages).toEqual(["Bad query", "Oops"]);
+    expect(error.message).toBe("Bad query, Oops");
+  });
+
+  it("should throw LottieFilesNetworkError when fetch rejects", async () => {
+    const client = new LottieFilesClient({
+      fetch: async () => {
+        throw new TypeError("fetch failed");
+      },
+      maxRetries: 0,
+    });
+
+    const error = await client.search({ query: "x", first: 1 }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(LottieFilesNetworkError);
+    expect(error.message).toBe("fetch failed");
+  });
+
+  it("should throw LottieFilesNetworkError on invalid JSON", async () => {
+    const client = new LottieFilesClient({
+      fetch: async () => new Response("<html>", { status: 200 }),
+    });
+
+    await expect(client.search({ query: "x", first: 1 })).rejects.toBeInstanceOf(
+      LottieFilesNetworkError
+    );
+  });
+
+  describe("retries", () => {
+    const okResponse = () =>
+      jsonResponse({ data: { searchPublicAnimations: connection([rawNode(1)]) } });
+
+    it("should retry 429 and 5xx responses until success", async () => {
+      const fetchFn = vi
+        .fn<FetchFn>()
+        .mockResolvedValueOnce(new Response("", { status: 429 }))
+        .mockResolvedValueOnce(new Response("", { status: 503 }))
+        .mockImplementation(async () => okResponse());
+      const client = new LottieFilesClient({ fetch: fetchFn, retryBaseDelayMs: 1 });
+
+      const page = await client.search({ query: "x", first: 1 });
+
+      expect(fetchFn).toHaveBeenCalledTimes(3);
+      expect(page.animations).toHaveLength(1);
+    });
+
+    it("should retry network errors", async () => {
+      const fetchFn = vi
+        .fn<FetchFn>()
+        .mockRejectedValueOnce(new TypeError("fetch failed"))
+        .mockImplementation(async () => okResponse());
+      const client = new LottieFilesClient({ fetch: fetchFn, retryBaseDelayMs: 1 });
+
+      await client.search({ query: "x", first: 1 });
+
+      expect(fetchFn).toHaveBeenCalledTimes(2);
+    });
+
+    it("should give up after maxRetries", async () => {
+      const fetchFn = vi.fn<FetchFn>(async () => new Response("", { status: 502 }));
+      const client = new LottieFilesClient({ fetch: fetchFn, maxRetries: 2, retryBaseDelayMs: 1 });
+
+      await expect(client.search({ query: "x", first: 1 })).rejects.toBeInstanceOf(
+        LottieFilesHttpError
+      );
+      expect(fetchFn).toHaveBeenCalledTimes(3);
+    });
+
+    it("should not retry client errors or GraphQL errors", async () => {
+      const fetchFn = vi
+        .fn<FetchFn>()
+        .mockResolvedValueOnce(new Response("", { status: 400 }))
+        .mockImplementation(async () => jsonResponse({ errors: [{ message: "Bad" }] }));
+      const client = new LottieFilesClient({ fetch: fetchFn, retryBaseDelayMs: 1 });
+
+      await expect(client.search({ query: "x", first: 1 })).rejects.toBeInstanceOf(
+        LottieFilesHttpError
+      );
+      await expect(client.search({ query: "x", first: 1 })).rejects.toBeInstanceOf(
+        LottieFilesGraphQLError
+      );
+      expect(fetchFn).toHaveBeenCalledTimes(2);
+    });
+
+    it("should wait for Retry-After before retrying", async () => {
+      const calls: number[] = [];
+      const fetchFn = vi.fn<FetchFn>(async () => {
+        calls.push(Date.now());
+        return calls.length === 1
+          ? new Response("", { status: 429, headers: { "Retry-After": "0.05" } })
+          : okResponse();
+      });
+      const client = new LottieFilesClient({ fetch: fetchFn, retryBaseDelayMs: 1 });
+
+      await client.search({ query: "x", first: 1 });
+
+      expect(calls[1] - calls[0]).toBeGreaterThanOrEqual(45);
+    });
+
+    it("should give up when Retry-After exceeds the max delay", async () => {
+      const fetchFn = vi.fn<FetchFn>(
+        async () => new Response("", { status: 429, headers: { "Retry-After": "120" } })
+      );
+      const client = new LottieFilesClient({ fetch: fetchFn, retryMaxDelayMs: 1000 });
+
+      const error = await client.search({ query: "x", first: 1 }).catch((e) => e);
+
+      expect(fetchFn).toHaveBeenCalledTimes(1);
+      expect(error.retryAfterMs).toBe(120000);
+      expect(error.message).toBe("HTTP 429 (retry after 120s)");
+    });
+
+    it("should abort requests that exceed the timeout", async () => {
+      const fetchFn: FetchFn = (_input, init) =>
+        new Promise((_resolve, reject) => {
+          init?.signal?.addEventListener("abort", () => reject(new Error("aborted")));
+        });
+      const client = new LottieFilesClient({ fetch: fetchFn, timeoutMs: 20, maxRetries: 0 });
+
+      const error = await client.search({ query: "x", first: 1 }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(LottieFilesTimeoutError);
+      expect(error.timeoutMs).toBe(20);
+    });
+
+    it("should limit concurrent requests", async () => {
+      let active = 0;
+      let maxActive = 0;
+      const fetchFn: FetchFn = async () => {
+        active++;
+        maxActive = Math.max(maxActive, active);
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        active--;
+        return okResponse();
+      };
+      const client = new LottieFilesClient({ fetch: fetchFn, maxConcurrent: 2 });
+
+      await Promise.all(
+        Array.from({ length: 6 }, (_, i) => client.search({ query: `q${i}`, first: 1 }))
+      );
+
+      expect(maxActive).toBe(2);
+    });
+  });
+
+  describe("response cache", () => {
+    it("should serve repeated queries from the cache", async () => {
+      const fetchFn = vi.fn<FetchFn>(async () =>
+        jsonResponse({ data: { searchPublicAnimations: connection([rawNode(1)]) } })
+      );
+      const client = new LottieFilesClient({
+        fetch: fetchFn,
+        cache: new ResponseCache({ ttlMs: 60000, maxEntries: 10 }),
+      });
+
+      const first = await client.search({ query: "loading", first: 1 });
+      const second = await client.search({ query: "loading", first: 1 });
+
+      expect(fetchFn).toHaveBeenCalledTimes(1);
+      expect(first.cached).toBe(false);
+      expect(second.cached).toBe(true);
+      expect(second.animations[0].id).toBe("1");
+    });
+
+    it("should not cache failed requests", async () => {
+      const fetchFn = vi.fn<FetchFn>(async () => new Response("", { status: 500 }));
+      const client = new LottieFilesClient({
+        fetch: fetchFn,
+        cache: new ResponseCache({ ttlMs: 60000, maxEntries: 10 }),
+        maxRetries: 0,
+      });
+
+      await client.search({ query: "x", first: 1 }).catch(() => {});
+      await client.search({ query: "x", first: 1 }).catch(() => {});
+
+      expect(fetchFn).toHaveBeenCalledTimes(2);
+    });
+
+    it("should fetch again after clearCache", async () => {
+      const fetchFn = vi.fn<FetchFn>(async () =>
+        jsonResponse({ data: { featuredPublicAnimations: connection([rawNode(1)]) } })
+      );
+      const client = new LottieFilesClient({
+        fetch: fetchFn,
+        cache: new ResponseCache({ ttlMs: 60000, maxEntries: 10 }),
+      });
+
+      await client.featured({ first: 1 });
+      expect(await client.clearCache()).toBe(1);
+      await client.featured({ first: 1 });
+
+      expect(fetchFn).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe("getById", () => {
+    it("should use the single-animation query", async () => {
+      const fetchFn = vi.fn<FetchFn>(async () =>
+        jsonResponse({ data: { publicAnimation: rawNode(42) } })
+      );
+      const client = new LottieFilesClient({ fetch: fetchFn });
+
+      const lookup = await client.getById("42");
+
+      expect(fetchFn).toHaveBeenCalledTimes(1);
+      const body = JSON.parse(fetchFn.mock.calls[0][1]?.body as string);
+      expect(body.query).toContain("publicAnimation(id: $id)");
+      expect(body.variables).toEqual({ id: 42 });
+      expect(lookup.animation?.id).toBe("42");
+      expect(lookup.source).toBe("lookup");
+    });
+
+    it("should fall back to search when the lookup query is rejected", async () => {
+      const fetchFn = vi
+        .fn<FetchFn>()
+        .mockResolvedValueOnce(jsonResponse({ errors: [{ message: "Cannot query field" }] }))
+        .mockResolvedValueOnce(
+          jsonResponse({ data: { searchPublicAnimations: connection([rawNode(7), rawNode(42)]) } })
+        );
+      const client = new LottieFilesClient({ fetch: fetchFn });
+
+      const lookup = await client.getById("42");
+
+      expect(fetchFn).toHaveBeenCalledTimes(2);
+      expect(lookup.animation?.id).toBe("42");
+      expect(lookup.source).toBe("search");
+    });
+
+    it("should return a suggestion when there is no exact match", async () => {
+      const fetchFn = vi
+        .fn<FetchFn>()
+        .mockResolvedValueOnce(jsonResponse({ data: { publicAnimation: null } }))
+        .mockResolvedValueOnce(
+          jsonResponse({ data: { searchPublicAnimations: connection([rawNode(7)]) } })
+        );
+      const client = new LottieFilesClient({ fetch: fetchFn });
+
+      const lookup = await client.getById("42");
+
+      expect(lookup.animation).toBeNull();
+      expect(lookup.suggestion?.id).toBe("7");
+    });
+
+    it("should not fall back on HTTP errors", async () => {
+      const fetchFn = vi.fn<FetchFn>(async () => new Response("", { status: 404 }));
+      const client = new LottieFilesClient({ fetch: fetchFn });
+
+      await expect(client.getById("42")).rejects.toBeInstanceOf(LottieFilesHttpError);
+      expect(fetchFn).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("getBySlug", () => {
+    it("should search by slug words and match the slug exactly", async () => {
+      const fetchFn = vi.fn<FetchFn>(async () =>
+        jsonResponse({
+          data: {
+            searchPublicAnimations: connection([
+              rawNode(1, { slug: "success-check-other" }),
+              rawNode(2, { slug: "success-check-a1b2" }),
+            ]),
+          },
+        })
+      );
+      const client = new LottieFilesClient({ fetch: fetchFn });
+
+      const lookup = await client.getBySlug("success-check-a1b2");
+
+      const body = JSON.parse(fetchFn.mock.calls[0][1]?.body as string);
+      expect(body.variables.query).toBe("success check a1b2");
+      expect(lookup.animation?.id).toBe("2");
+    });
+  });
+
+  describe("lookup", () => {
+    it("should resolve lottiefiles.com URLs", async () => {
+      const fetchFn = vi.fn<FetchFn>(async () =>
+        jsonResponse({ data: { publicAnimation: rawNode(12345) } })
+      );
+      const client = new LottieFilesClient({ fetch: fetchFn });
+
+      const lookup = await client.lookup("https://lottiefiles.com/12345-loading");
+
+      expect(lookup.animation?.id).toBe("12345");
+    });
+
+    it("should reject invalid references", async () => {
+      const client = new LottieFilesClient({ fetch: vi.fn<FetchFn>() });
+
+      await expect(client.lookup("not a reference!")).rejects.toBeInstanceOf(LottieFilesError);
+    });
+  });
+});
+
+describe("parseAnimationRef", () => {
+  it("should parse numeric IDs", () => {
+    expect(parseAnimationRef("12345")).toEqual({ kind: "id", id: "12345" });
+    expect(parseAnimationRef("  42 ")).toEqual({ kind: "id", id: "42" });
+  });
+
+  it("should parse slugs", () => {
+    expect(parseAnimationRef("success-check-a1b2c3")).toEqual({
+      kind: "slug",
+      slug: "success-check-a1b2c3",
+    });
+  });
+
+  it("should parse animation URLs", () => {
+    expect(parseAnimationRef("https://lottiefiles.com/animations/success-check-a1b2c3")).toEqual({
+      kind: "slug",
+      slug: "success-check-a1b2c3",
+    });
+    expect(parseAnimationRef("lottiefiles.com/free-animation/loading-xyz?from=search")).toEqual({
+      kind: "slug",
+      slug: "loading-xyz",
+    });
+    expect(parseAnimationRef("https://app.lottiefiles.com/animation/99")).toEqual({
+      kind: "id",
+      id: "99",
+    });
+  });
+
+  it("should parse legacy URLs with an ID prefix", () => {
+    expect(parseAnimationRef("https://lottiefiles.com/12345-loading-spinner")).toEqual({
+      kind: "id",
+      id: "12345",
+    });
+  });
+
+  it("should reject invalid input", () => {
+    expect(parseAnimationRef("")).toBeNull();
+    expect(parseAnimationRef("two words")).toBeNull();
+    expect(parseAnimationRef("https://lottiefiles.com/")).toBeNull();
+  });
+
+  it("should reject URLs with malformed percent-escapes", () => {
+    expect(parseAnimationRef("https://lottiefiles.com/animations/%E0%A4%A")).toBeNull();
+  });
+});
+
+describe("parseRetryAfter", () => {
+  it("should parse delay seconds", () => {
+    expect(parseRetryAfter("3")).toBe(3000);
+  });
+
+  it("should parse HTTP dates", () => {
+    const now = Date.parse("2026-01-01T00:00:00Z");
+    expect(parseRetryAfter("Thu, 01 Jan 2026 00:00:10 GMT", now)).toBe(10000);
+  });
+
+  it("should return null for missing or invalid values", () => {
+    expect(parseRetryAfter(null)).toBeNull();
+    expect(parseRetryAfter("soon")).toBeNull();
+  });
+});
+
+describe("ConcurrencyLimiter", () => {
+  it("should run queued operations in order as slots free up", async () => {
+    const limiter = new ConcurrencyLimiter(1);
+    const order: number[] = [];
+
+    await Promise.all(
+      [1, 2, 3].map((n) =>
+        limiter.run(async () => {
+          order.push(n);
+        })
+      )
+    );
+
+    expect(order).toEqual([1, 2, 3]);
+    expect(limiter.activeCount).toBe(0);
+    expect(limiter.pendingCount).toBe(0);
+  });
+
+  it("should release the slot when an operation throws", async () => {
+    const limiter = new ConcurrencyLimiter(1);
+
+    await expect(limiter.run(async () => { throw new Error("boom"); })).rejects.toThrow("boom");
+
+    expect(await limiter.run(async () => "ok")).toBe("ok");
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, it, expect } from "vitest";
+import { mergeSearchRuns } from "../../src/lottiefiles/index.js";
+import { sampleAnimation } from "../helpers.js";
+
+describe("mergeSearchRuns", () => {
+  it("should de-duplicate by ID and record every query that found a result", () => {
+    const merged = mergeSearchRuns([
+      { query: "a", animations: [sampleAnimation("1"), sampleAnimation("2")] },
+      { query: "b", animations: [sampleAnimation("2"), sampleAnimation("3")] },
+    ]);
+
+    expect(merged.map((m) => m.animation.id)).toEqual(["2", "1", "3"]);
+    expect(merged[0].sources).toEqual([
+      { query: "a", rank: 2 },
+      { query: "b", rank: 1 },
+    ]);
+  });
+
+  it("should rank more matching queries above popularity", () => {
+    const merged = mergeSearchRuns([
+      { query: "a", animations: [sampleAnimation("popular", { downloads: 1_000_000 }), sampleAnimation("both", { downloads: 5 })] },
+      { query: "b", animations: [sampleAnimation("both", { downloads: 5 })] },
+    ]);
+
+    expect(merged.map((m) => m.animation.id)).toEqual(["both", "popular"]);
+  });
+
+  it("should break ties by popularity", () => {
+    const merged = mergeSearchRuns([
+      { query: "a", animations: [sampleAnimation("few", { downloads: 10 }), sampleAnimation("many", { downloads: 10_000 })] },
+    ]);
+
+    expect(merged.map((m) => m.animation.id)).toEqual(["many", "few"]);
+    expect(merged[0].score).toBeCloseTo(2);
+  });
+
+  it("should return an empty list for no runs", () => {
+    expect(mergeSearchRuns([])).toEqual([]);
+  });
+});
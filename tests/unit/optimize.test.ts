@@ -0,0 +1,118 @@
+import { describe, it, expect } from "vitest";
+import { LottieProperty, optimizeLottie, parseLottie } from "../../src/lottie/index.js";
+import { sampleLottie } from "../helpers.js";
+
+/**
+ * Sample document without the rotation expression, so names may be stripped.
+ */
+function withoutExpressions() {
+  const doc = sampleLottie();
+  delete doc.layers[1].ks!.r!.x;
+  return doc;
+}
+
+describe("optimizeLottie", () => {
+  it("should round numbers to the requested precision", () => {
+    const raw = sampleLottie();
+    const [rect, stroke] = raw.layers[1].shapes![0].it!;
+    (stroke.w as LottieProperty).k = 4.123456;
+    (rect.p as LottieProperty).k = [0.00001, -0.0004];
+
+    const { document, stats } = optimizeLottie(parseLottie(raw), { precision: 2 });
+    const items = document.layers[1].shapes?.[0].it ?? [];
+
+    expect((items[1].w as { k: number }).k).toBe(4.12);
+    expect((items[0].p as { k: number[] }).k).toEqual([0, 0]);
+    expect(Object.is((items[0].p as { k: number[] }).k[1], -0)).toBe(false);
+    expect(stats.roundedValues).toBe(3);
+  });
+
+  it("should remove hidden, out-of-range and unused null layers but keep parents", () => {
+    const raw = sampleLottie();
+    raw.layers.push(
+      { ty: 4, nm: "Hidden", ind: 5, hd: true, ip: 0, op: 60, st: 0, ks: {}, shapes: [] },
+      { ty: 4, nm: "Late", ind: 6, ip: 60, op: 90, st: 0, ks: {}, shapes: [] },
+      { ty: 3, nm: "Orphan Null", ind: 7, ip: 0, op: 60, st: 0, ks: {} },
+      { ty: 3, nm: "Hidden Parent", ind: 8, hd: true, ip: 0, op: 60, st: 0, ks: {} },
+      { ty: 4, nm: "Child", ind: 9, parent: 8, ip: 0, op: 60, st: 0, ks: {}, shapes: [] }
+    );
+
+    const { document, stats } = optimizeLottie(parseLottie(raw));
+
+    expect(document.layers.map((l) => l.nm)).toEqual(["Controller", "Check", "Badge", "Logo", "Hidden Parent", "Child"]);
+    expect(stats.removedLayers).toEqual([
+      { name: "Hidden", composition: "root", reason: "hidden" },
+      { name: "Late", composition: "root", reason: "out-of-range" },
+      { name: "Orphan Null", composition: "root", reason: "unused-null" },
+    ]);
+  });
+
+  it("should keep layers referenced by name from expressions", () => {
+    const raw = sampleLottie();
+    raw.layers.push({ ty: 3, nm: "Driver", ind: 5, ip: 0, op: 60, st: 0, ks: {} });
+    raw.layers[1].ks!.r!.x = 'thisComp.layer("Driver").transform.rotation';
+
+    const { document } = optimizeLottie(parseLottie(raw));
+
+    expect(document.layers.map((l) => l.nm)).toContain("Driver");
+  });
+
+  it("should remove hidden shapes and unused assets", () => {
+    const raw = sampleLottie();
+    raw.layers[1].shapes![0].it![0].hd = true;
+    raw.layers.splice(2, 1); // Badge, the only user of comp_0
+    raw.assets!.push({ id: "unused", w: 1, h: 1, u: "images/", p: "unused.png", e: 0 });
+
+    const { document, stats } = optimizeLottie(parseLottie(raw));
+
+    expect(document.layers[1].shapes?.[0].it?.map((s) => s.ty)).toEqual(["st", "fl", "tr"]);
+    expect(stats.removedShapes).toBe(1);
+    expect(stats.removedAssets).toEqual(["comp_0", "unused"]);
+    expect(document.assets?.map((a) => a.id)).toEqual(["image_0"]);
+  });
+
+  it("should collapse keyframes that never change", () => {
+    const raw = sampleLottie();
+    raw.layers[1].ks!.o = { a: 1, k: [{ t: 0, s: [80] }, { t: 30, s: [80] }] };
+    // Same points but curved tangents still move along a path
+    raw.layers[1].ks!.p = { a: 1, k: [{ t: 0, s: [10, 10], to: [5, 0], ti: [-5, 0] }, { t: 30, s: [10, 10] }] };
+
+    const { document, stats } = optimizeLottie(parseLottie(raw));
+
+    expect(document.layers[1].ks?.o).toEqual({ a: 0, k: 80 });
+    expect(document.layers[1].ks?.p?.a).toBe(1);
+    expect(document.layers[0].ks?.p?.a).toBe(1);
+    expect(stats.collapsedProperties).toBe(1);
+  });
+
+  it("should strip metadata and optionally names unless expressions exist", () => {
+    const raw = withoutExpressions();
+    raw.meta = { g: "LottieFiles AE 3.0.0" };
+    raw.layers[1].shapes![0].mn = "ADBE Vector Group";
+
+    const metaOnly = optimizeLottie(parseLottie(raw)).document;
+    expect(metaOnly.meta).toBeUndefined();
+    expect(metaOnly.layers[1].shapes?.[0].mn).toBeUndefined();
+    expect(metaOnly.layers[1].nm).toBe("Check");
+
+    const named = optimizeLottie(parseLottie(raw), { stripNames: true }).document;
+    expect(named.layers[1].nm).toBeUndefined();
+    expect(named.nm).toBe("Sample");
+
+    const { document, stats } = optimizeLottie(parseLottie(sampleLottie()), { stripNames: true });
+    expect(document.layers[1].nm).toBe("Check");
+    expect(stats.keptNamesReason).toContain("expressions");
+  });
+
+  it("should not modify the input and should shrink the output", () => {
+    const raw = sampleLottie();
+    raw.layers[1].ks!.o = { a: 1, k: [{ t: 0, s: [100] }, { t: 60, s: [100] }] };
+    const doc = parseLottie(raw);
+    const before = JSON.stringify(doc);
+
+    const { document } = optimizeLottie(doc, { stripNames: true });
+
+    expect(JSON.stringify(doc)).toBe(before);
+    expect(JSON.stringify(document).length).toBeLessThan(before.length);
+  });
+});
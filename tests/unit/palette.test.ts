@@ -0,0 +1,124 @@
+import { describe, it, expect } from "vitest";
+import {
+  ColorUsage,
+  collectColors,
+  colorDistance,
+  extractPalette,
+  hexToRgb,
+  parseLottie,
+  readLottieColor,
+  relativeLuminance,
+  rgbToHex,
+} from "../../src/lottie/index.js";
+import { sampleLottie } from "../helpers.js";
+
+function usage(hex: string, layer = "Layer", weight = 1): ColorUsage {
+  return {
+    color: hexToRgb(hex)!,
+    kind: "fill",
+    layer,
+    composition: "root",
+    pointer: "/layers/0",
+    weight,
+    animated: false,
+  };
+}
+
+describe("color helpers", () => {
+  it("should convert between hex and 0-1 RGB", () => {
+    expect(rgbToHex([1, 0.5, 0])).toBe("#ff8000");
+    expect(hexToRgb("#f00")).toEqual([1, 0, 0]);
+    expect(hexToRgb("00ff00")).toEqual([0, 1, 0]);
+    expect(hexToRgb("#nothex")).toBeNull();
+  });
+
+  it("should read Lottie color arrays, scaling 0-255 values", () => {
+    expect(readLottieColor([1, 0, 0, 1])).toEqual([1, 0, 0]);
+    expect(readLottieColor([255, 0, 0])).toEqual([1, 0, 0]);
+    expect(readLottieColor([1, 0])).toBeNull();
+    expect(readLottieColor("red")).toBeNull();
+  });
+
+  it("should measure perceptual distance", () => {
+    expect(colorDistance([1, 0, 0], [1, 0, 0])).toBe(0);
+    expect(colorDistance([1, 0, 0], [0.98, 0, 0])).toBeLessThan(3);
+    expect(colorDistance([1, 0, 0], [0, 0, 1])).toBeGreaterThan(100);
+  });
+
+  it("should compute relative luminance", () => {
+    expect(relativeLuminance([0, 0, 0])).toBe(0);
+    expect(relativeLuminance([1, 1, 1])).toBeCloseTo(1);
+  });
+});
+
+describe("collectColors", () => {
+  it("should collect fills, strokes, solids and animated keyframes with pointers", () => {
+    const usages = collectColors(parseLottie(sampleLottie()));
+
+    expect(usages.map((u) => [rgbToHex(u.color), u.kind, u.layer, u.pointer, u.weight, u.animated])).toEqual([
+      ["#0080ff", "stroke", "Check", "/layers/1/shapes/0/it/1/c/k", 1, false],
+      ["#00cc33", "fill", "Check", "/layers/1/shapes/0/it/2/c/k/0/s", 0.5, true],
+      ["#009933", "fill", "Check", "/layers/1/shapes/0/it/2/c/k/1/s", 0.5, true],
+      ["#ffffff", "fill", "Matte", "/assets/0/layers/0/shapes/1/c/k", 1, false],
+      ["#ff0000", "solid", "Background", "/assets/0/layers/1/sc", 1, false],
+    ]);
+  });
+
+  it("should collect gradient stops", () => {
+    const doc = parseLottie({
+      fr: 30, ip: 0, op: 30, w: 10, h: 10,
+      layers: [{
+        ty: 4, nm: "Grad", ip: 0, op: 30,
+        shapes: [{ ty: "gf", g: { p: 2, k: { a: 0, k: [0, 1, 0, 0, 1, 0, 0, 1, 0, 1, 1, 1] } } }],
+      }],
+    });
+
+    const usages = collectColors(doc);
+    expect(usages.map((u) => [rgbToHex(u.color), u.kind, u.pointer, u.weight])).toEqual([
+      ["#ff0000", "gradient-fill", "/layers/0/shapes/0/g/k/k/1", 0.5],
+      ["#0000ff", "gradient-fill", "/layers/0/shapes/0/g/k/k/5", 0.5],
+    ]);
+  });
+
+  it("should skip hidden shapes", () => {
+    const doc = parseLottie({
+      fr: 30, ip: 0, op: 30, w: 10, h: 10,
+      layers: [{ ty: 4, ip: 0, op: 30, shapes: [{ ty: "fl", hd: true, c: { a: 0, k: [1, 0, 0, 1] } }] }],
+    });
+
+    expect(collectColors(doc)).toEqual([]);
+  });
+});
+
+describe("extractPalette", () => {
+  it("should merge near-identical colors and weight by usage", () => {
+    const palette = extractPalette([
+      usage("#ff0000", "A"),
+      usage("#fe0101", "B"),
+      usage("#0000ff", "C"),
+    ]);
+
+    expect(palette).toHaveLength(2);
+    expect(palette[0]).toMatchObject({ hex: "#ff0000", members: ["#ff0000", "#fe0101"], usages: 2, weight: 0.667 });
+    expect(palette[0].layers.map((l) => l.name)).toEqual(["A", "B"]);
+    expect(palette[1]).toMatchObject({ hex: "#0000ff", weight: 0.333 });
+  });
+
+  it("should keep distinct colors with a zero threshold", () => {
+    expect(extractPalette([usage("#ff0000"), usage("#fe0101")], { threshold: 0 })).toHaveLength(2);
+  });
+
+  it("should merge the closest colors to respect maxColors", () => {
+    const palette = extractPalette(
+      [usage("#ff0000"), usage("#dd0000"), usage("#0000ff")],
+      { threshold: 0, maxColors: 2 }
+    );
+
+    expect(palette).toHaveLength(2);
+    expect(palette[0].members.sort()).toEqual(["#dd0000", "#ff0000"]);
+  });
+
+  it("should return an empty palette without colors", () => {
+    expect(extractPalette([])).toEqual([]);
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect } from "vitest";
+import { LottieEditError, createPoster, parseLottie, pickPosterFrame, renderFrame } from "../../src/lottie/index.js";
+import { sampleLottie } from "../helpers.js";
+
+describe("pickPosterFrame", () => {
+  const doc = parseLottie(sampleLottie());
+
+  it("should pick the last frame or a marker", () => {
+    expect(pickPosterFrame(doc, { strategy: "last" })).toEqual({ frame: 59, reason: "last frame" });
+    expect(pickPosterFrame(doc, { strategy: "marker", marker: "Loop" })).toEqual({ frame: 30, reason: 'start of marker "loop"' });
+    expect(pickPosterFrame(doc, { strategy: "last", frame: 12 })).toEqual({ frame: 12, reason: "requested frame" });
+  });
+
+  it("should pick the frame with the most visible content", () => {
+    const raw = sampleLottie();
+    // Grow the Check rectangle until frame 40, then shrink it quickly
+    raw.layers[1].shapes![0].it![0].s = {
+      a: 1,
+      k: [
+        { t: 0, s: [10, 10], i: { x: [1], y: [1] }, o: { x: [0], y: [0] } },
+        { t: 40, s: [80, 60], i: { x: [1], y: [1] }, o: { x: [0], y: [0] } },
+        { t: 44, s: [10, 10] },
+      ],
+    };
+
+    const picked = pickPosterFrame(parseLottie(raw));
+    expect(picked.frame).toBe(40);
+    expect(picked.reason).toMatch(/^most visible content \(\d+% of the canvas\)$/);
+  });
+
+  it("should reject unknown markers and frames outside the timeline", () => {
+    expect(() => pickPosterFrame(doc, { strategy: "marker", marker: "outro" })).toThrow(
+      'No marker named "outro" (available: "intro", "loop")'
+    );
+    expect(() => pickPosterFrame(doc, { frame: 60 })).toThrow(LottieEditError);
+  });
+});
+
+describe("createPoster", () => {
+  it("should cut the animation down to the chosen frame", () => {
+    const doc = parseLottie(sampleLottie());
+    const poster = createPoster(doc, { strategy: "marker", marker: "loop" });
+
+    expect(poster).toMatchObject({ frame: 30, seconds: 1, width: 200, height: 100 });
+    expect(poster.document).toMatchObject({ ip: 0, op: 1 });
+    expect(poster.document.markers).toBeUndefined();
+    expect(poster.document.layers.map((layer) => layer.st)).toEqual([-30, -30, -30, -30]);
+
+    // The single frame looks the same as the original frame
+    expect(renderFrame(poster.document, 0).svg).toBe(renderFrame(doc, 30).svg);
+    expect(poster.svg).toBe(renderFrame(doc, 30).svg);
+    expect(poster.warnings).toContain("Expressions are not evaluated; properties show their keyframed values");
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, it, expect } from "vitest";
+import {
+  QuerySyntaxError,
+  fetchQuery,
+  parseQuery,
+} from "../../src/lottiefiles/index.js";
+import { sampleAnimation, samplePage } from "../helpers.js";
+
+describe("parseQuery", () => {
+  it("should pass plain terms through as a single group", () => {
+    expect(parseQuery("loading spinner")).toEqual({
+      groups: [{ query: "loading spinner", phrases: [] }],
+      filters: {},
+    });
+  });
+
+  it("should parse phrases, exclusions and qualifiers", () => {
+    const parsed = parseQuery('"loading spinner" -3d -"line art" creator:foo -creator:bar downloads:>1000 likes:<=50');
+
+    expect(parsed.groups).toEqual([{ query: "loading spinner", phrases: ["loading spinner"] }]);
+    expect(parsed.filters).toEqual({
+      excludeTerms: ["3d", "line art"],
+      includeCreators: ["foo"],
+      excludeCreators: ["bar"],
+      minDownloads: 1001,
+      maxLikes: 50,
+    });
+  });
+
+  it("should split OR alternatives into groups", () => {
+    const parsed = parseQuery('"success check" OR done OR tick mark');
+
+    expect(parsed.groups).toEqual([
+      { query: "success check", phrases: ["success check"] },
+      { query: "done", phrases: [] },
+      { query: "tick mark", phrases: [] },
+    ]);
+  });
+
+  it("should support k/m suffixes and date comparisons", () => {
+    expect(parseQuery("a downloads:>=1.5k").filters.minDownloads).toBe(1500);
+    expect(parseQuery("a downloads:2m").filters).toEqual({ minDownloads: 2_000_000, maxDownloads: 2_000_000 });
+    expect(parseQuery("a created:>2024-01-01 created:<2024-06-30").filters).toEqual({
+      createdAfter: "2024-01-01",
+      createdBefore: "2024-06-30T23:59:59.999Z",
+    });
+  });
+
+  it("should treat a lowercase or as a search term", () => {
+    expect(parseQuery("this or that").groups).toEqual([{ query: "this or that", phrases: [] }]);
+  });
+
+  it("should keep words with other colons as search terms", () => {
+    expect(parseQuery("16:9 size:large -ratio:4:3 Creator:alice")).toEqual({
+      groups: [{ query: "16:9 size:large", phrases: [] }],
+      filters: { excludeTerms: ["ratio:4:3"], includeCreators: ["alice"] },
+    });
+  });
+
+  it.each([
+    ['"unterminated', "Unterminated quote"],
+    ["OR loader", "OR needs search terms on both sides"],
+    ["loader OR", "OR needs search terms on both sides"],
+    ["loader OR OR spinner", "OR needs search terms on both sides"],
+    ["a downloads:lots", "Expected a number"],
+    ["a created:>yesterday", "Expected a date"],
+    ["a -downloads:>5", "cannot be negated"],
+    ["a creator:", "Missing value"],
+    ['a ""', "Empty phrase"],
+  ])("should reject %s", (input, message) => {
+    expect(() => parseQuery(input)).toThrow(QuerySyntaxError);
+    expect(() => parseQuery(input)).toThrow(message);
+  });
+
+  it("should report the error position", () => {
+    try {
+      parseQuery('ok "broken');
+      expect.unreachable();
+    } catch (error) {
+      expect((error as QuerySyntaxError).position).toBe(3);
+      expect((error as Error).message).toContain("at position 4");
+    }
+  });
+});
+
+describe("fetchQuery", () => {
+  it("should require phrases and drop excluded terms", async () => {
+    const result = await fetchQuery(
+      async () => samplePage([
+        sampleAnimation("1", { name: "Loading spinner" }),
+        sampleAnimation("2", { name: "Spinner loading" }),
+        sampleAnimation("3", { name: "Loading spinner 3D" }),
+      ]),
+      parseQuery('"loading spinner" -3d'),
+      { limit: 10, filters: {}, sort: "relevance", maxPages: 1 }
+    );
+
+    expect(result.animations.map((a) => a.id)).toEqual(["1"]);
+    expect(result.dropped.map((a) => a.id)).toEqual(["2", "3"]);
+  });
+
+  it("should run OR groups separately with the prefix and merge without duplicates", async () => {
+    const queries: string[] = [];
+    const result = await fetchQuery(
+      async (query) => {
+        queries.push(query);
+        return query.endsWith("check")
+          ? samplePage([sampleAnimation("1", { name: "Check" }), sampleAnimation("2", { name: "Check done" })])
+          : samplePage([sampleAnimation("2", { name: "Check done" }), sampleAnimation("3", { name: "Done" })]);
+      },
+      parseQuery("check OR done"),
+      { limit: 10, filters: {}, sort: "relevance", maxPages: 1, prefix: "minimal" }
+    );
+
+    expect(queries).toEqual(["minimal check", "minimal done"]);
+    expect(result.animations.map((a) => a.id)).toEqual(["1", "2", "3"]);
+    expect(result.lastPage.hasNextPage).toBe(false);
+    expect(result.lastPage.nextCursor).toBeNull();
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect } from "vitest";
+import {
+  LottieFormatError,
+  collectColors,
+  colorMapMapper,
+  nearestPaletteMapper,
+  parseLottie,
+  recolorLottie,
+  rgbToHex,
+} from "../../src/lottie/index.js";
+import { sampleLottie } from "../helpers.js";
+
+describe("recolorLottie", () => {
+  it("should rewrite mapped colors and leave the input untouched", () => {
+    const doc = parseLottie(sampleLottie());
+    const { document, changes } = recolorLottie(doc, colorMapMapper({ "#ff0000": "#6c5ce7", "#0080ff": "#000" }));
+
+    expect(changes.map((c) => [c.from, c.to, c.kind, c.pointer])).toEqual([
+      ["#0080ff", "#000000", "stroke", "/layers/1/shapes/0/it/1/c/k"],
+      ["#ff0000", "#6c5ce7", "solid", "/assets/0/layers/1/sc"],
+    ]);
+    expect(document.assets?.[0].layers?.[1].sc).toBe("#6c5ce7");
+    // Alpha is preserved
+    expect(document.layers[1].shapes?.[0].it?.[1].c).toEqual({ a: 0, k: [0, 0, 0, 1] });
+    expect(doc.assets?.[0].layers?.[1].sc).toBe("#ff0000");
+  });
+
+  it("should rewrite keyframed colors", () => {
+    const { document } = recolorLottie(parseLottie(sampleLottie()), colorMapMapper({ "#00cc33": "#ffffff" }));
+    const fill = document.layers[1].shapes?.[0].it?.[2].c as { k: Array<{ s: number[] }> };
+
+    expect(fill.k[0].s).toEqual([1, 1, 1, 1]);
+    expect(rgbToHex(fill.k[1].s as [number, number, number])).toBe("#009933");
+  });
+
+  it("should match nearby colors within the tolerance", () => {
+    const doc = parseLottie(sampleLottie());
+
+    expect(recolorLottie(doc, colorMapMapper({ "#fe0101": "#000000" })).changes).toHaveLength(0);
+    expect(recolorLottie(doc, colorMapMapper({ "#fe0101": "#000000" }, 2)).changes).toHaveLength(1);
+  });
+
+  it("should rewrite gradient stops and keep opacity stops", () => {
+    const doc = parseLottie({
+      fr: 30, ip: 0, op: 30, w: 10, h: 10,
+      layers: [{
+        ty: 4, ip: 0, op: 30,
+        shapes: [{ ty: "gf", g: { p: 2, k: { a: 0, k: [0, 1, 0, 0, 1, 0, 0, 1, 0, 1, 1, 1] } } }],
+      }],
+    });
+
+    const { document } = recolorLottie(doc, colorMapMapper({ "#0000ff": "#00ff00" }));
+    const gradient = document.layers[0].shapes?.[0].g as { k: { k: number[] } };
+    expect(gradient.k.k).toEqual([0, 1, 0, 0, 1, 0, 1, 0, 0, 1, 1, 1]);
+  });
+
+  it("should snap every color to the nearest palette color", () => {
+    const doc = parseLottie(sampleLottie());
+    const { document } = recolorLottie(doc, nearestPaletteMapper(["#111111", "#eeeeee", "#dd2222", "#2266dd", "#22aa44"]));
+
+    expect(collectColors(document).map((u) => rgbToHex(u.color))).toEqual([
+      "#2266dd",
+      "#22aa44",
+      "#22aa44",
+      "#eeeeee",
+      "#dd2222",
+    ]);
+  });
+
+  it("should reject invalid colors", () => {
+    expect(() => colorMapMapper({ red: "#000" })).toThrow(LottieFormatError);
+    expect(() => nearestPaletteMapper(["#12"])).toThrow('Invalid palette color "#12"');
+    expect(() => nearestPaletteMapper([])).toThrow("at least one color");
+  });
+});
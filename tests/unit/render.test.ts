@@ -0,0 +1,123 @@
+import { describe, it, expect } from "vitest";
+import {
+  IDENTITY,
+  parseLottie,
+  pathData,
+  renderFrame,
+  shapePath,
+  trimPaths,
+  walkShapeGroup,
+} from "../../src/lottie/index.js";
+import { sampleLottie } from "../helpers.js";
+
+/**
+ * A shape layer document with the given shape items.
+ */
+function shapeDoc(shapes: unknown[]) {
+  return parseLottie({
+    v: "5.7.4",
+    fr: 30,
+    ip: 0,
+    op: 60,
+    w: 100,
+    h: 100,
+    layers: [{ ty: 4, nm: "Shape", ind: 1, ip: 0, op: 60, st: 0, ks: {}, shapes }],
+  });
+}
+
+describe("paths", () => {
+  it("should build rectangles and format them as path data", () => {
+    const path = shapePath({ ty: "rc", p: { a: 0, k: [10, 10] }, s: { a: 0, k: [20, 10] }, r: { a: 0, k: 0 } }, 0);
+
+    expect(pathData([path!])).toBe("M20,5L20,15L0,15L0,5L20,5Z");
+  });
+
+  it("should trim paths by length, wrapping around closed paths", () => {
+    const square = shapePath({ ty: "rc", p: { a: 0, k: [5, 5] }, s: { a: 0, k: [10, 10] } }, 0)!;
+
+    expect(pathData(trimPaths([square], 0, 50, 0))).toBe("M10,0L10,10L0,10");
+    expect(pathData(trimPaths([square], 0, 25, 270))).toBe("M0,0L10,0");
+    expect(trimPaths([square], 30, 30, 0)).toEqual([]);
+  });
+
+  it("should walk shape groups, applying styles to the geometry before them", () => {
+    const rect = { ty: "rc", p: { a: 0, k: [5, 5] }, s: { a: 0, k: [10, 10] } };
+    const { drawn } = walkShapeGroup(
+      [
+        { ty: "gr", it: [rect, { ty: "fl", nm: "inner" }, { ty: "tr", p: { a: 0, k: [100, 0] }, o: { a: 0, k: 50 } }] },
+        { ty: "st", nm: "outer" },
+        { ty: "fl", nm: "hidden", hd: true },
+      ],
+      0,
+      IDENTITY,
+      1,
+      { style: (shape, paths, _matrix, opacity) => `${shape.nm} ${opacity} ${pathData(paths)}` }
+    );
+
+    expect(drawn).toEqual(["outer 1 M110,0L110,10L100,10L100,0L110,0Z", "inner 0.5 M110,0L110,10L100,10L100,0L110,0Z"]);
+  });
+});
+
+describe("renderFrame", () => {
+  it("should render layers in paint order with transforms, mattes, masks and precomp clips", () => {
+    const { svg, width, height, warnings } = renderFrame(parseLottie(sampleLottie()), 30);
+
+    expect([width, height]).toEqual([200, 100]);
+    expect(svg).toMatch(/^<svg xmlns="http:\/\/www.w3.org\/2000\/svg" viewBox="0 0 200 100"/);
+    // The last layer (the image) is drawn first, the controller-parented check last
+    expect(svg.indexOf("<image")).toBeLessThan(svg.indexOf('fill="#ff0000"'));
+    expect(svg).toContain('<g transform="matrix(1 0 0 1 120 50)">');
+    expect(svg).toContain('stroke="#0080ff"');
+    expect(svg).toContain('<mask id="matte_2" mask-type="alpha"');
+    expect(svg).toContain('<g mask="url(#mask_1)"><rect width="100" height="100" fill="#ff0000"/></g>');
+    expect(svg).toContain('<clipPath id="clip_3"><rect width="100" height="100"/></clipPath>');
+    expect(warnings).toEqual(["Expressions are not evaluated; properties show their keyframed values"]);
+  });
+
+  it("should skip layers outside their in/out range", () => {
+    expect(renderFrame(parseLottie(sampleLottie()), 10).svg).not.toContain("<image");
+  });
+
+  it("should render gradients in the group's coordinates", () => {
+    const { svg } = renderFrame(shapeDoc([
+      { ty: "el", p: { a: 0, k: [50, 50] }, s: { a: 0, k: [80, 80] } },
+      {
+        ty: "gf",
+        t: 1,
+        o: { a: 0, k: 100 },
+        s: { a: 0, k: [0, 0] },
+        e: { a: 0, k: [100, 0] },
+        g: { p: 2, k: { a: 0, k: [0, 1, 0, 0, 1, 0, 0, 1, 0, 1, 1, 0.5] } },
+      },
+    ]), 0);
+
+    expect(svg).toContain('<linearGradient id="gradient_1" gradientUnits="userSpaceOnUse" x1="0" y1="0" x2="100" y2="0">');
+    expect(svg).toContain('<stop offset="0" stop-color="#ff0000"/><stop offset="1" stop-color="#0000ff" stop-opacity="0.5"/>');
+    expect(svg).toContain('fill="url(#gradient_1)"');
+  });
+
+  it("should apply group opacity and report unsupported modifiers", () => {
+    const { svg, warnings } = renderFrame(shapeDoc([
+      {
+        ty: "gr",
+        it: [
+          { ty: "rc", p: { a: 0, k: [50, 50] }, s: { a: 0, k: [20, 20] } },
+          { ty: "fl", c: { a: 0, k: [1, 1, 1, 1] }, o: { a: 0, k: 100 } },
+          { ty: "rd", r: { a: 0, k: 5 } },
+          { ty: "tr", o: { a: 0, k: 50 } },
+        ],
+      },
+    ]), 0);
+
+    expect(svg).toContain('fill="#ffffff" fill-opacity="0.5"');
+    expect(warnings).toEqual(["Round corners modifiers are not rendered"]);
+  });
+
+  it("should scale the output and add a background", () => {
+    const { svg, width, height } = renderFrame(parseLottie(sampleLottie()), 0, { width: 100, background: "#ffffff" });
+
+    expect([width, height]).toEqual([100, 50]);
+    expect(svg).toContain('width="100" height="50"><defs>');
+    expect(svg).toContain('<rect width="200" height="100" fill="#ffffff"/>');
+  });
+});
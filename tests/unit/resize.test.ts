@@ -0,0 +1,132 @@
+import { describe, it, expect } from "vitest";
+import {
+  LottieEditError,
+  applyMatrix,
+  contentBounds,
+  cubicBezierEase,
+  layerMatrix,
+  parseLottie,
+  propertyValue,
+  resizeLottie,
+  transformMatrix,
+} from "../../src/lottie/index.js";
+import { sampleLottie } from "../helpers.js";
+
+/**
+ * The sample with only the parented "Check" shape layer (and its null parent) left.
+ */
+function checkOnly() {
+  const raw = sampleLottie();
+  raw.layers = raw.layers.slice(0, 2);
+  return parseLottie(raw);
+}
+
+describe("property evaluation", () => {
+  it("should interpolate keyframes with easing and hold the ends", () => {
+    const position = sampleLottie().layers[0].ks!.p;
+
+    expect(propertyValue(position, -5)).toEqual([100, 50]);
+    const [x, y] = propertyValue(position, 15) as number[];
+    expect(x).toBeCloseTo(110, 3);
+    expect(y).toBe(50);
+    expect(propertyValue(position, 45)).toEqual([120, 50]);
+    expect(cubicBezierEase(0.5, 0, 0.5, 1, 0.25)).toBeLessThan(0.25);
+  });
+
+  it("should combine a layer's transform with its parents", () => {
+    const doc = checkOnly();
+    doc.layers[1].ks = { p: { a: 0, k: [10, 0] }, s: { a: 0, k: [200, 200] } };
+
+    expect(applyMatrix(transformMatrix(doc.layers[1].ks, 0), 5, 5)).toEqual([20, 10]);
+    expect(applyMatrix(layerMatrix(doc.layers[1], doc.layers, 30), 5, 5)).toEqual([140, 60]);
+  });
+});
+
+describe("contentBounds", () => {
+  it("should cover shapes and their strokes across the timeline", () => {
+    const { bounds, warnings } = contentBounds(checkOnly());
+
+    // 40×20 rect with a 4px stroke, moving from x=100 to x=120
+    expect(bounds).toEqual({ x: 78, y: 38, width: 64, height: 24 });
+    expect(warnings).toEqual([]);
+  });
+
+  it("should include precomps and images, clipped to the canvas", () => {
+    const { bounds } = contentBounds(parseLottie(sampleLottie()));
+
+    expect(bounds).toEqual({ x: 0, y: 0, width: 142, height: 100 });
+  });
+
+  it("should return null when nothing is visible", () => {
+    const doc = checkOnly();
+    doc.layers[1].hd = true;
+
+    expect(contentBounds(doc).bounds).toBeNull();
+  });
+
+  it("should ignore geometry that no fill or stroke paints", () => {
+    const raw = sampleLottie();
+    raw.layers = raw.layers.slice(0, 2);
+    raw.layers[1].shapes!.unshift({ ty: "gr", it: [{ ty: "el", p: { a: 0, k: [-60, 0] }, s: { a: 0, k: [10, 10] } }] });
+
+    expect(contentBounds(parseLottie(raw)).bounds).toEqual({ x: 78, y: 38, width: 64, height: 24 });
+  });
+});
+
+describe("resizeLottie", () => {
+  it("should fit the canvas inside a new size and center it", () => {
+    const doc = parseLottie(sampleLottie());
+    const { document, scale, offset } = resizeLottie(doc, { width: 100, height: 100 });
+
+    expect([document.w, document.h]).toEqual([100, 100]);
+    expect(scale).toBe(0.5);
+    expect(offset).toEqual([0, 25]);
+    expect(document.layers).toHaveLength(1);
+    expect(document.layers[0]).toMatchObject({
+      ty: 0,
+      refId: "original_canvas",
+      w: 200,
+      h: 100,
+      ip: 0,
+      op: 60,
+      ks: { p: { k: [0, 25, 0] }, a: { k: [0, 0, 0] }, s: { k: [50, 50, 100] } },
+    });
+    expect(document.assets?.find((a) => a.id === "original_canvas")?.layers).toEqual(doc.layers);
+    expect(document.markers).toEqual(doc.markers);
+  });
+
+  it("should cover the canvas in fill mode and keep the scale in crop mode", () => {
+    const doc = parseLottie(sampleLottie());
+
+    const fill = resizeLottie(doc, { width: 100, height: 100, mode: "fill", align: "left" });
+    expect(fill.scale).toBe(1);
+    expect(fill.offset).toEqual([0, 0]);
+
+    const crop = resizeLottie(doc, { width: 100, height: 200, mode: "crop", align: "bottom-right" });
+    expect(crop.scale).toBe(1);
+    expect(crop.offset).toEqual([-100, 100]);
+  });
+
+  it("should crop to a region and derive the missing dimension from its aspect ratio", () => {
+    const doc = checkOnly();
+    const region = contentBounds(doc).bounds!;
+    const { document, scale } = resizeLottie(doc, { width: 128, region });
+
+    expect([document.w, document.h]).toEqual([128, 48]);
+    expect(scale).toBe(2);
+    expect(document.layers[0].ks).toMatchObject({ p: { k: [0, 0, 0] }, a: { k: [78, 38, 0] } });
+  });
+
+  it("should pick an unused asset ID", () => {
+    const raw = sampleLottie();
+    raw.assets!.push({ id: "original_canvas", layers: [] });
+
+    expect(resizeLottie(parseLottie(raw), { width: 10 }).document.layers[0].refId).toBe("original_canvas_2");
+  });
+
+  it("should reject empty regions", () => {
+    const doc = parseLottie(sampleLottie());
+
+    expect(() => resizeLottie(doc, { region: { x: 0, y: 0, width: 0, height: 10 } })).toThrow(LottieEditError);
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect } from "vitest";
+import {
+  FRAMEWORKS,
+  IntegrationError,
+  IntegrationTarget,
+  componentNameFor,
+  generateIntegration,
+} from "../../src/integration/index.js";
+
+const remote: IntegrationTarget = {
+  name: "Success Check",
+  source: {
+    kind: "remote",
+    jsonUrl: "https://assets.lottiefiles.com/success.json",
+    dotLottieUrl: "https://lottie.host/success.lottie",
+  },
+};
+
+const code = (framework: (typeof FRAMEWORKS)[number], target: IntegrationTarget, options = {}) =>
+  generateIntegration(framework, target, options).files.map((file) => file.code).join("\n");
+
+describe("componentNameFor", () => {
+  it("should derive a PascalCase component name", () => {
+    expect(componentNameFor("success check")).toBe("SuccessCheckAnimation");
+    expect(componentNameFor("LOADING spinner-animation")).toBe("LoadingSpinnerAnimation");
+    expect(componentNameFor("3d rocket")).toBe("Lottie3dRocketAnimation");
+    expect(componentNameFor("!!!")).toBe("LottieAnimation");
+  });
+});
+
+describe("generateIntegration", () => {
+  it("should keep the lottie-player snippet for default HTML playback", () => {
+    expect(code("html", remote)).toBe(
+      '<script src="https://unpkg.com/@lottiefiles/lottie-player@latest/dist/lottie-player.js"></script>\n' +
+        '<lottie-player src="https://assets.lottiefiles.com/success.json" background="transparent" speed="1" loop autoplay></lottie-player>'
+    );
+  });
+
+  it("should load dotLottie only in players that support it", () => {
+    for (const framework of FRAMEWORKS) {
+      const integration = generateIntegration(framework, remote);
+      const expected = ["html", "react", "angular", "flutter"].includes(framework) ? "success.json" : "success.lottie";
+      expect(integration.files[0].code, framework).toContain(expected);
+      expect(integration.files[0].path, framework).toMatch(/success[-_]?check[-_]?animation/i);
+    }
+
+    expect(() => generateIntegration("react", { name: "a", source: { kind: "file", path: "public/a.lottie" } })).toThrow(
+      IntegrationError
+    );
+    expect(() =>
+      generateIntegration("flutter", { name: "a", source: { kind: "remote", jsonUrl: null, dotLottieUrl: "https://lottie.host/a.lottie" } })
+    ).toThrow("only available as dotLottie");
+  });
+
+  it("should apply loop, autoplay, speed, segment and hover options", () => {
+    const options = { loop: false, speed: 1.5, segment: { start: 10, end: 40 }, hover: true };
+
+    const react = code("react", remote, options);
+    expect(react).toContain("loop={false}");
+    expect(react).toContain("autoplay={false}");
+    expect(react).toContain("initialSegment={[10, 40]}");
+    expect(react).toContain("lottieRef.current?.setSpeed(1.5)");
+    expect(react).toContain("onMouseEnter={() => lottieRef.current?.play()}");
+
+    const vue = code("vue", remote, options);
+    expect(vue).toContain(':segment="[10, 40]"');
+    expect(vue).toContain('@mouseenter="play"');
+    expect(vue).not.toMatch(/^\s+(loop|autoplay)$/m);
+
+    const native = code("react-native", remote, options);
+    expect(native).toContain("onPressIn={() => animationRef.current?.play(10, 40)}");
+    expect(native).not.toContain("autoPlay");
+    expect(native).toContain("loop={false}");
+    expect(code("react-native", remote, { loop: false })).toMatch(/^\s+autoPlay\n\s+loop=\{false\}$/m);
+
+    const swift = code("swiftui", remote, options);
+    expect(swift).toContain("isHovering ? .playing(.fromFrame(10, toFrame: 40, loopMode: .playOnce)) : .paused(at: .currentFrame)");
+    expect(swift).toContain(".animationSpeed(1.5)");
+
+    const kotlin = code("compose", remote, options);
+    expect(kotlin).toContain("isPlaying = isHovered,");
+    expect(kotlin).toContain("speed = 1.5f,");
+    expect(kotlin).toContain("clipSpec = LottieClipSpec.Frame(min = 10, max = 40),");
+    expect(kotlin).not.toContain("IterateForever");
+
+    expect(code("flutter", remote, { segment: { start: 10, end: 40 } })).toContain(
+      "_controller.repeat(min: _start, max: _end, period: _controller.duration! * (_end - _start));"
+    );
+    expect(() => generateIntegration("react", remote, { segment: { start: 40, end: 10 } })).toThrow(IntegrationError);
+  });
+
+  it("should reference project files the way each platform bundles them", () => {
+    const file = (path: string): IntegrationTarget => ({ name: "check", source: { kind: "file", path }, width: 200, height: 100 });
+
+    expect(code("react-dotlottie", file("public/anim/check.lottie"))).toContain('src="/anim/check.lottie"');
+    expect(code("angular", file("src/assets/check.json"))).toContain('path: "/assets/check.json",');
+    expect(code("react", file("src/check.json"))).toContain('import animationData from "./src/check.json";');
+    expect(code("react-native", file("assets/check.json"))).toContain('source={require("./assets/check.json")}');
+    expect(code("react-native", file("assets/check.json"))).toContain("aspectRatio: 2");
+    expect(code("swiftui", file("Resources/check.json"))).toContain('LottieView(animation: .named("check"))');
+    expect(code("compose", file("app/src/main/assets/lottie/check.json"))).toContain('LottieCompositionSpec.Asset("lottie/check.json")');
+
+    const svelte = generateIntegration("svelte", file("lib/check.json"));
+    expect(svelte.files[0].code).toContain('src="/check.json"');
+    expect(svelte.notes).toContain("Serve lib/check.json at /check.json (e.g. from your public or static folder), or change the URL in the code");
+
+    const flutter = generateIntegration("flutter", file("assets/check.json"));
+    expect(flutter.files[0].code).toContain("Lottie.asset(\n      'assets/check.json',");
+    expect(flutter.notes).toContain("List assets/check.json under flutter: assets: in pubspec.yaml");
+  });
+});
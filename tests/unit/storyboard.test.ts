@@ -0,0 +1,45 @@
+import { describe, it, expect } from "vitest";
+import { LottieEditError, evenFrames, markerFrames, parseLottie, renderStoryboard } from "../../src/lottie/index.js";
+import { sampleLottie } from "../helpers.js";
+
+describe("storyboard frames", () => {
+  it("should spread frames from the first to the last frame", () => {
+    const doc = parseLottie(sampleLottie());
+
+    expect(evenFrames(doc, 4).map((f) => f.frame)).toEqual([0, 20, 39, 59]);
+  });
+
+  it("should use marker starts labelled with their names", () => {
+    expect(markerFrames(parseLottie(sampleLottie()))).toEqual([
+      { frame: 0, label: "intro" },
+      { frame: 30, label: "loop" },
+    ]);
+
+    const raw = sampleLottie();
+    delete raw.markers;
+    expect(() => markerFrames(parseLottie(raw))).toThrow(LottieEditError);
+  });
+});
+
+describe("renderStoryboard", () => {
+  it("should lay out captioned frames in a grid with unique IDs", () => {
+    const doc = parseLottie(sampleLottie());
+    const storyboard = renderStoryboard(doc, evenFrames(doc, 5), { cellWidth: 100 });
+
+    expect([storyboard.columns, storyboard.rows]).toEqual([3, 2]);
+    // 3 columns of 100px and 2 rows of 50px frames plus captions, with gaps
+    expect([storyboard.width, storyboard.height]).toEqual([364, 188]);
+    expect(storyboard.svg).toContain('<g transform="translate(132 102)">');
+    expect(storyboard.svg).toContain("Frame 30 · 1.00s");
+    expect(storyboard.svg).toContain('id="f1_mask_1"');
+    expect(storyboard.svg).toContain('id="f5_mask_1"');
+  });
+
+  it("should caption marker frames with their names", () => {
+    const doc = parseLottie(sampleLottie());
+    const storyboard = renderStoryboard(doc, markerFrames(doc), { columns: 1 });
+
+    expect([storyboard.columns, storyboard.rows]).toEqual([1, 2]);
+    expect(storyboard.svg).toContain("Frame 30 · 1.00s · loop");
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect } from "vitest";
+import { LottieEditError, editTiming, listSegments, parseLottie } from "../../src/lottie/index.js";
+import { sampleLottie } from "../helpers.js";
+
+describe("editTiming", () => {
+  it("should trim to a range and shift it to the start", () => {
+    const { document } = editTiming(parseLottie(sampleLottie()), { trim: { start: 30, end: 60 } });
+
+    expect([document.ip, document.op]).toEqual([0, 30]);
+    expect(document.layers.map((l) => [l.nm, l.ip, l.op, l.st])).toEqual([
+      ["Controller", 0, 30, -30],
+      ["Check", 0, 30, -30],
+      ["Badge", 0, 30, -30],
+      ["Logo", 0, 30, -30],
+    ]);
+    // Keyframes stay in layer time
+    expect(document.layers[0].ks?.p?.k).toEqual(sampleLottie().layers[0].ks!.p!.k);
+    expect(listSegments(document)).toEqual([{ name: "loop", start: 0, end: 30 }]);
+  });
+
+  it("should drop layers outside the trim range unless other layers depend on them", () => {
+    const raw = sampleLottie();
+    raw.layers[0].op = 10; // Controller, parent of Check
+    raw.layers.push({ ty: 4, nm: "Intro Only", ind: 5, ip: 0, op: 10, st: 0, ks: {}, shapes: [] });
+
+    const { document } = editTiming(parseLottie(raw), { trim: { start: 20, end: 40 } });
+
+    expect(document.layers.map((l) => l.nm)).toEqual(["Controller", "Check", "Badge", "Logo"]);
+    expect([document.layers[0].ip, document.layers[0].op]).toEqual([0, 0]);
+  });
+
+  it("should reject empty or out-of-range trims", () => {
+    const doc = parseLottie(sampleLottie());
+
+    expect(() => editTiming(doc, { trim: { start: 30, end: 30 } })).toThrow(LottieEditError);
+    expect(() => editTiming(doc, { trim: { start: 0, end: 90 } })).toThrow("outside the timeline");
+  });
+
+  it("should retime keyframes, layers, precomps and markers for a speed change", () => {
+    const { document } = editTiming(parseLottie(sampleLottie()), { speed: 2 });
+
+    expect([document.ip, document.op, document.fr]).toEqual([0, 30, 30]);
+    expect((document.layers[0].ks?.p?.k as Array<{ t: number }>).map((kf) => kf.t)).toEqual([0, 15]);
+    expect(document.layers[3].ip).toBe(15);
+    expect(document.assets?.[0].layers?.[0].op).toBe(30);
+    expect(listSegments(document)).toEqual([
+      { name: "intro", start: 0, end: 15 },
+      { name: "loop", start: 15, end: 30 },
+    ]);
+  });
+
+  it("should reverse keyframes with mirrored easing and remap precomps", () => {
+    const { document } = editTiming(parseLottie(sampleLottie()), { reverse: true });
+
+    expect(document.layers[0].ks?.p?.k).toEqual([
+      { t: 30, s: [120, 50], o: { x: [0.5], y: [0] }, i: { x: [0.5], y: [1] } },
+      { t: 60, s: [100, 50] },
+    ]);
+    expect([document.layers[3].ip, document.layers[3].op]).toEqual([0, 30]);
+    expect(document.layers[2].tm).toMatchObject({ a: 1, k: [{ t: 0, s: [2] }, { t: 60, s: [0] }] });
+    expect(listSegments(document).map((s) => [s.name, s.start])).toEqual([["loop", 0], ["intro", 30]]);
+  });
+
+  it("should reverse hold keyframes so each value keeps its span", () => {
+    const raw = sampleLottie();
+    raw.layers[1].ks!.o = { a: 1, k: [{ t: 0, s: [0], h: 1 }, { t: 10, s: [50], h: 1 }, { t: 20, s: [100] }] };
+
+    const { document } = editTiming(parseLottie(raw), { reverse: true });
+
+    expect(document.layers[1].ks?.o?.k).toEqual([
+      { t: 39, s: [100], h: 1 },
+      { t: 40, s: [50], h: 1 },
+      { t: 50, s: [0], h: 1 },
+      { t: 60, s: [0] },
+    ]);
+  });
+
+  it("should add markers, replacing ones with the same name", () => {
+    const { document } = editTiming(parseLottie(sampleLottie()), {
+      markers: [{ name: "loop", start: 40, end: 60 }, { name: "check", start: 10, end: 20 }],
+    });
+
+    expect(listSegments(document)).toEqual([
+      { name: "intro", start: 0, end: 30 },
+      { name: "check", start: 10, end: 20 },
+      { name: "loop", start: 40, end: 60 },
+    ]);
+    expect(() => editTiming(document, { markers: [{ name: "late", start: 50, end: 70 }] })).toThrow("outside the timeline");
+  });
+
+  it("should warn about expressions and leave the input untouched", () => {
+    const doc = parseLottie(sampleLottie());
+    const before = JSON.stringify(doc);
+
+    const { warnings } = editTiming(doc, { speed: 0.5, reverse: true });
+
+    expect(warnings).toEqual([expect.stringContaining("expressions")]);
+    expect(JSON.stringify(doc)).toBe(before);
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, it, expect } from "vitest";
+import { LottieKeyframe, LottieProperty, validateLottie } from "../../src/lottie/index.js";
+import { sampleLottie } from "../helpers.js";
+
+/**
+ * The sample with easing added to its fill color keyframes, so it has no problems.
+ */
+function validSample() {
+  const raw = sampleLottie();
+  const [first] = (raw.layers[1].shapes![0].it![2].c as LottieProperty).k as LottieKeyframe[];
+  first.i = { x: [1], y: [1] };
+  first.o = { x: [0], y: [0] };
+  return raw;
+}
+
+/**
+ * Returns "severity pointer" strings for compact assertions.
+ */
+function problems(value: unknown): string[] {
+  return validateLottie(value).diagnostics.map((d) => `${d.severity} ${d.pointer}`);
+}
+
+describe("validateLottie", () => {
+  it("should accept a well-formed document", () => {
+    expect(validateLottie(validSample())).toEqual({ valid: true, errors: 0, warnings: 0, diagnostics: [] });
+  });
+
+  it("should report keyframes without easing handles", () => {
+    const report = validateLottie(sampleLottie());
+
+    expect(report.valid).toBe(false);
+    expect(report.diagnostics).toEqual([
+      {
+        severity: "error",
+        pointer: "/layers/1/shapes/0/it/2/c/k/0",
+        message: expect.stringContaining('missing easing handles "i" and "o"'),
+      },
+    ]);
+  });
+
+  it("should report missing root fields", () => {
+    expect(problems({ v: "5.7.4", fr: 0, ip: 0, w: "100", layers: [] })).toEqual([
+      "error /op",
+      "error /w",
+      "error /h",
+      "error /fr",
+      "warning /layers",
+    ]);
+    expect(problems([])).toEqual(["error "]);
+  });
+
+  it("should report broken layer references", () => {
+    const raw = validSample();
+    raw.layers[1].parent = 9;
+    raw.layers[2].refId = "missing";
+    raw.layers[3].refId = "comp_0";
+    raw.assets![0].layers![1].tt = 1;
+    delete raw.assets![0].layers![0].td;
+
+    expect(problems(raw)).toEqual([
+      "error /assets/0/layers/1/tt",
+      "error /layers/1/parent",
+      "error /layers/2/refId",
+      "error /layers/3/refId",
+    ]);
+  });
+
+  it("should report parenting and precomp cycles", () => {
+    const raw = validSample();
+    raw.layers[0].parent = 2;
+    raw.assets![0].layers!.push({ ty: 0, nm: "Loop", ind: 3, refId: "comp_0", w: 100, h: 100, ip: 0, op: 60, st: 0, ks: {} });
+
+    const report = validateLottie(raw);
+    expect(report.diagnostics.map((d) => d.pointer)).toEqual([
+      "/assets/0/layers/2/refId",
+      "/layers/0/parent",
+      "/layers/1/parent",
+    ]);
+    expect(report.diagnostics[0].message).toContain('Precomp "comp_0" contains "comp_0"');
+  });
+
+  it("should report malformed keyframes and properties", () => {
+    const raw = validSample();
+    (raw.layers[0].ks!.p!.k as LottieKeyframe[])[1].t = -5;
+    raw.layers[0].ks!.r = { a: 1, k: 45 };
+    raw.layers[1].ks!.o = { a: 0 } as LottieProperty;
+
+    expect(problems(raw)).toEqual([
+      "error /layers/0/ks/p/k/1/t",
+      "error /layers/0/ks/r/k",
+      "error /layers/1/ks/o",
+    ]);
+  });
+
+  it("should warn about images that are not embedded and check embedded data", () => {
+    const raw = validSample();
+    raw.assets![1] = { id: "image_0", w: 4, h: 4, u: "images/", p: "img_0.png", e: 0 };
+    expect(validateLottie(raw)).toMatchObject({
+      valid: true,
+      warnings: 1,
+      diagnostics: [{ severity: "warning", pointer: "/assets/1/p", message: expect.stringContaining('"images/img_0.png"') }],
+    });
+
+    raw.assets![1] = { id: "image_0", w: 4, h: 4, u: "", p: "data:image/png;base64,", e: 1 };
+    expect(problems(raw)).toEqual(["error /assets/1/p"]);
+  });
+
+  it("should check text layers against the font list", () => {
+    const raw = validSample();
+    raw.fonts = { list: [{ fName: "Inter-Bold", fFamily: "Inter" }] };
+    raw.layers.push({ ty: 5, nm: "Title", ind: 5, ip: 0, op: 60, st: 0, ks: {}, t: { d: { k: [{ t: 0, s: { t: "Hi", f: "Roboto" } }] } } });
+
+    expect(problems(raw)).toEqual(["error /layers/4/t/d/k/0/s/f"]);
+  });
+});